@@ -0,0 +1,21 @@
+-- Instruments now carry the full property model (circuit, universe, address, gobo,
+-- template, accessory, wattage, unitNumber, purpose, notes, labelDisplay).
+-- Older plots showed "focus" as the instrument's purpose; copy it into "purpose"
+-- wherever purpose has not been set so existing reports and labels are unchanged.
+UPDATE "projects"
+SET "layers" = jsonb_set(
+	"layers",
+	'{instruments}',
+	(
+		SELECT jsonb_agg(
+			CASE
+				WHEN inst ? 'purpose' OR COALESCE(inst->>'focus', '') = '' THEN inst
+				ELSE inst || jsonb_build_object('purpose', inst->'focus')
+			END
+			ORDER BY ord
+		)
+		FROM jsonb_array_elements("layers"->'instruments') WITH ORDINALITY AS t(inst, ord)
+	)
+)
+WHERE jsonb_typeof("layers"->'instruments') = 'array'
+	AND jsonb_array_length("layers"->'instruments') > 0;
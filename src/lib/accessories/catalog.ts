@@ -0,0 +1,137 @@
+/**
+ * Accessory Catalog
+ *
+ * Typical power, weight and DMX use for each kind of accessory, and helpers
+ * that combine them with the values set on an instrument's accessory. An
+ * accessory's own wattage and weight override the catalog's, and both scale
+ * with its quantity.
+ */
+
+import type {
+	AccessoryType,
+	InstrumentAccessory,
+	InstrumentProperties
+} from '$lib/types/instrument';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Catalog entry for a kind of accessory
+ */
+export interface AccessoryDefinition {
+	/** Display name */
+	name: string;
+	/** DMX addresses the accessory uses, or null for a passive accessory */
+	footprint: number | null;
+	/** Typical power draw of one accessory in watts */
+	wattage: number;
+	/** Typical weight of one accessory in kilograms */
+	weight: number;
+}
+
+/**
+ * How many of one accessory a set of instruments uses
+ */
+export interface AccessoryCount {
+	type: AccessoryType;
+	/** Display name (the accessory's own name, else the catalog's) */
+	name: string;
+	quantity: number;
+}
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+/** Catalog entries, in the order accessories are listed */
+export const ACCESSORY_CATALOG: Record<AccessoryType, AccessoryDefinition> = {
+	scroller: { name: 'Scroller', footprint: 1, wattage: 30, weight: 2.5 },
+	'gobo-rotator': { name: 'Gobo rotator', footprint: 2, wattage: 10, weight: 0.9 },
+	iris: { name: 'Iris', footprint: null, wattage: 0, weight: 0.3 },
+	'top-hat': { name: 'Top hat', footprint: null, wattage: 0, weight: 0.5 },
+	'half-hat': { name: 'Half hat', footprint: null, wattage: 0, weight: 0.4 },
+	'barn-doors': { name: 'Barn doors', footprint: null, wattage: 0, weight: 1.2 },
+	other: { name: 'Other', footprint: null, wattage: 0, weight: 0 }
+};
+
+/** Every accessory type, in catalog order */
+export const ACCESSORY_TYPES = Object.keys(ACCESSORY_CATALOG) as AccessoryType[];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Display name of an accessory: its own name, else the catalog's
+ */
+export function getAccessoryName(accessory: InstrumentAccessory): string {
+	return accessory.name || ACCESSORY_CATALOG[accessory.type].name;
+}
+
+/**
+ * Number of the accessory fitted
+ */
+export function getAccessoryQuantity(accessory: InstrumentAccessory): number {
+	return accessory.quantity ?? 1;
+}
+
+/**
+ * Total power draw of an accessory entry in watts (all of its quantity)
+ */
+export function getAccessoryWattage(accessory: InstrumentAccessory): number {
+	const each = accessory.wattage ?? ACCESSORY_CATALOG[accessory.type].wattage;
+	return each * getAccessoryQuantity(accessory);
+}
+
+/**
+ * Total weight of an accessory entry in kilograms (all of its quantity)
+ */
+export function getAccessoryWeight(accessory: InstrumentAccessory): number {
+	const each = accessory.weight ?? ACCESSORY_CATALOG[accessory.type].weight;
+	return each * getAccessoryQuantity(accessory);
+}
+
+/**
+ * DMX addresses an accessory uses, or null if it is passive
+ */
+export function getAccessoryFootprint(accessory: InstrumentAccessory): number | null {
+	return ACCESSORY_CATALOG[accessory.type].footprint;
+}
+
+/**
+ * Describe an instrument's accessories for a report cell, e.g. "Scroller, 2× Top hat".
+ * Free-text accessory notes follow the fitted accessories.
+ */
+export function formatAccessories(instrument: InstrumentProperties): string | null {
+	const items = (instrument.accessories ?? []).map((accessory) => {
+		const quantity = getAccessoryQuantity(accessory);
+		return `${quantity > 1 ? `${quantity}× ` : ''}${getAccessoryName(accessory)}`;
+	});
+	if (instrument.accessory) items.push(instrument.accessory);
+	return items.length > 0 ? items.join(', ') : null;
+}
+
+/**
+ * Count the accessories fitted to a set of instruments, by type and name,
+ * in catalog order
+ */
+export function countAccessories(instruments: readonly InstrumentProperties[]): AccessoryCount[] {
+	const counts = new Map<string, AccessoryCount>();
+	for (const instrument of instruments) {
+		for (const accessory of instrument.accessories ?? []) {
+			const name = getAccessoryName(accessory);
+			const key = `${accessory.type}:${name}`;
+			const count = counts.get(key) ?? { type: accessory.type, name, quantity: 0 };
+			count.quantity += getAccessoryQuantity(accessory);
+			counts.set(key, count);
+		}
+	}
+
+	return [...counts.values()].sort(
+		(a, b) =>
+			ACCESSORY_TYPES.indexOf(a.type) - ACCESSORY_TYPES.indexOf(b.type) ||
+			a.name.localeCompare(b.name)
+	);
+}
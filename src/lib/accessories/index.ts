@@ -0,0 +1,22 @@
+/**
+ * Accessories
+ *
+ * Devices fitted to instruments (scrollers, gobo rotators, top hats, barn
+ * doors, ...): their catalog of typical power, weight and DMX use, and the
+ * helpers reports use to total and describe them.
+ */
+
+// Catalog
+export { ACCESSORY_CATALOG, ACCESSORY_TYPES, type AccessoryDefinition } from './catalog';
+
+// Helpers
+export {
+	getAccessoryName,
+	getAccessoryQuantity,
+	getAccessoryWattage,
+	getAccessoryWeight,
+	getAccessoryFootprint,
+	formatAccessories,
+	countAccessories,
+	type AccessoryCount
+} from './catalog';
@@ -0,0 +1,42 @@
+/**
+ * Collaboration module
+ *
+ * Live co-editing: edits, presence, cursors and selections are shared between
+ * sessions with the same project open.
+ *
+ * The relay itself (./server) runs in Node and is mounted by vite.config.ts;
+ * it is not exported here so browser code never imports it.
+ */
+
+// Protocol shared with the relay
+export {
+	// Types
+	type CollabUser,
+	type CollabAccess,
+	type CollabPoint,
+	type PeerPresence,
+	type ClientMessage,
+	type ServerMessage,
+	// Constants
+	COLLAB_PATH,
+	MAX_MESSAGE_BYTES,
+	// Helpers
+	getCollabAccessPath,
+	parseChannelPath
+} from './protocol';
+
+// Client session
+export {
+	// Types
+	type CollabStatus,
+	type CollabConnectOptions,
+	// Class
+	CollabSession,
+	// Helpers
+	getPeerColor,
+	// Factory function
+	createCollabSession,
+	// Singleton helpers
+	getCollabSession,
+	disposeCollabSession
+} from './session.svelte';
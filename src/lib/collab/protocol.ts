@@ -0,0 +1,105 @@
+/**
+ * Collaboration Protocol
+ *
+ * Messages exchanged over the collaboration WebSocket. Each project has its
+ * own channel at `${COLLAB_PATH}/<projectId>`; the relay forwards edits and
+ * presence between every session connected to the same project.
+ *
+ * Shared by the browser client and the relay server, so this module must only
+ * use relative and type-only imports (it is loaded from vite.config.ts).
+ */
+
+import type { ProjectChange } from '../stores/project.svelte';
+import type { ProjectRole } from '../collaborators';
+import type { OperationBatch } from '../sync/operations';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** URL path prefix for project channels */
+export const COLLAB_PATH = '/collab';
+
+/** Largest message the relay accepts, in bytes */
+export const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A user taking part in a session
+ */
+export interface CollabUser {
+	id: string;
+	name: string;
+}
+
+/**
+ * Who a session belongs to and what they may do, from the session cookie of
+ * the WebSocket upgrade. Only editors and owners can send changes.
+ */
+export interface CollabAccess {
+	user: CollabUser;
+	role: ProjectRole;
+}
+
+/**
+ * A point in world coordinates
+ */
+export interface CollabPoint {
+	x: number;
+	y: number;
+}
+
+/**
+ * What one session shares about itself
+ */
+export interface PeerPresence {
+	/** Unique per connection (one user can have several tabs open) */
+	sessionId: string;
+	user: CollabUser;
+	/** Cursor position on the plot, or null when outside the viewport */
+	cursor: CollabPoint | null;
+	/** IDs of selected objects */
+	selection: string[];
+}
+
+/**
+ * Messages sent by the browser
+ */
+export type ClientMessage =
+	| { type: 'hello' }
+	| { type: 'presence'; cursor: CollabPoint | null; selection: string[] }
+	| { type: 'changes'; changes: ProjectChange[] }
+	/** An operation batch this session saved, producing server `version` */
+	| { type: 'saved'; version: number; batch: OperationBatch };
+
+/**
+ * Messages sent by the relay
+ */
+export type ServerMessage =
+	| { type: 'welcome'; sessionId: string; peers: PeerPresence[] }
+	| { type: 'peer-joined'; peer: PeerPresence }
+	| { type: 'peer-left'; sessionId: string }
+	| { type: 'presence'; sessionId: string; cursor: CollabPoint | null; selection: string[] }
+	| { type: 'changes'; sessionId: string; changes: ProjectChange[] }
+	| { type: 'saved'; sessionId: string; version: number; batch: OperationBatch };
+
+/**
+ * API path that reports a user's access to a project's channel
+ */
+export function getCollabAccessPath(projectId: string): string {
+	return `/api/projects/${encodeURIComponent(projectId)}/collab`;
+}
+
+/**
+ * Get the project ID from a channel URL path, or null if it is not a channel
+ */
+export function parseChannelPath(pathname: string): string | null {
+	const prefix = `${COLLAB_PATH}/`;
+	if (!pathname.startsWith(prefix)) return null;
+
+	const projectId = decodeURIComponent(pathname.slice(prefix.length));
+	return projectId.length > 0 && !projectId.includes('/') ? projectId : null;
+}
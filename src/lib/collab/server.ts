@@ -0,0 +1,364 @@
+/**
+ * Collaboration Relay Server
+ *
+ * A small WebSocket relay for live co-editing. It keeps one room per project
+ * and forwards edits and presence between the sessions in that room. Nothing
+ * is stored here: each client still persists through the normal sync API.
+ *
+ * The relay attaches to a Node HTTP server. vite.config.ts mounts it on the
+ * dev and preview servers, so collaboration can be tried locally by opening
+ * the same project in two browsers.
+ *
+ * Upgrades must come from a page on the same origin. Each one is then
+ * authenticated from its session cookie by asking the app's collaboration
+ * access route (which checks the project role like any other project route),
+ * since this module is loaded outside SvelteKit and cannot reach the database
+ * itself. Anyone with access can join and share presence; only editors and
+ * owners have their changes and saves relayed. Access is checked again every
+ * few seconds while a session is open, so a collaborator who is removed is
+ * disconnected and one who becomes a viewer stops having edits relayed.
+ */
+
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { TLSSocket } from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { hasProjectRole, isProjectRole } from '../collaborators';
+import {
+	MAX_MESSAGE_BYTES,
+	getCollabAccessPath,
+	parseChannelPath,
+	type ClientMessage,
+	type CollabAccess,
+	type PeerPresence,
+	type ServerMessage
+} from './protocol';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How often an open session's access is checked again, in milliseconds */
+const ACCESS_RECHECK_MS = 5000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A connected session
+ */
+interface Session {
+	socket: WebSocket;
+	/** Authenticated user and their role on the project, refreshed while open */
+	access: CollabAccess;
+	/** Null until the client has sent `hello` */
+	presence: PeerPresence | null;
+}
+
+/**
+ * Handle returned by attachCollabServer
+ */
+export interface CollabServer {
+	/** Number of sessions connected to a project */
+	getSessionCount(projectId: string): number;
+	/** Disconnect everyone and detach from the HTTP server */
+	close(): void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Send a message if the socket is still open
+ */
+function send(socket: WebSocket, message: ServerMessage): void {
+	if (socket.readyState === WebSocket.OPEN) {
+		socket.send(JSON.stringify(message));
+	}
+}
+
+/**
+ * Check that a presence cursor is null or a point with finite coordinates
+ */
+function isValidCursor(cursor: unknown): boolean {
+	if (cursor === null) return true;
+	if (typeof cursor !== 'object') return false;
+	const { x, y } = cursor as Record<string, unknown>;
+	return Number.isFinite(x) && Number.isFinite(y);
+}
+
+/**
+ * Parse a client message, returning null for anything malformed
+ */
+function parseClientMessage(data: RawData): ClientMessage | null {
+	try {
+		const message = JSON.parse(data.toString()) as ClientMessage;
+		switch (message?.type) {
+			case 'hello':
+				return message;
+			case 'presence':
+				return isValidCursor(message.cursor) &&
+					Array.isArray(message.selection) &&
+					message.selection.every((id) => typeof id === 'string')
+					? {
+							type: 'presence',
+							cursor: message.cursor && { x: message.cursor.x, y: message.cursor.y },
+							selection: message.selection
+						}
+					: null;
+			case 'changes':
+				return Array.isArray(message.changes) ? message : null;
+			case 'saved':
+				return Number.isInteger(message.version) &&
+					typeof message.batch === 'object' &&
+					message.batch !== null
+					? { type: 'saved', version: message.version, batch: message.batch }
+					: null;
+			default:
+				return null;
+		}
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Origin the HTTP server is reachable at from this process
+ */
+function getServerOrigin(httpServer: Server, request: IncomingMessage): string | null {
+	const address = httpServer.address();
+	if (!address || typeof address === 'string') return null;
+
+	const protocol = (request.socket as TLSSocket).encrypted ? 'https' : 'http';
+	const host =
+		address.address === '::' || address.address === '0.0.0.0'
+			? 'localhost'
+			: address.family === 'IPv6'
+				? `[${address.address}]`
+				: address.address;
+	return `${protocol}://${host}:${address.port}`;
+}
+
+/**
+ * Look up the user behind an upgrade request and their role on the project.
+ * Returns null if the request is not signed in or has no access.
+ * Called again while the session is open, with the same request.
+ */
+async function authorizeUpgrade(
+	httpServer: Server,
+	request: IncomingMessage,
+	projectId: string
+): Promise<CollabAccess | null> {
+	const cookie = request.headers.cookie;
+	const origin = getServerOrigin(httpServer, request);
+	if (!cookie || !origin) return null;
+
+	try {
+		const response = await fetch(`${origin}${getCollabAccessPath(projectId)}`, {
+			headers: { cookie }
+		});
+		if (!response.ok) return null;
+
+		const access = (await response.json()) as CollabAccess;
+		return typeof access?.user?.id === 'string' &&
+			typeof access.user.name === 'string' &&
+			isProjectRole(access.role)
+			? access
+			: null;
+	} catch (error) {
+		console.error('[Collab] Failed to check access:', error);
+		return null;
+	}
+}
+
+/**
+ * Check that an upgrade comes from a page served by this server.
+ * Browsers send the session cookie with WebSocket requests from any site, so
+ * without this another site could join a project as the signed-in user.
+ */
+function isSameOriginUpgrade(request: IncomingMessage): boolean {
+	const { origin, host } = request.headers;
+	if (!origin || !host) return false;
+
+	try {
+		const url = new URL(origin);
+		const protocol = (request.socket as TLSSocket).encrypted ? 'https:' : 'http:';
+		return url.protocol === protocol && url.host === host;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Refuse an upgrade request before it becomes a WebSocket
+ */
+function rejectUpgrade(socket: Duplex, status: '401 Unauthorized' | '403 Forbidden'): void {
+	socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+}
+
+// ============================================================================
+// Relay
+// ============================================================================
+
+/**
+ * Attach the collaboration relay to an HTTP server.
+ * Upgrade requests outside COLLAB_PATH (e.g. Vite HMR) are left alone.
+ */
+export function attachCollabServer(httpServer: Server): CollabServer {
+	const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+	const rooms = new Map<string, Map<string, Session>>();
+
+	/** Send a message to everyone in a room except one session */
+	function broadcast(projectId: string, fromSessionId: string, message: ServerMessage): void {
+		for (const [sessionId, session] of rooms.get(projectId) ?? []) {
+			if (sessionId !== fromSessionId && session.presence) {
+				send(session.socket, message);
+			}
+		}
+	}
+
+	function handleConnection(
+		socket: WebSocket,
+		request: IncomingMessage,
+		projectId: string,
+		access: CollabAccess
+	): void {
+		const sessionId = randomUUID();
+		const session: Session = { socket, access, presence: null };
+
+		let room = rooms.get(projectId);
+		if (!room) {
+			room = new Map();
+			rooms.set(projectId, room);
+		}
+		room.set(sessionId, session);
+
+		// Pick up role changes and removals without waiting for a reconnect
+		let checking = false;
+		const recheck = setInterval(async () => {
+			if (checking) return;
+			checking = true;
+			const current = await authorizeUpgrade(httpServer, request, projectId);
+			checking = false;
+			if (!current || current.user.id !== session.access.user.id) {
+				socket.close(1008, 'Access revoked');
+				return;
+			}
+			session.access = current;
+		}, ACCESS_RECHECK_MS);
+
+		socket.on('message', (data) => {
+			const message = parseClientMessage(data);
+			if (!message) return;
+
+			if (message.type === 'hello') {
+				if (session.presence) return;
+				session.presence = {
+					sessionId,
+					user: session.access.user,
+					cursor: null,
+					selection: []
+				};
+
+				const peers = [...room.values()]
+					.filter((other) => other !== session && other.presence)
+					.map((other) => other.presence!);
+				send(socket, { type: 'welcome', sessionId, peers });
+				broadcast(projectId, sessionId, { type: 'peer-joined', peer: session.presence });
+				return;
+			}
+
+			// Everything else requires a hello first
+			if (!session.presence) return;
+
+			if (message.type === 'presence') {
+				session.presence = {
+					...session.presence,
+					cursor: message.cursor,
+					selection: message.selection
+				};
+				broadcast(projectId, sessionId, {
+					type: 'presence',
+					sessionId,
+					cursor: message.cursor,
+					selection: message.selection
+				});
+				return;
+			}
+
+			// Edits and saves are only relayed from editors and owners
+			if (!hasProjectRole(session.access.role, 'editor')) return;
+
+			if (message.type === 'changes') {
+				broadcast(projectId, sessionId, {
+					type: 'changes',
+					sessionId,
+					changes: message.changes
+				});
+			} else {
+				broadcast(projectId, sessionId, {
+					type: 'saved',
+					sessionId,
+					version: message.version,
+					batch: message.batch
+				});
+			}
+		});
+
+		socket.on('close', () => {
+			clearInterval(recheck);
+			room.delete(sessionId);
+			if (room.size === 0) {
+				rooms.delete(projectId);
+			}
+			if (session.presence) {
+				broadcast(projectId, sessionId, { type: 'peer-left', sessionId });
+			}
+		});
+
+		socket.on('error', (error) => {
+			console.error('[Collab] Socket error:', error);
+		});
+	}
+
+	function handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+		const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+		const projectId = parseChannelPath(pathname);
+		if (!projectId) return;
+
+		if (!isSameOriginUpgrade(request)) {
+			rejectUpgrade(socket, '403 Forbidden');
+			return;
+		}
+
+		authorizeUpgrade(httpServer, request, projectId).then((access) => {
+			if (socket.destroyed) return;
+			if (!access) {
+				rejectUpgrade(socket, '401 Unauthorized');
+				return;
+			}
+			wss.handleUpgrade(request, socket, head, (ws) =>
+				handleConnection(ws, request, projectId, access)
+			);
+		});
+	}
+
+	httpServer.on('upgrade', handleUpgrade);
+
+	return {
+		getSessionCount(projectId: string): number {
+			return rooms.get(projectId)?.size ?? 0;
+		},
+		close(): void {
+			httpServer.off('upgrade', handleUpgrade);
+			for (const client of wss.clients) {
+				client.terminate();
+			}
+			rooms.clear();
+			wss.close();
+		}
+	};
+}
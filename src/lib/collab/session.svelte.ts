@@ -0,0 +1,439 @@
+/**
+ * CollabSession - Live co-editing for the open project
+ *
+ * Connects to the project's collaboration channel (see protocol.ts) and:
+ * - Broadcasts edits made through the project store's add/update/delete
+ *   functions, when the user can edit the project
+ * - Validates edits from other sessions and applies them to the local project store
+ * - Shares this session's cursor and selection, and tracks everyone else's
+ *
+ * Edits applied from other sessions mark the project dirty like any local
+ * edit, so whichever session saves first persists them. Each save is then
+ * announced on the channel, and the other sessions move their sync base and
+ * server version past it (see SyncManager.applyPeerSave), so their next write
+ * is based on the saved version instead of being rejected as stale.
+ *
+ * When no relay is reachable (e.g. on hosts without WebSocket support) the
+ * session gives up after a few attempts and the editor works as before.
+ */
+
+import { SvelteMap } from 'svelte/reactivity';
+import { project, type ProjectChange } from '$lib/stores/project.svelte';
+import { formatFieldErrors, projectChangeSchema, validate } from '$lib/schemas';
+import type { OperationBatch, SyncManager } from '$lib/sync';
+import {
+	COLLAB_PATH,
+	MAX_MESSAGE_BYTES,
+	type ClientMessage,
+	type CollabPoint,
+	type PeerPresence,
+	type ServerMessage
+} from './protocol';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Connection status */
+export type CollabStatus = 'disconnected' | 'connecting' | 'connected';
+
+/**
+ * Options for joining a project's channel
+ */
+export interface CollabConnectOptions {
+	/** Whether this user may edit the project (viewers only watch and share presence) */
+	canEdit: boolean;
+	/** Sync manager whose saves are announced, and which follows collaborators' saves */
+	sync?: SyncManager;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long edits are batched before sending */
+const CHANGE_FLUSH_MS = 50;
+
+/** Minimum interval between presence updates */
+const PRESENCE_THROTTLE_MS = 50;
+
+/** Delay before reconnecting (multiplied by the attempt number) */
+const RECONNECT_DELAY_MS = 1000;
+
+/** Reconnect attempts before giving up */
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+/** Colors assigned to collaborators (Catppuccin Mocha accents) */
+const PEER_COLORS = [
+	'#f38ba8', // red
+	'#fab387', // peach
+	'#f9e2af', // yellow
+	'#a6e3a1', // green
+	'#94e2d5', // teal
+	'#89b4fa', // blue
+	'#cba6f7', // mauve
+	'#f5c2e7' // pink
+];
+
+/**
+ * Get a stable color for a collaborator's session
+ */
+export function getPeerColor(sessionId: string): string {
+	let hash = 0;
+	for (let i = 0; i < sessionId.length; i++) {
+		hash = (hash * 31 + sessionId.charCodeAt(i)) | 0;
+	}
+	return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+// ============================================================================
+// CollabSession Implementation
+// ============================================================================
+
+/**
+ * CollabSession class - one connection to a project's collaboration channel
+ */
+export class CollabSession {
+	// ========================================================================
+	// State
+	// ========================================================================
+
+	/** Connection status */
+	private _status = $state<CollabStatus>('disconnected');
+
+	/** Other sessions in the project, keyed by session ID */
+	private _peers = new SvelteMap<string, PeerPresence>();
+
+	/** This session's ID, assigned by the relay */
+	private _sessionId = $state<string | null>(null);
+
+	/** Open socket, if any */
+	private socket: WebSocket | null = null;
+
+	/** Project this session is connected to */
+	private projectId: string | null = null;
+
+	/** Edits waiting to be sent, coalesced per object (internal, not reactive) */
+	// eslint-disable-next-line svelte/prefer-svelte-reactivity
+	private pendingChanges = new Map<string, ProjectChange>();
+	private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+	/** Latest local presence and when it was last sent */
+	private cursor: CollabPoint | null = null;
+	private selection: string[] = [];
+	private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+	private lastPresenceSentAt = 0;
+
+	/** Reconnect tracking */
+	private reconnectAttempts = 0;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+	/** Stop listening to the project store */
+	private unsubscribeChanges: (() => void) | null = null;
+
+	/** Sync manager for the connected project */
+	private sync: SyncManager | null = null;
+
+	/** Stop listening to the sync manager's saves */
+	private unsubscribeSaves: (() => void) | null = null;
+
+	// ========================================================================
+	// Reactive Getters
+	// ========================================================================
+
+	/** Connection status */
+	get status(): CollabStatus {
+		return this._status;
+	}
+
+	/** Other sessions in the project */
+	get peers(): PeerPresence[] {
+		return [...this._peers.values()];
+	}
+
+	/** This session's ID (null until connected) */
+	get sessionId(): string | null {
+		return this._sessionId;
+	}
+
+	// ========================================================================
+	// Connection
+	// ========================================================================
+
+	/**
+	 * Join a project's collaboration channel.
+	 * The relay identifies the user from their session cookie.
+	 */
+	connect(projectId: string, options: CollabConnectOptions): void {
+		if (this.projectId === projectId && this.socket) return;
+
+		this.disconnect();
+		this.projectId = projectId;
+		this.reconnectAttempts = 0;
+		this.sync = options.sync ?? null;
+		if (options.canEdit) {
+			this.unsubscribeChanges = project.onChange((change) => this.queueChange(change));
+			this.unsubscribeSaves =
+				this.sync?.onOperationsSaved((version, batch) => this.announceSave(version, batch)) ?? null;
+		}
+		this.openSocket();
+	}
+
+	/**
+	 * Leave the channel and stop broadcasting edits
+	 */
+	disconnect(): void {
+		this.unsubscribeChanges?.();
+		this.unsubscribeChanges = null;
+		this.unsubscribeSaves?.();
+		this.unsubscribeSaves = null;
+		this.sync = null;
+		this.cancelTimers();
+		this.pendingChanges.clear();
+
+		const socket = this.socket;
+		this.socket = null;
+		socket?.close();
+
+		this.projectId = null;
+		this._sessionId = null;
+		this._peers.clear();
+		this._status = 'disconnected';
+	}
+
+	// ========================================================================
+	// Presence
+	// ========================================================================
+
+	/**
+	 * Update this session's cursor (world coordinates, null when off the canvas)
+	 */
+	updateCursor(cursor: CollabPoint | null): void {
+		this.cursor = cursor;
+		this.schedulePresence();
+	}
+
+	/**
+	 * Update this session's selection
+	 */
+	updateSelection(selection: string[]): void {
+		this.selection = [...selection];
+		this.schedulePresence();
+	}
+
+	// ========================================================================
+	// Private Methods - Socket
+	// ========================================================================
+
+	/** Open the WebSocket for the current project */
+	private openSocket(): void {
+		if (!this.projectId || typeof window === 'undefined') return;
+
+		const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+		const url = `${protocol}//${window.location.host}${COLLAB_PATH}/${encodeURIComponent(this.projectId)}`;
+		const socket = new WebSocket(url);
+		this.socket = socket;
+		this._status = 'connecting';
+
+		socket.addEventListener('open', () => {
+			if (this.socket !== socket) return;
+			this.send({ type: 'hello' });
+		});
+
+		socket.addEventListener('message', (event) => {
+			if (this.socket !== socket) return;
+			try {
+				this.handleMessage(JSON.parse(event.data) as ServerMessage);
+			} catch (error) {
+				console.error('[CollabSession] Failed to handle message:', error);
+			}
+		});
+
+		socket.addEventListener('close', () => {
+			if (this.socket !== socket) return;
+			this.socket = null;
+			this._sessionId = null;
+			this._peers.clear();
+			this._status = 'disconnected';
+			this.scheduleReconnect();
+		});
+	}
+
+	/** Send a message if connected */
+	private send(message: ClientMessage): void {
+		if (this.socket?.readyState === WebSocket.OPEN) {
+			this.socket.send(JSON.stringify(message));
+		}
+	}
+
+	/** Handle a message from the relay */
+	private handleMessage(message: ServerMessage): void {
+		switch (message.type) {
+			case 'welcome':
+				this._sessionId = message.sessionId;
+				this._status = 'connected';
+				this.reconnectAttempts = 0;
+				this._peers.clear();
+				for (const peer of message.peers) {
+					this._peers.set(peer.sessionId, peer);
+				}
+				// Share where we are and send anything edited while disconnected
+				this.sendPresence();
+				this.flushChanges();
+				break;
+
+			case 'peer-joined':
+				this._peers.set(message.peer.sessionId, message.peer);
+				break;
+
+			case 'peer-left':
+				this._peers.delete(message.sessionId);
+				break;
+
+			case 'presence': {
+				const peer = this._peers.get(message.sessionId);
+				if (peer) {
+					this._peers.set(message.sessionId, {
+						...peer,
+						cursor: message.cursor,
+						selection: message.selection
+					});
+				}
+				break;
+			}
+
+			case 'changes':
+				for (const change of message.changes) {
+					const result = validate(projectChangeSchema, change);
+					if (!result.success) {
+						console.warn(
+							'[CollabSession] Ignoring invalid change:',
+							formatFieldErrors(result.errors)
+						);
+						continue;
+					}
+					project.applyRemoteChange(result.value);
+				}
+				break;
+
+			case 'saved':
+				this.sync?.applyPeerSave(message.version, message.batch);
+				break;
+		}
+	}
+
+	/** Try to reconnect after the socket closed unexpectedly */
+	private scheduleReconnect(): void {
+		if (!this.projectId || this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) return;
+
+		this.reconnectAttempts++;
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			this.openSocket();
+		}, RECONNECT_DELAY_MS * this.reconnectAttempts);
+	}
+
+	// ========================================================================
+	// Private Methods - Outgoing Updates
+	// ========================================================================
+
+	/** Queue a local edit, keeping only the latest change per object */
+	private queueChange(change: ProjectChange): void {
+		const key =
+			change.type === 'venue' ? 'venue' : change.type === 'put' ? change.object.id : change.id;
+		this.pendingChanges.set(key, change);
+
+		if (!this.flushTimer) {
+			this.flushTimer = setTimeout(() => {
+				this.flushTimer = null;
+				this.flushChanges();
+			}, CHANGE_FLUSH_MS);
+		}
+	}
+
+	/** Tell the other sessions about a batch this session saved */
+	private announceSave(version: number, batch: OperationBatch): void {
+		// Edits queued before the save have to reach peers before it does
+		this.flushChanges();
+
+		const message: ClientMessage = { type: 'saved', version, batch };
+		// The relay drops the connection for oversized messages; peers then just merge
+		if (new TextEncoder().encode(JSON.stringify(message)).length > MAX_MESSAGE_BYTES) return;
+		this.send(message);
+	}
+
+	/** Send queued edits */
+	private flushChanges(): void {
+		if (this.pendingChanges.size === 0 || this._status !== 'connected') return;
+
+		// Plain copies - store objects may be reactive proxies
+		const changes = JSON.parse(JSON.stringify([...this.pendingChanges.values()]));
+		this.pendingChanges.clear();
+		this.send({ type: 'changes', changes });
+	}
+
+	/** Send presence, throttled */
+	private schedulePresence(): void {
+		if (this.presenceTimer) return;
+
+		const wait = Math.max(0, this.lastPresenceSentAt + PRESENCE_THROTTLE_MS - Date.now());
+		this.presenceTimer = setTimeout(() => {
+			this.presenceTimer = null;
+			this.sendPresence();
+		}, wait);
+	}
+
+	/** Send presence now */
+	private sendPresence(): void {
+		this.lastPresenceSentAt = Date.now();
+		this.send({ type: 'presence', cursor: this.cursor, selection: this.selection });
+	}
+
+	/** Cancel all timers */
+	private cancelTimers(): void {
+		for (const timer of [this.flushTimer, this.presenceTimer, this.reconnectTimer]) {
+			if (timer) clearTimeout(timer);
+		}
+		this.flushTimer = null;
+		this.presenceTimer = null;
+		this.reconnectTimer = null;
+	}
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new CollabSession instance
+ */
+export function createCollabSession(): CollabSession {
+	return new CollabSession();
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+/** Default CollabSession instance */
+let defaultInstance: CollabSession | null = null;
+
+/**
+ * Get or create the default CollabSession instance
+ */
+export function getCollabSession(): CollabSession {
+	if (!defaultInstance) {
+		defaultInstance = createCollabSession();
+	}
+	return defaultInstance;
+}
+
+/**
+ * Disconnect and release the default CollabSession instance
+ */
+export function disposeCollabSession(): void {
+	if (defaultInstance) {
+		defaultInstance.disconnect();
+		defaultInstance = null;
+	}
+}
@@ -0,0 +1,109 @@
+/**
+ * Project Collaborators
+ *
+ * Roles, types and helpers shared by the project API routes, the dashboard
+ * and the editor's collaborators dialog.
+ *
+ * Server-only helpers (access checks, invitation validation) live in ./server.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a person may do with a project, from least to most access:
+ * - viewer: open the project, run reports, duplicate it into their own projects
+ * - commenter: everything a viewer can, plus comments once they exist
+ * - editor: change the project
+ * - owner: manage collaborators and share links, delete the project
+ */
+export type ProjectRole = 'viewer' | 'commenter' | 'editor' | 'owner';
+
+/** Roles that can be given to an invited collaborator */
+export const PROJECT_ROLES: readonly ProjectRole[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+/**
+ * A collaborator (or pending invitation) as returned by the collaborators API
+ */
+export interface Collaborator {
+	id: string;
+	email: string;
+	/** Display name once the invitation has been accepted */
+	name: string | null;
+	role: ProjectRole;
+	/** Whether the invitation is still waiting to be accepted */
+	pending: boolean;
+	createdAt: string;
+}
+
+/**
+ * Everyone with access to a project
+ */
+export interface ProjectCollaborators {
+	/** The person who created the project */
+	owner: { id: string; name: string; email: string };
+	collaborators: Collaborator[];
+	/** The requesting user's role */
+	role: ProjectRole;
+}
+
+/**
+ * A pending invitation as shown to the invitee
+ */
+export interface ProjectInvitation {
+	id: string;
+	projectId: string;
+	projectName: string;
+	role: ProjectRole;
+	invitedBy: string | null;
+	createdAt: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Display names for roles */
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+	viewer: 'Viewer',
+	commenter: 'Commenter',
+	editor: 'Editor',
+	owner: 'Owner'
+};
+
+/** Rank of each role; a higher rank includes everything below it */
+const ROLE_RANK: Record<ProjectRole, number> = {
+	viewer: 0,
+	commenter: 1,
+	editor: 2,
+	owner: 3
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a value is a known role
+ */
+export function isProjectRole(value: unknown): value is ProjectRole {
+	return typeof value === 'string' && (PROJECT_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a role includes the access of another role
+ */
+export function hasProjectRole(
+	role: ProjectRole | null | undefined,
+	required: ProjectRole
+): boolean {
+	return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Normalize an email address for matching invitations to users
+ */
+export function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase();
+}
@@ -0,0 +1,158 @@
+/**
+ * Server-side collaborator utilities
+ *
+ * Looks up what a user may do with a project and validates invitations.
+ * Every project API route checks access through getProjectAccess so roles
+ * are enforced the same way everywhere. Only import from server code.
+ */
+import { db } from '$lib/db';
+import {
+	projects,
+	projectCollaborators,
+	type Project,
+	type ProjectCollaborator
+} from '$lib/db/schema';
+import { eq, and, or, isNotNull } from 'drizzle-orm';
+import { isProjectRole, normalizeEmail, type Collaborator, type ProjectRole } from './index';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Longest email address accepted for an invitation (matches users.email) */
+const EMAIL_MAX_LENGTH = 255;
+
+/** Loose check that a string looks like an email address */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================================================
+// Access
+// ============================================================================
+
+/**
+ * A project together with the requesting user's role on it
+ */
+export interface ProjectAccess {
+	project: Project;
+	role: ProjectRole;
+}
+
+/**
+ * Join condition for the user's accepted collaborator row on a project.
+ * Use with a left join from projects.
+ */
+export function collaboratorJoin(userId: string) {
+	return and(
+		eq(projectCollaborators.projectId, projects.id),
+		eq(projectCollaborators.userId, userId)
+	);
+}
+
+/**
+ * Filter for projects the user owns or collaborates on (needs collaboratorJoin)
+ */
+export function accessibleBy(userId: string) {
+	return or(eq(projects.userId, userId), isNotNull(projectCollaborators.id));
+}
+
+/**
+ * The user's role on a project from its owner and their collaborator row
+ */
+export function resolveProjectRole(
+	ownerId: string,
+	collaboratorRole: string | null,
+	userId: string
+): ProjectRole | null {
+	if (ownerId === userId) return 'owner';
+	return isProjectRole(collaboratorRole) ? collaboratorRole : null;
+}
+
+/**
+ * Load a project and the user's role on it.
+ * Returns null if the project does not exist or the user has no access, so
+ * routes can answer 404 without revealing that the project exists.
+ */
+export async function getProjectAccess(
+	projectId: string,
+	userId: string
+): Promise<ProjectAccess | null> {
+	const [row] = await db
+		.select({ project: projects, collaboratorRole: projectCollaborators.role })
+		.from(projects)
+		.leftJoin(projectCollaborators, collaboratorJoin(userId))
+		.where(eq(projects.id, projectId))
+		.limit(1);
+
+	if (!row) return null;
+
+	const role = resolveProjectRole(row.project.userId, row.collaboratorRole, userId);
+	return role ? { project: row.project, role } : null;
+}
+
+/**
+ * Everyone working on a project: its owner and every collaborator who has
+ * accepted an invitation
+ */
+export async function getProjectMemberIds(
+	project: Pick<Project, 'id' | 'userId'>
+): Promise<string[]> {
+	const rows = await db
+		.select({ userId: projectCollaborators.userId })
+		.from(projectCollaborators)
+		.where(
+			and(eq(projectCollaborators.projectId, project.id), isNotNull(projectCollaborators.userId))
+		);
+
+	const memberIds = rows.flatMap((row) => (row.userId ? [row.userId] : []));
+	return [project.userId, ...memberIds];
+}
+
+// ============================================================================
+// API Helpers
+// ============================================================================
+
+/**
+ * Convert a collaborator row to the shape returned by the API
+ */
+export function toCollaborator(
+	collaborator: ProjectCollaborator,
+	name: string | null = null
+): Collaborator {
+	return {
+		id: collaborator.id,
+		email: collaborator.email,
+		name,
+		role: collaborator.role as ProjectRole,
+		pending: collaborator.userId === null,
+		createdAt: collaborator.createdAt.toISOString()
+	};
+}
+
+/**
+ * Validated invitation from a request body
+ */
+export interface InvitationInput {
+	email: string;
+	role: ProjectRole;
+}
+
+/**
+ * Validate an invitation from a request body.
+ * Returns the invitation, or an error message for a 400 response.
+ */
+export function parseInvitation(body: unknown): InvitationInput | string {
+	if (typeof body !== 'object' || body === null) {
+		return 'Invalid request body';
+	}
+	const { email, role } = body as Record<string, unknown>;
+
+	if (typeof email !== 'string') return 'email is required';
+	const normalized = normalizeEmail(email);
+	if (normalized.length > EMAIL_MAX_LENGTH || !EMAIL_PATTERN.test(normalized)) {
+		return 'email must be a valid email address';
+	}
+
+	if (!isProjectRole(role)) return 'role must be viewer, commenter, editor or owner';
+
+	return { email: normalized, role };
+}
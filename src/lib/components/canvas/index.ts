@@ -9,6 +9,7 @@ export { default as CanvasContainer } from './CanvasContainer.svelte';
 export { default as Grid } from './Grid.svelte';
 export { default as SelectableObject } from './SelectableObject.svelte';
 export { default as HangingPosition } from './HangingPosition.svelte';
+export { default as FocusHandle } from './FocusHandle.svelte';
 export { SelectionOverlay, ToolOverlay } from './overlays';
 export { Line, Rectangle, Circle } from './shapes';
 export { DrawingLayer } from './layers';
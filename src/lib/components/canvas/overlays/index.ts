@@ -6,3 +6,4 @@
 
 export { default as SelectionOverlay } from './SelectionOverlay.svelte';
 export { default as ToolOverlay } from './ToolOverlay.svelte';
+export { default as PresenceOverlay } from './PresenceOverlay.svelte';
@@ -6,3 +6,6 @@
 
 export { default as InstrumentSymbol } from './InstrumentSymbol.svelte';
 export { default as InstrumentLabel } from './InstrumentLabel.svelte';
+export { default as PatchBadge } from './PatchBadge.svelte';
+export { default as PowerBadge } from './PowerBadge.svelte';
+export { default as BeamPool } from './BeamPool.svelte';
@@ -9,6 +9,8 @@ export { default as NumberInput } from './NumberInput.svelte';
 export { default as TextInput } from './TextInput.svelte';
 export { default as SelectDropdown } from './SelectDropdown.svelte';
 export { default as ColorInput } from './ColorInput.svelte';
+export { default as GelInput } from './GelInput.svelte';
+export { default as GoboInput } from './GoboInput.svelte';
 export { default as Checkbox } from './Checkbox.svelte';
 export { default as Slider } from './Slider.svelte';
 export { default as CollapsibleSection } from './CollapsibleSection.svelte';
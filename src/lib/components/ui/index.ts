@@ -21,6 +21,16 @@ export { default as CloneProjectDialog } from './CloneProjectDialog.svelte';
 export { default as DeleteProjectDialog } from './DeleteProjectDialog.svelte';
 export { default as OfflineIndicator } from './OfflineIndicator.svelte';
 export { default as SaveStateIndicator } from './SaveStateIndicator.svelte';
+export { default as PresenceList } from './PresenceList.svelte';
+export { default as ReadOnlyBanner } from './ReadOnlyBanner.svelte';
+export { default as ShareDialog } from './ShareDialog.svelte';
+export { default as CollaboratorsDialog } from './CollaboratorsDialog.svelte';
+export { default as FixtureLibraryDialog } from './FixtureLibraryDialog.svelte';
+export { default as AutoPatchDialog } from './AutoPatchDialog.svelte';
+export { default as PowerDistributionDialog } from './PowerDistributionDialog.svelte';
+export { default as RenumberUnitsDialog } from './RenumberUnitsDialog.svelte';
+export { default as ChannelAssignmentDialog } from './ChannelAssignmentDialog.svelte';
+export { default as GoboPreview } from './GoboPreview.svelte';
 
 // Re-export form components (wrapper components with app-specific APIs)
 export * from './forms';
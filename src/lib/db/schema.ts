@@ -10,7 +10,16 @@
  * - Undo/redo (snapshot entire state)
  * - Offline sync (one blob vs multi-table transactions)
  */
-import { pgTable, uuid, varchar, timestamp, jsonb, integer } from 'drizzle-orm/pg-core';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	timestamp,
+	jsonb,
+	integer,
+	boolean,
+	unique
+} from 'drizzle-orm/pg-core';
 
 /**
  * Users table - stores user account information
@@ -35,6 +44,11 @@ export const users = pgTable('users', {
  * - instruments: Lighting fixtures
  * - setPieces: Scenic elements
  * - annotations: Text labels, dimensions, notes
+ * - schemaVersion: Document schema version; older documents are upgraded
+ *   through the registry in $lib/sync/migrations when loaded
+ *
+ * `sharingEnabled` is the owner's master switch for share links (off by default);
+ * the links themselves live in project_shares.
  */
 export const projects = pgTable('projects', {
 	id: uuid('id').primaryKey().defaultRandom(),
@@ -47,6 +61,7 @@ export const projects = pgTable('projects', {
 	layers: jsonb('layers'),
 	metadata: jsonb('metadata'),
 	version: integer('version').notNull().default(1),
+	sharingEnabled: boolean('sharing_enabled').notNull().default(false),
 	createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 	updatedAt: timestamp('updated_at', { withTimezone: true })
 		.notNull()
@@ -89,3 +104,92 @@ export const layerTemplates = pgTable('layer_templates', {
 
 export type LayerTemplate = typeof layerTemplates.$inferSelect;
 export type NewLayerTemplate = typeof layerTemplates.$inferInsert;
+
+/**
+ * Project Shares table - read-only links to the public project view
+ *
+ * A link only works while the project has sharing enabled, the link has not
+ * been revoked and its optional expiry has not passed. Links with a password
+ * store a salted hash (see $lib/sharing/server).
+ */
+export const projectShares = pgTable('project_shares', {
+	id: uuid('id').primaryKey().defaultRandom(),
+	projectId: uuid('project_id')
+		.notNull()
+		.references(() => projects.id, { onDelete: 'cascade' }),
+	// Random URL-safe token that appears in the share link
+	token: varchar('token', { length: 64 }).notNull().unique(),
+	// Optional note for the owner (e.g. who the link was sent to)
+	label: varchar('label', { length: 255 }),
+	passwordHash: varchar('password_hash', { length: 255 }),
+	expiresAt: timestamp('expires_at', { withTimezone: true }),
+	revokedAt: timestamp('revoked_at', { withTimezone: true }),
+	createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+	updatedAt: timestamp('updated_at', { withTimezone: true })
+		.notNull()
+		.defaultNow()
+		.$onUpdate(() => new Date())
+});
+
+export type ProjectShare = typeof projectShares.$inferSelect;
+export type NewProjectShare = typeof projectShares.$inferInsert;
+
+/**
+ * Project Collaborators table - people the owner has given access to a project
+ *
+ * Invitations are addressed to an email address. `userId` stays null until
+ * the invitee (signed in with that address) accepts; only accepted rows grant
+ * access. The project's creator (projects.userId) is always an owner and has
+ * no row here. Roles are defined in $lib/collaborators.
+ */
+export const projectCollaborators = pgTable(
+	'project_collaborators',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		projectId: uuid('project_id')
+			.notNull()
+			.references(() => projects.id, { onDelete: 'cascade' }),
+		userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+		// Lowercased address the invitation was sent to
+		email: varchar('email', { length: 255 }).notNull(),
+		// 'viewer', 'commenter', 'editor' or 'owner'
+		role: varchar('role', { length: 20 }).notNull().default('viewer'),
+		invitedBy: uuid('invited_by').references(() => users.id, { onDelete: 'set null' }),
+		acceptedAt: timestamp('accepted_at', { withTimezone: true }),
+		createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+		updatedAt: timestamp('updated_at', { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date())
+	},
+	(table) => [unique('project_collaborators_project_email_unique').on(table.projectId, table.email)]
+);
+
+export type ProjectCollaborator = typeof projectCollaborators.$inferSelect;
+export type NewProjectCollaborator = typeof projectCollaborators.$inferInsert;
+
+/**
+ * Fixture Profiles table - custom fixture profiles saved to a user's account
+ *
+ * Built-in profiles ship with the app (see $lib/fixtures) and are not stored.
+ * Custom profiles are private to the account that created them; instruments
+ * reference them by id from the project document.
+ */
+export const fixtureProfiles = pgTable('fixture_profiles', {
+	id: uuid('id').primaryKey().defaultRandom(),
+	userId: uuid('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	manufacturer: varchar('manufacturer', { length: 255 }).notNull(),
+	model: varchar('model', { length: 255 }).notNull(),
+	// Symbol, beam/field angles, wattage, weight, color frame, gobo size and DMX modes (FixtureSpecs)
+	specs: jsonb('specs').notNull(),
+	createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+	updatedAt: timestamp('updated_at', { withTimezone: true })
+		.notNull()
+		.defaultNow()
+		.$onUpdate(() => new Date())
+});
+
+export type FixtureProfileRow = typeof fixtureProfiles.$inferSelect;
+export type NewFixtureProfileRow = typeof fixtureProfiles.$inferInsert;
@@ -0,0 +1,317 @@
+/**
+ * Built-in Fixture Catalog
+ *
+ * Profiles that ship with LightsLite. Figures are nominal values taken from
+ * manufacturer data sheets for planning; lamp, lens and mode choices on a real
+ * rig can change them, which is why instruments may override the wattage.
+ *
+ * Generic profiles exist for every plot symbol and share the symbol's id
+ * (e.g. 'ers-26'), so instruments added by symbol alone - and plots drawn
+ * before profiles existed - always resolve to a profile.
+ */
+
+import { INSTRUMENT_TYPE_NAMES, type InstrumentType } from '$lib/types/instrument';
+import type { ColorFrameSize, FixtureProfile, FixtureSpecs } from './types';
+
+// ============================================================================
+// Color Frames
+// ============================================================================
+
+const INCH = 0.0254;
+
+/** A square color frame, given in inches as frames are sold */
+function frame(inches: number): ColorFrameSize {
+	return { width: inches * INCH, height: inches * INCH };
+}
+
+/** Color frames of common fixture families */
+const FRAMES = {
+	ers: frame(6.25),
+	par64: frame(10),
+	par56: frame(8.25),
+	par38: frame(5.25),
+	fresnel6: frame(7.5),
+	fresnel8: frame(10),
+	cyc: frame(12)
+};
+
+// ============================================================================
+// Generic Profiles
+// ============================================================================
+
+/** Manufacturer shown for generic profiles */
+export const GENERIC_MANUFACTURER = 'Generic';
+
+/** Id of the generic profile used when nothing else matches */
+export const FALLBACK_PROFILE_ID: InstrumentType = 'custom';
+
+/**
+ * Typical data for each plot symbol
+ */
+const GENERIC_SPECS: Record<InstrumentType, Omit<FixtureSpecs, 'symbol'>> = {
+	'ers-14': {
+		beamAngle: 10,
+		fieldAngle: 14,
+		wattage: 750,
+		weight: 8.5,
+		colorFrame: FRAMES.ers,
+		goboSize: 'B',
+		dmxModes: []
+	},
+	'ers-19': {
+		beamAngle: 13,
+		fieldAngle: 19,
+		wattage: 750,
+		weight: 8,
+		colorFrame: FRAMES.ers,
+		goboSize: 'B',
+		dmxModes: []
+	},
+	'ers-26': {
+		beamAngle: 17,
+		fieldAngle: 26,
+		wattage: 575,
+		weight: 7.5,
+		colorFrame: FRAMES.ers,
+		goboSize: 'B',
+		dmxModes: []
+	},
+	'ers-36': {
+		beamAngle: 24,
+		fieldAngle: 36,
+		wattage: 575,
+		weight: 7.5,
+		colorFrame: FRAMES.ers,
+		goboSize: 'B',
+		dmxModes: []
+	},
+	'ers-50': {
+		beamAngle: 33,
+		fieldAngle: 50,
+		wattage: 575,
+		weight: 7.5,
+		colorFrame: FRAMES.ers,
+		goboSize: 'B',
+		dmxModes: []
+	},
+	'par-64': {
+		beamAngle: 12,
+		fieldAngle: 28,
+		wattage: 1000,
+		weight: 3.5,
+		colorFrame: FRAMES.par64,
+		dmxModes: []
+	},
+	'par-56': {
+		beamAngle: 13,
+		fieldAngle: 30,
+		wattage: 500,
+		weight: 2.5,
+		colorFrame: FRAMES.par56,
+		dmxModes: []
+	},
+	'par-38': {
+		beamAngle: 30,
+		fieldAngle: 60,
+		wattage: 150,
+		weight: 1,
+		colorFrame: FRAMES.par38,
+		dmxModes: []
+	},
+	'fresnel-6': {
+		beamAngle: 16,
+		fieldAngle: 60,
+		wattage: 750,
+		weight: 5.5,
+		colorFrame: FRAMES.fresnel6,
+		dmxModes: []
+	},
+	'fresnel-8': {
+		beamAngle: 16,
+		fieldAngle: 60,
+		wattage: 1000,
+		weight: 9,
+		colorFrame: FRAMES.fresnel8,
+		dmxModes: []
+	},
+	'cyc-light': { wattage: 1000, weight: 7, colorFrame: FRAMES.cyc, dmxModes: [] },
+	'moving-spot': {
+		beamAngle: 15,
+		fieldAngle: 25,
+		wattage: 250,
+		weight: 20,
+		dmxModes: [{ name: 'Standard', footprint: 16 }]
+	},
+	'moving-wash': {
+		beamAngle: 20,
+		fieldAngle: 40,
+		wattage: 200,
+		weight: 18,
+		dmxModes: [{ name: 'Standard', footprint: 14 }]
+	},
+	'moving-beam': {
+		beamAngle: 4,
+		fieldAngle: 6,
+		wattage: 230,
+		weight: 16,
+		dmxModes: [{ name: 'Standard', footprint: 16 }]
+	},
+	'led-par': {
+		beamAngle: 25,
+		fieldAngle: 40,
+		wattage: 100,
+		weight: 4,
+		dmxModes: [
+			{ name: 'RGBW', footprint: 4 },
+			{ name: 'Intensity + RGBW', footprint: 5 }
+		]
+	},
+	'led-wash': {
+		beamAngle: 30,
+		fieldAngle: 50,
+		wattage: 150,
+		weight: 7,
+		dmxModes: [{ name: 'Standard', footprint: 8 }]
+	},
+	'led-strip': { wattage: 75, weight: 5, dmxModes: [{ name: 'RGB', footprint: 3 }] },
+	followspot: { beamAngle: 8, fieldAngle: 14, wattage: 1200, weight: 40, dmxModes: [] },
+	practical: { wattage: 60, weight: 1, dmxModes: [] },
+	custom: { wattage: 575, dmxModes: [] }
+};
+
+const GENERIC_PROFILES: FixtureProfile[] = (
+	Object.entries(GENERIC_SPECS) as [InstrumentType, Omit<FixtureSpecs, 'symbol'>][]
+).map(([symbol, specs]) => ({
+	id: symbol,
+	manufacturer: GENERIC_MANUFACTURER,
+	model: INSTRUMENT_TYPE_NAMES[symbol],
+	custom: false,
+	symbol,
+	...specs
+}));
+
+// ============================================================================
+// Manufacturer Profiles
+// ============================================================================
+
+/**
+ * Build a profile for one lens tube of the ETC Source Four
+ */
+function sourceFour(fieldAngle: 14 | 19 | 26 | 36 | 50, weight: number): FixtureProfile {
+	const generic = GENERIC_SPECS[`ers-${fieldAngle}`];
+	return {
+		id: `etc-source-four-${fieldAngle}`,
+		manufacturer: 'ETC',
+		model: `Source Four ${fieldAngle}°`,
+		custom: false,
+		symbol: `ers-${fieldAngle}`,
+		beamAngle: generic.beamAngle,
+		fieldAngle,
+		wattage: 575,
+		weight,
+		colorFrame: FRAMES.ers,
+		goboSize: 'B',
+		dmxModes: []
+	};
+}
+
+const MANUFACTURER_PROFILES: FixtureProfile[] = [
+	sourceFour(14, 8.4),
+	sourceFour(19, 7.9),
+	sourceFour(26, 7.4),
+	sourceFour(36, 7.3),
+	sourceFour(50, 7.3),
+	{
+		id: 'etc-source-four-par',
+		manufacturer: 'ETC',
+		model: 'Source Four PAR (MFL)',
+		custom: false,
+		symbol: 'par-64',
+		beamAngle: 13,
+		fieldAngle: 31,
+		wattage: 575,
+		weight: 3.6,
+		colorFrame: FRAMES.fresnel6,
+		dmxModes: []
+	},
+	{
+		id: 'etc-source-four-fresnel',
+		manufacturer: 'ETC',
+		model: 'Source Four Fresnel',
+		custom: false,
+		symbol: 'fresnel-6',
+		beamAngle: 16,
+		fieldAngle: 55,
+		wattage: 750,
+		weight: 5.4,
+		colorFrame: FRAMES.fresnel6,
+		dmxModes: []
+	},
+	{
+		id: 'etc-colorsource-par',
+		manufacturer: 'ETC',
+		model: 'ColorSource PAR',
+		custom: false,
+		symbol: 'led-par',
+		beamAngle: 19,
+		fieldAngle: 37,
+		wattage: 110,
+		weight: 3.2,
+		dmxModes: [
+			{ name: 'Direct', footprint: 5 },
+			{ name: 'RGB', footprint: 3 },
+			{ name: 'Intensity', footprint: 1 }
+		]
+	},
+	{
+		id: 'altman-65q',
+		manufacturer: 'Altman',
+		model: '65Q 6" Fresnel',
+		custom: false,
+		symbol: 'fresnel-6',
+		beamAngle: 8,
+		fieldAngle: 60,
+		wattage: 500,
+		weight: 4.1,
+		colorFrame: FRAMES.fresnel6,
+		dmxModes: []
+	},
+	{
+		id: 'altman-par-64',
+		manufacturer: 'Altman',
+		model: 'PAR 64',
+		custom: false,
+		symbol: 'par-64',
+		beamAngle: 12,
+		fieldAngle: 28,
+		wattage: 1000,
+		weight: 3.2,
+		colorFrame: FRAMES.par64,
+		dmxModes: []
+	},
+	{
+		id: 'martin-mac-aura',
+		manufacturer: 'Martin',
+		model: 'MAC Aura',
+		custom: false,
+		symbol: 'moving-wash',
+		beamAngle: 11,
+		fieldAngle: 58,
+		wattage: 260,
+		weight: 5.6,
+		dmxModes: [
+			{ name: 'Basic', footprint: 14 },
+			{ name: 'Extended', footprint: 25 }
+		]
+	}
+];
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+/** Every built-in profile: generic profiles first, then manufacturer profiles */
+export const BUILT_IN_PROFILES: readonly FixtureProfile[] = [
+	...GENERIC_PROFILES,
+	...MANUFACTURER_PROFILES
+];
@@ -0,0 +1,262 @@
+/**
+ * GDTF Import
+ *
+ * Reads a General Device Type Format (.gdtf) file into a fixture profile.
+ * A .gdtf file is a zip archive whose description.xml holds the fixture type:
+ * manufacturer and name, physical data, beams and DMX modes. Only the data a
+ * fixture profile carries is read; wheels, models and other resources are
+ * ignored.
+ *
+ * Runs in the browser (it uses DOMParser and DecompressionStream), so files
+ * are parsed before anything is uploaded and the user can review the result.
+ */
+
+import type { InstrumentType } from '$lib/types/instrument';
+import type { DmxMode, FixtureDimensions, FixtureProfileInput } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** File inside the archive that holds the fixture type definition */
+const DESCRIPTION_FILE = 'description.xml';
+
+/** Zip end of central directory record signature */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/** Zip central directory file header signature */
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+
+/** Longest zip comment, which bounds the search for the end record */
+const MAX_ZIP_COMMENT = 0xffff;
+
+/** Beam angle below which a moving head is treated as a beam fixture */
+const NARROW_BEAM_ANGLE = 8;
+
+// ============================================================================
+// Zip Archive
+// ============================================================================
+
+/**
+ * Inflate raw deflate data
+ */
+async function inflateRaw(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+	const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read one file from a zip archive as text
+ *
+ * @returns The file's contents, or null if the archive has no such file
+ * @throws Error if the data is not a zip archive or uses unsupported compression
+ */
+async function readZipEntry(data: ArrayBuffer, fileName: string): Promise<string | null> {
+	const view = new DataView(data);
+	const decoder = new TextDecoder();
+
+	// The end record sits at the very end, before an optional comment
+	let end = -1;
+	const searchFrom = Math.max(0, data.byteLength - 22 - MAX_ZIP_COMMENT);
+	for (let offset = data.byteLength - 22; offset >= searchFrom; offset--) {
+		if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+			end = offset;
+			break;
+		}
+	}
+	if (end < 0) {
+		throw new Error('The file is not a GDTF archive');
+	}
+
+	const entryCount = view.getUint16(end + 10, true);
+	let offset = view.getUint32(end + 16, true);
+
+	for (let i = 0; i < entryCount; i++) {
+		if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) break;
+
+		const method = view.getUint16(offset + 10, true);
+		const compressedSize = view.getUint32(offset + 20, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const localHeader = view.getUint32(offset + 42, true);
+		const name = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+
+		if (name === fileName) {
+			// The local header repeats the name and may have a different extra field
+			const start =
+				localHeader +
+				30 +
+				view.getUint16(localHeader + 26, true) +
+				view.getUint16(localHeader + 28, true);
+			const bytes = new Uint8Array(data, start, compressedSize);
+
+			if (method === 0) return decoder.decode(bytes);
+			if (method === 8) return decoder.decode(await inflateRaw(bytes));
+			throw new Error(`Unsupported compression for ${fileName} in the GDTF archive`);
+		}
+
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return null;
+}
+
+// ============================================================================
+// Description Parsing
+// ============================================================================
+
+/**
+ * Read a numeric attribute, or undefined if missing or not a number
+ */
+function numberAttribute(element: Element | null | undefined, name: string): number | undefined {
+	const value = Number.parseFloat(element?.getAttribute(name) ?? '');
+	return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Round a value to a number of decimal places
+ */
+function round(value: number | undefined, places: number): number | undefined {
+	if (value === undefined) return undefined;
+	const factor = 10 ** places;
+	return Math.round(value * factor) / factor;
+}
+
+/**
+ * Channels a DMX mode occupies in its first DMX break.
+ * Each channel's Offset lists the (1-based) addresses it uses, e.g. "1,2" for 16-bit.
+ */
+function getModeFootprint(mode: Element): number {
+	const channels = [...mode.querySelectorAll('DMXChannels > DMXChannel')];
+	const firstBreak = channels[0]?.getAttribute('DMXBreak') ?? '1';
+
+	let footprint = 0;
+	for (const channel of channels) {
+		if ((channel.getAttribute('DMXBreak') ?? '1') !== firstBreak) continue;
+		for (const part of (channel.getAttribute('Offset') ?? '').split(',')) {
+			const address = Number.parseInt(part, 10);
+			if (Number.isFinite(address)) footprint = Math.max(footprint, address);
+		}
+	}
+	return footprint;
+}
+
+/**
+ * Outside dimensions of the fixture's top-level geometry
+ */
+function getDimensions(fixtureType: Element): FixtureDimensions | undefined {
+	const modelName = fixtureType.querySelector('Geometries > *')?.getAttribute('Model');
+	const models = [...fixtureType.querySelectorAll('Models > Model')];
+	const model = models.find((m) => m.getAttribute('Name') === modelName) ?? models[0];
+
+	const length = numberAttribute(model, 'Length');
+	const width = numberAttribute(model, 'Width');
+	const height = numberAttribute(model, 'Height');
+	if (length === undefined || width === undefined || height === undefined) {
+		return undefined;
+	}
+	return { length: round(length, 3)!, width: round(width, 3)!, height: round(height, 3)! };
+}
+
+/**
+ * Total power draw: the declared consumption if present, else the sum of the beams'
+ */
+function getWattage(fixtureType: Element, beams: Element[]): number | undefined {
+	const declared = [
+		...fixtureType.querySelectorAll('PhysicalDescriptions > Properties > PowerConsumption')
+	];
+	const values = (declared.length > 0 ? declared : beams)
+		.map((element) => numberAttribute(element, declared.length > 0 ? 'Value' : 'PowerConsumption'))
+		.filter((value): value is number => value !== undefined);
+
+	return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0)) : undefined;
+}
+
+/**
+ * Pick the plot symbol closest to the fixture type.
+ * The user can change it before saving the profile.
+ */
+function guessSymbol(
+	fixtureType: Element,
+	beam: Element | undefined,
+	dimensions: FixtureDimensions | undefined
+): InstrumentType {
+	const hasAttribute = (name: string) =>
+		fixtureType.querySelector(`AttributeDefinitions Attribute[Name="${name}"]`) !== null;
+	const beamType = beam?.getAttribute('BeamType') ?? '';
+	const lampType = beam?.getAttribute('LampType') ?? '';
+	const beamAngle = numberAttribute(beam, 'BeamAngle');
+
+	if (hasAttribute('Pan') || hasAttribute('Tilt')) {
+		if (beamType === 'Spot') return 'moving-spot';
+		if (beamAngle !== undefined && beamAngle < NARROW_BEAM_ANGLE) return 'moving-beam';
+		return 'moving-wash';
+	}
+
+	if (lampType === 'LED') {
+		const isLinear = dimensions !== undefined && dimensions.width > dimensions.length * 3;
+		if (isLinear || beamType === 'Rectangle') return 'led-strip';
+		return beamType === 'Wash' ? 'led-wash' : 'led-par';
+	}
+
+	if (beamType === 'Fresnel' || beamType === 'PC') return 'fresnel-6';
+	if (beamType === 'Spot') return 'ers-26';
+	return 'custom';
+}
+
+/**
+ * Convert a GDTF description.xml document to profile input
+ *
+ * @throws Error if the document has no fixture type
+ */
+export function parseGdtfDescription(xml: string): FixtureProfileInput {
+	const description = new DOMParser().parseFromString(xml, 'application/xml');
+	const fixtureType = description.querySelector('FixtureType');
+	if (description.querySelector('parsererror') || !fixtureType) {
+		throw new Error('The GDTF file has no fixture type definition');
+	}
+
+	const beams = [...fixtureType.querySelectorAll('Geometries Beam')];
+	const beam = beams[0];
+	const dimensions = getDimensions(fixtureType);
+
+	const dmxModes: DmxMode[] = [...fixtureType.querySelectorAll('DMXModes > DMXMode')]
+		.map((mode) => ({
+			name: mode.getAttribute('Name') || 'Default',
+			footprint: getModeFootprint(mode)
+		}))
+		.filter((mode) => mode.footprint > 0);
+
+	return {
+		manufacturer: fixtureType.getAttribute('Manufacturer') || 'Unknown',
+		model:
+			fixtureType.getAttribute('LongName') || fixtureType.getAttribute('Name') || 'GDTF Fixture',
+		symbol: guessSymbol(fixtureType, beam, dimensions),
+		beamAngle: round(numberAttribute(beam, 'BeamAngle'), 1),
+		fieldAngle: round(numberAttribute(beam, 'FieldAngle'), 1),
+		wattage: getWattage(fixtureType, beams),
+		weight: round(
+			numberAttribute(
+				fixtureType.querySelector('PhysicalDescriptions > Properties > Weight'),
+				'Value'
+			),
+			2
+		),
+		dimensions,
+		dmxModes
+	};
+}
+
+/**
+ * Read a .gdtf file into profile input
+ *
+ * @throws Error if the file is not a GDTF archive or has no fixture type
+ */
+export async function parseGdtfFile(file: Blob): Promise<FixtureProfileInput> {
+	const xml = await readZipEntry(await file.arrayBuffer(), DESCRIPTION_FILE);
+	if (xml === null) {
+		throw new Error(`The GDTF archive has no ${DESCRIPTION_FILE}`);
+	}
+	return parseGdtfDescription(xml);
+}
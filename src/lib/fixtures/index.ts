@@ -0,0 +1,35 @@
+/**
+ * Fixtures module exports
+ *
+ * The fixture library: built-in and custom fixture profiles, and the lookup
+ * that resolves an instrument to its profile.
+ *
+ * Server-only helpers (loading custom profiles) live in ./server.
+ */
+
+// Types
+export type {
+	DmxMode,
+	FixtureDimensions,
+	ColorFrameSize,
+	GoboSize,
+	FixtureSpecs,
+	FixtureProfile,
+	FixtureProfileInput,
+	FixtureReference
+} from './types';
+
+// Built-in catalog
+export { BUILT_IN_PROFILES, GENERIC_MANUFACTURER, FALLBACK_PROFILE_ID } from './catalog';
+
+// Library
+export {
+	FixtureLibrary,
+	createFixtureLibrary,
+	builtInFixtures,
+	getProfileName,
+	getProfileCategory
+} from './library';
+
+// GDTF import (browser only)
+export { parseGdtfFile, parseGdtfDescription } from './gdtf';
@@ -0,0 +1,145 @@
+/**
+ * Fixture Library
+ *
+ * Looks up fixture profiles for instruments. A library holds the built-in
+ * catalog plus whichever custom profiles the caller loaded (the user's own on
+ * the client, the project owner's and requester's on the server), and is the
+ * one place reports, labels and load calculations read fixture data from.
+ */
+
+import { getInstrumentCategory, type InstrumentCategory } from '$lib/types/instrument';
+import { BUILT_IN_PROFILES, FALLBACK_PROFILE_ID, GENERIC_MANUFACTURER } from './catalog';
+import type { ColorFrameSize, DmxMode, FixtureProfile, FixtureReference, GoboSize } from './types';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Display name for a profile, e.g. "ETC Source Four 26°" or "ERS 26°" for generics
+ */
+export function getProfileName(profile: FixtureProfile): string {
+	return profile.manufacturer === GENERIC_MANUFACTURER
+		? profile.model
+		: `${profile.manufacturer} ${profile.model}`;
+}
+
+/**
+ * Category a profile is grouped under, from its symbol
+ */
+export function getProfileCategory(profile: FixtureProfile): InstrumentCategory {
+	return getInstrumentCategory(profile.symbol);
+}
+
+// ============================================================================
+// Library
+// ============================================================================
+
+/**
+ * A set of fixture profiles that instruments can be resolved against
+ */
+export class FixtureLibrary {
+	private readonly profiles = new Map<string, FixtureProfile>();
+
+	constructor(customProfiles: readonly FixtureProfile[] = []) {
+		for (const profile of BUILT_IN_PROFILES) {
+			this.profiles.set(profile.id, profile);
+		}
+		for (const profile of customProfiles) {
+			this.profiles.set(profile.id, profile);
+		}
+	}
+
+	/**
+	 * Every profile: built-in profiles in catalog order, then custom profiles by name
+	 */
+	get all(): FixtureProfile[] {
+		const profiles = [...this.profiles.values()];
+		const custom = profiles
+			.filter((profile) => profile.custom)
+			.sort((a, b) => getProfileName(a).localeCompare(getProfileName(b)));
+		return [...profiles.filter((profile) => !profile.custom), ...custom];
+	}
+
+	/**
+	 * Get a profile by id
+	 */
+	get(id: string | undefined): FixtureProfile | null {
+		return id ? (this.profiles.get(id) ?? null) : null;
+	}
+
+	/**
+	 * Get the profile an instrument uses.
+	 * Unknown profiles (e.g. a custom profile from another account) fall back to
+	 * the generic profile for the instrument's symbol.
+	 */
+	resolve(instrument: FixtureReference): FixtureProfile {
+		return (
+			this.get(instrument.profileId) ??
+			this.get(instrument.instrumentType) ??
+			this.profiles.get(FALLBACK_PROFILE_ID)!
+		);
+	}
+
+	/**
+	 * Display name of the instrument's profile
+	 */
+	getName(instrument: FixtureReference): string {
+		return getProfileName(this.resolve(instrument));
+	}
+
+	/**
+	 * Wattage of an instrument: its own override, else the profile's
+	 */
+	getWattage(instrument: FixtureReference & { wattage?: number }): number | null {
+		return instrument.wattage ?? this.resolve(instrument).wattage ?? null;
+	}
+
+	/**
+	 * Weight of an instrument in kilograms, from its profile
+	 */
+	getWeight(instrument: FixtureReference): number | null {
+		return this.resolve(instrument).weight ?? null;
+	}
+
+	/**
+	 * Color frame of an instrument, from its profile (null if it takes no gel)
+	 */
+	getColorFrame(instrument: FixtureReference): ColorFrameSize | null {
+		return this.resolve(instrument).colorFrame ?? null;
+	}
+
+	/**
+	 * Gobo holder size of an instrument, from its profile (null if it takes no holder)
+	 */
+	getGoboSize(instrument: FixtureReference): GoboSize | null {
+		return this.resolve(instrument).goboSize ?? null;
+	}
+
+	/**
+	 * DMX mode an instrument runs in: its chosen mode, else the profile's first.
+	 * Null for conventional fixtures, which have no modes.
+	 */
+	getDmxMode(instrument: FixtureReference & { dmxMode?: string }): DmxMode | null {
+		const modes = this.resolve(instrument).dmxModes;
+		return modes.find((mode) => mode.name === instrument.dmxMode) ?? modes[0] ?? null;
+	}
+
+	/**
+	 * Number of DMX addresses an instrument occupies.
+	 * A conventional fixture takes the single address of its dimmer.
+	 */
+	getFootprint(instrument: FixtureReference & { dmxMode?: string }): number {
+		return this.getDmxMode(instrument)?.footprint ?? 1;
+	}
+}
+
+/**
+ * Create a library of the built-in profiles plus the given custom profiles
+ */
+export function createFixtureLibrary(customProfiles: readonly FixtureProfile[] = []) {
+	return new FixtureLibrary(customProfiles);
+}
+
+/** Library of the built-in profiles only */
+export const builtInFixtures = createFixtureLibrary();
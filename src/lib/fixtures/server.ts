@@ -0,0 +1,84 @@
+/**
+ * Server-side fixture library utilities
+ *
+ * Loads the custom fixture profiles saved to user accounts. Reports resolve
+ * instruments against the profiles of everyone working on the project (its
+ * owner and accepted collaborators), so an instrument placed with any member's
+ * profile reads the same for all of them. Only import from server code.
+ */
+import { db } from '$lib/db';
+import { fixtureProfiles, type FixtureProfileRow, type Project } from '$lib/db/schema';
+import { getProjectMemberIds } from '$lib/collaborators/server';
+import { asc, inArray } from 'drizzle-orm';
+import { createFixtureLibrary, type FixtureLibrary } from './library';
+import type { FixtureProfile, FixtureProfileInput, FixtureSpecs } from './types';
+
+/**
+ * Convert a stored row to a fixture profile
+ */
+export function toFixtureProfile(row: FixtureProfileRow): FixtureProfile {
+	return {
+		...(row.specs as FixtureSpecs),
+		id: row.id,
+		manufacturer: row.manufacturer,
+		model: row.model,
+		custom: true,
+		ownerId: row.userId
+	};
+}
+
+/**
+ * Split validated profile input into the stored columns.
+ * Only known fields are kept, so extra input fields are never stored.
+ */
+export function toFixtureProfileColumns(input: FixtureProfileInput) {
+	const specs: FixtureSpecs = {
+		symbol: input.symbol,
+		beamAngle: input.beamAngle,
+		fieldAngle: input.fieldAngle,
+		wattage: input.wattage,
+		weight: input.weight,
+		dimensions: input.dimensions && {
+			length: input.dimensions.length,
+			width: input.dimensions.width,
+			height: input.dimensions.height
+		},
+		colorFrame: input.colorFrame && {
+			width: input.colorFrame.width,
+			height: input.colorFrame.height
+		},
+		goboSize: input.goboSize,
+		dmxModes: input.dmxModes.map((mode) => ({ name: mode.name.trim(), footprint: mode.footprint }))
+	};
+	return { manufacturer: input.manufacturer.trim(), model: input.model.trim(), specs };
+}
+
+/**
+ * Load the custom profiles saved by any of the given users
+ */
+export async function loadCustomProfiles(userIds: string[]): Promise<FixtureProfile[]> {
+	const rows = await db
+		.select()
+		.from(fixtureProfiles)
+		.where(inArray(fixtureProfiles.userId, [...new Set(userIds)]))
+		.orderBy(asc(fixtureProfiles.manufacturer), asc(fixtureProfiles.model));
+
+	return rows.map(toFixtureProfile);
+}
+
+/**
+ * Build a fixture library with the built-in catalog and the given users' custom profiles
+ */
+export async function getFixtureLibrary(userIds: string[]): Promise<FixtureLibrary> {
+	return createFixtureLibrary(await loadCustomProfiles(userIds));
+}
+
+/**
+ * Build a fixture library with the built-in catalog and the custom profiles of
+ * everyone working on a project
+ */
+export async function getProjectFixtureLibrary(
+	project: Pick<Project, 'id' | 'userId'>
+): Promise<FixtureLibrary> {
+	return getFixtureLibrary(await getProjectMemberIds(project));
+}
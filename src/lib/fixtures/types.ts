@@ -0,0 +1,97 @@
+/**
+ * Fixture Profile Types
+ *
+ * A fixture profile describes one make and model of lighting fixture: its
+ * photometrics, electrical and physical data, DMX modes and the plot symbol
+ * it is drawn with. Every instrument references a profile by id.
+ */
+
+import type { InstrumentType } from '$lib/types/instrument';
+
+/**
+ * A DMX personality the fixture can run in
+ */
+export interface DmxMode {
+	/** Mode name as printed in the fixture's manual (e.g. "Extended") */
+	name: string;
+	/** Number of DMX channels the mode occupies */
+	footprint: number;
+}
+
+/**
+ * Outside dimensions of a fixture in meters
+ */
+export interface FixtureDimensions {
+	/** Front to back */
+	length: number;
+	/** Side to side */
+	width: number;
+	/** Top to bottom */
+	height: number;
+}
+
+/**
+ * Inside size of a fixture's color frame in meters, which is also the size gel is cut to
+ */
+export interface ColorFrameSize {
+	width: number;
+	height: number;
+}
+
+/**
+ * Gobo size a fixture's pattern holder takes: A (100 mm), B (86 mm) or M (66 mm)
+ */
+export type GoboSize = 'A' | 'B' | 'M';
+
+/**
+ * The technical data of a fixture profile
+ */
+export interface FixtureSpecs {
+	/** Plot symbol used to draw the fixture */
+	symbol: InstrumentType;
+	/** Beam angle in degrees (50% of peak intensity) */
+	beamAngle?: number;
+	/** Field angle in degrees (10% of peak intensity) */
+	fieldAngle?: number;
+	/** Lamp or maximum power draw in watts */
+	wattage?: number;
+	/** Weight in kilograms, without clamp or accessories */
+	weight?: number;
+	/** Outside dimensions */
+	dimensions?: FixtureDimensions;
+	/** Color frame size (absent for fixtures that take no gel) */
+	colorFrame?: ColorFrameSize;
+	/** Gobo holder size (absent for fixtures that take no gobo holder) */
+	goboSize?: GoboSize;
+	/** DMX modes (empty for conventional fixtures patched to a dimmer) */
+	dmxModes: DmxMode[];
+}
+
+/**
+ * A fixture profile from the built-in catalog or a user's account
+ */
+export interface FixtureProfile extends FixtureSpecs {
+	/** Stable id referenced by instruments (a slug for built-ins, a UUID for custom profiles) */
+	id: string;
+	manufacturer: string;
+	model: string;
+	/** Whether the profile was created by a user rather than shipped with the app */
+	custom: boolean;
+	/** Account that owns a custom profile */
+	ownerId?: string;
+}
+
+/**
+ * Fields a user provides when creating or editing a custom profile
+ */
+export type FixtureProfileInput = Omit<FixtureProfile, 'id' | 'custom' | 'ownerId'>;
+
+/**
+ * The fields of an instrument that select its profile
+ */
+export interface FixtureReference {
+	/** Profile id (documents from before profiles existed may lack one) */
+	profileId?: string;
+	/** Symbol id, used to find a generic profile when the profile is unknown */
+	instrumentType: string;
+}
@@ -0,0 +1,229 @@
+/**
+ * Beam Projection
+ *
+ * Works out where an instrument's light lands from where it hangs and where
+ * it is focused. An instrument hangs at its position's trim (or a boom's
+ * height) and is focused at a point on the plot, at an assumed focus height
+ * above the deck - head height, by default. From the throw and the fixture's
+ * beam and field angles it gives the pool diameters across the beam and the
+ * ellipse each cone draws on the focus plane.
+ *
+ * Heights and distances are in feet; pool ellipses are in world coordinates.
+ */
+
+import type { HangingPositionObject, InstrumentObject } from '$lib/stores/project.svelte';
+import { PIXELS_PER_FOOT } from '$lib/utils/scale';
+import { DOWNSTAGE, getStageOffset } from '$lib/utils/stage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A point on the plot, in world coordinates
+ */
+export interface FocusPoint {
+	x: number;
+	y: number;
+}
+
+/**
+ * Where an instrument is: its plan position in world coordinates and the
+ * height it hangs at in feet (null if its position has no height set)
+ */
+export interface InstrumentLocation {
+	x: number;
+	y: number;
+	mountHeight: number | null;
+}
+
+/**
+ * An ellipse on the plot, in world coordinates
+ */
+export interface PoolEllipse {
+	cx: number;
+	cy: number;
+	/** Radius along the beam's direction */
+	rx: number;
+	/** Radius across the beam */
+	ry: number;
+	/** Direction of the beam in degrees */
+	rotation: number;
+}
+
+/**
+ * The light an instrument throws on its focus point
+ */
+export interface BeamPool {
+	/** Distance from the instrument to the focus point in feet */
+	throwDistance: number;
+	/** Beam (50%) pool diameter across the beam in feet (null without a beam angle) */
+	beamDiameter: number | null;
+	/** Field (10%) pool diameter across the beam in feet (null without a field angle) */
+	fieldDiameter: number | null;
+	/** Beam pool on the focus plane (null without a beam angle, or if the beam edge never lands) */
+	beamEllipse: PoolEllipse | null;
+	/** Field pool on the focus plane (null without a field angle, or if the field edge never lands) */
+	fieldEllipse: PoolEllipse | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Focus height assumed when the venue doesn't set one: head height, in feet */
+export const DEFAULT_FOCUS_HEIGHT = 5.5;
+
+/** How far downstage of an instrument a new focus point is placed, in feet */
+const NEW_FOCUS_OFFSET = 6;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// ============================================================================
+// Location
+// ============================================================================
+
+/**
+ * Height a position hangs at in feet: a boom's height, else its trim
+ */
+export function getMountHeight(position: HangingPositionObject): number | null {
+	const isBoom = position.positionType === 'boom' || position.positionType === 'box-boom';
+	return (isBoom ? position.height : position.trimHeight) ?? null;
+}
+
+/**
+ * Where an instrument is: along its hanging position, or at its own
+ * coordinates when free-floating (with no known height)
+ */
+export function getInstrumentLocation(
+	instrument: Pick<InstrumentObject, 'hangingPositionId' | 'positionOnBar' | 'x' | 'y'>,
+	hangingPositions: readonly HangingPositionObject[]
+): InstrumentLocation | null {
+	if (instrument.hangingPositionId) {
+		const hp = hangingPositions.find((p) => p.id === instrument.hangingPositionId);
+		if (!hp) return null;
+		return {
+			x: hp.x1 + (hp.x2 - hp.x1) * instrument.positionOnBar,
+			y: hp.y1 + (hp.y2 - hp.y1) * instrument.positionOnBar,
+			mountHeight: getMountHeight(hp)
+		};
+	}
+	if (instrument.x === undefined || instrument.y === undefined) return null;
+	return { x: instrument.x, y: instrument.y, mountHeight: null };
+}
+
+/**
+ * A starting focus point for an instrument: a few feet downstage of it
+ */
+export function getDefaultFocusPoint(location: InstrumentLocation): FocusPoint {
+	const offset = NEW_FOCUS_OFFSET * PIXELS_PER_FOOT;
+	return { x: location.x + DOWNSTAGE.x * offset, y: location.y + DOWNSTAGE.y * offset };
+}
+
+/**
+ * Describe a point relative to the center line and plaster line, e.g. "4' SL, 12' US"
+ */
+export function formatStageLocation(
+	point: FocusPoint,
+	reference: { centerLine: number; plasterLine: number }
+): string {
+	const offset = getStageOffset(point, { x: reference.centerLine, y: reference.plasterLine });
+	const left = offset.left / PIXELS_PER_FOOT;
+	const downstage = offset.downstage / PIXELS_PER_FOOT;
+	const feet = (value: number) => `${Math.round(Math.abs(value) * 2) / 2}'`;
+	const side = Math.abs(left) < 0.25 ? 'CL' : `${feet(left)} ${left > 0 ? 'SL' : 'SR'}`;
+	const stage =
+		Math.abs(downstage) < 0.25 ? 'PL' : `${feet(downstage)} ${downstage > 0 ? 'DS' : 'US'}`;
+	return `${side}, ${stage}`;
+}
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+/**
+ * The ellipse a cone draws on the focus plane, or null if its near edge
+ * never reaches the plane
+ *
+ * @param drop - Height of the instrument above the focus plane in feet
+ * @param reach - Plan distance from the instrument to the focus point in feet
+ * @param halfAngle - Half the cone's angle in radians
+ */
+function projectCone(
+	location: InstrumentLocation,
+	focus: FocusPoint,
+	drop: number,
+	reach: number,
+	halfAngle: number
+): PoolEllipse | null {
+	const dx = focus.x - location.x;
+	const dy = focus.y - location.y;
+	const planLength = Math.hypot(dx, dy);
+	const [ux, uy] = planLength > 0 ? [dx / planLength, dy / planLength] : [1, 0];
+	const rotation = (Math.atan2(uy, ux) * 180) / Math.PI;
+
+	// Seen square on (a floor unit, or a unit level with its focus), the pool is a circle
+	if (drop <= 0) {
+		const radius = Math.hypot(reach, drop) * Math.tan(halfAngle) * PIXELS_PER_FOOT;
+		return { cx: focus.x, cy: focus.y, rx: radius, ry: radius, rotation };
+	}
+
+	// Depression of the beam's axis below horizontal
+	const tilt = Math.atan2(drop, reach);
+	if (tilt - halfAngle <= 0.001) return null;
+
+	// Where the cone's near and far edges land, along the plan direction from the instrument
+	const near = drop / Math.tan(tilt + halfAngle);
+	const far = drop / Math.tan(tilt - halfAngle);
+	const along = (near + far) / 2;
+	const across =
+		(drop * Math.sin(halfAngle)) /
+		Math.sqrt(Math.sin(tilt + halfAngle) * Math.sin(tilt - halfAngle));
+
+	return {
+		cx: location.x + ux * along * PIXELS_PER_FOOT,
+		cy: location.y + uy * along * PIXELS_PER_FOOT,
+		rx: ((far - near) / 2) * PIXELS_PER_FOOT,
+		ry: across * PIXELS_PER_FOOT,
+		rotation
+	};
+}
+
+/**
+ * Calculate the pool an instrument throws on its focus point
+ *
+ * @param location - Where the instrument is
+ * @param focus - Its focus point
+ * @param focusHeight - Height of the focus plane above the deck in feet
+ * @param angles - The fixture's beam and field angles in degrees
+ */
+export function calculateBeamPool(
+	location: InstrumentLocation,
+	focus: FocusPoint,
+	focusHeight: number,
+	angles: { beamAngle?: number; fieldAngle?: number }
+): BeamPool {
+	const reach = Math.hypot(focus.x - location.x, focus.y - location.y) / PIXELS_PER_FOOT;
+	// Without a known height the instrument is taken to be level with its focus
+	const drop = location.mountHeight === null ? 0 : location.mountHeight - focusHeight;
+	const throwDistance = Math.hypot(reach, drop);
+
+	const pool = (angle: number | undefined) =>
+		angle === undefined || angle <= 0 || angle >= 180
+			? { diameter: null, ellipse: null }
+			: {
+					diameter: 2 * throwDistance * Math.tan(toRadians(angle / 2)),
+					ellipse: projectCone(location, focus, drop, reach, toRadians(angle / 2))
+				};
+
+	const beam = pool(angles.beamAngle);
+	const field = pool(angles.fieldAngle);
+
+	return {
+		throwDistance,
+		beamDiameter: beam.diameter,
+		fieldDiameter: field.diameter,
+		beamEllipse: beam.ellipse,
+		fieldEllipse: field.ellipse
+	};
+}
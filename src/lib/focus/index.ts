@@ -0,0 +1,19 @@
+/**
+ * Focus
+ *
+ * Focus points and the beam pools they give, for drawing on the plot and for
+ * the focus chart.
+ */
+
+export {
+	DEFAULT_FOCUS_HEIGHT,
+	getMountHeight,
+	getInstrumentLocation,
+	getDefaultFocusPoint,
+	formatStageLocation,
+	calculateBeamPool,
+	type FocusPoint,
+	type InstrumentLocation,
+	type PoolEllipse,
+	type BeamPool
+} from './beam';
@@ -0,0 +1,277 @@
+/**
+ * Gel Catalog
+ *
+ * Built-in color filters from the main gel ranges, with their names and an
+ * approximate display color. Display colors are only a guide for swatches and
+ * canvas tinting; they are not measured transmission data.
+ *
+ * Codes are written the way they appear on a plot: a manufacturer prefix and
+ * the catalog number, e.g. R02, L201, G480, AP1100.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Gel manufacturers in the catalog */
+export type GelManufacturer = 'rosco' | 'lee' | 'gam' | 'apollo';
+
+/**
+ * A color filter from the catalog
+ */
+export interface Gel {
+	/** Code as written on the plot, e.g. "R02" */
+	code: string;
+	manufacturer: GelManufacturer;
+	/** Catalog number */
+	number: number;
+	name: string;
+	/** Approximate display color (#rrggbb) */
+	rgb: string;
+}
+
+/** [number, name, display color] */
+type GelEntry = [number, string, string];
+
+// ============================================================================
+// Manufacturers
+// ============================================================================
+
+/** Display names for the manufacturers */
+export const GEL_MANUFACTURER_NAMES: Record<GelManufacturer, string> = {
+	rosco: 'Rosco',
+	lee: 'Lee',
+	gam: 'GAM',
+	apollo: 'Apollo'
+};
+
+/** Code prefix for each manufacturer */
+const PREFIXES: Record<GelManufacturer, string> = {
+	rosco: 'R',
+	lee: 'L',
+	gam: 'G',
+	apollo: 'AP'
+};
+
+/** Digits catalog numbers are padded to (Roscolux R02, Lee L002) */
+const NUMBER_WIDTHS: Record<GelManufacturer, number> = {
+	rosco: 2,
+	lee: 3,
+	gam: 1,
+	apollo: 1
+};
+
+// ============================================================================
+// Catalog Data
+// ============================================================================
+
+const ROSCO: GelEntry[] = [
+	[0, 'Clear', '#ffffff'],
+	[1, 'Light Bastard Amber', '#fbd6b8'],
+	[2, 'Bastard Amber', '#fbc9a0'],
+	[3, 'Dark Bastard Amber', '#f9b88c'],
+	[4, 'Medium Bastard Amber', '#f7ad7e'],
+	[5, 'Rose Tint', '#f9d9dc'],
+	[7, 'Pale Yellow', '#fdf6cf'],
+	[8, 'Pale Gold', '#fbe5b6'],
+	[9, 'Pale Amber Gold', '#fad59b'],
+	[10, 'Medium Yellow', '#ffea00'],
+	[12, 'Straw', '#ffe44d'],
+	[13, 'Straw Tint', '#fde3b0'],
+	[15, 'Deep Straw', '#ffc400'],
+	[17, 'Light Flame', '#f9a36b'],
+	[18, 'Flame', '#f98e4b'],
+	[19, 'Fire', '#f2541f'],
+	[20, 'Medium Amber', '#fbaa3d'],
+	[21, 'Golden Amber', '#f98f2e'],
+	[22, 'Deep Amber', '#f46a1f'],
+	[23, 'Orange', '#f7801c'],
+	[26, 'Light Red', '#e0182d'],
+	[27, 'Medium Red', '#b3001e'],
+	[32, 'Medium Salmon Pink', '#f46a78'],
+	[33, 'No Color Pink', '#f8c6cf'],
+	[36, 'Medium Pink', '#f28fb3'],
+	[39, 'Skelton Exotic Sangria', '#c2288f'],
+	[44, 'Middle Rose', '#e65ca9'],
+	[51, 'Surprise Pink', '#d8b8e3'],
+	[54, 'Special Lavender', '#e3d1ea'],
+	[57, 'Lavender', '#b490d4'],
+	[59, 'Indigo', '#4b1c8a'],
+	[60, 'No Color Blue', '#d4e7f5'],
+	[62, 'Booster Blue', '#b3d4ee'],
+	[64, 'Light Steel Blue', '#a7cdeb'],
+	[65, 'Daylight Blue', '#6fb2e2'],
+	[68, 'Sky Blue', '#3f8fd6'],
+	[69, 'Brilliant Blue', '#2d7fcf'],
+	[74, 'Night Blue', '#1f3f9d'],
+	[76, 'Light Green Blue', '#2f7fb0'],
+	[77, 'Green Blue', '#0f6aa8'],
+	[80, 'Primary Blue', '#1c4fb8'],
+	[83, 'Medium Blue', '#163e9c'],
+	[85, 'Deep Blue', '#17318c'],
+	[89, 'Moss Green', '#4fa84f'],
+	[90, 'Dark Yellow Green', '#2e8b2e'],
+	[91, 'Primary Green', '#006b2e'],
+	[114, 'Hamburg Frost', '#f6f6f6'],
+	[119, 'Light Hamburg Frost', '#f4f4f4'],
+	[132, 'Quarter Hamburg Frost', '#f8f8f8'],
+	[3202, 'Full Blue (CTB)', '#8fb6e8'],
+	[3204, 'Half Blue (CTB)', '#bcd3f0'],
+	[3208, 'Quarter Blue (CTB)', '#dce8f7'],
+	[3407, 'Full CTO', '#f9b26b'],
+	[3408, 'Half CTO', '#fbcf9e'],
+	[3409, 'Quarter CTO', '#fde3c6']
+];
+
+const LEE: GelEntry[] = [
+	[2, 'Rose Pink', '#f06fb0'],
+	[3, 'Lavender Tint', '#efe2f0'],
+	[7, 'Pale Yellow', '#fdf4c4'],
+	[8, 'Dark Salmon', '#f47a5a'],
+	[9, 'Pale Amber Gold', '#fcd79e'],
+	[13, 'Straw Tint', '#fde2b2'],
+	[17, 'Surprise Peach', '#e6a88f'],
+	[20, 'Medium Amber', '#fbaa48'],
+	[21, 'Gold Amber', '#f98b2e'],
+	[24, 'Scarlet', '#e8323f'],
+	[26, 'Bright Red', '#d1102a'],
+	[27, 'Medium Red', '#a8001c'],
+	[36, 'Medium Pink', '#f59ab8'],
+	[47, 'Light Rose Purple', '#b46bb0'],
+	[53, 'Paler Lavender', '#e6e0f0'],
+	[58, 'Lavender', '#9466c2'],
+	[61, 'Mist Blue', '#d4e6f2'],
+	[63, 'Pale Blue', '#c5def2'],
+	[68, 'Sky Blue', '#3e8ad8'],
+	[79, 'Just Blue', '#1e55c2'],
+	[85, 'Deeper Blue', '#17339a'],
+	[88, 'Lime Green', '#c4e88a'],
+	[89, 'Moss Green', '#4a9e56'],
+	[104, 'Deep Amber', '#f7a12a'],
+	[106, 'Primary Red', '#d0001a'],
+	[117, 'Steel Blue', '#a6d6e6'],
+	[119, 'Dark Blue', '#1a2e9c'],
+	[124, 'Dark Green', '#0b7a3a'],
+	[132, 'Medium Blue', '#1f63c4'],
+	[136, 'Pale Lavender', '#e2cde9'],
+	[139, 'Primary Green', '#127a2a'],
+	[147, 'Apricot', '#f9a774'],
+	[151, 'Gold Tint', '#f9cfc0'],
+	[152, 'Pale Gold', '#fbd9c0'],
+	[154, 'Pale Rose', '#f9dcd6'],
+	[162, 'Bastard Amber', '#fcd7bf'],
+	[179, 'Chrome Orange', '#f9a230'],
+	[181, 'Congo Blue', '#2a0d6e'],
+	[197, 'Alice Blue', '#5a84c8'],
+	[200, 'Double CT Blue', '#6c9de0'],
+	[201, 'Full CT Blue', '#8fb6e8'],
+	[202, 'Half CT Blue', '#bcd3f0'],
+	[203, 'Quarter CT Blue', '#dce8f7'],
+	[204, 'Full CT Orange', '#f9b26b'],
+	[205, 'Half CT Orange', '#fbcf9e'],
+	[206, 'Quarter CT Orange', '#fde3c6'],
+	[216, 'White Diffusion', '#f5f5f5']
+];
+
+const GAM: GelEntry[] = [
+	[105, 'Antique Rose', '#e58a9e'],
+	[120, 'Red Pink', '#e8487a'],
+	[245, 'Light Red', '#e23a3a'],
+	[250, 'Medium Red XT', '#c0142a'],
+	[325, 'Mauve', '#b77c9e'],
+	[480, 'Medium Yellow', '#ffe23a'],
+	[540, 'Pale Lavender', '#ded0ec'],
+	[710, 'Spir Special Blue', '#5d8fd8'],
+	[750, 'Nile Blue', '#7fcde6'],
+	[850, 'Primary Blue', '#1f48b0'],
+	[905, 'Dark Blue', '#1a2a8a']
+];
+
+const APOLLO: GelEntry[] = [
+	[1100, 'Pale Yellow', '#fdf3c8'],
+	[1350, 'Amber Blush', '#fbc8a8'],
+	[2800, 'Bright Red', '#d61a2c'],
+	[4600, 'Light Lavender', '#d9c6ea'],
+	[4750, 'Steel Blue', '#a9d0ea'],
+	[5200, 'Light Sky Blue', '#6aa8e0'],
+	[5700, 'Primary Blue', '#1f4fb6'],
+	[7420, 'Moss Green', '#53a455']
+];
+
+const ENTRIES: Record<GelManufacturer, GelEntry[]> = {
+	rosco: ROSCO,
+	lee: LEE,
+	gam: GAM,
+	apollo: APOLLO
+};
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Write a gel code the way it appears on a plot, e.g. ("lee", 2) -> "L002"
+ */
+export function formatGelCode(manufacturer: GelManufacturer, number: number): string {
+	return PREFIXES[manufacturer] + String(number).padStart(NUMBER_WIDTHS[manufacturer], '0');
+}
+
+/** Every gel in the catalog, by manufacturer then number */
+export const GELS: Gel[] = (Object.keys(ENTRIES) as GelManufacturer[]).flatMap((manufacturer) =>
+	ENTRIES[manufacturer].map(([number, name, rgb]) => ({
+		code: formatGelCode(manufacturer, number),
+		manufacturer,
+		number,
+		name,
+		rgb
+	}))
+);
+
+const gelsByCode = new Map(GELS.map((gel) => [gel.code, gel]));
+
+/** Prefixes accepted when reading a code, longest first so "GAM" wins over "G" */
+const CODE_PATTERN = /^(AP|GAM|R|L|G)\s*-?\s*(\d+)$/i;
+
+const PREFIX_MANUFACTURERS: Record<string, GelManufacturer> = {
+	AP: 'apollo',
+	GAM: 'gam',
+	R: 'rosco',
+	L: 'lee',
+	G: 'gam'
+};
+
+/**
+ * Read a gel code in any common spelling ("R2", "r 02", "L-201", "GAM 480")
+ * and return its canonical form, or null if it isn't shaped like a gel code
+ */
+export function normalizeGelCode(text: string): string | null {
+	const match = CODE_PATTERN.exec(text.trim());
+	if (!match) return null;
+	const manufacturer = PREFIX_MANUFACTURERS[match[1].toUpperCase()];
+	return formatGelCode(manufacturer, parseInt(match[2], 10));
+}
+
+/**
+ * Find a gel by code, in any common spelling
+ */
+export function findGel(text: string): Gel | null {
+	const code = normalizeGelCode(text);
+	return code ? (gelsByCode.get(code) ?? null) : null;
+}
+
+/**
+ * Gels matching a search: the exact code first, then codes starting with the
+ * query as typed ("R2" -> R20, R21, ...), then names containing it
+ */
+export function searchGels(query: string, limit = 8): Gel[] {
+	const text = query.trim().toLowerCase();
+	if (!text) return [];
+
+	const exact = findGel(text);
+	const prefix = text.replace(/[\s-]/g, '').toUpperCase().replace(/^GAM/, 'G');
+	const byCode = GELS.filter((gel) => gel !== exact && gel.code.startsWith(prefix));
+	const byName = GELS.filter(
+		(gel) => gel !== exact && !byCode.includes(gel) && gel.name.toLowerCase().includes(text)
+	);
+	return [...(exact ? [exact] : []), ...byCode, ...byName].slice(0, limit);
+}
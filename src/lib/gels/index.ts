@@ -0,0 +1,29 @@
+/**
+ * Gels
+ *
+ * The built-in color filter catalog (Rosco, Lee, GAM, Apollo) and the color
+ * specs instruments use to name their gels, e.g. "R02 + R119".
+ */
+
+// Catalog
+export {
+	GELS,
+	GEL_MANUFACTURER_NAMES,
+	formatGelCode,
+	normalizeGelCode,
+	findGel,
+	searchGels,
+	type Gel,
+	type GelManufacturer
+} from './catalog';
+
+// Color specs
+export {
+	COLOR_SEPARATOR,
+	parseColorToken,
+	parseColorSpec,
+	getUnknownColorCodes,
+	getSpecGels,
+	getColorDisplayRgb,
+	type ColorToken
+} from './spec';
@@ -0,0 +1,114 @@
+/**
+ * Color Specs
+ *
+ * An instrument's color field holds one or more colors joined with "+", the
+ * way they are written on a plot: "R02", "R02 + R119", "N/C". Each color is a
+ * catalog gel, "no color", a hex display color, or an unknown code.
+ */
+
+import { findGel, type Gel } from './catalog';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One color in a color spec
+ */
+export type ColorToken =
+	| { kind: 'gel'; text: string; gel: Gel }
+	| { kind: 'none'; text: string }
+	| { kind: 'hex'; text: string; rgb: string }
+	| { kind: 'unknown'; text: string };
+
+/** Separator between colors in a spec */
+export const COLOR_SEPARATOR = '+';
+
+/** Ways of writing "no color" */
+const NO_COLOR_PATTERN = /^(n\/?c|no colou?r|open)$/i;
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Read one color
+ */
+export function parseColorToken(text: string): ColorToken {
+	const trimmed = text.trim();
+	const gel = findGel(trimmed);
+	if (gel) return { kind: 'gel', text: trimmed, gel };
+	if (NO_COLOR_PATTERN.test(trimmed)) return { kind: 'none', text: trimmed };
+	if (HEX_PATTERN.test(trimmed)) return { kind: 'hex', text: trimmed, rgb: expandHex(trimmed) };
+	return { kind: 'unknown', text: trimmed };
+}
+
+/**
+ * Split a color spec into its colors, ignoring empty entries
+ */
+export function parseColorSpec(value: string | undefined): ColorToken[] {
+	if (!value) return [];
+	return value
+		.split(COLOR_SEPARATOR)
+		.map((text) => text.trim())
+		.filter((text) => text.length > 0)
+		.map(parseColorToken);
+}
+
+/**
+ * Colors in a spec that aren't in the gel catalog
+ */
+export function getUnknownColorCodes(value: string | undefined): string[] {
+	return parseColorSpec(value)
+		.filter((token) => token.kind === 'unknown')
+		.map((token) => token.text);
+}
+
+/**
+ * Gels in a spec, in order (no-color and hex entries are skipped)
+ */
+export function getSpecGels(value: string | undefined): Gel[] {
+	return parseColorSpec(value).flatMap((token) => (token.kind === 'gel' ? [token.gel] : []));
+}
+
+// ============================================================================
+// Display Color
+// ============================================================================
+
+function expandHex(hex: string): string {
+	const digits = hex.slice(1).toLowerCase();
+	if (digits.length === 6) return `#${digits}`;
+	return `#${[...digits].map((digit) => digit + digit).join('')}`;
+}
+
+/**
+ * Approximate display color of a color spec
+ *
+ * Stacked gels filter in series, so their colors are multiplied channel by
+ * channel. Returns null when the spec has no displayable color.
+ */
+export function getColorDisplayRgb(value: string | undefined): string | null {
+	const colors = parseColorSpec(value).flatMap((token) => {
+		if (token.kind === 'gel') return [token.gel.rgb];
+		if (token.kind === 'hex') return [token.rgb];
+		return [];
+	});
+	if (colors.length === 0) return null;
+
+	const mixed = [1, 1, 1];
+	for (const color of colors) {
+		for (let channel = 0; channel < 3; channel++) {
+			mixed[channel] *= parseInt(color.slice(1 + channel * 2, 3 + channel * 2), 16) / 255;
+		}
+	}
+
+	return `#${mixed
+		.map((channel) =>
+			Math.round(channel * 255)
+				.toString(16)
+				.padStart(2, '0')
+		)
+		.join('')}`;
+}
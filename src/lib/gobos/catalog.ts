@@ -0,0 +1,204 @@
+/**
+ * Gobo Catalog
+ *
+ * Built-in steel gobo patterns from the main ranges, with their names and the
+ * family of pattern each belongs to (used to draw a preview).
+ *
+ * Codes are written the way they appear on a plot: a manufacturer prefix and
+ * the catalog number, e.g. R77106, AP1011, G226. Apollo's "ME-" numbers are
+ * read as Apollo codes.
+ */
+
+import type { GoboSize } from '$lib/fixtures';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Gobo manufacturers in the catalog */
+export type GoboManufacturer = 'rosco' | 'apollo' | 'gam';
+
+/**
+ * Family of pattern a gobo belongs to
+ */
+export type GoboPatternKind =
+	'breakup' | 'foliage' | 'window' | 'blinds' | 'stars' | 'water' | 'geometric' | 'texture';
+
+/**
+ * A gobo pattern from the catalog
+ */
+export interface Gobo {
+	/** Code as written on the plot, e.g. "R77106" */
+	code: string;
+	manufacturer: GoboManufacturer;
+	/** Catalog number */
+	number: number;
+	name: string;
+	kind: GoboPatternKind;
+}
+
+/** [number, name, pattern kind] */
+type GoboEntry = [number, string, GoboPatternKind];
+
+// ============================================================================
+// Manufacturers
+// ============================================================================
+
+/** Display names for the manufacturers */
+export const GOBO_MANUFACTURER_NAMES: Record<GoboManufacturer, string> = {
+	rosco: 'Rosco',
+	apollo: 'Apollo',
+	gam: 'GAM'
+};
+
+/** Code prefix for each manufacturer */
+const PREFIXES: Record<GoboManufacturer, string> = {
+	rosco: 'R',
+	apollo: 'AP',
+	gam: 'G'
+};
+
+// ============================================================================
+// Holders
+// ============================================================================
+
+/** Display names for the gobo holder sizes, largest first */
+export const GOBO_SIZE_NAMES: Record<GoboSize, string> = {
+	A: 'A size (100 mm)',
+	B: 'B size (86 mm)',
+	M: 'M size (66 mm)'
+};
+
+/** Every gobo holder size, largest first */
+export const GOBO_SIZES = Object.keys(GOBO_SIZE_NAMES) as GoboSize[];
+
+// ============================================================================
+// Catalog Data
+// ============================================================================
+
+const ROSCO: GoboEntry[] = [
+	[77102, 'Dense Leaves', 'foliage'],
+	[77106, 'Leaf Breakup', 'foliage'],
+	[77108, 'Branches', 'foliage'],
+	[77202, 'Cloud Breakup', 'breakup'],
+	[77205, 'Medium Breakup', 'breakup'],
+	[77209, 'Fine Breakup', 'breakup'],
+	[77350, 'Four Pane Window', 'window'],
+	[77355, 'Gothic Window', 'window'],
+	[77401, 'Venetian Blinds', 'blinds'],
+	[77500, 'Stars', 'stars'],
+	[77601, 'Water Ripple', 'water'],
+	[77730, 'Concentric Rings', 'geometric'],
+	[77735, 'Radial Spokes', 'geometric'],
+	[77801, 'Dot Texture', 'texture']
+];
+
+const APOLLO: GoboEntry[] = [
+	[1011, 'Leafy Breakup', 'foliage'],
+	[1023, 'Abstract Breakup', 'breakup'],
+	[1045, 'Arched Window', 'window'],
+	[1060, 'Rain', 'blinds'],
+	[2050, 'Starfield', 'stars'],
+	[2220, 'Ocean Waves', 'water'],
+	[3010, 'Spiral Rings', 'geometric'],
+	[3150, 'Cracked Earth', 'texture']
+];
+
+const GAM: GoboEntry[] = [
+	[201, 'Foliage', 'foliage'],
+	[212, 'Breakup', 'breakup'],
+	[226, 'Window Pane', 'window'],
+	[240, 'Blinds', 'blinds'],
+	[250, 'Night Sky', 'stars'],
+	[263, 'Water', 'water'],
+	[280, 'Sunburst', 'geometric'],
+	[290, 'Sparkle Texture', 'texture']
+];
+
+const ENTRIES: Record<GoboManufacturer, GoboEntry[]> = {
+	rosco: ROSCO,
+	apollo: APOLLO,
+	gam: GAM
+};
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Write a gobo code the way it appears on a plot, e.g. ("gam", 226) -> "G226"
+ */
+export function formatGoboCode(manufacturer: GoboManufacturer, number: number): string {
+	return PREFIXES[manufacturer] + number;
+}
+
+/** Every gobo in the catalog, by manufacturer then number */
+export const GOBOS: Gobo[] = (Object.keys(ENTRIES) as GoboManufacturer[]).flatMap((manufacturer) =>
+	ENTRIES[manufacturer].map(([number, name, kind]) => ({
+		code: formatGoboCode(manufacturer, number),
+		manufacturer,
+		number,
+		name,
+		kind
+	}))
+);
+
+const gobosByCode = new Map(GOBOS.map((gobo) => [gobo.code, gobo]));
+
+/** Prefixes accepted when reading a code, longest first so "GAM" wins over "G" */
+const CODE_PATTERN = /^(AP|ME|GAM|R|G)\s*-?\s*(\d+)$/i;
+
+const PREFIX_MANUFACTURERS: Record<string, GoboManufacturer> = {
+	AP: 'apollo',
+	ME: 'apollo',
+	GAM: 'gam',
+	R: 'rosco',
+	G: 'gam'
+};
+
+/**
+ * Read a gobo code in any common spelling ("r 77106", "ME-1011", "GAM 226")
+ * and return its canonical form, or null if it isn't shaped like a gobo code
+ */
+export function normalizeGoboCode(text: string): string | null {
+	const match = CODE_PATTERN.exec(text.trim());
+	if (!match) return null;
+	const manufacturer = PREFIX_MANUFACTURERS[match[1].toUpperCase()];
+	return formatGoboCode(manufacturer, parseInt(match[2], 10));
+}
+
+/**
+ * Find a gobo by code, in any common spelling
+ */
+export function findGobo(text: string | undefined): Gobo | null {
+	if (!text) return null;
+	const code = normalizeGoboCode(text);
+	return code ? (gobosByCode.get(code) ?? null) : null;
+}
+
+/**
+ * Gobos matching a search: the exact code first, then codes starting with the
+ * query as typed, then names containing it
+ */
+export function searchGobos(query: string, limit = 8): Gobo[] {
+	const text = query.trim().toLowerCase();
+	if (!text) return [];
+
+	const exact = findGobo(text);
+	const prefix = text.replace(/[\s-]/g, '').toUpperCase().replace(/^GAM/, 'G').replace(/^ME/, 'AP');
+	const byCode = GOBOS.filter((gobo) => gobo !== exact && gobo.code.startsWith(prefix));
+	const byName = GOBOS.filter(
+		(gobo) => gobo !== exact && !byCode.includes(gobo) && gobo.name.toLowerCase().includes(text)
+	);
+	return [...(exact ? [exact] : []), ...byCode, ...byName].slice(0, limit);
+}
+
+/**
+ * Short label for a gobo value, for drawing inside a symbol: the catalog
+ * number for a known gobo, else the value as typed
+ */
+export function getGoboLabel(value: string | undefined): string | null {
+	const text = value?.trim();
+	if (!text) return null;
+	return findGobo(text)?.number.toString() ?? text;
+}
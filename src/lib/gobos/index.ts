@@ -0,0 +1,25 @@
+/**
+ * Gobos
+ *
+ * The built-in gobo pattern catalog (Rosco, Apollo, GAM), generated preview
+ * images, and the holder sizes fixtures take them in.
+ */
+
+// Catalog
+export {
+	GOBOS,
+	GOBO_MANUFACTURER_NAMES,
+	GOBO_SIZE_NAMES,
+	GOBO_SIZES,
+	formatGoboCode,
+	normalizeGoboCode,
+	findGobo,
+	searchGobos,
+	getGoboLabel,
+	type Gobo,
+	type GoboManufacturer,
+	type GoboPatternKind
+} from './catalog';
+
+// Previews
+export { GOBO_PREVIEW_SIZE, GOBO_PREVIEW_RADIUS, getGoboPreviewPath } from './preview';
@@ -0,0 +1,168 @@
+/**
+ * Gobo Previews
+ *
+ * Draws a stylized preview of a gobo: the openings of a pattern from its
+ * family, laid out on a 100 × 100 disc centered at (50, 50). Layouts are
+ * seeded by the catalog number, so each gobo always draws the same way and
+ * gobos of one family still look different from each other.
+ */
+
+import type { Gobo, GoboPatternKind } from './catalog';
+
+/** Size of the preview's view box */
+export const GOBO_PREVIEW_SIZE = 100;
+
+/** Radius of the gobo's image area within the preview */
+export const GOBO_PREVIEW_RADIUS = 46;
+
+const CENTER = GOBO_PREVIEW_SIZE / 2;
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** A circle as a path, drawn clockwise (or counter-clockwise to cut a hole) */
+function circle(cx: number, cy: number, r: number, clockwise = true): string {
+	const sweep = clockwise ? 1 : 0;
+	return (
+		`M ${round(cx - r)} ${round(cy)} ` +
+		`A ${round(r)} ${round(r)} 0 1 ${sweep} ${round(cx + r)} ${round(cy)} ` +
+		`A ${round(r)} ${round(r)} 0 1 ${sweep} ${round(cx - r)} ${round(cy)} Z`
+	);
+}
+
+function rect(x: number, y: number, width: number, height: number): string {
+	return `M ${round(x)} ${round(y)} h ${round(width)} v ${round(height)} h ${round(-width)} Z`;
+}
+
+/** A random point on the disc */
+function pointOnDisc(random: () => number, radius = GOBO_PREVIEW_RADIUS): [number, number] {
+	const angle = random() * Math.PI * 2;
+	const distance = Math.sqrt(random()) * radius;
+	return [CENTER + Math.cos(angle) * distance, CENTER + Math.sin(angle) * distance];
+}
+
+const DRAWERS: Record<GoboPatternKind, (random: () => number) => string[]> = {
+	// Irregular blobs of light
+	breakup: (random) =>
+		Array.from({ length: 16 }, () => circle(...pointOnDisc(random), 3 + random() * 6)),
+
+	// Leaves at random angles
+	foliage: (random) =>
+		Array.from({ length: 14 }, () => {
+			const [x, y] = pointOnDisc(random, GOBO_PREVIEW_RADIUS - 6);
+			const angle = random() * Math.PI * 2;
+			const length = 8 + random() * 8;
+			const width = length * 0.35;
+			const [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+			const [mx, my] = [x + (dx * length) / 2, y + (dy * length) / 2];
+			return (
+				`M ${round(x)} ${round(y)} ` +
+				`Q ${round(mx - dy * width)} ${round(my + dx * width)} ${round(x + dx * length)} ${round(y + dy * length)} ` +
+				`Q ${round(mx + dy * width)} ${round(my - dx * width)} ${round(x)} ${round(y)} Z`
+			);
+		}),
+
+	// Panes separated by mullions
+	window: (random) => {
+		const columns = 2 + Math.floor(random() * 2);
+		const rows = 2 + Math.floor(random() * 2);
+		const size = 56;
+		const bar = 4;
+		const paneWidth = (size - bar * (columns - 1)) / columns;
+		const paneHeight = (size - bar * (rows - 1)) / rows;
+		const origin = CENTER - size / 2;
+		return Array.from({ length: columns * rows }, (_, index) => {
+			const column = index % columns;
+			const row = Math.floor(index / columns);
+			return rect(
+				origin + column * (paneWidth + bar),
+				origin + row * (paneHeight + bar),
+				paneWidth,
+				paneHeight
+			);
+		});
+	},
+
+	// Parallel slats
+	blinds: (random) => {
+		const count = 6 + Math.floor(random() * 4);
+		const pitch = (GOBO_PREVIEW_RADIUS * 2) / count;
+		const top = CENTER - GOBO_PREVIEW_RADIUS;
+		return Array.from({ length: count }, (_, index) =>
+			rect(0, top + index * pitch, GOBO_PREVIEW_SIZE, pitch * 0.55)
+		);
+	},
+
+	// Small points of light
+	stars: (random) =>
+		Array.from({ length: 30 }, () => circle(...pointOnDisc(random), 0.8 + random() * 1.8)),
+
+	// Wavy bands
+	water: (random) => {
+		const count = 5;
+		const pitch = (GOBO_PREVIEW_RADIUS * 2) / count;
+		const phase = random() * Math.PI * 2;
+		return Array.from({ length: count }, (_, index) => {
+			const y = CENTER - GOBO_PREVIEW_RADIUS + index * pitch + pitch / 4;
+			const wave = (x: number) => Math.sin(x / 8 + phase + index) * 3;
+			const xs = Array.from({ length: 21 }, (_, step) => step * 5);
+			const upper = xs.map((x) => `${round(x)} ${round(y + wave(x))}`);
+			const lower = [...xs].reverse().map((x) => `${round(x)} ${round(y + pitch / 2 + wave(x))}`);
+			return `M ${upper.join(' L ')} L ${lower.join(' L ')} Z`;
+		});
+	},
+
+	// Rings or spokes
+	geometric: (random) => {
+		if (random() < 0.5) {
+			const rings = 3 + Math.floor(random() * 2);
+			const step = GOBO_PREVIEW_RADIUS / (rings + 0.5);
+			return Array.from({ length: rings }, (_, index) => {
+				const outer = step * (index + 1);
+				return (
+					circle(CENTER, CENTER, outer) + ' ' + circle(CENTER, CENTER, outer - step / 2, false)
+				);
+			});
+		}
+		const spokes = 8 + Math.floor(random() * 8);
+		const spread = Math.PI / spokes / 2;
+		return Array.from({ length: spokes }, (_, index) => {
+			const angle = (index / spokes) * Math.PI * 2;
+			const r = GOBO_PREVIEW_RADIUS + 4;
+			const point = (a: number) =>
+				`${round(CENTER + Math.cos(a) * r)} ${round(CENTER + Math.sin(a) * r)}`;
+			return `M ${CENTER} ${CENTER} L ${point(angle - spread)} L ${point(angle + spread)} Z`;
+		});
+	},
+
+	// A jittered grid of dots
+	texture: (random) => {
+		const paths: string[] = [];
+		for (let x = 8; x < GOBO_PREVIEW_SIZE; x += 9) {
+			for (let y = 8; y < GOBO_PREVIEW_SIZE; y += 9) {
+				paths.push(circle(x + (random() - 0.5) * 4, y + (random() - 0.5) * 4, 1.5 + random() * 2));
+			}
+		}
+		return paths;
+	}
+};
+
+/**
+ * Openings of a gobo's preview as one SVG path (clip it to the image disc)
+ */
+export function getGoboPreviewPath(gobo: Pick<Gobo, 'kind' | 'number'>): string {
+	return DRAWERS[gobo.kind](seededRandom(gobo.number)).join(' ');
+}
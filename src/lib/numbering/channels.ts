@@ -0,0 +1,201 @@
+/**
+ * Channel Assignment
+ *
+ * Gives a set of instruments consecutive console channels from a start channel,
+ * in a spatial order: across the stage, up the stage, or area by area through
+ * a grid laid over the stage. Used to lay out a system (front warm, front cool,
+ * ...) in one pass. Channels already used by instruments outside the set, or
+ * by any instrument's parts and accessories, are skipped, so the new block
+ * never doubles up an existing channel.
+ */
+
+import { MAX_CHANNEL } from '$lib/schemas';
+import type { InstrumentObject, Venue } from '$lib/stores/project.svelte';
+import type { InstrumentWithPosition } from '$lib/stores/derived/instruments.svelte';
+import type { InstrumentProperties } from '$lib/types/instrument';
+import { getDownstageLeftCorner, getStageOffset } from '$lib/utils/stage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Order channels are assigned in:
+ * - stage-left-to-right: across the plot from stage left (house right)
+ * - downstage-to-upstage: from the edge of the stage towards the back wall
+ * - stage-area-grid: area by area through a grid over the stage, downstage row
+ *   first and stage left to right within each row
+ */
+export type ChannelOrder = 'stage-left-to-right' | 'downstage-to-upstage' | 'stage-area-grid';
+
+/**
+ * Options for a channel assignment run
+ */
+export interface ChannelAssignmentOptions {
+	/** First channel to assign */
+	start: number;
+	order: ChannelOrder;
+	/** Grid columns across the stage (stage-area-grid only) */
+	columns: number;
+	/** Grid rows up the stage (stage-area-grid only) */
+	rows: number;
+}
+
+/**
+ * The channel planned for one instrument
+ */
+export interface ChannelAssignment {
+	instrumentId: string;
+	channel: number;
+}
+
+/** Area rectangle the grid is laid over */
+type GridBounds = NonNullable<Venue['stageBounds']>;
+
+/** Display names for the channel orders */
+export const CHANNEL_ORDER_NAMES: Record<ChannelOrder, string> = {
+	'stage-left-to-right': 'Stage left to right',
+	'downstage-to-upstage': 'Downstage to upstage',
+	'stage-area-grid': 'Stage areas'
+};
+
+/** Default grid: the classic nine stage areas */
+export const DEFAULT_AREA_GRID = { columns: 3, rows: 3 };
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+/**
+ * Bounding box of a set of instruments, used for the grid when the venue has no stage bounds
+ */
+function getInstrumentBounds(instruments: readonly InstrumentWithPosition[]): GridBounds {
+	const xs = instruments.map((instrument) => instrument.worldX);
+	const ys = instruments.map((instrument) => instrument.worldY);
+	const x = Math.min(...xs);
+	const y = Math.min(...ys);
+	return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Index of the grid cell a coordinate falls in along one axis.
+ * Points outside the area count as the nearest edge cell.
+ */
+function getCellIndex(value: number, min: number, size: number, count: number): number {
+	if (size <= 0) return 0;
+	const index = Math.floor(((value - min) / size) * count);
+	return Math.min(count - 1, Math.max(0, index));
+}
+
+/**
+ * Sort instruments into channel order (stable, so ties keep their given order)
+ *
+ * @param instruments - Instruments with their world positions
+ * @param options - The order, and the grid size for stage areas
+ * @param stageBounds - Stage area for the grid (defaults to the instruments' bounding box)
+ */
+export function sortForChannels(
+	instruments: readonly InstrumentWithPosition[],
+	options: Pick<ChannelAssignmentOptions, 'order' | 'columns' | 'rows'>,
+	stageBounds: Venue['stageBounds'] = null
+): InstrumentWithPosition[] {
+	const offsets = new Map(
+		instruments.map((instrument) => [
+			instrument.id,
+			getStageOffset({ x: instrument.worldX, y: instrument.worldY })
+		])
+	);
+	const leftToRight = (a: InstrumentWithPosition, b: InstrumentWithPosition) =>
+		offsets.get(b.id)!.left - offsets.get(a.id)!.left;
+	const downToUp = (a: InstrumentWithPosition, b: InstrumentWithPosition) =>
+		offsets.get(b.id)!.downstage - offsets.get(a.id)!.downstage;
+	const sorted = [...instruments];
+
+	switch (options.order) {
+		case 'stage-left-to-right':
+			return sorted.sort((a, b) => leftToRight(a, b) || downToUp(a, b));
+
+		case 'downstage-to-upstage':
+			return sorted.sort((a, b) => downToUp(a, b) || leftToRight(a, b));
+
+		case 'stage-area-grid': {
+			if (sorted.length === 0) return sorted;
+			const bounds = stageBounds ?? getInstrumentBounds(sorted);
+			const columns = Math.max(1, Math.floor(options.columns));
+			const rows = Math.max(1, Math.floor(options.rows));
+
+			// Rows count up from the downstage edge, columns across from the stage left edge
+			const corner = getDownstageLeftCorner(bounds);
+			const cellOf = (instrument: InstrumentWithPosition) => {
+				const offset = getStageOffset({ x: instrument.worldX, y: instrument.worldY }, corner);
+				return {
+					row: getCellIndex(-offset.downstage, 0, bounds.height, rows),
+					column: getCellIndex(-offset.left, 0, bounds.width, columns)
+				};
+			};
+			const cells = new Map(sorted.map((instrument) => [instrument.id, cellOf(instrument)]));
+
+			return sorted.sort((a, b) => {
+				const cellA = cells.get(a.id)!;
+				const cellB = cells.get(b.id)!;
+				return (
+					cellA.row - cellB.row ||
+					cellA.column - cellB.column ||
+					leftToRight(a, b) ||
+					downToUp(a, b)
+				);
+			});
+		}
+	}
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Channels used by an instrument's parts and accessories
+ */
+function getAttachedChannels(instrument: InstrumentProperties): (number | undefined)[] {
+	return [
+		...(instrument.parts ?? []).map((part) => part.channel),
+		...(instrument.accessories ?? []).map((accessory) => accessory.channel)
+	];
+}
+
+/**
+ * Plan channels for a set of instruments
+ *
+ * Instruments that would need a channel past the console's highest are left out.
+ *
+ * @param instruments - Instruments to assign, with their world positions
+ * @param others - The project's other instruments, whose channels are skipped
+ * @param options - Start channel, order and grid size
+ * @param stageBounds - Stage area for the grid order
+ * @returns Assignments in channel order
+ */
+export function planChannels(
+	instruments: readonly InstrumentWithPosition[],
+	others: readonly InstrumentObject[],
+	options: ChannelAssignmentOptions,
+	stageBounds: Venue['stageBounds'] = null
+): ChannelAssignment[] {
+	const used = new Set(
+		[
+			...others.flatMap((instrument) => [instrument.channel, ...getAttachedChannels(instrument)]),
+			...instruments.flatMap(getAttachedChannels)
+		].filter((channel): channel is number => channel !== undefined)
+	);
+
+	const assignments: ChannelAssignment[] = [];
+	let channel = Math.max(1, Math.floor(options.start));
+
+	for (const instrument of sortForChannels(instruments, options, stageBounds)) {
+		while (used.has(channel)) channel++;
+		if (channel > MAX_CHANNEL) break;
+		assignments.push({ instrumentId: instrument.id, channel });
+		channel++;
+	}
+
+	return assignments;
+}
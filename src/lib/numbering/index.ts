@@ -0,0 +1,34 @@
+/**
+ * Numbering
+ *
+ * Tools that number instruments in bulk: unit numbers along hanging positions
+ * and console channels laid out across the stage.
+ */
+
+// Unit numbers
+export {
+	UNIT_NUMBERING_DIRECTION_NAMES,
+	getDefaultNumberingDirection,
+	getUnitNumberingSettings,
+	getCellSuffix,
+	formatUnitNumber,
+	getPartLabel,
+	resolveParts,
+	expandParts,
+	planUnitNumbers,
+	type UnitNumberingDirection,
+	type UnitNumberingSettings,
+	type UnitAssignment,
+	type ResolvedPart
+} from './units';
+
+// Channels
+export {
+	CHANNEL_ORDER_NAMES,
+	DEFAULT_AREA_GRID,
+	sortForChannels,
+	planChannels,
+	type ChannelOrder,
+	type ChannelAssignmentOptions,
+	type ChannelAssignment
+} from './channels';
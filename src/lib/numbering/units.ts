@@ -0,0 +1,235 @@
+/**
+ * Unit Numbering
+ *
+ * Numbers the instruments on a hanging position in order along the bar. The
+ * direction is given in stage terms and mapped onto the bar's orientation, so
+ * a pipe drawn right-to-left still numbers from stage left. Instruments of the
+ * same fixture type hung on top of each other (the cells of a cyc or striplight
+ * unit) can share one number with letter suffixes: 3A, 3B, 3C. The parts of
+ * a multi-part instrument are lettered the same way.
+ */
+
+import { getSymbol } from '$lib/symbols';
+import type {
+	HangingPositionObject,
+	HangingPositionType,
+	InstrumentObject
+} from '$lib/stores/project.svelte';
+import type { InstrumentPart, InstrumentProperties } from '$lib/types/instrument';
+import { DOWNSTAGE, STAGE_LEFT, STAGE_RIGHT, UPSTAGE, type StageVector } from '$lib/utils/stage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Direction unit numbers count up in (see $lib/utils/stage for how stage
+ * directions map onto the plot)
+ */
+export type UnitNumberingDirection =
+	'stage-left-to-right' | 'stage-right-to-left' | 'downstage-to-upstage' | 'upstage-to-downstage';
+
+/**
+ * How a hanging position's instruments are numbered.
+ * Saved on the position so renumbering can repeat automatically.
+ */
+export interface UnitNumberingSettings {
+	direction: UnitNumberingDirection;
+	/** First unit number */
+	start: number;
+	/** Whether stacked cells of one fixture type share a number with letter suffixes */
+	groupCells: boolean;
+	/** Renumber whenever instruments are added, removed or moved along the position */
+	auto: boolean;
+}
+
+/**
+ * The unit number planned for one instrument
+ */
+export interface UnitAssignment {
+	instrumentId: string;
+	unitNumber: number;
+	/** Cell letter, or undefined for a single-cell unit */
+	unitSuffix: string | undefined;
+}
+
+/**
+ * One part of a multi-part instrument, ready to show on the plot or a report
+ */
+export interface ResolvedPart {
+	/** Position in the instrument's parts list */
+	index: number;
+	/** Label shown on the plot, e.g. "A" */
+	label: string;
+	/** The instrument's properties with the part's own values in place */
+	properties: InstrumentProperties;
+}
+
+/** Display names for the numbering directions */
+export const UNIT_NUMBERING_DIRECTION_NAMES: Record<UnitNumberingDirection, string> = {
+	'stage-left-to-right': 'Stage left to right',
+	'stage-right-to-left': 'Stage right to left',
+	'downstage-to-upstage': 'Downstage to upstage',
+	'upstage-to-downstage': 'Upstage to downstage'
+};
+
+/** Unit vector on the plot each direction counts toward */
+const DIRECTION_VECTORS: Record<UnitNumberingDirection, StageVector> = {
+	'stage-left-to-right': STAGE_RIGHT,
+	'stage-right-to-left': STAGE_LEFT,
+	'downstage-to-upstage': UPSTAGE,
+	'upstage-to-downstage': DOWNSTAGE
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Usual numbering direction for a position type: booms and ladders are numbered
+ * downstage to upstage, pipes and trusses from stage left
+ */
+export function getDefaultNumberingDirection(
+	positionType: HangingPositionType
+): UnitNumberingDirection {
+	return positionType === 'boom' || positionType === 'ladder'
+		? 'downstage-to-upstage'
+		: 'stage-left-to-right';
+}
+
+/**
+ * Numbering settings for a position: its saved settings, else the defaults for its type
+ */
+export function getUnitNumberingSettings(position: HangingPositionObject): UnitNumberingSettings {
+	return (
+		position.unitNumbering ?? {
+			direction: getDefaultNumberingDirection(position.positionType),
+			start: 1,
+			groupCells: false,
+			auto: false
+		}
+	);
+}
+
+/**
+ * Letter suffix for the nth cell of a unit: A-Z, then AA, AB, ...
+ */
+export function getCellSuffix(index: number): string {
+	const letter = String.fromCharCode(65 + (index % 26));
+	return index < 26 ? letter : getCellSuffix(Math.floor(index / 26) - 1) + letter;
+}
+
+/**
+ * Format an instrument's unit number with its cell suffix, e.g. "3" or "3B"
+ */
+export function formatUnitNumber(instrument: InstrumentProperties): string | null {
+	if (instrument.unitNumber === undefined) return null;
+	return `${instrument.unitNumber}${instrument.unitSuffix ?? ''}`;
+}
+
+// ============================================================================
+// Parts
+// ============================================================================
+
+/**
+ * Label for the nth part of an instrument: its own label, else A, B, C, ...
+ */
+export function getPartLabel(part: InstrumentPart, index: number): string {
+	return part.label ?? getCellSuffix(index);
+}
+
+/**
+ * The parts of a multi-part instrument, each with the instrument's properties
+ * overridden by the part's own. The part label is appended to the unit
+ * number's suffix, so unit 3 reads 3A, 3B, ... Instruments without parts
+ * return an empty list.
+ */
+export function resolveParts(instrument: InstrumentProperties): ResolvedPart[] {
+	return (instrument.parts ?? []).map((part, index) => {
+		const label = getPartLabel(part, index);
+		return {
+			index,
+			label,
+			properties: {
+				...instrument,
+				channel: part.channel ?? instrument.channel,
+				dimmer: part.dimmer ?? instrument.dimmer,
+				circuit: part.circuit ?? instrument.circuit,
+				universe: part.universe ?? instrument.universe,
+				address: part.address ?? instrument.address,
+				color: part.color ?? instrument.color,
+				wattage: part.wattage,
+				unitSuffix: `${instrument.unitSuffix ?? ''}${label}`,
+				parts: undefined
+			}
+		};
+	});
+}
+
+/**
+ * What a report lists for an instrument: one entry per part, or the instrument
+ * itself when it has none
+ */
+export function expandParts(
+	instrument: InstrumentProperties
+): { partIndex: number | null; properties: InstrumentProperties }[] {
+	const parts = resolveParts(instrument);
+	return parts.length > 0
+		? parts.map((part) => ({ partIndex: part.index, properties: part.properties }))
+		: [{ partIndex: null, properties: instrument }];
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Plan unit numbers for the instruments on a hanging position
+ *
+ * @param position - The hanging position
+ * @param instruments - Instruments hung on the position
+ * @param settings - Direction, start and cell grouping (defaults to the position's own)
+ * @returns Assignments in numbering order
+ */
+export function planUnitNumbers(
+	position: HangingPositionObject,
+	instruments: readonly InstrumentObject[],
+	settings: UnitNumberingSettings = getUnitNumberingSettings(position)
+): UnitAssignment[] {
+	const barX = position.x2 - position.x1;
+	const barY = position.y2 - position.y1;
+	const barLength = Math.hypot(barX, barY);
+
+	// Walk the bar from whichever end the direction starts at
+	const vector = DIRECTION_VECTORS[settings.direction];
+	const sign = barX * vector.x + barY * vector.y < 0 ? -1 : 1;
+	const sorted = [...instruments].sort((a, b) => sign * (a.positionOnBar - b.positionOnBar));
+
+	// Split into units: a cell joins the previous unit when it is the same fixture
+	// type and close enough that the symbols overlap
+	const units: InstrumentObject[][] = [];
+	for (const instrument of sorted) {
+		const unit = units[units.length - 1];
+		const previous = unit?.[unit.length - 1];
+		const isCell =
+			settings.groupCells &&
+			previous !== undefined &&
+			previous.profileId === instrument.profileId &&
+			Math.abs(instrument.positionOnBar - previous.positionOnBar) * barLength <
+				getSymbol(instrument.instrumentType).width;
+
+		if (isCell) {
+			unit.push(instrument);
+		} else {
+			units.push([instrument]);
+		}
+	}
+
+	return units.flatMap((unit, index) =>
+		unit.map((instrument, cell) => ({
+			instrumentId: instrument.id,
+			unitNumber: settings.start + index,
+			unitSuffix: unit.length > 1 ? getCellSuffix(cell) : undefined
+		}))
+	);
+}
@@ -0,0 +1,209 @@
+/**
+ * Auto-Patch
+ *
+ * Plans DMX addresses for a set of instruments: walks them in a chosen order
+ * and gives each the next block of addresses its footprint needs, leaving a
+ * gap between fixtures if asked. A fixture never straddles two universes, and
+ * addresses already used by instruments outside the set (or by any accessory,
+ * or part with an address of its own) are skipped, so the plan never collides
+ * with the rest of the patch. Fixtures whose footprint is larger than a whole
+ * universe can never be placed and are reported as unpatchable instead.
+ */
+
+import type { FixtureLibrary } from '$lib/fixtures';
+import type { HangingPositionObject, InstrumentObject } from '$lib/stores/project.svelte';
+import { getStageOffset } from '$lib/utils/stage';
+import { DMX_UNIVERSE_SIZE, getPatchRanges } from './validate';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Order instruments are addressed in:
+ * - channel: by console channel (instruments without one last)
+ * - position: by hanging position, then unit number along it
+ * - stage-left-to-right: across the plot from stage left (house right)
+ */
+export type AutoPatchOrder = 'channel' | 'position' | 'stage-left-to-right';
+
+/**
+ * Options for an auto-patch run
+ */
+export interface AutoPatchOptions {
+	/** Universe to start in */
+	universe: number;
+	/** Address to start at */
+	address: number;
+	/** Empty addresses to leave after each fixture */
+	gap: number;
+	order: AutoPatchOrder;
+}
+
+/**
+ * The address planned for one instrument
+ */
+export interface PatchAssignment {
+	instrumentId: string;
+	universe: number;
+	address: number;
+	/** Addresses the instrument occupies */
+	footprint: number;
+}
+
+/**
+ * The result of planning an auto-patch run
+ */
+export interface AutoPatchPlan {
+	/** Assignments in patch order */
+	assignments: PatchAssignment[];
+	/** Instruments whose footprint does not fit in a universe */
+	unpatchable: string[];
+}
+
+/** Display names for the patch orders */
+export const AUTO_PATCH_ORDER_NAMES: Record<AutoPatchOrder, string> = {
+	channel: 'Channel order',
+	position: 'Position, then unit number',
+	'stage-left-to-right': 'Stage left to right'
+};
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+/**
+ * World position of an instrument (hung instruments sit along their position)
+ */
+function getWorldPosition(
+	instrument: InstrumentObject,
+	positionsById: Map<string, HangingPositionObject>
+): { x: number; y: number } {
+	const position = instrument.hangingPositionId
+		? positionsById.get(instrument.hangingPositionId)
+		: undefined;
+	if (position) {
+		return {
+			x: position.x1 + (position.x2 - position.x1) * instrument.positionOnBar,
+			y: position.y1 + (position.y2 - position.y1) * instrument.positionOnBar
+		};
+	}
+	return { x: instrument.x ?? 0, y: instrument.y ?? 0 };
+}
+
+/**
+ * Compare two optional numbers, with missing values last
+ */
+function compareOptional(a: number | undefined, b: number | undefined): number {
+	if (a === undefined || b === undefined) {
+		return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+	}
+	return a - b;
+}
+
+/**
+ * Sort instruments into patch order (stable, so ties keep their given order)
+ */
+export function sortForPatch(
+	instruments: readonly InstrumentObject[],
+	hangingPositions: readonly HangingPositionObject[],
+	order: AutoPatchOrder
+): InstrumentObject[] {
+	const positionsById = new Map(hangingPositions.map((position) => [position.id, position]));
+	const sorted = [...instruments];
+
+	switch (order) {
+		case 'channel':
+			return sorted.sort((a, b) => compareOptional(a.channel, b.channel));
+
+		case 'position': {
+			// Positions in the order they appear in the project, free-floating last
+			const positionIndex = new Map(hangingPositions.map((position, i) => [position.id, i]));
+			const indexOf = (instrument: InstrumentObject) =>
+				positionIndex.get(instrument.hangingPositionId ?? '') ?? hangingPositions.length;
+			return sorted.sort(
+				(a, b) =>
+					indexOf(a) - indexOf(b) ||
+					compareOptional(a.unitNumber, b.unitNumber) ||
+					a.positionOnBar - b.positionOnBar
+			);
+		}
+
+		case 'stage-left-to-right': {
+			const leftOf = new Map(
+				sorted.map((instrument) => [
+					instrument.id,
+					getStageOffset(getWorldPosition(instrument, positionsById)).left
+				])
+			);
+			return sorted.sort((a, b) => leftOf.get(b.id)! - leftOf.get(a.id)!);
+		}
+	}
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Plan addresses for a set of instruments
+ *
+ * @param instruments - Instruments to patch
+ * @param others - The project's other instruments, whose addresses are kept free
+ * @param hangingPositions - The project's hanging positions (for ordering)
+ * @param library - Fixture profiles providing each instrument's footprint
+ * @param options - Where to start, the gap and the order
+ * @returns Assignments in patch order, and the instruments that cannot be patched
+ */
+export function planAutoPatch(
+	instruments: readonly InstrumentObject[],
+	others: readonly InstrumentObject[],
+	hangingPositions: readonly HangingPositionObject[],
+	library: FixtureLibrary,
+	options: AutoPatchOptions
+): AutoPatchPlan {
+	const occupied = [
+		...others.flatMap((instrument) => getPatchRanges(instrument, library)),
+		// Accessories, and parts with addresses of their own, keep their addresses
+		...instruments.flatMap((instrument) =>
+			getPatchRanges(instrument, library).filter(
+				(range) =>
+					range.accessoryIndex !== undefined ||
+					(range.partIndex !== undefined &&
+						instrument.parts![range.partIndex].address !== undefined)
+			)
+		)
+	];
+
+	const assignments: PatchAssignment[] = [];
+	const unpatchable: string[] = [];
+	let universe = Math.max(1, options.universe);
+	let address = Math.max(1, options.address);
+
+	for (const instrument of sortForPatch(instruments, hangingPositions, options.order)) {
+		const footprint = library.getFootprint(instrument);
+		if (footprint > DMX_UNIVERSE_SIZE) {
+			unpatchable.push(instrument.id);
+			continue;
+		}
+
+		// Move forward until the block fits in the universe without a collision
+		for (;;) {
+			if (address + footprint - 1 > DMX_UNIVERSE_SIZE) {
+				universe++;
+				address = 1;
+			}
+			const end = address + footprint - 1;
+			const collision = occupied.find(
+				(range) => range.universe === universe && range.start <= end && range.end >= address
+			);
+			if (!collision) break;
+			address = collision.end + 1;
+		}
+
+		assignments.push({ instrumentId: instrument.id, universe, address, footprint });
+		address += footprint + Math.max(0, options.gap);
+	}
+
+	return { assignments, unpatchable };
+}
@@ -0,0 +1,34 @@
+/**
+ * DMX Patch
+ *
+ * The DMX patch model: which addresses each instrument occupies, the
+ * validator that flags collisions and unpatched fixtures for the editor and
+ * the channel hookup, and the auto-patch planner.
+ */
+
+// Validation
+export {
+	DMX_UNIVERSE_SIZE,
+	DEFAULT_UNIVERSE,
+	formatDmxAddress,
+	getPatchRange,
+	getPatchRanges,
+	isPatchedByPart,
+	validatePatch,
+	type PatchableInstrument,
+	type PatchRange,
+	type PatchIssueType,
+	type PatchIssue,
+	type PatchValidation
+} from './validate';
+
+// Auto-patch
+export {
+	AUTO_PATCH_ORDER_NAMES,
+	sortForPatch,
+	planAutoPatch,
+	type AutoPatchOrder,
+	type AutoPatchOptions,
+	type AutoPatchPlan,
+	type PatchAssignment
+} from './auto-patch';
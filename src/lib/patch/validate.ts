@@ -0,0 +1,296 @@
+/**
+ * DMX Patch Validation
+ *
+ * Checks a project's DMX patch for mistakes a console would only reveal at
+ * load-in: fixtures whose address ranges overlap, ranges that run past the
+ * end of a universe, and intelligent fixtures that were never patched. Each
+ * instrument's range is its start address plus the footprint of its DMX mode.
+ * The parts of a multi-part instrument that are given their own addresses are
+ * patched separately, each taking an even share of the footprint. Controlled
+ * accessories such as scrollers are patched and checked the same way.
+ */
+
+import { getAccessoryFootprint, getAccessoryName } from '$lib/accessories';
+import type { FixtureLibrary, FixtureReference } from '$lib/fixtures';
+import { resolveParts } from '$lib/numbering';
+import type { InstrumentProperties } from '$lib/types/instrument';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Addresses in a DMX universe */
+export const DMX_UNIVERSE_SIZE = 512;
+
+/** Universe assumed for an instrument with an address but no universe */
+export const DEFAULT_UNIVERSE = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The instrument fields the patch is built from
+ */
+export type PatchableInstrument = FixtureReference &
+	Pick<
+		InstrumentProperties,
+		'channel' | 'universe' | 'address' | 'dmxMode' | 'accessories' | 'parts'
+	> & {
+		id: string;
+		name: string;
+	};
+
+/**
+ * The block of addresses an instrument occupies
+ */
+export interface PatchRange {
+	instrumentId: string;
+	/** Index of the part the range belongs to (absent for the whole instrument) */
+	partIndex?: number;
+	/** Index of the accessory the range belongs to (absent for the instrument itself) */
+	accessoryIndex?: number;
+	universe: number;
+	/** First address (1-based) */
+	start: number;
+	/** Last address, inclusive */
+	end: number;
+}
+
+/**
+ * Kinds of patch problem:
+ * - overlap: two instruments share addresses in the same universe
+ * - out-of-range: an instrument's range falls outside addresses 1-512
+ * - unpatched: an instrument with DMX modes, a part whose siblings are patched, or an
+ *   accessory given a channel has no address
+ */
+export type PatchIssueType = 'overlap' | 'out-of-range' | 'unpatched';
+
+/**
+ * A problem found in the patch
+ */
+export interface PatchIssue {
+	type: PatchIssueType;
+	/** Instruments involved (two for an overlap, one otherwise) */
+	instrumentIds: string[];
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * Result of validating a patch
+ */
+export interface PatchValidation {
+	/** Unpatched and out-of-range issues in instrument order, then overlaps by address */
+	issues: PatchIssue[];
+	/** Issues by instrument id (instruments without issues are absent) */
+	byInstrument: Map<string, PatchIssue[]>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Format a universe and address the way consoles print them, e.g. "2/101"
+ */
+export function formatDmxAddress(universe: number, address: number): string {
+	return `${universe}/${address}`;
+}
+
+/**
+ * Get the addresses an instrument occupies, or null if it has no address
+ */
+export function getPatchRange(
+	instrument: PatchableInstrument,
+	library: FixtureLibrary
+): PatchRange | null {
+	if (instrument.address === undefined) return null;
+
+	return {
+		instrumentId: instrument.id,
+		universe: instrument.universe ?? DEFAULT_UNIVERSE,
+		start: instrument.address,
+		end: instrument.address + library.getFootprint(instrument) - 1
+	};
+}
+
+/**
+ * Whether an instrument's parts are patched separately: true once any part has
+ * an address of its own
+ */
+export function isPatchedByPart(instrument: Pick<InstrumentProperties, 'parts'>): boolean {
+	return (instrument.parts ?? []).some((part) => part.address !== undefined);
+}
+
+/**
+ * Get the addresses an instrument, its separately patched parts and its
+ * controlled accessories occupy
+ */
+export function getPatchRanges(
+	instrument: PatchableInstrument,
+	library: FixtureLibrary
+): PatchRange[] {
+	const ranges: PatchRange[] = [];
+
+	if (isPatchedByPart(instrument)) {
+		// Parts without an address of their own start at the instrument's
+		const parts = resolveParts(instrument);
+		const footprint = Math.max(1, Math.floor(library.getFootprint(instrument) / parts.length));
+		for (const { index, properties } of parts) {
+			if (properties.address === undefined) continue;
+			ranges.push({
+				instrumentId: instrument.id,
+				partIndex: index,
+				universe: properties.universe ?? DEFAULT_UNIVERSE,
+				start: properties.address,
+				end: properties.address + footprint - 1
+			});
+		}
+	} else {
+		const range = getPatchRange(instrument, library);
+		if (range) ranges.push(range);
+	}
+
+	(instrument.accessories ?? []).forEach((accessory, accessoryIndex) => {
+		const footprint = getAccessoryFootprint(accessory);
+		if (footprint === null || accessory.address === undefined) return;
+		ranges.push({
+			instrumentId: instrument.id,
+			accessoryIndex,
+			universe: accessory.universe ?? DEFAULT_UNIVERSE,
+			start: accessory.address,
+			end: accessory.address + footprint - 1
+		});
+	});
+
+	return ranges;
+}
+
+/**
+ * Short description of an instrument for issue messages: its channel, else its name
+ */
+function describe(instrument: PatchableInstrument): string {
+	return instrument.channel !== undefined ? `Channel ${instrument.channel}` : instrument.name;
+}
+
+/**
+ * Short description of one part of an instrument, e.g. "Channel 12 part B"
+ */
+function describePart(instrument: PatchableInstrument, partIndex: number): string {
+	const part = resolveParts(instrument)[partIndex];
+	return `${describe({ ...instrument, channel: part.properties.channel })} part ${part.label}`;
+}
+
+/**
+ * Short description of what a range belongs to: the instrument, one of its
+ * parts, or one of its accessories
+ */
+function describeRange(instrument: PatchableInstrument, range: PatchRange): string {
+	if (range.partIndex !== undefined) return describePart(instrument, range.partIndex);
+	if (range.accessoryIndex === undefined) return describe(instrument);
+	const accessory = instrument.accessories![range.accessoryIndex];
+	return `${describe(instrument)} ${getAccessoryName(accessory).toLowerCase()}`;
+}
+
+/**
+ * Format a range, e.g. "1/1-25" or "1/7" for a single address
+ */
+function formatRange(range: PatchRange): string {
+	const start = formatDmxAddress(range.universe, range.start);
+	return range.end > range.start ? `${start}-${range.end}` : start;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate the DMX patch of a set of instruments
+ *
+ * @param instruments - Instruments to check (usually every instrument in the project)
+ * @param library - Fixture profiles providing each instrument's footprint
+ */
+export function validatePatch(
+	instruments: readonly PatchableInstrument[],
+	library: FixtureLibrary
+): PatchValidation {
+	const issues: PatchIssue[] = [];
+	const ranges: PatchRange[] = [];
+	const byId = new Map(instruments.map((instrument) => [instrument.id, instrument]));
+
+	for (const instrument of instruments) {
+		if (isPatchedByPart(instrument)) {
+			// Once some parts are patched, every part needs an address
+			for (const { index, properties } of resolveParts(instrument)) {
+				if (properties.address !== undefined) continue;
+				issues.push({
+					type: 'unpatched',
+					instrumentIds: [instrument.id],
+					message: `${describePart(instrument, index)} (${library.getName(instrument)}) has no DMX address`
+				});
+			}
+		} else if (
+			instrument.address === undefined &&
+			library.resolve(instrument).dmxModes.length > 0
+		) {
+			issues.push({
+				type: 'unpatched',
+				instrumentIds: [instrument.id],
+				message: `${describe(instrument)} (${library.getName(instrument)}) has no DMX address`
+			});
+		}
+
+		for (const accessory of instrument.accessories ?? []) {
+			if (
+				getAccessoryFootprint(accessory) !== null &&
+				accessory.channel !== undefined &&
+				accessory.address === undefined
+			) {
+				issues.push({
+					type: 'unpatched',
+					instrumentIds: [instrument.id],
+					message: `${describe(instrument)} ${getAccessoryName(accessory).toLowerCase()} has no DMX address`
+				});
+			}
+		}
+
+		for (const range of getPatchRanges(instrument, library)) {
+			if (range.universe < 1 || range.start < 1 || range.end > DMX_UNIVERSE_SIZE) {
+				issues.push({
+					type: 'out-of-range',
+					instrumentIds: [instrument.id],
+					message: `${describeRange(instrument, range)} at ${formatRange(range)} is outside addresses 1-${DMX_UNIVERSE_SIZE}`
+				});
+			}
+			ranges.push(range);
+		}
+	}
+
+	// Sort by universe and start so each range only needs comparing with the
+	// ranges after it until one starts past its end
+	ranges.sort((a, b) => a.universe - b.universe || a.start - b.start);
+
+	for (let i = 0; i < ranges.length; i++) {
+		const range = ranges[i];
+		for (let j = i + 1; j < ranges.length; j++) {
+			const other = ranges[j];
+			if (other.universe !== range.universe || other.start > range.end) break;
+
+			issues.push({
+				type: 'overlap',
+				instrumentIds: [range.instrumentId, other.instrumentId],
+				message: `${describeRange(byId.get(range.instrumentId)!, range)} (${formatRange(range)}) overlaps ${describeRange(byId.get(other.instrumentId)!, other)} (${formatRange(other)})`
+			});
+		}
+	}
+
+	const byInstrument = new Map<string, PatchIssue[]>();
+	for (const issue of issues) {
+		for (const id of issue.instrumentIds) {
+			byInstrument.set(id, [...(byInstrument.get(id) ?? []), issue]);
+		}
+	}
+
+	return { issues, byInstrument };
+}
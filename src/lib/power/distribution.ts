@@ -0,0 +1,160 @@
+/**
+ * Power Distribution Model
+ *
+ * The power a rig is fed from: dimmer racks made up of dimmer, relay and
+ * constant-power modules, and power distribution units (PDUs) with outlet
+ * circuits. Each source is fed on one or more phases; its circuits take the
+ * phases in rotation by circuit number (1 on A, 2 on B, 3 on C, 4 on A, ...).
+ *
+ * Rack circuits are the dimmer numbers instruments are patched to; PDU
+ * circuits are the circuit numbers set on instruments. The system is saved
+ * with the venue.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A phase (leg) of the supply */
+export type PowerPhase = 'A' | 'B' | 'C';
+
+/**
+ * Kinds of power source:
+ * - dimmer-rack: addressed by the instruments' dimmer numbers
+ * - pdu: addressed by the instruments' circuit numbers
+ */
+export type PowerSourceType = 'dimmer-rack' | 'pdu';
+
+/**
+ * Kinds of module:
+ * - dimmer: a dimmed circuit
+ * - relay: a switched, non-dim circuit
+ * - constant-power: an always-on circuit in a dimmer rack
+ * - outlet: a PDU outlet circuit
+ */
+export type PowerModuleKind = 'dimmer' | 'relay' | 'constant-power' | 'outlet';
+
+/**
+ * A run of consecutive circuits of one kind and capacity
+ */
+export interface PowerModule {
+	kind: PowerModuleKind;
+	/** First circuit number */
+	first: number;
+	/** Circuits in the module */
+	count: number;
+	/** Breaker rating of each circuit in amps */
+	amps: number;
+}
+
+/**
+ * A dimmer rack or PDU
+ */
+export interface PowerSource {
+	id: string;
+	name: string;
+	type: PowerSourceType;
+	/** Phases the source is fed on; circuits take them in rotation */
+	phases: PowerPhase[];
+	/** Feeder rating of each phase in amps */
+	phaseAmps: number;
+	modules: PowerModule[];
+}
+
+/**
+ * The rig's power distribution
+ */
+export interface PowerSystem {
+	/** Circuit voltage, used to turn watts into amps */
+	voltage: number;
+	/** Phase imbalance (spread between the most and least loaded phase, as a percentage of the most) that is flagged */
+	imbalanceThreshold: number;
+	sources: PowerSource[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Every phase, in rotation order */
+export const POWER_PHASES: readonly PowerPhase[] = ['A', 'B', 'C'];
+
+/** Display names for the source types */
+export const POWER_SOURCE_TYPE_NAMES: Record<PowerSourceType, string> = {
+	'dimmer-rack': 'Dimmer rack',
+	pdu: 'Power distro (PDU)'
+};
+
+/** Display names for the module kinds */
+export const POWER_MODULE_KIND_NAMES: Record<PowerModuleKind, string> = {
+	dimmer: 'Dimmer',
+	relay: 'Relay',
+	'constant-power': 'Constant power',
+	outlet: 'Outlet'
+};
+
+/** Module kinds each source type holds */
+export const POWER_MODULE_KINDS: Record<PowerSourceType, PowerModuleKind[]> = {
+	'dimmer-rack': ['dimmer', 'relay', 'constant-power'],
+	pdu: ['outlet']
+};
+
+/** A system with no sources: 120 V, imbalance flagged past 20% */
+export const DEFAULT_POWER_SYSTEM: PowerSystem = {
+	voltage: 120,
+	imbalanceThreshold: 20,
+	sources: []
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A new source with one module: a 48-way 20 A dimmer rack on a 200 A
+ * three-phase feed, or a 12-way 20 A PDU on a 100 A three-phase feed
+ */
+export function createPowerSource(
+	id: string,
+	name: string,
+	type: PowerSourceType,
+	first = 1
+): PowerSource {
+	const isRack = type === 'dimmer-rack';
+	return {
+		id,
+		name,
+		type,
+		phases: [...POWER_PHASES],
+		phaseAmps: isRack ? 200 : 100,
+		modules: [{ kind: isRack ? 'dimmer' : 'outlet', first, count: isRack ? 48 : 12, amps: 20 }]
+	};
+}
+
+/**
+ * The phase a circuit of a source is on
+ */
+export function getCircuitPhase(source: PowerSource, circuit: number): PowerPhase | null {
+	const rotation = source.phases.length;
+	if (rotation === 0) return null;
+	const index = (circuit - 1) % rotation;
+	return source.phases[index < 0 ? index + rotation : index];
+}
+
+/**
+ * The module of a source that holds a circuit
+ */
+export function findPowerModule(source: PowerSource, circuit: number): PowerModule | null {
+	return (
+		source.modules.find(
+			(module) => circuit >= module.first && circuit < module.first + module.count
+		) ?? null
+	);
+}
+
+/**
+ * Total circuits in a source
+ */
+export function getCircuitCount(source: PowerSource): number {
+	return source.modules.reduce((sum, module) => sum + module.count, 0);
+}
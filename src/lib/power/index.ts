@@ -0,0 +1,40 @@
+/**
+ * Power Distribution
+ *
+ * The rig's dimmer racks and distros (saved with the venue), and the load
+ * calculation that checks circuits and phases against them for the power
+ * report and the editor.
+ */
+
+// Model
+export {
+	POWER_PHASES,
+	POWER_SOURCE_TYPE_NAMES,
+	POWER_MODULE_KIND_NAMES,
+	POWER_MODULE_KINDS,
+	DEFAULT_POWER_SYSTEM,
+	createPowerSource,
+	getCircuitPhase,
+	findPowerModule,
+	getCircuitCount,
+	type PowerPhase,
+	type PowerSourceType,
+	type PowerModuleKind,
+	type PowerModule,
+	type PowerSource,
+	type PowerSystem
+} from './distribution';
+
+// Loads
+export {
+	getPartWattage,
+	calculatePowerLoads,
+	type LoadedInstrument,
+	type InstrumentLoad,
+	type CircuitLoad,
+	type PhaseLoad,
+	type SourceLoad,
+	type PowerIssueType,
+	type PowerIssue,
+	type PowerLoads
+} from './loads';
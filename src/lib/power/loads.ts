@@ -0,0 +1,338 @@
+/**
+ * Power Loads
+ *
+ * Works out the load on every circuit and phase of a power system from the
+ * instruments patched to it, and flags what an electrician would: circuits
+ * drawing more than their breaker, phases drawing more than their feeder,
+ * sources whose phases are out of balance, and instruments patched to a
+ * circuit no source has.
+ *
+ * Each part of a multi-part instrument loads its own circuit. An instrument's
+ * accessories (scrollers, rotators, ...) load the circuit of its first part.
+ * A part on a dimmer that a rack holds loads the rack; otherwise its circuit
+ * number loads a PDU. Where sources overlap, the first one listed wins.
+ */
+
+import { getAccessoryWattage } from '$lib/accessories';
+import type { FixtureLibrary, FixtureReference } from '$lib/fixtures';
+import { expandParts } from '$lib/numbering';
+import type { InstrumentProperties } from '$lib/types/instrument';
+import {
+	findPowerModule,
+	getCircuitPhase,
+	type PowerModuleKind,
+	type PowerPhase,
+	type PowerSource,
+	type PowerSystem
+} from './distribution';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The instrument fields loads are calculated from
+ */
+export type LoadedInstrument = FixtureReference & InstrumentProperties & { id: string };
+
+/**
+ * The load of one instrument (or part) on a circuit
+ */
+export interface InstrumentLoad {
+	instrumentId: string;
+	/** Index of the part (null for a single-part instrument) */
+	partIndex: number | null;
+	/** Watts, including the instrument's accessories on its first part */
+	watts: number;
+}
+
+/**
+ * The load on one circuit
+ */
+export interface CircuitLoad {
+	circuit: number;
+	kind: PowerModuleKind;
+	phase: PowerPhase | null;
+	/** Breaker rating in amps */
+	capacityAmps: number;
+	watts: number;
+	amps: number;
+	overloaded: boolean;
+	loads: InstrumentLoad[];
+}
+
+/**
+ * The load on one phase of a source
+ */
+export interface PhaseLoad {
+	phase: PowerPhase;
+	watts: number;
+	amps: number;
+	/** Feeder rating in amps */
+	capacityAmps: number;
+	overloaded: boolean;
+}
+
+/**
+ * The loads on one source
+ */
+export interface SourceLoad {
+	source: PowerSource;
+	/** Circuits with something on them, by number */
+	circuits: CircuitLoad[];
+	/** Every phase the source is fed on */
+	phases: PhaseLoad[];
+	/** Spread between the most and least loaded phase, as a percentage of the most */
+	imbalance: number;
+	unbalanced: boolean;
+}
+
+/**
+ * Kinds of power problem:
+ * - circuit-overload: a circuit draws more than its breaker
+ * - phase-overload: a phase draws more than its feeder
+ * - phase-imbalance: a source's phases are loaded unevenly
+ * - no-circuit: an instrument's dimmer or circuit isn't in any source
+ */
+export type PowerIssueType =
+	'circuit-overload' | 'phase-overload' | 'phase-imbalance' | 'no-circuit';
+
+/**
+ * A problem found in the loads
+ */
+export interface PowerIssue {
+	type: PowerIssueType;
+	/** Instruments involved */
+	instrumentIds: string[];
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * Result of calculating a system's loads
+ */
+export interface PowerLoads {
+	sources: SourceLoad[];
+	/** Loads not on any source (unpatched, or patched to a circuit no source has) */
+	unassigned: InstrumentLoad[];
+	/** Total watts across all sources */
+	totalWatts: number;
+	issues: PowerIssue[];
+	/** Issues by instrument id (instruments without issues are absent) */
+	byInstrument: Map<string, PowerIssue[]>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Wattage of an instrument part: the part's own wattage, else an even share of
+ * its instrument's (the whole instrument's for a single-part instrument)
+ */
+export function getPartWattage(
+	instrument: FixtureReference & Pick<InstrumentProperties, 'wattage' | 'parts'>,
+	partIndex: number | null,
+	properties: Pick<InstrumentProperties, 'wattage'>,
+	library: FixtureLibrary
+): number | null {
+	if (partIndex === null) return library.getWattage(instrument);
+	if (properties.wattage !== undefined) return properties.wattage;
+	const total = library.getWattage(instrument);
+	return total === null ? null : Math.round(total / (instrument.parts?.length ?? 1));
+}
+
+/**
+ * Read a circuit label as a circuit number ("12" but not "1E-12")
+ */
+function parseCircuitNumber(circuit: string | undefined): number | null {
+	const text = circuit?.trim();
+	return text && /^\d+$/.test(text) ? parseInt(text, 10) : null;
+}
+
+/**
+ * Find the source and circuit a part is patched to
+ */
+function findCircuit(
+	sources: readonly PowerSource[],
+	properties: InstrumentProperties
+): { source: PowerSource; circuit: number } | null {
+	const dimmer = properties.dimmer;
+	if (dimmer !== undefined) {
+		const rack = sources.find(
+			(source) => source.type === 'dimmer-rack' && findPowerModule(source, dimmer)
+		);
+		if (rack) return { source: rack, circuit: dimmer };
+	}
+
+	const circuit = parseCircuitNumber(properties.circuit);
+	if (circuit !== null) {
+		const pdu = sources.find((source) => source.type === 'pdu' && findPowerModule(source, circuit));
+		if (pdu) return { source: pdu, circuit };
+	}
+
+	return null;
+}
+
+const formatAmps = (amps: number) => `${Math.round(amps * 10) / 10} A`;
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+/**
+ * Calculate the loads on a power system
+ *
+ * @param instruments - Instruments in the project
+ * @param system - The rig's power distribution
+ * @param library - Fixture profiles to read wattages from
+ */
+export function calculatePowerLoads(
+	instruments: readonly LoadedInstrument[],
+	system: PowerSystem,
+	library: FixtureLibrary
+): PowerLoads {
+	const circuitsBySource = new Map<PowerSource, Map<number, CircuitLoad>>(
+		system.sources.map((source) => [source, new Map()])
+	);
+	const unassigned: InstrumentLoad[] = [];
+	const issues: PowerIssue[] = [];
+
+	for (const instrument of instruments) {
+		const accessoryWatts = (instrument.accessories ?? []).reduce(
+			(sum, accessory) => sum + getAccessoryWattage(accessory),
+			0
+		);
+
+		expandParts(instrument).forEach(({ partIndex, properties }, index) => {
+			const watts =
+				(getPartWattage(instrument, partIndex, properties, library) ?? 0) +
+				(index === 0 ? accessoryWatts : 0);
+			const load: InstrumentLoad = { instrumentId: instrument.id, partIndex, watts };
+
+			const target = findCircuit(system.sources, properties);
+			if (!target) {
+				unassigned.push(load);
+				const circuit = parseCircuitNumber(properties.circuit);
+				const label =
+					properties.dimmer !== undefined
+						? `Dimmer ${properties.dimmer}`
+						: circuit !== null
+							? `Circuit ${circuit}`
+							: null;
+				if (label && system.sources.length > 0) {
+					issues.push({
+						type: 'no-circuit',
+						instrumentIds: [instrument.id],
+						message: `${label} is not in any rack or distro`
+					});
+				}
+				return;
+			}
+
+			const { source, circuit } = target;
+			const circuits = circuitsBySource.get(source)!;
+			const module = findPowerModule(source, circuit)!;
+			const entry = circuits.get(circuit) ?? {
+				circuit,
+				kind: module.kind,
+				phase: getCircuitPhase(source, circuit),
+				capacityAmps: module.amps,
+				watts: 0,
+				amps: 0,
+				overloaded: false,
+				loads: []
+			};
+			entry.watts += watts;
+			entry.loads.push(load);
+			circuits.set(circuit, entry);
+		});
+	}
+
+	const voltage = system.voltage > 0 ? system.voltage : 1;
+	const idsOf = (circuits: CircuitLoad[]) => [
+		...new Set(circuits.flatMap((circuit) => circuit.loads.map((load) => load.instrumentId)))
+	];
+
+	const sources: SourceLoad[] = system.sources.map((source) => {
+		const circuits = [...circuitsBySource.get(source)!.values()].sort(
+			(a, b) => a.circuit - b.circuit
+		);
+
+		for (const circuit of circuits) {
+			circuit.amps = circuit.watts / voltage;
+			circuit.overloaded = circuit.amps > circuit.capacityAmps;
+			if (circuit.overloaded) {
+				issues.push({
+					type: 'circuit-overload',
+					instrumentIds: idsOf([circuit]),
+					message: `${source.name} circuit ${circuit.circuit} draws ${formatAmps(circuit.amps)} on a ${circuit.capacityAmps} A breaker`
+				});
+			}
+		}
+
+		const phases: PhaseLoad[] = [...new Set(source.phases)].map((phase) => {
+			const watts = circuits
+				.filter((circuit) => circuit.phase === phase)
+				.reduce((sum, circuit) => sum + circuit.watts, 0);
+			const amps = watts / voltage;
+			return {
+				phase,
+				watts,
+				amps,
+				capacityAmps: source.phaseAmps,
+				overloaded: amps > source.phaseAmps
+			};
+		});
+
+		for (const phase of phases.filter((phase) => phase.overloaded)) {
+			issues.push({
+				type: 'phase-overload',
+				instrumentIds: idsOf(circuits.filter((circuit) => circuit.phase === phase.phase)),
+				message: `${source.name} phase ${phase.phase} draws ${formatAmps(phase.amps)} on a ${phase.capacityAmps} A feed`
+			});
+		}
+
+		// Imbalance only means something with more than one phase
+		const heaviest = phases.reduce<PhaseLoad | null>(
+			(max, phase) => (max === null || phase.amps > max.amps ? phase : max),
+			null
+		);
+		const lightest = Math.min(...phases.map((phase) => phase.amps));
+		const imbalance =
+			phases.length > 1 && heaviest && heaviest.amps > 0
+				? ((heaviest.amps - lightest) / heaviest.amps) * 100
+				: 0;
+		const unbalanced = imbalance > system.imbalanceThreshold;
+
+		if (unbalanced && heaviest) {
+			issues.push({
+				type: 'phase-imbalance',
+				instrumentIds: idsOf(circuits.filter((circuit) => circuit.phase === heaviest.phase)),
+				message: `${source.name} phases are ${Math.round(imbalance)}% out of balance (phase ${heaviest.phase} is heaviest)`
+			});
+		}
+
+		return { source, circuits, phases, imbalance, unbalanced };
+	});
+
+	const byInstrument = new Map<string, PowerIssue[]>();
+	for (const issue of issues) {
+		for (const id of issue.instrumentIds) {
+			const list = byInstrument.get(id) ?? [];
+			list.push(issue);
+			byInstrument.set(id, list);
+		}
+	}
+
+	return {
+		sources,
+		unassigned,
+		totalWatts: sources.reduce(
+			(sum, source) => sum + source.circuits.reduce((total, circuit) => total + circuit.watts, 0),
+			0
+		),
+		issues,
+		byInstrument
+	};
+}
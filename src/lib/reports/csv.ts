@@ -11,6 +11,13 @@ import type {
 	InstrumentScheduleRow
 } from './generators/instrument-schedule';
 import type { DimmerScheduleReport, DimmerScheduleRow } from './generators/dimmer-schedule';
+import type { ColorCutListReport } from './generators/color-cut-list';
+import type { GoboPullListReport } from './generators/gobo-pull-list';
+import type { ShopOrderReport } from './generators/shop-order';
+import type { PowerDistributionReport } from './generators/power-distribution';
+import type { RiggingLoadReport } from './generators/rigging-loads';
+import type { FocusChartReport } from './generators/focus-chart';
+import { POWER_MODULE_KIND_NAMES } from '$lib/power';
 
 /**
  * UTF-8 BOM for Excel compatibility
@@ -302,3 +309,319 @@ export function downloadDimmerScheduleCSV(report: DimmerScheduleReport): void {
 	const filename = generateFilename('dimmer-schedule', report.projectName);
 	downloadCSV(content, filename);
 }
+
+/**
+ * Export a Color Cut List report to CSV
+ *
+ * @param report - The color cut list report data
+ * @returns The CSV content string
+ */
+export function exportColorCutListCSV(report: ColorCutListReport): string {
+	const headers = [
+		'Color',
+		'Name',
+		'Manufacturer',
+		'Cut Size',
+		'Cuts',
+		'Spares',
+		'Total',
+		'Cuts per Sheet',
+		'Sheets'
+	];
+
+	const rows: string[][] = [];
+
+	// One row per color and cut size
+	for (const color of report.colors) {
+		for (const size of color.sizes) {
+			rows.push([
+				color.code,
+				color.name ?? '',
+				color.manufacturer ?? '',
+				size.label,
+				size.cuts.toString(),
+				size.spares.toString(),
+				size.total.toString(),
+				size.cutsPerSheet?.toString() ?? '',
+				size.sheets?.toString() ?? ''
+			]);
+		}
+	}
+
+	return generateCSV(headers, rows);
+}
+
+/**
+ * Download a Color Cut List report as CSV
+ *
+ * @param report - The color cut list report data
+ */
+export function downloadColorCutListCSV(report: ColorCutListReport): void {
+	const content = exportColorCutListCSV(report);
+	const filename = generateFilename('color-cut-list', report.projectName);
+	downloadCSV(content, filename);
+}
+
+/**
+ * Export a Gobo Pull List report to CSV
+ *
+ * @param report - The gobo pull list report data
+ * @returns The CSV content string
+ */
+export function exportGoboPullListCSV(report: GoboPullListReport): string {
+	const headers = [
+		'Gobo',
+		'Name',
+		'Manufacturer',
+		'Quantity',
+		'A Holders',
+		'B Holders',
+		'M Holders',
+		'No Holder',
+		'Locations'
+	];
+
+	// One row per pattern
+	const rows = report.gobos.map((gobo) => [
+		gobo.code,
+		gobo.name ?? '',
+		gobo.manufacturer ?? '',
+		gobo.quantity.toString(),
+		gobo.holders.A.toString(),
+		gobo.holders.B.toString(),
+		gobo.holders.M.toString(),
+		gobo.holders.none.toString(),
+		gobo.locations.join('; ')
+	]);
+
+	return generateCSV(headers, rows);
+}
+
+/**
+ * Download a Gobo Pull List report as CSV
+ *
+ * @param report - The gobo pull list report data
+ */
+export function downloadGoboPullListCSV(report: GoboPullListReport): void {
+	const content = exportGoboPullListCSV(report);
+	const filename = generateFilename('gobo-pull-list', report.projectName);
+	downloadCSV(content, filename);
+}
+
+/**
+ * Export a Shop Order report to CSV
+ *
+ * @param report - The shop order report data
+ * @returns The CSV content string
+ */
+export function exportShopOrderCSV(report: ShopOrderReport): string {
+	const headers = ['Section', 'Item', 'Detail', 'Quantity', 'Spares', 'Total'];
+
+	// One row per line, sections in order
+	const rows = report.sections.flatMap((section) =>
+		section.lines.map((line) => [
+			section.title,
+			line.item,
+			line.detail ?? '',
+			line.quantity.toString(),
+			line.spares.toString(),
+			line.total.toString()
+		])
+	);
+
+	return generateCSV(headers, rows);
+}
+
+/**
+ * Download a Shop Order report as CSV
+ *
+ * @param report - The shop order report data
+ */
+export function downloadShopOrderCSV(report: ShopOrderReport): void {
+	const content = exportShopOrderCSV(report);
+	const filename = generateFilename('shop-order', report.projectName);
+	downloadCSV(content, filename);
+}
+
+/**
+ * Export a Power Distribution report to CSV
+ *
+ * @param report - The power distribution report data
+ * @returns The CSV content string
+ */
+export function exportPowerDistributionCSV(report: PowerDistributionReport): string {
+	const headers = [
+		'Source',
+		'Circuit',
+		'Type',
+		'Phase',
+		'Breaker (A)',
+		'Circuit Load (W)',
+		'Circuit Load (A)',
+		'Overloaded',
+		'Location',
+		'Instrument Type',
+		'Channel',
+		'Watts'
+	];
+
+	// One row per instrument on a circuit, then the unassigned instruments
+	const rows = report.sources.flatMap((source) =>
+		source.circuits.flatMap((circuit) =>
+			circuit.loads.map((load) => [
+				source.name,
+				circuit.circuit.toString(),
+				POWER_MODULE_KIND_NAMES[circuit.kind],
+				circuit.phase ?? '',
+				circuit.capacityAmps.toString(),
+				circuit.watts.toString(),
+				circuit.amps.toFixed(1),
+				circuit.overloaded ? 'Yes' : '',
+				load.location,
+				load.instrumentType,
+				load.channel?.toString() ?? '',
+				load.watts.toString()
+			])
+		)
+	);
+
+	for (const load of report.unassigned) {
+		rows.push([
+			'Unassigned',
+			'',
+			'',
+			'',
+			'',
+			'',
+			'',
+			'',
+			load.location,
+			load.instrumentType,
+			load.channel?.toString() ?? '',
+			load.watts.toString()
+		]);
+	}
+
+	return generateCSV(headers, rows);
+}
+
+/**
+ * Download a Power Distribution report as CSV
+ *
+ * @param report - The power distribution report data
+ */
+export function downloadPowerDistributionCSV(report: PowerDistributionReport): void {
+	const content = exportPowerDistributionCSV(report);
+	const filename = generateFilename('power-distribution', report.projectName);
+	downloadCSV(content, filename);
+}
+
+/**
+ * Export a Rigging Load report to CSV
+ *
+ * @param report - The rigging load report data
+ * @returns The CSV content string
+ */
+export function exportRiggingLoadsCSV(report: RiggingLoadReport): string {
+	const headers = [
+		'Position',
+		'Type',
+		'Trim Height (ft)',
+		'Length (m)',
+		'Units',
+		'Fixture Weight (kg)',
+		'Self Weight (kg)',
+		'Total Weight (kg)',
+		'Distributed Load (kg/m)',
+		'Start Point Load (kg)',
+		'End Point Load (kg)',
+		'Heaviest Unit (kg)',
+		'Load Limit (kg)',
+		'Utilization (%)',
+		'Over Limit',
+		'Units Without Weight'
+	];
+
+	// One row per position, weights to one decimal place
+	const rows = report.positions.map((row) => [
+		row.positionName,
+		row.typeName,
+		row.trimHeight?.toString() ?? '',
+		row.length.toFixed(2),
+		row.unitCount.toString(),
+		row.fixtureWeight.toFixed(1),
+		row.selfWeight.toFixed(1),
+		row.totalWeight.toFixed(1),
+		row.distributedLoad?.toFixed(1) ?? '',
+		row.endLoads[0].toFixed(1),
+		row.endLoads[1].toFixed(1),
+		row.heaviestUnit.toFixed(1),
+		row.loadLimit?.toString() ?? '',
+		row.utilization !== null ? Math.round(row.utilization).toString() : '',
+		row.overLimit ? 'Yes' : '',
+		row.unknownWeights.toString()
+	]);
+
+	return generateCSV(headers, rows);
+}
+
+/**
+ * Download a Rigging Load report as CSV
+ *
+ * @param report - The rigging load report data
+ */
+export function downloadRiggingLoadsCSV(report: RiggingLoadReport): void {
+	const content = exportRiggingLoadsCSV(report);
+	const filename = generateFilename('rigging-loads', report.projectName);
+	downloadCSV(content, filename);
+}
+
+/**
+ * Export a Focus Chart report to CSV
+ *
+ * @param report - The focus chart report data
+ * @returns The CSV content string
+ */
+export function exportFocusChartCSV(report: FocusChartReport): string {
+	const headers = [
+		'Channel',
+		'Position',
+		'Unit #',
+		'Instrument Type',
+		'Purpose',
+		'Focus',
+		'Focus Point',
+		'Mount Height (ft)',
+		'Throw (ft)',
+		'Beam Diameter (ft)',
+		'Field Diameter (ft)'
+	];
+
+	// Distances to one decimal place
+	const rows = report.rows.map((row) => [
+		row.channel?.toString() ?? '',
+		row.position,
+		row.unitNumber ?? '',
+		row.instrumentType,
+		row.purpose ?? '',
+		row.focus ?? '',
+		row.stageLocation ?? '',
+		row.mountHeight?.toString() ?? '',
+		row.throwDistance?.toFixed(1) ?? '',
+		row.beamDiameter?.toFixed(1) ?? '',
+		row.fieldDiameter?.toFixed(1) ?? ''
+	]);
+
+	return generateCSV(headers, rows);
+}
+
+/**
+ * Download a Focus Chart report as CSV
+ *
+ * @param report - The focus chart report data
+ */
+export function downloadFocusChartCSV(report: FocusChartReport): void {
+	const content = exportFocusChartCSV(report);
+	const filename = generateFilename('focus-chart', report.projectName);
+	downloadCSV(content, filename);
+}
@@ -4,35 +4,15 @@
  * Generates a channel hookup report from project data.
  * A channel hookup lists all instruments sorted by channel number,
  * showing key information lighting electricians need for patching and maintenance.
+ * Each part of a multi-part instrument gets its own row, as does each
+ * accessory run from the console (scrollers, gobo rotators).
  */
 
 import type { InstrumentObject, HangingPositionObject } from '$lib/stores/project.svelte';
-
-/**
- * Human-readable names for instrument types
- */
-const INSTRUMENT_TYPE_NAMES: Record<string, string> = {
-	'ers-14': 'ERS 14°',
-	'ers-19': 'ERS 19°',
-	'ers-26': 'ERS 26°',
-	'ers-36': 'ERS 36°',
-	'ers-50': 'ERS 50°',
-	'par-64': 'PAR 64',
-	'par-56': 'PAR 56',
-	'par-38': 'PAR 38',
-	'fresnel-6': '6" Fresnel',
-	'fresnel-8': '8" Fresnel',
-	'cyc-light': 'Cyc Light',
-	'moving-spot': 'Moving Spot',
-	'moving-wash': 'Moving Wash',
-	'moving-beam': 'Moving Beam',
-	'led-par': 'LED PAR',
-	'led-wash': 'LED Wash',
-	'led-strip': 'LED Strip',
-	followspot: 'Followspot',
-	practical: 'Practical',
-	custom: 'Custom'
-};
+import { builtInFixtures, type FixtureLibrary } from '$lib/fixtures';
+import { expandParts, formatUnitNumber } from '$lib/numbering';
+import { getAccessoryName } from '$lib/accessories';
+import { validatePatch, type PatchIssue } from '$lib/patch';
 
 /**
  * A single row in the channel hookup report
@@ -40,15 +20,19 @@ const INSTRUMENT_TYPE_NAMES: Record<string, string> = {
 export interface ChannelHookupRow {
 	/** The instrument's unique ID */
 	instrumentId: string;
+	/** Index of the instrument part this row covers (null for a single-part instrument) */
+	partIndex: number | null;
+	/** Index of the accessory this row covers (null for the instrument itself) */
+	accessoryIndex: number | null;
 	/** Lighting console channel number */
 	channel: number | null;
 	/** Dimmer number or address */
 	dimmer: number | string | null;
 	/** Name of the hanging position */
 	position: string;
-	/** Unit number on the position */
-	unitNumber: number | null;
-	/** Instrument type (human-readable) */
+	/** Unit number on the position, with any cell suffix (e.g. "3B") */
+	unitNumber: string | null;
+	/** Fixture profile (human-readable) */
 	instrumentType: string;
 	/** Color/gel information */
 	color: string | null;
@@ -70,7 +54,9 @@ export interface ChannelHookupReport {
 	generatedAt: string;
 	/** Report rows sorted by channel number */
 	rows: ChannelHookupRow[];
-	/** Summary statistics */
+	/** DMX patch problems (address overlaps, out-of-range and unpatched fixtures) */
+	patchIssues: PatchIssue[];
+	/** Summary statistics (each part of a multi-part instrument counts once; accessories don't count) */
 	summary: {
 		totalInstruments: number;
 		instrumentsWithChannel: number;
@@ -94,11 +80,13 @@ export interface ProjectLayers {
  *
  * @param projectName - The name of the project
  * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to resolve instruments against
  * @returns The complete channel hookup report
  */
 export function generateChannelHookup(
 	projectName: string,
-	layers: ProjectLayers | null
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures
 ): ChannelHookupReport {
 	const instruments = layers?.instruments ?? [];
 	const hangingPositions = layers?.hangingPositions ?? [];
@@ -109,26 +97,52 @@ export function generateChannelHookup(
 		positionMap.set(hp.id, hp);
 	}
 
-	// Transform instruments to report rows
-	const rows: ChannelHookupRow[] = instruments.map((instrument) => {
+	// Transform instruments to report rows, one per part
+	const rows: ChannelHookupRow[] = instruments.flatMap((instrument) => {
 		// Look up the hanging position name
 		const hangingPosition = instrument.hangingPositionId
 			? positionMap.get(instrument.hangingPositionId)
 			: null;
 		const positionName = hangingPosition?.name ?? 'Free-floating';
 
-		return {
+		const partRows = expandParts(instrument).map(({ partIndex, properties }) => ({
 			instrumentId: instrument.id,
-			channel: instrument.channel ?? null,
-			dimmer: instrument.dimmer ?? null,
+			partIndex,
+			accessoryIndex: null,
+			channel: properties.channel ?? null,
+			dimmer: properties.dimmer ?? null,
 			position: positionName,
-			unitNumber: getUnitNumber(instrument),
-			instrumentType: getInstrumentTypeName(instrument.instrumentType),
-			color: instrument.color ?? null,
-			gobo: getGobo(instrument),
-			purpose: getPurpose(instrument),
-			notes: getNotes(instrument)
-		};
+			unitNumber: formatUnitNumber(properties),
+			instrumentType: library.getName(instrument),
+			color: properties.color ?? null,
+			gobo: properties.gobo ?? null,
+			purpose: properties.purpose ?? null,
+			notes: properties.notes ?? null
+		}));
+
+		// Accessories with a channel of their own
+		const accessoryRows = (instrument.accessories ?? []).flatMap((accessory, accessoryIndex) =>
+			accessory.channel === undefined
+				? []
+				: [
+						{
+							instrumentId: instrument.id,
+							partIndex: null,
+							accessoryIndex,
+							channel: accessory.channel,
+							dimmer: null,
+							position: positionName,
+							unitNumber: formatUnitNumber(instrument),
+							instrumentType: `${getAccessoryName(accessory)} on ${library.getName(instrument)}`,
+							color: null,
+							gobo: null,
+							purpose: instrument.purpose ?? null,
+							notes: null
+						}
+					]
+		);
+
+		return [...partRows, ...accessoryRows];
 	});
 
 	// Sort by channel number (nulls at the end)
@@ -140,66 +154,18 @@ export function generateChannelHookup(
 	});
 
 	// Calculate summary statistics
-	const instrumentsWithChannel = rows.filter((r) => r.channel !== null).length;
+	const instrumentRows = rows.filter((r) => r.accessoryIndex === null);
+	const instrumentsWithChannel = instrumentRows.filter((r) => r.channel !== null).length;
 
 	return {
 		projectName,
 		generatedAt: new Date().toISOString(),
 		rows,
+		patchIssues: validatePatch(instruments, library).issues,
 		summary: {
-			totalInstruments: rows.length,
+			totalInstruments: instrumentRows.length,
 			instrumentsWithChannel,
-			instrumentsWithoutChannel: rows.length - instrumentsWithChannel
+			instrumentsWithoutChannel: instrumentRows.length - instrumentsWithChannel
 		}
 	};
 }
-
-/**
- * Get human-readable instrument type name
- */
-function getInstrumentTypeName(typeId: string): string {
-	return INSTRUMENT_TYPE_NAMES[typeId] ?? typeId;
-}
-
-/**
- * Get unit number from instrument, handling various data shapes
- */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function getUnitNumber(_instrument: InstrumentObject): number | null {
-	// The InstrumentObject uses 'name' but might have unitNumber in extended data
-	// For now, return null - unit numbers are typically derived from position on bar
-	return null;
-}
-
-/**
- * Get gobo information from instrument
- */
-function getGobo(instrument: InstrumentObject): string | null {
-	// InstrumentObject doesn't have gobo in its interface yet
-	// Return null for now, but check for extended properties
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.gobo === 'string') {
-		return extended.gobo;
-	}
-	return null;
-}
-
-/**
- * Get purpose/focus from instrument
- */
-function getPurpose(instrument: InstrumentObject): string | null {
-	// InstrumentObject has 'focus' which serves as purpose
-	return instrument.focus ?? null;
-}
-
-/**
- * Get notes from instrument
- */
-function getNotes(instrument: InstrumentObject): string | null {
-	// InstrumentObject might have notes in extended properties
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.notes === 'string') {
-		return extended.notes;
-	}
-	return null;
-}
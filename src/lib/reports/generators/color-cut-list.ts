@@ -0,0 +1,249 @@
+/**
+ * Color Cut List Report Generator
+ *
+ * Generates a color cut list from project data.
+ * A cut list groups every gel cut the rig needs by color, then by cut size
+ * (the size of each fixture's color frame), and counts the sheets to order.
+ * Each color in a stacked spec such as "R02 + R119" is its own cut, and each
+ * part of a multi-part instrument is cut for separately.
+ */
+
+import type { InstrumentObject, HangingPositionObject } from '$lib/stores/project.svelte';
+import { builtInFixtures, type ColorFrameSize, type FixtureLibrary } from '$lib/fixtures';
+import { GELS, GEL_MANUFACTURER_NAMES, parseColorSpec } from '$lib/gels';
+import { expandParts } from '$lib/numbering';
+
+/**
+ * Options for a cut list
+ */
+export interface ColorCutListOptions {
+	/** Spare cuts to add for each color and size, as a percentage of the cuts needed (rounded up) */
+	sparePercent: number;
+	/**
+	 * Cuts that come from one sheet, or null to fit as many as a standard sheet
+	 * holds. Cuts bigger than a sheet always take a sheet each.
+	 */
+	cutsPerSheet: number | null;
+}
+
+/**
+ * The cuts of one color at one size
+ */
+export interface ColorCutSize {
+	/** Cut size in meters (null for fixtures whose profile has no color frame) */
+	size: ColorFrameSize | null;
+	/** Cut size as written on the list, e.g. '6.25" × 6.25"' */
+	label: string;
+	/** Cuts the instruments in this color need, hung or on the floor */
+	cuts: number;
+	/** Spare cuts */
+	spares: number;
+	/** Cuts including spares */
+	total: number;
+	/** Cuts from one sheet (null when the size is unknown) */
+	cutsPerSheet: number | null;
+	/** Sheets to order (null when the size is unknown) */
+	sheets: number | null;
+	/** Whether the cut is bigger than a standard sheet (ordered as a sheet per cut) */
+	oversized: boolean;
+}
+
+/**
+ * All cuts of one color
+ */
+export interface ColorCutGroup {
+	/** Gel code as written on the plot (canonical for catalog gels) */
+	code: string;
+	/** Gel name (null for codes not in the catalog) */
+	name: string | null;
+	/** Manufacturer name (null for codes not in the catalog) */
+	manufacturer: string | null;
+	/** Approximate display color for the swatch */
+	rgb: string | null;
+	/** Cuts by size, largest first */
+	sizes: ColorCutSize[];
+	/** Cuts including spares, across sizes */
+	totalCuts: number;
+	/** Sheets to order, across the sizes that have one */
+	totalSheets: number;
+}
+
+/**
+ * The complete color cut list report data
+ */
+export interface ColorCutListReport {
+	/** Project name */
+	projectName: string;
+	/** Date the report was generated */
+	generatedAt: string;
+	/** Options the list was calculated with */
+	options: ColorCutListOptions;
+	/** Colors in catalog order, then codes not in the catalog */
+	colors: ColorCutGroup[];
+	/** Summary statistics */
+	summary: {
+		totalColors: number;
+		totalCuts: number;
+		totalSpares: number;
+		totalSheets: number;
+		/** Codes that aren't in the gel catalog */
+		unknownCodes: string[];
+		/** Cut sizes bigger than a standard sheet */
+		oversizedCuts: string[];
+	};
+}
+
+/**
+ * Project layers data structure as stored in the database
+ */
+export interface ProjectLayers {
+	shapes?: unknown[];
+	hangingPositions?: HangingPositionObject[];
+	instruments?: InstrumentObject[];
+	setPieces?: unknown[];
+	annotations?: unknown[];
+}
+
+/** Default options: 10% spares, as many cuts as fit on a sheet */
+export const DEFAULT_CUT_LIST_OPTIONS: ColorCutListOptions = {
+	sparePercent: 10,
+	cutsPerSheet: null
+};
+
+/** A standard 20" × 24" gel sheet, in meters */
+export const GEL_SHEET_SIZE = { width: 0.508, height: 0.6096 };
+
+const INCH = 0.0254;
+
+/**
+ * Format a cut size (or color frame size) in inches, e.g. '6.25" × 6.25"'
+ */
+export function formatCutSize(size: ColorFrameSize | null): string {
+	if (!size) return 'No color frame';
+	const inches = (meters: number) => `${Math.round((meters / INCH) * 100) / 100}"`;
+	return `${inches(size.width)} × ${inches(size.height)}`;
+}
+
+/**
+ * Number of cuts of a size that fit on a standard sheet, trying both orientations
+ */
+function getCutsPerSheet(size: ColorFrameSize): number {
+	// Allow for rounding in sizes given in inches
+	const fit = (sheet: number, cut: number) => Math.floor(sheet / cut + 1e-6);
+	const upright = fit(GEL_SHEET_SIZE.width, size.width) * fit(GEL_SHEET_SIZE.height, size.height);
+	const turned = fit(GEL_SHEET_SIZE.width, size.height) * fit(GEL_SHEET_SIZE.height, size.width);
+	return Math.max(upright, turned);
+}
+
+/**
+ * Generate a color cut list report from project data
+ *
+ * @param projectName - The name of the project
+ * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to read color frame sizes from
+ * @param options - Spares and cuts per sheet
+ * @returns The complete color cut list report
+ */
+export function generateColorCutList(
+	projectName: string,
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures,
+	options: ColorCutListOptions = DEFAULT_CUT_LIST_OPTIONS
+): ColorCutListReport {
+	const instruments = layers?.instruments ?? [];
+
+	// Count cuts by color, then by size
+	const cutsByColor = new Map<string, Map<string, { size: ColorFrameSize | null; cuts: number }>>();
+	const unknownCodes = new Set<string>();
+
+	for (const instrument of instruments) {
+		const size = library.getColorFrame(instrument);
+		const sizeKey = formatCutSize(size);
+
+		for (const { properties } of expandParts(instrument)) {
+			for (const token of parseColorSpec(properties.color)) {
+				// No-color and display-only hex colors need no cut
+				if (token.kind !== 'gel' && token.kind !== 'unknown') continue;
+
+				const code = token.kind === 'gel' ? token.gel.code : token.text.toUpperCase();
+				if (token.kind === 'unknown') unknownCodes.add(code);
+
+				const sizes = cutsByColor.get(code) ?? new Map();
+				const entry = sizes.get(sizeKey) ?? { size, cuts: 0 };
+				entry.cuts++;
+				sizes.set(sizeKey, entry);
+				cutsByColor.set(code, sizes);
+			}
+		}
+	}
+
+	const sparePercent = Math.max(0, options.sparePercent);
+	const catalogOrder = new Map(GELS.map((gel, index) => [gel.code, index]));
+	const gelsByCode = new Map(GELS.map((gel) => [gel.code, gel]));
+
+	const colors: ColorCutGroup[] = [...cutsByColor.entries()]
+		.map(([code, sizeMap]) => {
+			const sizes = [...sizeMap.values()]
+				.map(({ size, cuts }): ColorCutSize => {
+					const spares = Math.ceil((cuts * sparePercent) / 100);
+					const total = cuts + spares;
+					// A cut bigger than a sheet needs a sheet of its own, whatever the option says
+					const oversized = size !== null && getCutsPerSheet(size) === 0;
+					const cutsPerSheet = !size
+						? null
+						: oversized
+							? 1
+							: (options.cutsPerSheet ?? getCutsPerSheet(size));
+					return {
+						size,
+						label: formatCutSize(size),
+						cuts,
+						spares,
+						total,
+						cutsPerSheet,
+						sheets: cutsPerSheet ? Math.ceil(total / cutsPerSheet) : null,
+						oversized
+					};
+				})
+				.sort(
+					(a, b) =>
+						(b.size ? b.size.width * b.size.height : -1) -
+						(a.size ? a.size.width * a.size.height : -1)
+				);
+
+			const gel = gelsByCode.get(code);
+			return {
+				code,
+				name: gel?.name ?? null,
+				manufacturer: gel ? GEL_MANUFACTURER_NAMES[gel.manufacturer] : null,
+				rgb: gel?.rgb ?? null,
+				sizes,
+				totalCuts: sizes.reduce((sum, size) => sum + size.total, 0),
+				totalSheets: sizes.reduce((sum, size) => sum + (size.sheets ?? 0), 0)
+			};
+		})
+		.sort((a, b) => {
+			const orderA = catalogOrder.get(a.code) ?? Number.MAX_SAFE_INTEGER;
+			const orderB = catalogOrder.get(b.code) ?? Number.MAX_SAFE_INTEGER;
+			return orderA - orderB || a.code.localeCompare(b.code, undefined, { numeric: true });
+		});
+
+	const allSizes = colors.flatMap((color) => color.sizes);
+
+	return {
+		projectName,
+		generatedAt: new Date().toISOString(),
+		options: { sparePercent, cutsPerSheet: options.cutsPerSheet },
+		colors,
+		summary: {
+			totalColors: colors.length,
+			totalCuts: allSizes.reduce((sum, size) => sum + size.total, 0),
+			totalSpares: allSizes.reduce((sum, size) => sum + size.spares, 0),
+			totalSheets: colors.reduce((sum, color) => sum + color.totalSheets, 0),
+			unknownCodes: [...unknownCodes].sort(),
+			oversizedCuts: [
+				...new Set(allSizes.filter((size) => size.oversized).map((size) => size.label))
+			]
+		}
+	};
+}
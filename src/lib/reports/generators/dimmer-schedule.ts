@@ -4,62 +4,15 @@
  * Generates a dimmer schedule report from project data.
  * A dimmer schedule lists all instruments sorted by dimmer number,
  * showing what's patched to each dimmer - useful for load planning
- * and power distribution.
+ * and power distribution. Each part of a multi-part instrument is listed under
+ * its own dimmer.
  */
 
 import type { InstrumentObject, HangingPositionObject } from '$lib/stores/project.svelte';
-
-/**
- * Human-readable names for instrument types
- */
-const INSTRUMENT_TYPE_NAMES: Record<string, string> = {
-	'ers-14': 'ERS 14°',
-	'ers-19': 'ERS 19°',
-	'ers-26': 'ERS 26°',
-	'ers-36': 'ERS 36°',
-	'ers-50': 'ERS 50°',
-	'par-64': 'PAR 64',
-	'par-56': 'PAR 56',
-	'par-38': 'PAR 38',
-	'fresnel-6': '6" Fresnel',
-	'fresnel-8': '8" Fresnel',
-	'cyc-light': 'Cyc Light',
-	'moving-spot': 'Moving Spot',
-	'moving-wash': 'Moving Wash',
-	'moving-beam': 'Moving Beam',
-	'led-par': 'LED PAR',
-	'led-wash': 'LED Wash',
-	'led-strip': 'LED Strip',
-	followspot: 'Followspot',
-	practical: 'Practical',
-	custom: 'Custom'
-};
-
-/**
- * Default wattages for common instrument types (for load estimation)
- */
-const INSTRUMENT_WATTAGES: Record<string, number> = {
-	'ers-14': 750,
-	'ers-19': 750,
-	'ers-26': 575,
-	'ers-36': 575,
-	'ers-50': 575,
-	'par-64': 1000,
-	'par-56': 500,
-	'par-38': 150,
-	'fresnel-6': 750,
-	'fresnel-8': 1000,
-	'cyc-light': 1000,
-	'moving-spot': 250, // LED moving lights typically
-	'moving-wash': 200,
-	'moving-beam': 230,
-	'led-par': 100,
-	'led-wash': 150,
-	'led-strip': 75,
-	followspot: 1200,
-	practical: 60,
-	custom: 575
-};
+import { builtInFixtures, type FixtureLibrary } from '$lib/fixtures';
+import { expandParts, formatUnitNumber } from '$lib/numbering';
+import { getPartWattage } from '$lib/power';
+import type { InstrumentProperties } from '$lib/types/instrument';
 
 /**
  * A single row in the dimmer schedule report
@@ -67,21 +20,23 @@ const INSTRUMENT_WATTAGES: Record<string, number> = {
 export interface DimmerScheduleRow {
 	/** The instrument's unique ID */
 	instrumentId: string;
+	/** Index of the instrument part this row covers (null for a single-part instrument) */
+	partIndex: number | null;
 	/** Dimmer number or address */
 	dimmer: number | string;
 	/** Lighting console channel number */
 	channel: number | null;
 	/** Name of the hanging position */
 	position: string;
-	/** Unit number on the position */
-	unitNumber: number | null;
-	/** Instrument type (human-readable) */
+	/** Unit number on the position, with any cell suffix (e.g. "3B") */
+	unitNumber: string | null;
+	/** Fixture profile (human-readable) */
 	instrumentType: string;
 	/** Circuit number */
 	circuit: string | null;
 	/** Purpose/focus area */
 	purpose: string | null;
-	/** Estimated wattage */
+	/** Wattage (the instrument's override, else its fixture profile's, shared evenly across parts) */
 	wattage: number | null;
 }
 
@@ -111,7 +66,7 @@ export interface DimmerScheduleReport {
 	dimmerGroups: DimmerGroup[];
 	/** Instruments without a dimmer assignment */
 	unassignedInstruments: DimmerScheduleRow[];
-	/** Summary statistics */
+	/** Summary statistics (each part of a multi-part instrument counts once) */
 	summary: {
 		totalInstruments: number;
 		assignedCount: number;
@@ -164,16 +119,27 @@ function normalizeDimmer(dimmer: number | string): string {
 	return String(dimmer).trim();
 }
 
+/**
+ * An instrument, or one of its parts, to list in the schedule
+ */
+interface ScheduleEntry {
+	instrument: InstrumentObject;
+	partIndex: number | null;
+	properties: InstrumentProperties;
+}
+
 /**
  * Generate a dimmer schedule report from project data
  *
  * @param projectName - The name of the project
  * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to resolve instruments against
  * @returns The complete dimmer schedule report
  */
 export function generateDimmerSchedule(
 	projectName: string,
-	layers: ProjectLayers | null
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures
 ): DimmerScheduleReport {
 	const instruments = layers?.instruments ?? [];
 	const hangingPositions = layers?.hangingPositions ?? [];
@@ -184,18 +150,21 @@ export function generateDimmerSchedule(
 		positionMap.set(hp.id, hp);
 	}
 
-	// Separate instruments by dimmer assignment
-	const dimmerInstruments = new Map<string, InstrumentObject[]>();
-	const unassigned: InstrumentObject[] = [];
+	// Separate instruments (and their parts) by dimmer assignment
+	const entries: ScheduleEntry[] = instruments.flatMap((instrument) =>
+		expandParts(instrument).map((entry) => ({ instrument, ...entry }))
+	);
+	const dimmerInstruments = new Map<string, ScheduleEntry[]>();
+	const unassigned: ScheduleEntry[] = [];
 
-	for (const instrument of instruments) {
-		if (instrument.dimmer !== undefined && instrument.dimmer !== null) {
-			const dimmerKey = normalizeDimmer(instrument.dimmer);
+	for (const entry of entries) {
+		if (entry.properties.dimmer !== undefined && entry.properties.dimmer !== null) {
+			const dimmerKey = normalizeDimmer(entry.properties.dimmer);
 			const existing = dimmerInstruments.get(dimmerKey) ?? [];
-			existing.push(instrument);
+			existing.push(entry);
 			dimmerInstruments.set(dimmerKey, existing);
 		} else {
-			unassigned.push(instrument);
+			unassigned.push(entry);
 		}
 	}
 
@@ -204,13 +173,13 @@ export function generateDimmerSchedule(
 	for (const [dimmerKey, dimInstruments] of dimmerInstruments) {
 		// Sort instruments within the group by channel
 		const sortedInstruments = dimInstruments.sort((a, b) => {
-			const aChannel = a.channel ?? Number.MAX_SAFE_INTEGER;
-			const bChannel = b.channel ?? Number.MAX_SAFE_INTEGER;
+			const aChannel = a.properties.channel ?? Number.MAX_SAFE_INTEGER;
+			const bChannel = b.properties.channel ?? Number.MAX_SAFE_INTEGER;
 			return aChannel - bChannel;
 		});
 
-		const rows = sortedInstruments.map((inst) =>
-			transformInstrumentRow(inst, positionMap, dimmerKey)
+		const rows = sortedInstruments.map((entry) =>
+			transformInstrumentRow(entry, positionMap, dimmerKey, library)
 		);
 
 		// Calculate total load
@@ -238,11 +207,11 @@ export function generateDimmerSchedule(
 	// Transform unassigned instruments (alphabetically by position)
 	const unassignedInstruments = unassigned
 		.sort((a, b) => {
-			const posA = a.hangingPositionId ? (positionMap.get(a.hangingPositionId)?.name ?? '') : '';
-			const posB = b.hangingPositionId ? (positionMap.get(b.hangingPositionId)?.name ?? '') : '';
+			const posA = getPositionName(a.instrument, positionMap);
+			const posB = getPositionName(b.instrument, positionMap);
 			return posA.localeCompare(posB);
 		})
-		.map((inst) => transformInstrumentRow(inst, positionMap, ''));
+		.map((entry) => transformInstrumentRow(entry, positionMap, '', library));
 
 	// Calculate total estimated load
 	const totalEstimatedLoad = dimmerGroups.reduce(
@@ -261,8 +230,8 @@ export function generateDimmerSchedule(
 		dimmerGroups,
 		unassignedInstruments,
 		summary: {
-			totalInstruments: instruments.length,
-			assignedCount: instruments.length - unassigned.length,
+			totalInstruments: entries.length,
+			assignedCount: entries.length - unassigned.length,
 			unassignedCount: unassigned.length,
 			totalDimmers: dimmerGroups.length,
 			totalEstimatedLoad
@@ -271,13 +240,28 @@ export function generateDimmerSchedule(
 }
 
 /**
- * Transform an instrument to a schedule row
+ * Name of an instrument's hanging position, for sorting unassigned rows
  */
-function transformInstrumentRow(
+function getPositionName(
 	instrument: InstrumentObject,
+	positionMap: Map<string, HangingPositionObject>
+): string {
+	return instrument.hangingPositionId
+		? (positionMap.get(instrument.hangingPositionId)?.name ?? '')
+		: '';
+}
+
+/**
+ * Transform an instrument (or one of its parts) to a schedule row
+ */
+function transformInstrumentRow(
+	entry: ScheduleEntry,
 	positionMap: Map<string, HangingPositionObject>,
-	dimmer: string
+	dimmer: string,
+	library: FixtureLibrary
 ): DimmerScheduleRow {
+	const { instrument, partIndex, properties } = entry;
+
 	// Look up the hanging position name
 	const hangingPosition = instrument.hangingPositionId
 		? positionMap.get(instrument.hangingPositionId)
@@ -286,67 +270,14 @@ function transformInstrumentRow(
 
 	return {
 		instrumentId: instrument.id,
-		dimmer: dimmer || instrument.dimmer || '',
-		channel: instrument.channel ?? null,
+		partIndex,
+		dimmer: dimmer || properties.dimmer || '',
+		channel: properties.channel ?? null,
 		position: positionName,
-		unitNumber: getUnitNumber(instrument),
-		instrumentType: getInstrumentTypeName(instrument.instrumentType),
-		circuit: getCircuit(instrument),
-		purpose: getPurpose(instrument),
-		wattage: getWattage(instrument)
+		unitNumber: formatUnitNumber(properties),
+		instrumentType: library.getName(instrument),
+		circuit: properties.circuit ?? null,
+		purpose: properties.purpose ?? null,
+		wattage: getPartWattage(instrument, partIndex, properties, library)
 	};
 }
-
-/**
- * Get human-readable instrument type name
- */
-function getInstrumentTypeName(typeId: string): string {
-	return INSTRUMENT_TYPE_NAMES[typeId] ?? typeId;
-}
-
-/**
- * Get unit number from instrument
- */
-function getUnitNumber(instrument: InstrumentObject): number | null {
-	// Check for unitNumber in extended properties
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.unitNumber === 'number') {
-		return extended.unitNumber;
-	}
-	return null;
-}
-
-/**
- * Get circuit information from instrument
- */
-function getCircuit(instrument: InstrumentObject): string | null {
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.circuit === 'string') {
-		return extended.circuit;
-	}
-	if (typeof extended.circuit === 'number') {
-		return String(extended.circuit);
-	}
-	return null;
-}
-
-/**
- * Get purpose/focus from instrument
- */
-function getPurpose(instrument: InstrumentObject): string | null {
-	return instrument.focus ?? null;
-}
-
-/**
- * Get wattage from instrument (either explicit or from type defaults)
- */
-function getWattage(instrument: InstrumentObject): number | null {
-	// Check for explicit wattage in extended properties
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.wattage === 'number') {
-		return extended.wattage;
-	}
-
-	// Fall back to default wattage for the instrument type
-	return INSTRUMENT_WATTAGES[instrument.instrumentType] ?? null;
-}
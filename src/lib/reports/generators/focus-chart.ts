@@ -0,0 +1,157 @@
+/**
+ * Focus Chart Report Generator
+ *
+ * Generates a focus chart from project data.
+ * A focus chart lists every instrument by channel with where it is focused,
+ * the throw from the instrument to its focus point and the diameter of the
+ * beam and field pools it throws there, for the crew at focus call.
+ */
+
+import type { InstrumentObject, HangingPositionObject, Venue } from '$lib/stores/project.svelte';
+import { builtInFixtures, type FixtureLibrary } from '$lib/fixtures';
+import { expandParts, formatUnitNumber } from '$lib/numbering';
+import {
+	DEFAULT_FOCUS_HEIGHT,
+	calculateBeamPool,
+	formatStageLocation,
+	getInstrumentLocation
+} from '$lib/focus';
+
+/**
+ * A single row in the focus chart
+ */
+export interface FocusChartRow {
+	/** The instrument's unique ID */
+	instrumentId: string;
+	/** Lighting console channel number (of the first part, for a multi-part instrument) */
+	channel: number | null;
+	/** Name of the hanging position */
+	position: string;
+	/** Unit number on the position, with any cell suffix (e.g. "3B") */
+	unitNumber: string | null;
+	/** Fixture profile (human-readable) */
+	instrumentType: string;
+	/** Purpose/focus area */
+	purpose: string | null;
+	/** Focus notes */
+	focus: string | null;
+	/** Focus point relative to center line and plaster line (null if not focused) */
+	stageLocation: string | null;
+	/** Height the instrument hangs at in feet */
+	mountHeight: number | null;
+	/** Distance from the instrument to its focus point in feet */
+	throwDistance: number | null;
+	/** Beam (50%) pool diameter in feet */
+	beamDiameter: number | null;
+	/** Field (10%) pool diameter in feet */
+	fieldDiameter: number | null;
+}
+
+/**
+ * The complete focus chart data
+ */
+export interface FocusChartReport {
+	/** Project name */
+	projectName: string;
+	/** Date the report was generated */
+	generatedAt: string;
+	/** Height of the focus plane in feet */
+	focusHeight: number;
+	/** Report rows sorted by channel number */
+	rows: FocusChartRow[];
+	/** Summary statistics */
+	summary: {
+		totalInstruments: number;
+		/** Instruments with a focus point */
+		focusedInstruments: number;
+		unfocusedInstruments: number;
+	};
+}
+
+/**
+ * Project layers data structure as stored in the database
+ */
+export interface ProjectLayers {
+	shapes?: unknown[];
+	hangingPositions?: HangingPositionObject[];
+	instruments?: InstrumentObject[];
+	setPieces?: unknown[];
+	annotations?: unknown[];
+}
+
+/**
+ * Generate a focus chart from project data
+ *
+ * @param projectName - The name of the project
+ * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to read beam and field angles from
+ * @param venue - The venue's center line, plaster line and focus height
+ * @returns The complete focus chart
+ */
+export function generateFocusChart(
+	projectName: string,
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures,
+	venue: Pick<Venue, 'centerLine' | 'plasterLine' | 'focusHeight'> | null = null
+): FocusChartReport {
+	const instruments = layers?.instruments ?? [];
+	const hangingPositions = layers?.hangingPositions ?? [];
+	const positionNames = new Map(hangingPositions.map((hp) => [hp.id, hp.name]));
+	const reference = { centerLine: venue?.centerLine ?? 0, plasterLine: venue?.plasterLine ?? 0 };
+	const focusHeight = venue?.focusHeight ?? DEFAULT_FOCUS_HEIGHT;
+
+	const rows: FocusChartRow[] = instruments.map((instrument) => {
+		const location = getInstrumentLocation(instrument, hangingPositions);
+		const pool =
+			location && instrument.focusPoint
+				? calculateBeamPool(
+						location,
+						instrument.focusPoint,
+						focusHeight,
+						library.resolve(instrument)
+					)
+				: null;
+		const position = instrument.hangingPositionId
+			? positionNames.get(instrument.hangingPositionId)
+			: undefined;
+
+		return {
+			instrumentId: instrument.id,
+			channel: expandParts(instrument)[0].properties.channel ?? null,
+			position: position ?? 'Free-floating',
+			unitNumber: formatUnitNumber(instrument),
+			instrumentType: library.getName(instrument),
+			purpose: instrument.purpose ?? null,
+			focus: instrument.focus ?? null,
+			stageLocation: instrument.focusPoint
+				? formatStageLocation(instrument.focusPoint, reference)
+				: null,
+			mountHeight: location?.mountHeight ?? null,
+			throwDistance: pool?.throwDistance ?? null,
+			beamDiameter: pool?.beamDiameter ?? null,
+			fieldDiameter: pool?.fieldDiameter ?? null
+		};
+	});
+
+	// Sort by channel number (nulls at the end)
+	rows.sort((a, b) => {
+		if (a.channel === null && b.channel === null) return 0;
+		if (a.channel === null) return 1;
+		if (b.channel === null) return -1;
+		return a.channel - b.channel;
+	});
+
+	const focusedInstruments = rows.filter((row) => row.stageLocation !== null).length;
+
+	return {
+		projectName,
+		generatedAt: new Date().toISOString(),
+		focusHeight,
+		rows,
+		summary: {
+			totalInstruments: rows.length,
+			focusedInstruments,
+			unfocusedInstruments: rows.length - focusedInstruments
+		}
+	};
+}
@@ -0,0 +1,162 @@
+/**
+ * Gobo Pull List Report Generator
+ *
+ * Generates a gobo pull list from project data.
+ * A pull list groups the rig's gobos by pattern and counts the holders each
+ * pattern needs by size (A/B/M), from the gobo holder of each fixture's
+ * profile - so the shop knows which steel and holders to pull.
+ */
+
+import type { InstrumentObject, HangingPositionObject } from '$lib/stores/project.svelte';
+import { builtInFixtures, type FixtureLibrary, type GoboSize } from '$lib/fixtures';
+import { GOBOS, GOBO_MANUFACTURER_NAMES, GOBO_SIZES, findGobo } from '$lib/gobos';
+import { formatUnitNumber } from '$lib/numbering';
+
+/**
+ * Holders needed, by size
+ */
+export interface GoboHolderCounts {
+	A: number;
+	B: number;
+	M: number;
+	/** Fixtures whose profile takes no gobo holder (or doesn't say) */
+	none: number;
+}
+
+/**
+ * All uses of one gobo pattern
+ */
+export interface GoboPullGroup {
+	/** Gobo code as written on the plot (canonical for catalog gobos) */
+	code: string;
+	/** Catalog number (null for gobos not in the catalog) */
+	number: number | null;
+	/** Pattern name (null for gobos not in the catalog) */
+	name: string | null;
+	/** Manufacturer name (null for gobos not in the catalog) */
+	manufacturer: string | null;
+	/** Gobos to pull */
+	quantity: number;
+	/** Holders to pull, by size */
+	holders: GoboHolderCounts;
+	/** Where the gobo is used, e.g. "1st Electric #3" */
+	locations: string[];
+}
+
+/**
+ * The complete gobo pull list report data
+ */
+export interface GoboPullListReport {
+	/** Project name */
+	projectName: string;
+	/** Date the report was generated */
+	generatedAt: string;
+	/** Patterns in catalog order, then gobos not in the catalog */
+	gobos: GoboPullGroup[];
+	/** Summary statistics */
+	summary: {
+		totalPatterns: number;
+		totalGobos: number;
+		/** Holders across all patterns, by size */
+		holders: GoboHolderCounts;
+		/** Gobos that aren't in the catalog */
+		unknownCodes: string[];
+	};
+}
+
+/**
+ * Project layers data structure as stored in the database
+ */
+export interface ProjectLayers {
+	shapes?: unknown[];
+	hangingPositions?: HangingPositionObject[];
+	instruments?: InstrumentObject[];
+	setPieces?: unknown[];
+	annotations?: unknown[];
+}
+
+function emptyHolderCounts(): GoboHolderCounts {
+	return { A: 0, B: 0, M: 0, none: 0 };
+}
+
+/**
+ * Generate a gobo pull list report from project data
+ *
+ * @param projectName - The name of the project
+ * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to read gobo holder sizes from
+ * @returns The complete gobo pull list report
+ */
+export function generateGoboPullList(
+	projectName: string,
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures
+): GoboPullListReport {
+	const instruments = layers?.instruments ?? [];
+	const positionNames = new Map(
+		(layers?.hangingPositions ?? []).map((hp) => [hp.id, hp.name ?? 'Unnamed Position'])
+	);
+
+	const groups = new Map<string, GoboPullGroup>();
+	const unknownCodes = new Set<string>();
+
+	for (const instrument of instruments) {
+		const text = instrument.gobo?.trim();
+		if (!text) continue;
+
+		const gobo = findGobo(text);
+		const code = gobo?.code ?? text;
+		if (!gobo) unknownCodes.add(code);
+
+		const group = groups.get(code) ?? {
+			code,
+			number: gobo?.number ?? null,
+			name: gobo?.name ?? null,
+			manufacturer: gobo ? GOBO_MANUFACTURER_NAMES[gobo.manufacturer] : null,
+			quantity: 0,
+			holders: emptyHolderCounts(),
+			locations: []
+		};
+
+		const size: GoboSize | null = library.getGoboSize(instrument);
+		group.quantity++;
+		group.holders[size ?? 'none']++;
+
+		const position = instrument.hangingPositionId
+			? positionNames.get(instrument.hangingPositionId)
+			: undefined;
+		const unitNumber = formatUnitNumber(instrument);
+		const location = [position, unitNumber ? `#${unitNumber}` : null].filter(Boolean).join(' ');
+		group.locations.push(
+			location || (instrument.channel !== undefined ? `Channel ${instrument.channel}` : 'Unplaced')
+		);
+
+		groups.set(code, group);
+	}
+
+	const catalogOrder = new Map(GOBOS.map((gobo, index) => [gobo.code, index]));
+	const gobos = [...groups.values()].sort((a, b) => {
+		const orderA = catalogOrder.get(a.code) ?? Number.MAX_SAFE_INTEGER;
+		const orderB = catalogOrder.get(b.code) ?? Number.MAX_SAFE_INTEGER;
+		return orderA - orderB || a.code.localeCompare(b.code, undefined, { numeric: true });
+	});
+
+	const holders = emptyHolderCounts();
+	for (const group of gobos) {
+		for (const size of [...GOBO_SIZES, 'none'] as const) {
+			holders[size] += group.holders[size];
+		}
+	}
+
+	return {
+		projectName,
+		generatedAt: new Date().toISOString(),
+		gobos,
+		summary: {
+			totalPatterns: gobos.length,
+			totalGobos: gobos.reduce((sum, group) => sum + group.quantity, 0),
+			holders,
+			unknownCodes: [...unknownCodes].sort()
+		}
+	};
+}
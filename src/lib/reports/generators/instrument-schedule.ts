@@ -3,36 +3,14 @@
  *
  * Generates an instrument schedule report from project data.
  * An instrument schedule lists all instruments sorted by hanging position,
- * then by unit number - giving a position-by-position breakdown.
+ * then by unit number - giving a position-by-position breakdown. Each part of a
+ * multi-part instrument gets its own row.
  */
 
 import type { InstrumentObject, HangingPositionObject } from '$lib/stores/project.svelte';
-
-/**
- * Human-readable names for instrument types
- */
-const INSTRUMENT_TYPE_NAMES: Record<string, string> = {
-	'ers-14': 'ERS 14°',
-	'ers-19': 'ERS 19°',
-	'ers-26': 'ERS 26°',
-	'ers-36': 'ERS 36°',
-	'ers-50': 'ERS 50°',
-	'par-64': 'PAR 64',
-	'par-56': 'PAR 56',
-	'par-38': 'PAR 38',
-	'fresnel-6': '6" Fresnel',
-	'fresnel-8': '8" Fresnel',
-	'cyc-light': 'Cyc Light',
-	'moving-spot': 'Moving Spot',
-	'moving-wash': 'Moving Wash',
-	'moving-beam': 'Moving Beam',
-	'led-par': 'LED PAR',
-	'led-wash': 'LED Wash',
-	'led-strip': 'LED Strip',
-	followspot: 'Followspot',
-	practical: 'Practical',
-	custom: 'Custom'
-};
+import { builtInFixtures, type FixtureLibrary } from '$lib/fixtures';
+import { expandParts, formatUnitNumber } from '$lib/numbering';
+import { countAccessories, formatAccessories, type AccessoryCount } from '$lib/accessories';
 
 /**
  * A single instrument row in the schedule
@@ -40,9 +18,11 @@ const INSTRUMENT_TYPE_NAMES: Record<string, string> = {
 export interface InstrumentScheduleRow {
 	/** The instrument's unique ID */
 	instrumentId: string;
-	/** Unit number on the position */
-	unitNumber: number | null;
-	/** Instrument type (human-readable) */
+	/** Index of the instrument part this row covers (null for a single-part instrument) */
+	partIndex: number | null;
+	/** Unit number on the position, with any cell suffix (e.g. "3B") */
+	unitNumber: string | null;
+	/** Fixture profile (human-readable) */
 	instrumentType: string;
 	/** Lighting console channel number */
 	channel: number | null;
@@ -54,7 +34,7 @@ export interface InstrumentScheduleRow {
 	color: string | null;
 	/** Gobo name or pattern */
 	gobo: string | null;
-	/** Accessory information */
+	/** Fitted accessories and accessory notes (on the first row of a multi-part instrument) */
 	accessory: string | null;
 	/** Purpose/focus area */
 	purpose: string | null;
@@ -88,6 +68,8 @@ export interface InstrumentScheduleReport {
 	positions: InstrumentSchedulePosition[];
 	/** Instruments without a position */
 	unassignedInstruments: InstrumentScheduleRow[];
+	/** Accessories fitted across the plot, by type and name */
+	accessories: AccessoryCount[];
 	/** Summary statistics */
 	summary: {
 		totalInstruments: number;
@@ -112,11 +94,13 @@ export interface ProjectLayers {
  *
  * @param projectName - The name of the project
  * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to resolve instruments against
  * @returns The complete instrument schedule report
  */
 export function generateInstrumentSchedule(
 	projectName: string,
-	layers: ProjectLayers | null
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures
 ): InstrumentScheduleReport {
 	const instruments = layers?.instruments ?? [];
 	const hangingPositions = layers?.hangingPositions ?? [];
@@ -148,19 +132,19 @@ export function generateInstrumentSchedule(
 
 		// Sort instruments by unit number
 		const sortedInstruments = positionInsts.sort((a, b) => {
-			const aUnit = getUnitNumber(a);
-			const bUnit = getUnitNumber(b);
+			const aUnit = a.unitNumber ?? null;
+			const bUnit = b.unitNumber ?? null;
 			if (aUnit === null && bUnit === null) return 0;
 			if (aUnit === null) return 1;
 			if (bUnit === null) return -1;
-			return aUnit - bUnit;
+			return aUnit - bUnit || (a.unitSuffix ?? '').localeCompare(b.unitSuffix ?? '');
 		});
 
 		positions.push({
 			positionId,
 			positionName: hp.name ?? 'Unnamed Position',
 			sortOrder: getSortOrder(hp),
-			instruments: sortedInstruments.map(transformInstrumentRow)
+			instruments: sortedInstruments.flatMap((inst) => transformInstrumentRows(inst, library))
 		});
 	}
 
@@ -180,64 +164,50 @@ export function generateInstrumentSchedule(
 	// Transform unassigned instruments
 	const unassignedInstruments = unassigned
 		.sort((a, b) => {
-			const aUnit = getUnitNumber(a);
-			const bUnit = getUnitNumber(b);
+			const aUnit = a.unitNumber ?? null;
+			const bUnit = b.unitNumber ?? null;
 			if (aUnit === null && bUnit === null) return 0;
 			if (aUnit === null) return 1;
 			if (bUnit === null) return -1;
-			return aUnit - bUnit;
+			return aUnit - bUnit || (a.unitSuffix ?? '').localeCompare(b.unitSuffix ?? '');
 		})
-		.map(transformInstrumentRow);
+		.flatMap((inst) => transformInstrumentRows(inst, library));
 
 	return {
 		projectName,
 		generatedAt: new Date().toISOString(),
 		positions,
 		unassignedInstruments,
+		accessories: countAccessories(instruments),
 		summary: {
 			totalInstruments: instruments.length,
 			totalPositions: positions.length,
-			unassignedCount: unassignedInstruments.length
+			unassignedCount: unassigned.length
 		}
 	};
 }
 
 /**
- * Transform an instrument to a schedule row
+ * Transform an instrument to schedule rows, one per part
  */
-function transformInstrumentRow(instrument: InstrumentObject): InstrumentScheduleRow {
-	return {
+function transformInstrumentRows(
+	instrument: InstrumentObject,
+	library: FixtureLibrary
+): InstrumentScheduleRow[] {
+	return expandParts(instrument).map(({ partIndex, properties }) => ({
 		instrumentId: instrument.id,
-		unitNumber: getUnitNumber(instrument),
-		instrumentType: getInstrumentTypeName(instrument.instrumentType),
-		channel: instrument.channel ?? null,
-		dimmer: instrument.dimmer ?? null,
-		circuit: getCircuit(instrument),
-		color: instrument.color ?? null,
-		gobo: getGobo(instrument),
-		accessory: getAccessory(instrument),
-		purpose: getPurpose(instrument),
-		notes: getNotes(instrument)
-	};
-}
-
-/**
- * Get human-readable instrument type name
- */
-function getInstrumentTypeName(typeId: string): string {
-	return INSTRUMENT_TYPE_NAMES[typeId] ?? typeId;
-}
-
-/**
- * Get unit number from instrument
- */
-function getUnitNumber(instrument: InstrumentObject): number | null {
-	// Check for unitNumber in extended properties
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.unitNumber === 'number') {
-		return extended.unitNumber;
-	}
-	return null;
+		partIndex,
+		unitNumber: formatUnitNumber(properties),
+		instrumentType: library.getName(instrument),
+		channel: properties.channel ?? null,
+		dimmer: properties.dimmer ?? null,
+		circuit: properties.circuit ?? null,
+		color: properties.color ?? null,
+		gobo: properties.gobo ?? null,
+		accessory: partIndex === null || partIndex === 0 ? formatAccessories(instrument) : null,
+		purpose: properties.purpose ?? null,
+		notes: properties.notes ?? null
+	}));
 }
 
 /**
@@ -253,57 +223,3 @@ function getSortOrder(hp: HangingPositionObject): number | null {
 	}
 	return null;
 }
-
-/**
- * Get circuit information from instrument
- */
-function getCircuit(instrument: InstrumentObject): string | null {
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.circuit === 'string') {
-		return extended.circuit;
-	}
-	if (typeof extended.circuit === 'number') {
-		return String(extended.circuit);
-	}
-	return null;
-}
-
-/**
- * Get gobo information from instrument
- */
-function getGobo(instrument: InstrumentObject): string | null {
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.gobo === 'string') {
-		return extended.gobo;
-	}
-	return null;
-}
-
-/**
- * Get accessory information from instrument
- */
-function getAccessory(instrument: InstrumentObject): string | null {
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.accessory === 'string') {
-		return extended.accessory;
-	}
-	return null;
-}
-
-/**
- * Get purpose/focus from instrument
- */
-function getPurpose(instrument: InstrumentObject): string | null {
-	return instrument.focus ?? null;
-}
-
-/**
- * Get notes from instrument
- */
-function getNotes(instrument: InstrumentObject): string | null {
-	const extended = instrument as unknown as Record<string, unknown>;
-	if (typeof extended.notes === 'string') {
-		return extended.notes;
-	}
-	return null;
-}
@@ -0,0 +1,197 @@
+/**
+ * Power Distribution Report Generator
+ *
+ * Generates a power distribution report from project data.
+ * The report lists each dimmer rack and PDU with the load on every circuit in
+ * use and on each of its phases, and the problems found: overloaded circuits
+ * and phases, unbalanced sources, and instruments patched to circuits no
+ * source has.
+ */
+
+import type { InstrumentObject, HangingPositionObject } from '$lib/stores/project.svelte';
+import { builtInFixtures, type FixtureLibrary } from '$lib/fixtures';
+import { expandParts, formatUnitNumber } from '$lib/numbering';
+import {
+	DEFAULT_POWER_SYSTEM,
+	calculatePowerLoads,
+	getCircuitCount,
+	type InstrumentLoad,
+	type PhaseLoad,
+	type PowerIssueType,
+	type PowerModuleKind,
+	type PowerPhase,
+	type PowerSourceType,
+	type PowerSystem
+} from '$lib/power';
+
+/**
+ * An instrument (or part) on a circuit
+ */
+export interface PowerLoadRow {
+	/** Where the instrument is, e.g. "1st Electric #3" */
+	location: string;
+	/** Fixture profile (human-readable) */
+	instrumentType: string;
+	/** Channel of the instrument (or part) */
+	channel: number | null;
+	watts: number;
+}
+
+/**
+ * A circuit with something on it
+ */
+export interface PowerCircuitRow {
+	circuit: number;
+	kind: PowerModuleKind;
+	phase: PowerPhase | null;
+	/** Breaker rating in amps */
+	capacityAmps: number;
+	watts: number;
+	amps: number;
+	overloaded: boolean;
+	loads: PowerLoadRow[];
+}
+
+/**
+ * One dimmer rack or PDU
+ */
+export interface PowerSourceSection {
+	id: string;
+	name: string;
+	type: PowerSourceType;
+	/** Circuits in the source, used or not */
+	circuitCount: number;
+	/** Circuits in use, by number */
+	circuits: PowerCircuitRow[];
+	phases: PhaseLoad[];
+	/** Spread between the most and least loaded phase, as a percentage of the most */
+	imbalance: number;
+	unbalanced: boolean;
+	watts: number;
+}
+
+/**
+ * The complete power distribution report data
+ */
+export interface PowerDistributionReport {
+	/** Project name */
+	projectName: string;
+	/** Date the report was generated */
+	generatedAt: string;
+	/** Circuit voltage the loads were calculated at */
+	voltage: number;
+	/** Phase imbalance that is flagged, as a percentage */
+	imbalanceThreshold: number;
+	/** Sources in the order they're set up */
+	sources: PowerSourceSection[];
+	/** Instruments (or parts) not on any source */
+	unassigned: PowerLoadRow[];
+	/** Problems found */
+	issues: { type: PowerIssueType; message: string }[];
+	/** Summary statistics */
+	summary: {
+		totalWatts: number;
+		/** Circuits in use across all sources */
+		circuitsInUse: number;
+		overloadedCircuits: number;
+		overloadedPhases: number;
+		unbalancedSources: number;
+	};
+}
+
+/**
+ * Project layers data structure as stored in the database
+ */
+export interface ProjectLayers {
+	shapes?: unknown[];
+	hangingPositions?: HangingPositionObject[];
+	instruments?: InstrumentObject[];
+	setPieces?: unknown[];
+	annotations?: unknown[];
+}
+
+/**
+ * Generate a power distribution report from project data
+ *
+ * @param projectName - The name of the project
+ * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to read wattages from
+ * @param system - The venue's power distribution
+ * @returns The complete power distribution report
+ */
+export function generatePowerDistribution(
+	projectName: string,
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures,
+	system: PowerSystem = DEFAULT_POWER_SYSTEM
+): PowerDistributionReport {
+	const instruments = layers?.instruments ?? [];
+	const instrumentMap = new Map(instruments.map((instrument) => [instrument.id, instrument]));
+	const positionNames = new Map(
+		(layers?.hangingPositions ?? []).map((hp) => [hp.id, hp.name ?? 'Unnamed Position'])
+	);
+
+	const loads = calculatePowerLoads(instruments, system, library);
+
+	const toRow = (load: InstrumentLoad): PowerLoadRow => {
+		const instrument = instrumentMap.get(load.instrumentId)!;
+		const properties =
+			expandParts(instrument).find((part) => part.partIndex === load.partIndex)?.properties ??
+			instrument;
+		const position = instrument.hangingPositionId
+			? positionNames.get(instrument.hangingPositionId)
+			: undefined;
+		const unitNumber = formatUnitNumber(properties);
+		const location = [position, unitNumber ? `#${unitNumber}` : null].filter(Boolean).join(' ');
+		return {
+			location: location || 'Unplaced',
+			instrumentType: library.getName(instrument),
+			channel: properties.channel ?? null,
+			watts: load.watts
+		};
+	};
+
+	const sources: PowerSourceSection[] = loads.sources.map((sourceLoad) => ({
+		id: sourceLoad.source.id,
+		name: sourceLoad.source.name,
+		type: sourceLoad.source.type,
+		circuitCount: getCircuitCount(sourceLoad.source),
+		circuits: sourceLoad.circuits.map((circuit) => ({
+			circuit: circuit.circuit,
+			kind: circuit.kind,
+			phase: circuit.phase,
+			capacityAmps: circuit.capacityAmps,
+			watts: circuit.watts,
+			amps: circuit.amps,
+			overloaded: circuit.overloaded,
+			loads: circuit.loads.map(toRow)
+		})),
+		phases: sourceLoad.phases,
+		imbalance: sourceLoad.imbalance,
+		unbalanced: sourceLoad.unbalanced,
+		watts: sourceLoad.circuits.reduce((sum, circuit) => sum + circuit.watts, 0)
+	}));
+
+	return {
+		projectName,
+		generatedAt: new Date().toISOString(),
+		voltage: system.voltage,
+		imbalanceThreshold: system.imbalanceThreshold,
+		sources,
+		unassigned: loads.unassigned.map(toRow),
+		issues: loads.issues.map(({ type, message }) => ({ type, message })),
+		summary: {
+			totalWatts: loads.totalWatts,
+			circuitsInUse: sources.reduce((sum, source) => sum + source.circuits.length, 0),
+			overloadedCircuits: sources.reduce(
+				(sum, source) => sum + source.circuits.filter((circuit) => circuit.overloaded).length,
+				0
+			),
+			overloadedPhases: sources.reduce(
+				(sum, source) => sum + source.phases.filter((phase) => phase.overloaded).length,
+				0
+			),
+			unbalancedSources: sources.filter((source) => source.unbalanced).length
+		}
+	};
+}
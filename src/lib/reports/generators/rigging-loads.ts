@@ -0,0 +1,110 @@
+/**
+ * Rigging Load Report Generator
+ *
+ * Generates a rigging load report from project data.
+ * The report lists every hanging position with the estimated weight on it -
+ * fixtures with their accessories and hardware, plus the pipe or truss
+ * itself - as a total, a distributed load and the point loads at each end,
+ * and flags positions over their load limit.
+ */
+
+import type {
+	InstrumentObject,
+	HangingPositionObject,
+	HangingPositionType
+} from '$lib/stores/project.svelte';
+import { builtInFixtures, type FixtureLibrary } from '$lib/fixtures';
+import { calculatePositionLoad, type PositionLoad } from '$lib/rigging';
+
+/**
+ * A single row in the rigging load report
+ */
+export interface RiggingLoadRow extends PositionLoad {
+	/** Name of the hanging position */
+	positionName: string;
+	positionType: HangingPositionType;
+	/** Position type (human-readable) */
+	typeName: string;
+	/** Trim height in feet */
+	trimHeight: number | null;
+}
+
+/**
+ * The complete rigging load report data
+ */
+export interface RiggingLoadReport {
+	/** Project name */
+	projectName: string;
+	/** Date the report was generated */
+	generatedAt: string;
+	/** Every hanging position, by name */
+	positions: RiggingLoadRow[];
+	/** Summary statistics (weights in kilograms) */
+	summary: {
+		totalPositions: number;
+		/** Weight across all positions */
+		totalWeight: number;
+		/** Positions over their load limit */
+		overLimitCount: number;
+		/** Hung units whose profile has no weight */
+		unknownWeights: number;
+	};
+}
+
+/**
+ * Project layers data structure as stored in the database
+ */
+export interface ProjectLayers {
+	shapes?: unknown[];
+	hangingPositions?: HangingPositionObject[];
+	instruments?: InstrumentObject[];
+	setPieces?: unknown[];
+	annotations?: unknown[];
+}
+
+const POSITION_TYPE_NAMES: Record<HangingPositionType, string> = {
+	electric: 'Electric',
+	truss: 'Truss',
+	ladder: 'Ladder',
+	boom: 'Boom',
+	'box-boom': 'Box Boom',
+	'ground-row': 'Ground Row'
+};
+
+/**
+ * Generate a rigging load report from project data
+ *
+ * @param projectName - The name of the project
+ * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to read weights from
+ * @returns The complete rigging load report
+ */
+export function generateRiggingLoads(
+	projectName: string,
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures
+): RiggingLoadReport {
+	const instruments = layers?.instruments ?? [];
+
+	const positions: RiggingLoadRow[] = (layers?.hangingPositions ?? [])
+		.map((hp) => ({
+			...calculatePositionLoad(hp, instruments, library),
+			positionName: hp.name ?? 'Unnamed Position',
+			positionType: hp.positionType,
+			typeName: POSITION_TYPE_NAMES[hp.positionType],
+			trimHeight: hp.trimHeight ?? null
+		}))
+		.sort((a, b) => a.positionName.localeCompare(b.positionName, undefined, { numeric: true }));
+
+	return {
+		projectName,
+		generatedAt: new Date().toISOString(),
+		positions,
+		summary: {
+			totalPositions: positions.length,
+			totalWeight: positions.reduce((sum, row) => sum + row.totalWeight, 0),
+			overLimitCount: positions.filter((row) => row.overLimit).length,
+			unknownWeights: positions.reduce((sum, row) => sum + row.unknownWeights, 0)
+		}
+	};
+}
@@ -0,0 +1,313 @@
+/**
+ * Shop Order Report Generator
+ *
+ * Generates an equipment list for the rental shop from project data.
+ * A shop order totals fixtures by profile, the accessories fitted to them,
+ * the hardware for each hung unit (a gel frame if its profile takes one, a gobo
+ * holder if it has a gobo, a clamp and a safety cable) and the cable estimated
+ * from the plot geometry. Every line carries spares at the same percentage.
+ */
+
+import type { InstrumentObject, HangingPositionObject } from '$lib/stores/project.svelte';
+import { builtInFixtures, getProfileName, type FixtureLibrary, type GoboSize } from '$lib/fixtures';
+import { countAccessories } from '$lib/accessories';
+import { GOBO_SIZE_NAMES, GOBO_SIZES } from '$lib/gobos';
+import { feetToMeters, metersToFeet, pixelsToMeters } from '$lib/utils/scale';
+import { formatCutSize } from './color-cut-list';
+
+/**
+ * Options for a shop order
+ */
+export interface ShopOrderOptions {
+	/** Spares to add to each line, as a percentage of the quantity needed (rounded up) */
+	sparePercent: number;
+}
+
+/**
+ * Section of the order a line belongs to
+ */
+export type ShopOrderCategory = 'fixtures' | 'accessories' | 'hardware' | 'cable';
+
+/**
+ * A single line of the order
+ */
+export interface ShopOrderLine {
+	/** Unique within its section: the profile id for fixtures, else item and detail */
+	key: string;
+	/** Item name, e.g. "ETC Source Four 26°" or "C-clamp" */
+	item: string;
+	/** Size, length or other detail that tells items of one name apart (e.g. "Custom") */
+	detail: string | null;
+	/** Quantity the plot needs */
+	quantity: number;
+	/** Spares */
+	spares: number;
+	/** Quantity including spares */
+	total: number;
+}
+
+/**
+ * One section of the order
+ */
+export interface ShopOrderSection {
+	category: ShopOrderCategory;
+	/** Section heading */
+	title: string;
+	lines: ShopOrderLine[];
+}
+
+/**
+ * The complete shop order report data
+ */
+export interface ShopOrderReport {
+	/** Project name */
+	projectName: string;
+	/** Date the report was generated */
+	generatedAt: string;
+	/** Options the order was calculated with */
+	options: ShopOrderOptions;
+	/** Sections in order: fixtures, accessories, hardware, cable (empty sections left out) */
+	sections: ShopOrderSection[];
+	/** Summary statistics */
+	summary: {
+		/** Fixtures including spares */
+		totalFixtures: number;
+		/** Units on a hanging position (the ones that get hardware and cable) */
+		hungUnits: number;
+		/** Units placed freely on the plot */
+		floorUnits: number;
+		/** Estimated cable before spares, in feet of stock lengths */
+		cableFeet: number;
+	};
+}
+
+/**
+ * Project layers data structure as stored in the database
+ */
+export interface ProjectLayers {
+	shapes?: unknown[];
+	hangingPositions?: HangingPositionObject[];
+	instruments?: InstrumentObject[];
+	setPieces?: unknown[];
+	annotations?: unknown[];
+}
+
+/** Default options: 10% spares */
+export const DEFAULT_SHOP_ORDER_OPTIONS: ShopOrderOptions = {
+	sparePercent: 10
+};
+
+/** Cable stock lengths in feet, shortest first */
+export const CABLE_STOCK_LENGTHS = [5, 10, 25, 50, 100] as const;
+
+/** Cable from a unit to its position's nearer end is the run along the pipe plus this, in meters */
+const JUMPER_ALLOWANCE = 1.5;
+
+/** Cable from a position to the deck is its trim height plus this, in meters */
+const DROP_ALLOWANCE = 3;
+
+// ============================================================================
+// Cable Estimation
+// ============================================================================
+
+/**
+ * Stock lengths that cover a run: 100' lengths, then the shortest length that
+ * covers the rest
+ */
+function getStockLengths(meters: number): number[] {
+	const longest = CABLE_STOCK_LENGTHS[CABLE_STOCK_LENGTHS.length - 1];
+	const lengths: number[] = [];
+	let remaining = metersToFeet(meters);
+	while (remaining > longest) {
+		lengths.push(longest);
+		remaining -= longest;
+	}
+	lengths.push(CABLE_STOCK_LENGTHS.find((length) => length >= remaining) ?? longest);
+	return lengths;
+}
+
+/**
+ * Length of a hanging position in meters
+ */
+function getPositionLength(position: HangingPositionObject): number {
+	return pixelsToMeters(Math.hypot(position.x2 - position.x1, position.y2 - position.y1));
+}
+
+// ============================================================================
+// Generator
+// ============================================================================
+
+/** An order line before spares (keyed by item and detail unless a key is given) */
+type LineCount = Pick<ShopOrderLine, 'item' | 'detail' | 'quantity'> & { key?: string };
+
+/**
+ * Add spares to a line
+ */
+function withSpares(count: LineCount, sparePercent: number): ShopOrderLine {
+	const spares = Math.ceil((count.quantity * sparePercent) / 100);
+	return {
+		...count,
+		key: count.key ?? `${count.item}:${count.detail ?? ''}`,
+		spares,
+		total: count.quantity + spares
+	};
+}
+
+/**
+ * Tell apart fixture lines whose profiles share a display name: built-in
+ * profiles keep no detail, custom ones are marked "Custom" (numbered when
+ * several custom profiles share the name)
+ */
+function labelSharedNames(lines: LineCount[], library: FixtureLibrary): void {
+	const byName = new Map<string, LineCount[]>();
+	for (const line of lines) {
+		byName.set(line.item, [...(byName.get(line.item) ?? []), line]);
+	}
+
+	for (const shared of byName.values()) {
+		if (shared.length < 2) continue;
+		const custom = shared
+			.filter((line) => library.get(line.key)?.custom)
+			.sort((a, b) => a.key!.localeCompare(b.key!));
+		custom.forEach((line, index) => {
+			line.detail = custom.length > 1 ? `Custom ${index + 1}` : 'Custom';
+		});
+	}
+}
+
+/**
+ * Count items into order lines, keyed by item and detail unless a key is given
+ */
+function createLineCounter() {
+	const lines = new Map<string, LineCount>();
+	return {
+		add(
+			item: string,
+			detail: string | null = null,
+			quantity = 1,
+			key = `${item}\u0000${detail ?? ''}`
+		) {
+			const line = lines.get(key) ?? { key, item, detail, quantity: 0 };
+			line.quantity += quantity;
+			lines.set(key, line);
+		},
+		values() {
+			return [...lines.values()];
+		}
+	};
+}
+
+/**
+ * Generate a shop order report from project data
+ *
+ * @param projectName - The name of the project
+ * @param layers - The project layers JSONB data
+ * @param library - Fixture profiles to resolve names, color frames and gobo holders from
+ * @param options - Spares percentage
+ * @returns The complete shop order report
+ */
+export function generateShopOrder(
+	projectName: string,
+	layers: ProjectLayers | null,
+	library: FixtureLibrary = builtInFixtures,
+	options: ShopOrderOptions = DEFAULT_SHOP_ORDER_OPTIONS
+): ShopOrderReport {
+	const instruments = layers?.instruments ?? [];
+	const positions = new Map((layers?.hangingPositions ?? []).map((hp) => [hp.id, hp]));
+	const sparePercent = Math.max(0, options.sparePercent);
+
+	const fixtures = createLineCounter();
+	const frames = createLineCounter();
+	const holders: Record<GoboSize, number> = { A: 0, B: 0, M: 0 };
+	const cable = new Map<number, number>();
+	const addCable = (meters: number) => {
+		for (const length of getStockLengths(meters)) {
+			cable.set(length, (cable.get(length) ?? 0) + 1);
+		}
+	};
+	const positionsInUse = new Set<HangingPositionObject>();
+	let hungUnits = 0;
+
+	for (const instrument of instruments) {
+		// One line per profile: different profiles can share a display name
+		const profile = library.resolve(instrument);
+		fixtures.add(getProfileName(profile), null, 1, profile.id);
+
+		const position = instrument.hangingPositionId
+			? positions.get(instrument.hangingPositionId)
+			: undefined;
+		if (!position) continue;
+
+		hungUnits++;
+		positionsInUse.add(position);
+
+		const frame = library.getColorFrame(instrument);
+		if (frame) frames.add('Gel frame', formatCutSize(frame));
+
+		// Only units with a pattern need a holder
+		const goboSize = instrument.gobo?.trim() ? library.getGoboSize(instrument) : null;
+		if (goboSize) holders[goboSize]++;
+
+		// A jumper runs along the pipe to its nearer end
+		const alongPipe = Math.min(instrument.positionOnBar, 1 - instrument.positionOnBar);
+		addCable(alongPipe * getPositionLength(position) + JUMPER_ALLOWANCE);
+	}
+
+	// Each position with units on it drops to the deck from its trim
+	for (const position of positionsInUse) {
+		if (position.trimHeight === undefined) continue;
+		addCable(feetToMeters(position.trimHeight) + DROP_ALLOWANCE);
+	}
+
+	const toLine = (count: LineCount) => withSpares(count, sparePercent);
+	const byName = (a: ShopOrderLine, b: ShopOrderLine) =>
+		`${a.item} ${a.detail ?? ''}`.localeCompare(`${b.item} ${b.detail ?? ''}`, undefined, {
+			numeric: true
+		});
+
+	const fixtureCounts = fixtures.values();
+	labelSharedNames(fixtureCounts, library);
+	const fixtureLines = fixtureCounts.map(toLine).sort(byName);
+	const sections: ShopOrderSection[] = [
+		{ category: 'fixtures', title: 'Fixtures', lines: fixtureLines },
+		{
+			category: 'accessories',
+			title: 'Accessories',
+			lines: countAccessories(instruments).map((count) =>
+				toLine({ item: count.name, detail: null, quantity: count.quantity })
+			)
+		},
+		{
+			category: 'hardware',
+			title: 'Hardware',
+			lines: [
+				...frames.values().map(toLine).sort(byName),
+				...GOBO_SIZES.map((size) =>
+					toLine({ item: 'Gobo holder', detail: GOBO_SIZE_NAMES[size], quantity: holders[size] })
+				),
+				toLine({ item: 'C-clamp', detail: null, quantity: hungUnits }),
+				toLine({ item: 'Safety cable', detail: null, quantity: hungUnits })
+			].filter((line) => line.quantity > 0)
+		},
+		{
+			category: 'cable',
+			title: 'Cable',
+			lines: CABLE_STOCK_LENGTHS.map((length) =>
+				toLine({ item: 'Cable', detail: `${length}'`, quantity: cable.get(length) ?? 0 })
+			).filter((line) => line.quantity > 0)
+		}
+	];
+
+	return {
+		projectName,
+		generatedAt: new Date().toISOString(),
+		options: { sparePercent },
+		sections: sections.filter((section) => section.lines.length > 0),
+		summary: {
+			totalFixtures: fixtureLines.reduce((sum, line) => sum + line.total, 0),
+			hungUnits,
+			floorUnits: instruments.length - hungUnits,
+			cableFeet: [...cable].reduce((sum, [length, count]) => sum + length * count, 0)
+		}
+	};
+}
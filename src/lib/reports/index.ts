@@ -26,6 +26,54 @@ export {
 	type DimmerGroup
 } from './generators/dimmer-schedule';
 
+export {
+	generateColorCutList,
+	DEFAULT_CUT_LIST_OPTIONS,
+	GEL_SHEET_SIZE,
+	type ColorCutListReport,
+	type ColorCutListOptions,
+	type ColorCutGroup,
+	type ColorCutSize
+} from './generators/color-cut-list';
+
+export {
+	generateGoboPullList,
+	type GoboPullListReport,
+	type GoboPullGroup,
+	type GoboHolderCounts
+} from './generators/gobo-pull-list';
+
+export {
+	generateShopOrder,
+	DEFAULT_SHOP_ORDER_OPTIONS,
+	CABLE_STOCK_LENGTHS,
+	type ShopOrderReport,
+	type ShopOrderOptions,
+	type ShopOrderCategory,
+	type ShopOrderSection,
+	type ShopOrderLine
+} from './generators/shop-order';
+
+export {
+	generatePowerDistribution,
+	type PowerDistributionReport,
+	type PowerSourceSection,
+	type PowerCircuitRow,
+	type PowerLoadRow
+} from './generators/power-distribution';
+
+export {
+	generateRiggingLoads,
+	type RiggingLoadReport,
+	type RiggingLoadRow
+} from './generators/rigging-loads';
+
+export {
+	generateFocusChart,
+	type FocusChartReport,
+	type FocusChartRow
+} from './generators/focus-chart';
+
 // PDF export utilities
 export {
 	exportToPDF,
@@ -49,5 +97,17 @@ export {
 	exportInstrumentScheduleCSV,
 	downloadInstrumentScheduleCSV,
 	exportDimmerScheduleCSV,
-	downloadDimmerScheduleCSV
+	downloadDimmerScheduleCSV,
+	exportColorCutListCSV,
+	downloadColorCutListCSV,
+	exportGoboPullListCSV,
+	downloadGoboPullListCSV,
+	exportShopOrderCSV,
+	downloadShopOrderCSV,
+	exportPowerDistributionCSV,
+	downloadPowerDistributionCSV,
+	exportRiggingLoadsCSV,
+	downloadRiggingLoadsCSV,
+	exportFocusChartCSV,
+	downloadFocusChartCSV
 } from './csv';
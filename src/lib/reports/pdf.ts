@@ -102,7 +102,16 @@ export function prepareForPrint(): () => void {
 /**
  * Report types available for PDF export
  */
-export type ReportType = 'channel-hookup' | 'instrument-schedule' | 'dimmer-schedule';
+export type ReportType =
+	| 'channel-hookup'
+	| 'instrument-schedule'
+	| 'dimmer-schedule'
+	| 'color-cut-list'
+	| 'gobo-pull-list'
+	| 'shop-order'
+	| 'power-distribution'
+	| 'rigging-loads'
+	| 'focus-chart';
 
 /**
  * Report metadata with display information
@@ -117,7 +126,16 @@ export interface ReportInfo {
 	/** URL path segment for the report */
 	path: string;
 	/** Icon name (for UI display) */
-	icon: 'file-text' | 'list' | 'sliders';
+	icon:
+		| 'file-text'
+		| 'list'
+		| 'sliders'
+		| 'palette'
+		| 'aperture'
+		| 'package'
+		| 'zap'
+		| 'anchor'
+		| 'crosshair';
 }
 
 /**
@@ -144,6 +162,48 @@ export const REPORTS: readonly ReportInfo[] = [
 		description: 'Instruments organized by dimmer/circuit',
 		path: 'dimmer-schedule',
 		icon: 'sliders'
+	},
+	{
+		type: 'color-cut-list',
+		name: 'Color Cut List',
+		description: 'Gel cuts and sheets to order, by color',
+		path: 'color-cut-list',
+		icon: 'palette'
+	},
+	{
+		type: 'gobo-pull-list',
+		name: 'Gobo Pull List',
+		description: 'Gobos and holders to pull, by pattern',
+		path: 'gobo-pull-list',
+		icon: 'aperture'
+	},
+	{
+		type: 'shop-order',
+		name: 'Shop Order',
+		description: 'Fixtures, accessories, hardware and cable to order, with spares',
+		path: 'shop-order',
+		icon: 'package'
+	},
+	{
+		type: 'power-distribution',
+		name: 'Power Distribution',
+		description: 'Circuit and phase loads on each dimmer rack and distro',
+		path: 'power-distribution',
+		icon: 'zap'
+	},
+	{
+		type: 'rigging-loads',
+		name: 'Rigging Loads',
+		description: 'Estimated weight on each hanging position, with load limits',
+		path: 'rigging-loads',
+		icon: 'anchor'
+	},
+	{
+		type: 'focus-chart',
+		name: 'Focus Chart',
+		description: 'Focus points, throws and pool sizes by channel',
+		path: 'focus-chart',
+		icon: 'crosshair'
 	}
 ] as const;
 
@@ -0,0 +1,19 @@
+/**
+ * Rigging
+ *
+ * Structural load estimates for hanging positions, used by the position
+ * properties panel and the rigging load report.
+ */
+
+export {
+	KILOGRAMS_PER_POUND,
+	DEFAULT_SELF_WEIGHTS,
+	DEFAULT_LOAD_LIMITS,
+	HARDWARE_WEIGHT,
+	kilogramsToPounds,
+	getSelfWeight,
+	getLoadLimit,
+	calculatePositionLoad,
+	type WeighedInstrument,
+	type PositionLoad
+} from './loads';
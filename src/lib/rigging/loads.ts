@@ -0,0 +1,190 @@
+/**
+ * Rigging Loads
+ *
+ * Estimates the structural load on each hanging position: the weight of its
+ * fixtures (from their profiles), their accessories and hanging hardware, and
+ * the pipe or truss itself. The total is given as a distributed load along
+ * the position and as point loads at its two ends, treating the position as
+ * a beam supported at each end - an estimate for planning, not a substitute
+ * for a rigger's calculation.
+ */
+
+import { getAccessoryWeight } from '$lib/accessories';
+import type { FixtureLibrary, FixtureReference } from '$lib/fixtures';
+import type {
+	HangingPositionObject,
+	HangingPositionType,
+	InstrumentObject
+} from '$lib/stores/project.svelte';
+import type { InstrumentProperties } from '$lib/types/instrument';
+import { pixelsToMeters } from '$lib/utils/scale';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The instrument fields rigging loads are calculated from
+ */
+export type WeighedInstrument = FixtureReference &
+	Pick<InstrumentProperties, 'accessories'> &
+	Pick<InstrumentObject, 'hangingPositionId' | 'positionOnBar'>;
+
+/**
+ * The estimated load on one hanging position (weights in kilograms)
+ */
+export interface PositionLoad {
+	positionId: string;
+	/** Length of the position in meters */
+	length: number;
+	/** Units on the position */
+	unitCount: number;
+	/** Units whose profile has no weight (counted as hardware only) */
+	unknownWeights: number;
+	/** Fixtures with their accessories and hanging hardware */
+	fixtureWeight: number;
+	/** The pipe or truss itself */
+	selfWeight: number;
+	/** Everything on the position */
+	totalWeight: number;
+	/** Total weight per meter of length (null for a zero-length position) */
+	distributedLoad: number | null;
+	/** Point loads at the start and end of the position, treated as a beam supported at each end */
+	endLoads: [number, number];
+	/** Heaviest single unit */
+	heaviestUnit: number;
+	/** Rated load the total is checked against (null for no limit) */
+	loadLimit: number | null;
+	/** Total weight as a percentage of the limit (null for no limit) */
+	utilization: number | null;
+	overLimit: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Kilograms in a pound */
+export const KILOGRAMS_PER_POUND = 0.45359237;
+
+/**
+ * Typical self-weight by position type, in kilograms per meter: 1-1/2"
+ * schedule 40 pipe for electrics and booms, 12" box truss for trusses
+ */
+export const DEFAULT_SELF_WEIGHTS: Record<HangingPositionType, number> = {
+	electric: 4.1,
+	truss: 7,
+	ladder: 5,
+	boom: 4.1,
+	'box-boom': 4.1,
+	'ground-row': 0
+};
+
+/**
+ * Rated load checked by default, by position type, in kilograms. Booms and
+ * ground rows stand on the deck, so they aren't checked unless a limit is set.
+ */
+export const DEFAULT_LOAD_LIMITS: Record<HangingPositionType, number | null> = {
+	electric: 450,
+	truss: 450,
+	ladder: 90,
+	boom: null,
+	'box-boom': null,
+	'ground-row': null
+};
+
+/** Weight of the clamp and safety cable each unit hangs with, in kilograms */
+export const HARDWARE_WEIGHT = 1;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert kilograms to pounds
+ */
+export function kilogramsToPounds(kilograms: number): number {
+	return kilograms / KILOGRAMS_PER_POUND;
+}
+
+/**
+ * Self-weight of a position in kilograms per meter: its own, else its type's
+ */
+export function getSelfWeight(position: HangingPositionObject): number {
+	return position.selfWeight ?? DEFAULT_SELF_WEIGHTS[position.positionType];
+}
+
+/**
+ * Rated load of a position in kilograms: its own, else its type's (null for no limit)
+ */
+export function getLoadLimit(position: HangingPositionObject): number | null {
+	return position.loadLimit ?? DEFAULT_LOAD_LIMITS[position.positionType];
+}
+
+/**
+ * Weight of an instrument's accessories in kilograms
+ */
+function getAccessoriesWeight(instrument: WeighedInstrument): number {
+	return (instrument.accessories ?? []).reduce(
+		(sum, accessory) => sum + getAccessoryWeight(accessory),
+		0
+	);
+}
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+/**
+ * Estimate the load on a hanging position
+ *
+ * @param position - The position
+ * @param instruments - Instruments in the project (those on other positions are ignored)
+ * @param library - Fixture profiles to read weights from
+ */
+export function calculatePositionLoad(
+	position: HangingPositionObject,
+	instruments: readonly WeighedInstrument[],
+	library: FixtureLibrary
+): PositionLoad {
+	const units = instruments.filter((instrument) => instrument.hangingPositionId === position.id);
+	const length = pixelsToMeters(Math.hypot(position.x2 - position.x1, position.y2 - position.y1));
+	const selfWeight = getSelfWeight(position) * length;
+
+	let fixtureWeight = 0;
+	let unknownWeights = 0;
+	let heaviestUnit = 0;
+	// Half the pipe's own weight sits on each end; each unit splits by where it hangs
+	const endLoads: [number, number] = [selfWeight / 2, selfWeight / 2];
+
+	for (const unit of units) {
+		const fixture = library.getWeight(unit);
+		if (fixture === null) unknownWeights++;
+		const weight = (fixture ?? 0) + getAccessoriesWeight(unit) + HARDWARE_WEIGHT;
+
+		const t = Math.max(0, Math.min(1, unit.positionOnBar));
+		fixtureWeight += weight;
+		heaviestUnit = Math.max(heaviestUnit, weight);
+		endLoads[0] += weight * (1 - t);
+		endLoads[1] += weight * t;
+	}
+
+	const totalWeight = fixtureWeight + selfWeight;
+	const loadLimit = getLoadLimit(position);
+
+	return {
+		positionId: position.id,
+		length,
+		unitCount: units.length,
+		unknownWeights,
+		fixtureWeight,
+		selfWeight,
+		totalWeight,
+		distributedLoad: length > 0 ? totalWeight / length : null,
+		endLoads,
+		heaviestUnit,
+		loadLimit,
+		utilization: loadLimit ? (totalWeight / loadLimit) * 100 : null,
+		overLimit: loadLimit !== null && totalWeight > loadLimit
+	};
+}
@@ -0,0 +1,55 @@
+/**
+ * Fixture Profile Schemas
+ *
+ * Runtime schemas for custom fixture profiles saved through the fixtures API.
+ */
+
+import type {
+	ColorFrameSize,
+	DmxMode,
+	FixtureDimensions,
+	FixtureProfileInput
+} from '$lib/fixtures';
+import { GOBO_SIZES } from '$lib/gobos';
+import { INSTRUMENT_TYPE_NAMES, type InstrumentType } from '$lib/types/instrument';
+import { array, number, object, oneOf, optional, string, type Schema } from './schema';
+import { NAME_MAX_LENGTH } from './project';
+
+/** Channels in a DMX universe, the largest possible footprint */
+const DMX_UNIVERSE_SIZE = 512;
+
+/** Most DMX modes a profile may list */
+const MAX_DMX_MODES = 64;
+
+const name = string({ minLength: 1, maxLength: NAME_MAX_LENGTH });
+const angle = optional(number({ min: 0, max: 360 }));
+
+export const dmxModeSchema: Schema<DmxMode> = object({
+	name,
+	footprint: number({ integer: true, min: 1, max: DMX_UNIVERSE_SIZE })
+});
+
+export const fixtureDimensionsSchema: Schema<FixtureDimensions> = object({
+	length: number({ min: 0 }),
+	width: number({ min: 0 }),
+	height: number({ min: 0 })
+});
+
+export const colorFrameSizeSchema: Schema<ColorFrameSize> = object({
+	width: number({ min: 0 }),
+	height: number({ min: 0 })
+});
+
+export const fixtureProfileInputSchema: Schema<FixtureProfileInput> = object({
+	manufacturer: name,
+	model: name,
+	symbol: oneOf(Object.keys(INSTRUMENT_TYPE_NAMES) as InstrumentType[]),
+	beamAngle: angle,
+	fieldAngle: angle,
+	wattage: optional(number({ min: 0 })),
+	weight: optional(number({ min: 0 })),
+	dimensions: optional(fixtureDimensionsSchema),
+	colorFrame: optional(colorFrameSizeSchema),
+	goboSize: optional(oneOf(GOBO_SIZES)),
+	dmxModes: array(dmxModeSchema, { maxLength: MAX_DMX_MODES })
+});
@@ -0,0 +1,56 @@
+/**
+ * Schemas module exports
+ *
+ * Runtime validation for project data, shared by the API routes and the
+ * client (e.g. JSON import).
+ */
+
+// Schema building blocks
+export {
+	array,
+	boolean,
+	nullable,
+	number,
+	object,
+	oneOf,
+	optional,
+	record,
+	string,
+	taggedUnion,
+	validate,
+	formatFieldErrors,
+	type FieldError,
+	type Infer,
+	type OptionalSchema,
+	type Schema,
+	type ValidationResult
+} from './schema';
+
+// Project document schemas
+export {
+	geometrySchema,
+	shapeSchema,
+	hangingPositionSchema,
+	instrumentSchema,
+	setPieceSchema,
+	annotationSchema,
+	venueSchema,
+	scaleSchema,
+	layersSchema,
+	metadataSchema,
+	collectionSchemas,
+	canvasObjectSchema,
+	projectChangeSchema,
+	validateProjectFields,
+	NAME_MAX_LENGTH,
+	MAX_CHANNEL,
+	type ProjectFieldsInput
+} from './project';
+
+// Fixture profile schemas
+export {
+	dmxModeSchema,
+	fixtureDimensionsSchema,
+	colorFrameSizeSchema,
+	fixtureProfileInputSchema
+} from './fixture';
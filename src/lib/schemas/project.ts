@@ -0,0 +1,379 @@
+/**
+ * Project Schemas
+ *
+ * Runtime schemas for the project document: every canvas object type, the
+ * venue, the drawing scale and the layers blob stored with each project.
+ * The project API validates writes against them, the JSON import validates
+ * files with them and live collaboration validates edits from other sessions,
+ * so a malformed object is rejected before it can reach the canvas or the
+ * report generators.
+ *
+ * Each schema is typed against the matching interface, so the compiler flags
+ * a schema that falls out of step with the type it validates.
+ */
+
+import type {
+	Venue,
+	CanvasObject,
+	ProjectChange,
+	ShapeObject,
+	HangingPositionObject,
+	InstrumentObject,
+	SetPieceObject,
+	AnnotationObject
+} from '$lib/stores/project.svelte';
+import type { Geometry, InstrumentAccessory, InstrumentPart, LabelConfig } from '$lib/types';
+import type { UnitNumberingSettings } from '$lib/numbering';
+import type { PowerModule, PowerSource, PowerSystem } from '$lib/power';
+import type { MergeCollection } from '$lib/sync/conflict.svelte';
+import {
+	array,
+	boolean,
+	nullable,
+	number,
+	object,
+	oneOf,
+	optional,
+	record,
+	string,
+	taggedUnion,
+	validate,
+	type FieldError,
+	type Schema
+} from './schema';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Longest name accepted for a project or canvas object */
+export const NAME_MAX_LENGTH = 255;
+
+/** Longest free text accepted (notes, annotation text) */
+const TEXT_MAX_LENGTH = 10000;
+
+/** Highest console channel number (matches the properties panel) */
+export const MAX_CHANNEL = 9999;
+
+/** Addresses in a DMX universe */
+const DMX_UNIVERSE_SIZE = 512;
+
+/** Most parts one instrument can be split into (cells, pixel segments) */
+const MAX_INSTRUMENT_PARTS = 64;
+
+/** Most accessory entries one instrument can carry */
+const MAX_INSTRUMENT_ACCESSORIES = 16;
+
+// ============================================================================
+// Shared Fields
+// ============================================================================
+
+const name = string({ maxLength: NAME_MAX_LENGTH });
+const text = string({ maxLength: TEXT_MAX_LENGTH });
+const coordinate = number();
+
+/** Fields every canvas object has */
+const baseFields = {
+	id: string({ minLength: 1, maxLength: NAME_MAX_LENGTH }),
+	name,
+	locked: boolean(),
+	visible: boolean()
+};
+
+/** Fill and stroke styling for shapes and set pieces */
+const styleFields = {
+	fill: optional(string()),
+	fillOpacity: optional(number({ min: 0, max: 1 })),
+	stroke: optional(string()),
+	strokeWidth: optional(number({ min: 0 }))
+};
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+export const geometrySchema: Schema<Geometry> = taggedUnion('type', {
+	line: object({
+		type: oneOf(['line']),
+		x1: coordinate,
+		y1: coordinate,
+		x2: coordinate,
+		y2: coordinate
+	}),
+	rect: object({
+		type: oneOf(['rect']),
+		x: coordinate,
+		y: coordinate,
+		width: number({ min: 0 }),
+		height: number({ min: 0 }),
+		rotation: optional(number())
+	}),
+	circle: object({
+		type: oneOf(['circle']),
+		cx: coordinate,
+		cy: coordinate,
+		radius: number({ min: 0 })
+	}),
+	polygon: object({
+		type: oneOf(['polygon']),
+		points: array(object({ x: coordinate, y: coordinate }))
+	})
+});
+
+// ============================================================================
+// Canvas Objects
+// ============================================================================
+
+export const shapeSchema: Schema<ShapeObject> = object({
+	...baseFields,
+	...styleFields,
+	objectType: oneOf(['shape']),
+	geometry: geometrySchema
+});
+
+const unitNumberingSchema: Schema<UnitNumberingSettings> = object({
+	direction: oneOf([
+		'stage-left-to-right',
+		'stage-right-to-left',
+		'downstage-to-upstage',
+		'upstage-to-downstage'
+	]),
+	start: number({ integer: true, min: 1 }),
+	groupCells: boolean(),
+	auto: boolean()
+});
+
+export const hangingPositionSchema: Schema<HangingPositionObject> = object({
+	...baseFields,
+	objectType: oneOf(['hanging-position']),
+	positionType: oneOf(['electric', 'truss', 'ladder', 'boom', 'box-boom', 'ground-row']),
+	x1: coordinate,
+	y1: coordinate,
+	x2: coordinate,
+	y2: coordinate,
+	trimHeight: optional(number({ min: 0 })),
+	height: optional(number({ min: 0 })),
+	labelPosition: optional(oneOf(['left', 'right', 'above', 'below'])),
+	labelOffsetX: optional(number()),
+	labelOffsetY: optional(number()),
+	unitNumbering: optional(unitNumberingSchema),
+	selfWeight: optional(number({ min: 0 })),
+	loadLimit: optional(number({ min: 0 }))
+});
+
+const labelConfigSchema: Schema<LabelConfig> = object({
+	showChannel: boolean(),
+	showUnitNumber: boolean(),
+	showColor: boolean(),
+	showPurpose: boolean(),
+	showDimmer: boolean(),
+	showGobo: boolean(),
+	position: oneOf(['top', 'bottom', 'left', 'right', 'auto'])
+});
+
+const instrumentPartSchema: Schema<InstrumentPart> = object({
+	label: optional(string({ minLength: 1, maxLength: 4 })),
+	channel: optional(number({ integer: true, min: 1, max: MAX_CHANNEL })),
+	dimmer: optional(number({ integer: true, min: 1 })),
+	circuit: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	universe: optional(number({ integer: true, min: 1 })),
+	address: optional(number({ integer: true, min: 1, max: DMX_UNIVERSE_SIZE })),
+	color: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	wattage: optional(number({ min: 0 }))
+});
+
+const instrumentAccessorySchema: Schema<InstrumentAccessory> = object({
+	type: oneOf(['scroller', 'gobo-rotator', 'iris', 'top-hat', 'half-hat', 'barn-doors', 'other']),
+	name: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	quantity: optional(number({ integer: true, min: 1 })),
+	channel: optional(number({ integer: true, min: 1, max: MAX_CHANNEL })),
+	universe: optional(number({ integer: true, min: 1 })),
+	address: optional(number({ integer: true, min: 1, max: DMX_UNIVERSE_SIZE })),
+	wattage: optional(number({ min: 0 })),
+	weight: optional(number({ min: 0 }))
+});
+
+export const instrumentSchema: Schema<InstrumentObject> = object({
+	...baseFields,
+	objectType: oneOf(['instrument']),
+	hangingPositionId: nullable(string()),
+	positionOnBar: number({ min: 0, max: 1 }),
+	x: optional(coordinate),
+	y: optional(coordinate),
+	instrumentType: string({ minLength: 1 }),
+	profileId: string({ minLength: 1, maxLength: NAME_MAX_LENGTH }),
+	rotation: number(),
+	focusPoint: optional(object({ x: coordinate, y: coordinate })),
+	// Plot data (InstrumentProperties)
+	channel: optional(number({ integer: true, min: 1, max: MAX_CHANNEL })),
+	dimmer: optional(number({ integer: true, min: 1 })),
+	circuit: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	universe: optional(number({ integer: true, min: 1 })),
+	address: optional(number({ integer: true, min: 1, max: DMX_UNIVERSE_SIZE })),
+	dmxMode: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	color: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	gobo: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	accessory: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	accessories: optional(
+		array(instrumentAccessorySchema, { maxLength: MAX_INSTRUMENT_ACCESSORIES })
+	),
+	wattage: optional(number({ min: 0 })),
+	unitNumber: optional(number({ integer: true, min: 1 })),
+	unitSuffix: optional(string({ minLength: 1, maxLength: 4 })),
+	purpose: optional(string({ maxLength: NAME_MAX_LENGTH })),
+	focus: optional(text),
+	notes: optional(text),
+	labelDisplay: optional(labelConfigSchema),
+	parts: optional(array(instrumentPartSchema, { maxLength: MAX_INSTRUMENT_PARTS }))
+});
+
+export const setPieceSchema: Schema<SetPieceObject> = object({
+	...baseFields,
+	...styleFields,
+	objectType: oneOf(['set-piece']),
+	geometry: geometrySchema,
+	layer: optional(string())
+});
+
+export const annotationSchema: Schema<AnnotationObject> = object({
+	...baseFields,
+	objectType: oneOf(['annotation']),
+	annotationType: oneOf(['text', 'dimension', 'note']),
+	x: coordinate,
+	y: coordinate,
+	text,
+	fontSize: optional(number({ min: 0 })),
+	fontFamily: optional(string()),
+	color: optional(string()),
+	endX: optional(coordinate),
+	endY: optional(coordinate)
+});
+
+// ============================================================================
+// Project
+// ============================================================================
+
+const powerModuleSchema: Schema<PowerModule> = object({
+	kind: oneOf(['dimmer', 'relay', 'constant-power', 'outlet']),
+	first: number({ integer: true, min: 1 }),
+	count: number({ integer: true, min: 1 }),
+	amps: number({ min: 0 })
+});
+
+const powerSourceSchema: Schema<PowerSource> = object({
+	id: string({ minLength: 1 }),
+	name: string(),
+	type: oneOf(['dimmer-rack', 'pdu']),
+	phases: array(oneOf(['A', 'B', 'C']), { maxLength: 3 }),
+	phaseAmps: number({ min: 0 }),
+	modules: array(powerModuleSchema)
+});
+
+const powerSystemSchema: Schema<PowerSystem> = object({
+	voltage: number({ min: 0 }),
+	imbalanceThreshold: number({ min: 0, max: 100 }),
+	sources: array(powerSourceSchema)
+});
+
+export const venueSchema: Schema<Venue> = object({
+	name,
+	stageBounds: nullable(
+		object({
+			x: coordinate,
+			y: coordinate,
+			width: number({ min: 0 }),
+			height: number({ min: 0 })
+		})
+	),
+	prosceniumWidth: nullable(number({ min: 0 })),
+	prosceniumHeight: nullable(number({ min: 0 })),
+	plasterLine: coordinate,
+	centerLine: coordinate,
+	showStageBounds: boolean(),
+	power: optional(powerSystemSchema),
+	focusHeight: optional(number({ min: 0 }))
+});
+
+/** Drawing scale stored with each project */
+export const scaleSchema = object({
+	unit: oneOf(['feet', 'meters']),
+	pixelsPerUnit: number({ min: 0 })
+});
+
+/** The layers blob: one list per canvas object type */
+export const layersSchema = object({
+	schemaVersion: optional(number({ integer: true, min: 1 })),
+	shapes: optional(array(shapeSchema)),
+	hangingPositions: optional(array(hangingPositionSchema)),
+	instruments: optional(array(instrumentSchema)),
+	setPieces: optional(array(setPieceSchema)),
+	annotations: optional(array(annotationSchema))
+});
+
+/** Free-form project metadata (saved viewport, creation details) */
+export const metadataSchema = record();
+
+/** Schema for the objects in each layers collection */
+export const collectionSchemas: Record<MergeCollection, Schema<unknown>> = {
+	shapes: shapeSchema,
+	hangingPositions: hangingPositionSchema,
+	instruments: instrumentSchema,
+	setPieces: setPieceSchema,
+	annotations: annotationSchema
+};
+
+/** Any canvas object, chosen by its objectType */
+export const canvasObjectSchema: Schema<CanvasObject> = taggedUnion('objectType', {
+	shape: shapeSchema,
+	'hanging-position': hangingPositionSchema,
+	instrument: instrumentSchema,
+	'set-piece': setPieceSchema,
+	annotation: annotationSchema
+});
+
+/** An edit received from another session over the collaboration channel */
+export const projectChangeSchema: Schema<ProjectChange> = taggedUnion('type', {
+	put: object({ type: oneOf(['put']), object: canvasObjectSchema }),
+	delete: object({ type: oneOf(['delete']), id: baseFields.id }),
+	venue: object({ type: oneOf(['venue']), venue: venueSchema })
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Project fields accepted by the project API
+ */
+export interface ProjectFieldsInput {
+	name?: unknown;
+	venue?: unknown;
+	scale?: unknown;
+	layers?: unknown;
+	metadata?: unknown;
+}
+
+/**
+ * Validate the project fields present in a write.
+ * Fields that are undefined are not checked; venue may be null.
+ *
+ * @returns Every problem found (empty if the fields are valid)
+ */
+export function validateProjectFields(fields: ProjectFieldsInput): FieldError[] {
+	const errors: FieldError[] = [];
+	const check = <T>(schema: Schema<T>, value: unknown, path: string) => {
+		if (value === undefined) return;
+		const result = validate(schema, value, path);
+		if (!result.success) errors.push(...result.errors);
+	};
+
+	// Names are stored trimmed (e.g. "   " is empty)
+	const name = typeof fields.name === 'string' ? fields.name.trim() : fields.name;
+	check(string({ minLength: 1, maxLength: NAME_MAX_LENGTH }), name, 'name');
+	check(nullable(venueSchema), fields.venue, 'venue');
+	check(scaleSchema, fields.scale, 'scale');
+	check(layersSchema, fields.layers, 'layers');
+	check(metadataSchema, fields.metadata, 'metadata');
+
+	return errors;
+}
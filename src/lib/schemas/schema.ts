@@ -0,0 +1,297 @@
+/**
+ * Runtime Schemas
+ *
+ * A small set of composable validators for plain JSON. A schema checks an
+ * untrusted value and reports every problem as a field error with the path
+ * to the offending value (e.g. `instruments[3].channel`), so API routes can
+ * return all of them at once and clients can point at the exact field.
+ *
+ * Objects allow fields the schema does not list, so documents written by a
+ * newer build (or carrying fields a migration will add) still pass; only the
+ * listed fields are checked.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single validation problem
+ */
+export interface FieldError {
+	/** Path to the value, e.g. `layers.instruments[3].channel` ('' for the root) */
+	path: string;
+	/** What is wrong with it */
+	message: string;
+}
+
+/**
+ * A validator for values of type T
+ */
+export interface Schema<T> {
+	/** Type carried by the schema (never set at runtime) */
+	readonly _type?: T;
+	/** Append an error for every problem found in `value` */
+	check(value: unknown, path: string, errors: FieldError[]): void;
+}
+
+/**
+ * A schema for an object field that may be left out
+ */
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+	readonly optional: true;
+}
+
+/** Type validated by a schema */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+	[K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type InferShape<S extends Shape> = {
+	[K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+	[K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+/**
+ * Result of validating a value
+ */
+export type ValidationResult<T> =
+	{ success: true; value: T } | { success: false; errors: FieldError[] };
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/** Path to a field of an object */
+function fieldPath(path: string, key: string): string {
+	return path ? `${path}.${key}` : key;
+}
+
+/** Path to an item of an array */
+function itemPath(path: string, index: number): string {
+	return `${path}[${index}]`;
+}
+
+/** Check that a value is a plain object */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+/**
+ * A string, optionally limited in length
+ */
+export function string(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+	return {
+		check(value, path, errors) {
+			if (typeof value !== 'string') {
+				errors.push({ path, message: 'must be a string' });
+				return;
+			}
+			if (options.minLength !== undefined && value.trim().length < options.minLength) {
+				errors.push({
+					path,
+					message:
+						options.minLength === 1
+							? 'must not be empty'
+							: `must be at least ${options.minLength} characters`
+				});
+			}
+			if (options.maxLength !== undefined && value.length > options.maxLength) {
+				errors.push({ path, message: `must be at most ${options.maxLength} characters` });
+			}
+		}
+	};
+}
+
+/**
+ * A finite number, optionally an integer within a range
+ */
+export function number(
+	options: { integer?: boolean; min?: number; max?: number } = {}
+): Schema<number> {
+	return {
+		check(value, path, errors) {
+			if (typeof value !== 'number' || !Number.isFinite(value)) {
+				errors.push({ path, message: 'must be a number' });
+				return;
+			}
+			if (options.integer && !Number.isInteger(value)) {
+				errors.push({ path, message: 'must be a whole number' });
+			}
+			if (options.min !== undefined && value < options.min) {
+				errors.push({ path, message: `must be at least ${options.min}` });
+			}
+			if (options.max !== undefined && value > options.max) {
+				errors.push({ path, message: `must be at most ${options.max}` });
+			}
+		}
+	};
+}
+
+/**
+ * A boolean
+ */
+export function boolean(): Schema<boolean> {
+	return {
+		check(value, path, errors) {
+			if (typeof value !== 'boolean') {
+				errors.push({ path, message: 'must be true or false' });
+			}
+		}
+	};
+}
+
+/**
+ * One of a fixed set of strings
+ */
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+	return {
+		check(value, path, errors) {
+			if (!values.includes(value as T)) {
+				errors.push({ path, message: `must be one of ${values.join(', ')}` });
+			}
+		}
+	};
+}
+
+// ============================================================================
+// Modifiers
+// ============================================================================
+
+/**
+ * Allow null in addition to the schema's values
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+	return {
+		check(value, path, errors) {
+			if (value !== null) schema.check(value, path, errors);
+		}
+	};
+}
+
+/**
+ * Allow an object field to be missing
+ */
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+	return {
+		optional: true,
+		check(value, path, errors) {
+			if (value !== undefined) schema.check(value, path, errors);
+		}
+	};
+}
+
+// ============================================================================
+// Structures
+// ============================================================================
+
+/**
+ * An array whose items all match a schema
+ */
+export function array<T>(item: Schema<T>, options: { maxLength?: number } = {}): Schema<T[]> {
+	return {
+		check(value, path, errors) {
+			if (!Array.isArray(value)) {
+				errors.push({ path, message: 'must be a list' });
+				return;
+			}
+			if (options.maxLength !== undefined && value.length > options.maxLength) {
+				errors.push({ path, message: `must have at most ${options.maxLength} items` });
+				return;
+			}
+			value.forEach((entry, index) => item.check(entry, itemPath(path, index), errors));
+		}
+	};
+}
+
+/**
+ * An object with the given fields (other fields are allowed and not checked)
+ */
+export function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+	return {
+		check(value, path, errors) {
+			if (!isRecord(value)) {
+				errors.push({ path, message: 'must be an object' });
+				return;
+			}
+			for (const [key, schema] of Object.entries(shape)) {
+				schema.check(value[key], fieldPath(path, key), errors);
+			}
+		}
+	};
+}
+
+/**
+ * Any plain object (e.g. free-form metadata)
+ */
+export function record(): Schema<Record<string, unknown>> {
+	return {
+		check(value, path, errors) {
+			if (!isRecord(value)) {
+				errors.push({ path, message: 'must be an object' });
+			}
+		}
+	};
+}
+
+/**
+ * One of several object schemas, chosen by the value of a tag field
+ */
+export function taggedUnion<K extends string, M extends Record<string, Schema<unknown>>>(
+	tag: K,
+	variants: M
+): Schema<Infer<M[keyof M]>> {
+	const tags = Object.keys(variants);
+	return {
+		check(value, path, errors) {
+			if (!isRecord(value)) {
+				errors.push({ path, message: 'must be an object' });
+				return;
+			}
+			const key = value[tag];
+			// Own keys only, so a tag like "constructor" is not read off the prototype
+			const variant =
+				typeof key === 'string' && Object.hasOwn(variants, key) ? variants[key] : undefined;
+			if (!variant) {
+				errors.push({ path: fieldPath(path, tag), message: `must be one of ${tags.join(', ')}` });
+				return;
+			}
+			variant.check(value, path, errors);
+		}
+	};
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a value against a schema
+ *
+ * @param path - Prefix for error paths (e.g. 'layers')
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, path = ''): ValidationResult<T> {
+	const errors: FieldError[] = [];
+	schema.check(value, path, errors);
+	return errors.length === 0 ? { success: true, value: value as T } : { success: false, errors };
+}
+
+/**
+ * Summarize field errors in one line, e.g. for logs and toasts
+ */
+export function formatFieldErrors(errors: FieldError[], limit = 3): string {
+	const shown = errors
+		.slice(0, limit)
+		.map((error) => (error.path ? `${error.path} ${error.message}` : error.message));
+	const more = errors.length - shown.length;
+	return more > 0 ? `${shown.join('; ')} (and ${more} more)` : shown.join('; ');
+}
@@ -0,0 +1,76 @@
+/**
+ * Project Sharing
+ *
+ * Types and helpers for read-only share links, shared by the share API,
+ * the public project view and the editor's share dialog.
+ *
+ * Server-only helpers (tokens, password hashing, access cookies) live in
+ * ./server.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Whether a share link can currently be used */
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * A share link as returned by the share API
+ */
+export interface ShareLink {
+	id: string;
+	token: string;
+	label: string | null;
+	/** Whether the link asks for a password */
+	hasPassword: boolean;
+	/** ISO timestamp, or null if the link does not expire */
+	expiresAt: string | null;
+	/** ISO timestamp, or null if the link has not been revoked */
+	revokedAt: string | null;
+	createdAt: string;
+	status: ShareStatus;
+}
+
+/**
+ * Sharing settings for a project
+ */
+export interface ProjectSharing {
+	/** Master switch - no link works while this is off */
+	sharingEnabled: boolean;
+	shares: ShareLink[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Shortest password accepted for a share link */
+export const SHARE_PASSWORD_MIN_LENGTH = 4;
+
+/** Longest label accepted for a share link */
+export const SHARE_LABEL_MAX_LENGTH = 255;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get whether a share link can be used right now.
+ * Sharing also has to be enabled on the project for an active link to work.
+ */
+export function getShareStatus(
+	share: { expiresAt: Date | string | null; revokedAt: Date | string | null },
+	now: number = Date.now()
+): ShareStatus {
+	if (share.revokedAt) return 'revoked';
+	if (share.expiresAt && new Date(share.expiresAt).getTime() <= now) return 'expired';
+	return 'active';
+}
+
+/**
+ * Build the public URL for a share link
+ */
+export function getShareUrl(origin: string, projectId: string, token: string): string {
+	return `${origin}/public/${projectId}?token=${encodeURIComponent(token)}`;
+}
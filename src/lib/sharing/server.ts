@@ -0,0 +1,239 @@
+/**
+ * Server-side sharing utilities
+ *
+ * Share tokens, share link passwords (with a limit on wrong guesses) and the
+ * cookie that remembers a password was entered. Only import from server code.
+ */
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { ProjectShare } from '$lib/db/schema';
+import {
+	getShareStatus,
+	SHARE_LABEL_MAX_LENGTH,
+	SHARE_PASSWORD_MIN_LENGTH,
+	type ShareLink
+} from './index';
+
+const scryptAsync = promisify(scrypt) as (
+	password: string,
+	salt: Buffer,
+	keylen: number
+) => Promise<Buffer>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Random bytes in a share token (base64url encoded in links) */
+const TOKEN_BYTES = 24;
+
+/** scrypt parameters for share link passwords */
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_KEY_LENGTH = 64;
+
+/** Password attempts allowed per link within PASSWORD_ATTEMPT_WINDOW_MS (until one succeeds) */
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+/** Delay before answering a wrong password */
+const WRONG_PASSWORD_DELAY_MS = 1000;
+
+/** How long an unlocked password-protected link stays unlocked */
+const ACCESS_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 12;
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+/**
+ * Generate a new, unguessable share token
+ */
+export function generateShareToken(): string {
+	return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+// ============================================================================
+// Passwords
+// ============================================================================
+
+/**
+ * Hash a share link password as `scrypt$<salt>$<hash>`
+ */
+export async function hashSharePassword(password: string): Promise<string> {
+	const salt = randomBytes(PASSWORD_SALT_BYTES);
+	const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+	return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+/**
+ * Check a password against a hash from hashSharePassword
+ */
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+	const [scheme, saltText, hashText] = stored.split('$');
+	if (scheme !== 'scrypt' || !saltText || !hashText) return false;
+
+	const expected = Buffer.from(hashText, 'base64url');
+	const actual = await scryptAsync(password, Buffer.from(saltText, 'base64url'), expected.length);
+	return timingSafeEqual(actual, expected);
+}
+
+// ============================================================================
+// Password Attempts
+// ============================================================================
+
+/**
+ * Times of recent password attempts per share id. Kept in memory, so the limit
+ * is per server process and resets on restart; that is enough to make
+ * guessing a password through a leaked link impractical.
+ */
+const passwordAttempts = new Map<string, number[]>();
+
+/**
+ * Recent attempts on a share, dropping those outside the window
+ */
+function getRecentAttempts(shareId: string): number[] {
+	const since = Date.now() - PASSWORD_ATTEMPT_WINDOW_MS;
+	const recent = (passwordAttempts.get(shareId) ?? []).filter((time) => time > since);
+	if (recent.length > 0) {
+		passwordAttempts.set(shareId, recent);
+	} else {
+		passwordAttempts.delete(shareId);
+	}
+	return recent;
+}
+
+/**
+ * Seconds until a password may be tried again on a share (0 if it may be now)
+ */
+export function getSharePasswordRetryAfter(shareId: string): number {
+	const recent = getRecentAttempts(shareId);
+	if (recent.length < MAX_PASSWORD_ATTEMPTS) return 0;
+
+	const oldest = recent[recent.length - MAX_PASSWORD_ATTEMPTS];
+	return Math.ceil((oldest + PASSWORD_ATTEMPT_WINDOW_MS - Date.now()) / 1000);
+}
+
+/**
+ * Count a password attempt on a share before checking it, so concurrent
+ * guesses cannot all get in under the limit. Cleared again if it was right.
+ */
+export function recordSharePasswordAttempt(shareId: string): void {
+	passwordAttempts.set(shareId, [...getRecentAttempts(shareId), Date.now()]);
+}
+
+/**
+ * Forget the attempts on a share once it has been unlocked
+ */
+export function clearSharePasswordAttempts(shareId: string): void {
+	passwordAttempts.delete(shareId);
+}
+
+/**
+ * Wait before answering a wrong password
+ */
+export function delayWrongSharePassword(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, WRONG_PASSWORD_DELAY_MS));
+}
+
+// ============================================================================
+// Access Cookie
+// ============================================================================
+
+/**
+ * Name of the cookie that remembers a password-protected link was unlocked
+ */
+export function getShareAccessCookieName(shareId: string): string {
+	return `share_${shareId}`;
+}
+
+/**
+ * Value of the access cookie for a share. Derived from the token and password
+ * hash, so changing the password (or the link) locks it again.
+ */
+export function getShareAccessValue(share: Pick<ProjectShare, 'token' | 'passwordHash'>): string {
+	return createHash('sha256')
+		.update(`${share.token}:${share.passwordHash ?? ''}`)
+		.digest('hex');
+}
+
+/**
+ * Cookie lifetime for an unlocked share, capped at the link's expiry
+ */
+export function getShareAccessMaxAge(share: Pick<ProjectShare, 'expiresAt'>): number {
+	if (!share.expiresAt) return ACCESS_COOKIE_MAX_AGE_SECONDS;
+
+	const secondsLeft = Math.floor((share.expiresAt.getTime() - Date.now()) / 1000);
+	return Math.max(0, Math.min(ACCESS_COOKIE_MAX_AGE_SECONDS, secondsLeft));
+}
+
+// ============================================================================
+// API Helpers
+// ============================================================================
+
+/**
+ * Convert a share row to the shape returned by the API (never includes the hash)
+ */
+export function toShareLink(share: ProjectShare): ShareLink {
+	return {
+		id: share.id,
+		token: share.token,
+		label: share.label,
+		hasPassword: share.passwordHash !== null,
+		expiresAt: share.expiresAt?.toISOString() ?? null,
+		revokedAt: share.revokedAt?.toISOString() ?? null,
+		createdAt: share.createdAt.toISOString(),
+		status: getShareStatus(share)
+	};
+}
+
+/**
+ * Validated share link settings from a request body.
+ * Each field is undefined when not given; null clears it.
+ */
+export interface ShareSettingsInput {
+	label?: string | null;
+	password?: string | null;
+	expiresAt?: Date | null;
+}
+
+/**
+ * Validate share link settings from a request body.
+ * Returns the settings, or an error message for a 400 response.
+ */
+export function parseShareSettings(body: unknown): ShareSettingsInput | string {
+	if (typeof body !== 'object' || body === null) {
+		return 'Invalid request body';
+	}
+	const { label, password, expiresAt } = body as Record<string, unknown>;
+	const settings: ShareSettingsInput = {};
+
+	if (label !== undefined) {
+		if (label !== null && typeof label !== 'string') return 'label must be a string';
+		const trimmed = label?.trim() ?? '';
+		if (trimmed.length > SHARE_LABEL_MAX_LENGTH) {
+			return `label must be at most ${SHARE_LABEL_MAX_LENGTH} characters`;
+		}
+		settings.label = trimmed || null;
+	}
+
+	if (password !== undefined) {
+		if (password !== null && typeof password !== 'string') return 'password must be a string';
+		if (password !== null && password.length < SHARE_PASSWORD_MIN_LENGTH) {
+			return `password must be at least ${SHARE_PASSWORD_MIN_LENGTH} characters`;
+		}
+		settings.password = password;
+	}
+
+	if (expiresAt !== undefined) {
+		if (expiresAt === null) {
+			settings.expiresAt = null;
+		} else {
+			const date = typeof expiresAt === 'string' ? new Date(expiresAt) : null;
+			if (!date || Number.isNaN(date.getTime())) return 'expiresAt must be an ISO date';
+			if (date.getTime() <= Date.now()) return 'expiresAt must be in the future';
+			settings.expiresAt = date;
+		}
+	}
+
+	return settings;
+}
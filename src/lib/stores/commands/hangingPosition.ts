@@ -291,59 +291,15 @@ export function createBulkMoveHangingPositionsCommand(
 // ============================================================================
 
 /**
- * Restore a hanging position (used during undo)
+ * Restore a hanging position with its original ID (used during undo)
  */
 function restoreHangingPosition(position: HangingPositionObject): void {
-	// For now, we add a new position with the stored properties
-	// Ideally, the project store would support restoring with a specific ID
-	project.addHangingPosition(
-		position.positionType,
-		position.x1,
-		position.y1,
-		position.x2,
-		position.y2,
-		{
-			name: position.name,
-			locked: position.locked,
-			visible: position.visible,
-			trimHeight: position.trimHeight,
-			height: position.height,
-			labelOffsetX: position.labelOffsetX,
-			labelOffsetY: position.labelOffsetY
-		}
-	);
+	project.restoreObject({ ...position });
 }
 
 /**
  * Restore an instrument on a position (used during undo of position deletion)
  */
 function restoreInstrumentOnPosition(instrument: InstrumentObject): void {
-	if (instrument.hangingPositionId) {
-		project.addInstrument(
-			instrument.hangingPositionId,
-			instrument.positionOnBar,
-			instrument.instrumentType,
-			{
-				name: instrument.name,
-				locked: instrument.locked,
-				visible: instrument.visible,
-				channel: instrument.channel,
-				dimmer: instrument.dimmer,
-				color: instrument.color,
-				focus: instrument.focus,
-				rotation: instrument.rotation
-			}
-		);
-	} else {
-		project.addFreeInstrument(instrument.x ?? 0, instrument.y ?? 0, instrument.instrumentType, {
-			name: instrument.name,
-			locked: instrument.locked,
-			visible: instrument.visible,
-			channel: instrument.channel,
-			dimmer: instrument.dimmer,
-			color: instrument.color,
-			focus: instrument.focus,
-			rotation: instrument.rotation
-		});
-	}
+	project.restoreObject({ ...instrument });
 }
@@ -20,40 +20,7 @@ export function createAddInstrumentCommand(instrument: InstrumentObject): Undoab
 		description: `Add instrument "${instrument.name}"`,
 		affectedObjectIds: [instrument.id],
 		execute() {
-			// Re-add the instrument to the project
-			if (instrument.hangingPositionId) {
-				project.addInstrument(
-					instrument.hangingPositionId,
-					instrument.positionOnBar,
-					instrument.instrumentType,
-					{
-						name: instrument.name,
-						locked: instrument.locked,
-						visible: instrument.visible,
-						channel: instrument.channel,
-						dimmer: instrument.dimmer,
-						color: instrument.color,
-						focus: instrument.focus,
-						rotation: instrument.rotation
-					}
-				);
-				// Note: This creates a new ID. For proper redo, we need to restore with same ID
-				// Override by directly setting the instrument
-				restoreInstrument(instrument);
-			} else {
-				project.addFreeInstrument(instrument.x ?? 0, instrument.y ?? 0, instrument.instrumentType, {
-					name: instrument.name,
-					locked: instrument.locked,
-					visible: instrument.visible,
-					channel: instrument.channel,
-					dimmer: instrument.dimmer,
-					color: instrument.color,
-					focus: instrument.focus,
-					rotation: instrument.rotation
-				});
-				// Restore with same ID
-				restoreInstrument(instrument);
-			}
+			restoreInstrument(instrument);
 		},
 		undo() {
 			project.deleteInstrument(instrument.id);
@@ -254,51 +221,8 @@ export function createBulkMoveInstrumentsCommand(
 // ============================================================================
 
 /**
- * Restore an instrument with its original ID
- * This is a workaround since project.addInstrument generates a new ID
+ * Restore an instrument with its original ID and all of its properties
  */
 function restoreInstrument(instrument: InstrumentObject): void {
-	// Delete any existing instrument with this ID to avoid conflicts
-	project.deleteInstrument(instrument.id);
-
-	// We need to directly manipulate the store to restore with the same ID
-	// This requires access to internal methods or a special restore function
-	// For now, we'll use the add methods and accept that IDs may change
-	// A better implementation would add a restoreInstrument method to the project store
-
-	if (instrument.hangingPositionId) {
-		// Add back on position
-		const newInstrument = project.addInstrument(
-			instrument.hangingPositionId,
-			instrument.positionOnBar,
-			instrument.instrumentType,
-			{
-				name: instrument.name,
-				locked: instrument.locked,
-				visible: instrument.visible,
-				channel: instrument.channel,
-				dimmer: instrument.dimmer,
-				color: instrument.color,
-				focus: instrument.focus,
-				rotation: instrument.rotation
-			}
-		);
-		// Update the reference - ideally we'd restore with same ID
-		if (newInstrument) {
-			// The ID has changed, but the instrument is restored
-			// For proper undo/redo, the project store should support restoring with a specific ID
-		}
-	} else {
-		// Add back as free instrument
-		project.addFreeInstrument(instrument.x ?? 0, instrument.y ?? 0, instrument.instrumentType, {
-			name: instrument.name,
-			locked: instrument.locked,
-			visible: instrument.visible,
-			channel: instrument.channel,
-			dimmer: instrument.dimmer,
-			color: instrument.color,
-			focus: instrument.focus,
-			rotation: instrument.rotation
-		});
-	}
+	project.restoreObject({ ...instrument });
 }
@@ -14,6 +14,7 @@ import type {
 	CanvasObject
 } from '$lib/stores/project.svelte';
 import type { HistoryActionType } from '$lib/stores/history.svelte';
+import type { InstrumentProperties } from '$lib/types';
 
 // ============================================================================
 // Command Interface
@@ -122,16 +123,13 @@ export interface BulkCommandData {
 /**
  * Options for creating an instrument
  */
-export interface AddInstrumentOptions {
+export interface AddInstrumentOptions extends InstrumentProperties {
 	hangingPositionId: string | null;
 	positionOnBar: number;
 	instrumentType: string;
+	profileId?: string;
 	x?: number;
 	y?: number;
-	channel?: number;
-	dimmer?: number;
-	color?: string;
-	focus?: string;
 	rotation?: number;
 	name?: string;
 }
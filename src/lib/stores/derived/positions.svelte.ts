@@ -13,6 +13,8 @@ import {
 	type HangingPositionType,
 	type InstrumentObject
 } from '../project.svelte';
+import { fixtures } from '../fixtures.svelte';
+import { calculatePositionLoad, type PositionLoad } from '$lib/rigging';
 
 // ============================================================================
 // Types
@@ -33,6 +35,8 @@ export interface HangingPositionWithDetails extends HangingPositionObject {
 	instrumentCount: number;
 	/** Instruments on this position */
 	instruments: InstrumentObject[];
+	/** Estimated structural load (see $lib/rigging) */
+	load: PositionLoad;
 }
 
 /**
@@ -109,7 +113,8 @@ function createPositionsDerivedStore() {
 				centerX: (pos.x1 + pos.x2) / 2,
 				centerY: (pos.y1 + pos.y2) / 2,
 				instrumentCount: instruments.length,
-				instruments
+				instruments,
+				load: calculatePositionLoad(pos, instruments, fixtures.library)
 			};
 		});
 	});
@@ -181,6 +186,9 @@ function createPositionsDerivedStore() {
 		)
 	);
 
+	// Positions whose estimated load is over their limit
+	const overLimit = $derived(positionsWithDetails.filter((pos) => pos.load.overLimit));
+
 	// Total instrument count across all positions
 	const totalInstrumentCount = $derived(
 		project.instruments.filter((inst) => inst.hangingPositionId !== null).length
@@ -338,6 +346,9 @@ function createPositionsDerivedStore() {
 		get totalInstrumentCount() {
 			return totalInstrumentCount;
 		},
+		get overLimit() {
+			return overLimit;
+		},
 
 		// Query functions
 		getById,
@@ -0,0 +1,124 @@
+/**
+ * Fixtures Store
+ *
+ * The fixture library available in the editor: the built-in catalog plus the
+ * custom profiles saved to the user's account (and, on a shared project, the
+ * owner's). Components resolve instruments through `fixtures.library` so the
+ * properties panel, labels and reports agree on each instrument's profile.
+ */
+
+import {
+	createFixtureLibrary,
+	type FixtureLibrary,
+	type FixtureProfile,
+	type FixtureProfileInput
+} from '$lib/fixtures';
+import { formatFieldErrors } from '$lib/schemas';
+
+// ============================================================================
+// Fixtures Store Implementation
+// ============================================================================
+
+/**
+ * Creates the fixtures store
+ */
+function createFixturesStore() {
+	// ========================================================================
+	// Reactive State
+	// ========================================================================
+
+	/** Custom profiles loaded from the server */
+	let _customProfiles = $state<FixtureProfile[]>([]);
+
+	/** Whether custom profiles are being loaded */
+	let _isLoading = $state(false);
+
+	/** Library of built-in and custom profiles */
+	const _library = $derived(createFixtureLibrary(_customProfiles));
+
+	// ========================================================================
+	// Server Requests
+	// ========================================================================
+
+	/** Call the fixtures API, returning the parsed body or throwing its error */
+	async function request<T>(path: string, init?: RequestInit): Promise<T> {
+		const response = await fetch(`/api/fixtures${path}`, {
+			...init,
+			headers: { 'Content-Type': 'application/json' }
+		});
+		const result = await response.json();
+		if (!response.ok) {
+			const details = result.fieldErrors ? `: ${formatFieldErrors(result.fieldErrors)}` : '';
+			throw new Error(`${result.error || 'Request failed'}${details}`);
+		}
+		return result as T;
+	}
+
+	/**
+	 * Load custom profiles for the signed-in user.
+	 * With a project id, the profiles of everyone on the project are included too.
+	 */
+	async function load(projectId?: string): Promise<void> {
+		_isLoading = true;
+		try {
+			const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+			const result = await request<{ profiles: FixtureProfile[] }>(query);
+			_customProfiles = result.profiles;
+		} catch (error) {
+			// Built-in profiles still work without the custom ones
+			console.error('[Fixtures] Failed to load custom profiles:', error);
+		} finally {
+			_isLoading = false;
+		}
+	}
+
+	/**
+	 * Save a new custom profile to the user's account
+	 */
+	async function createProfile(input: FixtureProfileInput): Promise<FixtureProfile> {
+		const result = await request<{ profile: FixtureProfile }>('', {
+			method: 'POST',
+			body: JSON.stringify(input)
+		});
+		_customProfiles = [..._customProfiles, result.profile];
+		return result.profile;
+	}
+
+	/**
+	 * Delete one of the user's custom profiles.
+	 * Instruments using it fall back to the generic profile for their symbol.
+	 */
+	async function deleteProfile(id: string): Promise<void> {
+		await request(`/${id}`, { method: 'DELETE' });
+		_customProfiles = _customProfiles.filter((profile) => profile.id !== id);
+	}
+
+	// ========================================================================
+	// Public API
+	// ========================================================================
+
+	return {
+		/** Library of built-in and custom profiles */
+		get library(): FixtureLibrary {
+			return _library;
+		},
+		/** Custom profiles loaded from the server */
+		get customProfiles(): FixtureProfile[] {
+			return _customProfiles;
+		},
+		/** Whether custom profiles are being loaded */
+		get isLoading(): boolean {
+			return _isLoading;
+		},
+		load,
+		createProfile,
+		deleteProfile
+	};
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+/** Global fixtures store instance */
+export const fixtures = createFixturesStore();
@@ -3,16 +3,17 @@
  *
  * Manages grid settings for the canvas viewport.
  * Supports configurable spacing, units, and snap-to-grid functionality.
+ * Also holds canvas display toggles such as tinting instruments by their gel.
  */
 
+import { PIXELS_PER_FOOT, PIXELS_PER_METER } from '$lib/utils/scale';
+
 // Unit types for grid measurements
 export type GridUnit = 'feet' | 'meters';
 
 // Default configuration
 const DEFAULT_SPACING = 1; // 1 foot or 1 meter
 const DEFAULT_UNIT: GridUnit = 'feet';
-const PIXELS_PER_FOOT = 48; // Base scale: 48 pixels = 1 foot at zoom 1x
-const PIXELS_PER_METER = PIXELS_PER_FOOT * 3.28084; // ~157.5 pixels per meter
 
 // Grid spacing presets (in base units)
 export const GRID_SPACING_PRESETS = [
@@ -34,6 +35,9 @@ export interface GridState {
 	showGrid: boolean;
 	showCenterLine: boolean;
 	showPlasterLine: boolean;
+	showGelColors: boolean;
+	showGoboLabels: boolean;
+	showBeamPools: boolean;
 	snapToGrid: boolean;
 	pixelsPerUnit: number;
 	gridSpacingPixels: number;
@@ -49,6 +53,9 @@ function createGridStore() {
 	let showGrid = $state(true);
 	let showCenterLine = $state(true);
 	let showPlasterLine = $state(true);
+	let showGelColors = $state(false);
+	let showGoboLabels = $state(false);
+	let showBeamPools = $state(false);
 	let snapToGrid = $state(true);
 
 	// Derived: pixels per unit based on current unit type
@@ -109,6 +116,27 @@ function createGridStore() {
 		showPlasterLine = !showPlasterLine;
 	}
 
+	/**
+	 * Toggle tinting instrument symbols with their gel color
+	 */
+	function toggleGelColors() {
+		showGelColors = !showGelColors;
+	}
+
+	/**
+	 * Toggle drawing each instrument's gobo inside its symbol
+	 */
+	function toggleGoboLabels() {
+		showGoboLabels = !showGoboLabels;
+	}
+
+	/**
+	 * Toggle drawing the beam pool of each focused instrument
+	 */
+	function toggleBeamPools() {
+		showBeamPools = !showBeamPools;
+	}
+
 	/**
 	 * Snap a point to the grid if snapping is enabled
 	 * @param x - X coordinate in world space
@@ -181,6 +209,9 @@ function createGridStore() {
 			showGrid,
 			showCenterLine,
 			showPlasterLine,
+			showGelColors,
+			showGoboLabels,
+			showBeamPools,
 			snapToGrid,
 			pixelsPerUnit,
 			gridSpacingPixels
@@ -204,6 +235,15 @@ function createGridStore() {
 		get showPlasterLine() {
 			return showPlasterLine;
 		},
+		get showGelColors() {
+			return showGelColors;
+		},
+		get showGoboLabels() {
+			return showGoboLabels;
+		},
+		get showBeamPools() {
+			return showBeamPools;
+		},
 		get snapToGrid() {
 			return snapToGrid;
 		},
@@ -227,6 +267,9 @@ function createGridStore() {
 		toggleSnap,
 		toggleCenterLine,
 		togglePlasterLine,
+		toggleGelColors,
+		toggleGoboLabels,
+		toggleBeamPools,
 
 		// Snapping utilities
 		snapPoint,
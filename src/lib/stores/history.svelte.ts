@@ -7,11 +7,13 @@
  * Provides:
  * - Undo/redo stack management
  * - Command execution
+ * - Reporting the project changes each command makes (used to sync operations)
  * - recordAction helper for undoable operations
  * - Keyboard shortcut setup
  */
 
 import { SvelteMap } from 'svelte/reactivity';
+import { project, type ProjectChange } from './project.svelte';
 import type { UndoableCommand } from './commands/types';
 
 // ============================================================================
@@ -51,6 +53,11 @@ export interface HistoryEntry {
 	affectedObjectIds: string[];
 }
 
+/**
+ * Callback for the project changes a command made as it executed, undid or redid
+ */
+export type HistoryChangeListener = (changes: ProjectChange[]) => void;
+
 /**
  * Configuration options for the history store
  */
@@ -90,6 +97,10 @@ function createHistoryStore() {
 	// Track whether we're currently executing an undo/redo operation
 	let isExecutingHistory = $state(false);
 
+	// Listeners for the changes commands make, and how many commands are running
+	let changeListeners: HistoryChangeListener[] = [];
+	let recordingDepth = 0;
+
 	// Derived: whether undo is available
 	const canUndo = $derived(undoStack.length > 0);
 
@@ -122,6 +133,26 @@ function createHistoryStore() {
 		return `history-${idCounter}-${Date.now().toString(36)}`;
 	}
 
+	/**
+	 * Run a command step, reporting the project changes it makes to listeners
+	 */
+	function runRecorded(step: () => void): void {
+		const changes: ProjectChange[] = [];
+		const unsubscribe = project.onChange((change) => changes.push(change));
+		recordingDepth++;
+		try {
+			step();
+		} finally {
+			recordingDepth--;
+			unsubscribe();
+			if (changes.length > 0) {
+				for (const listener of changeListeners) {
+					listener(changes);
+				}
+			}
+		}
+	}
+
 	/**
 	 * Trim the undo stack to the maximum allowed entries
 	 */
@@ -249,6 +280,25 @@ function createHistoryStore() {
 		return isExecutingHistory;
 	}
 
+	/**
+	 * Subscribe to the project changes commands make as they execute, undo or redo
+	 *
+	 * @returns Unsubscribe function
+	 */
+	function onChanges(listener: HistoryChangeListener): () => void {
+		changeListeners = [...changeListeners, listener];
+		return () => {
+			changeListeners = changeListeners.filter((l) => l !== listener);
+		};
+	}
+
+	/**
+	 * Check if a command is running (project changes now are reported to onChanges)
+	 */
+	function isRecordingChanges(): boolean {
+		return recordingDepth > 0;
+	}
+
 	/**
 	 * Clear all history (undo and redo stacks)
 	 */
@@ -306,7 +356,7 @@ function createHistoryStore() {
 		if (isExecutingHistory) return;
 
 		// Execute the command
-		command.execute();
+		runRecorded(() => command.execute());
 
 		// Create history entry
 		const entryId = generateEntryId();
@@ -392,7 +442,7 @@ function createHistoryStore() {
 
 		try {
 			beginHistoryOperation();
-			command.undo();
+			runRecorded(() => command.undo());
 			commitUndo();
 			return true;
 		} catch (error) {
@@ -423,7 +473,7 @@ function createHistoryStore() {
 
 		try {
 			beginHistoryOperation();
-			command.execute();
+			runRecorded(() => command.execute());
 			commitRedo();
 			return true;
 		} catch (error) {
@@ -476,6 +526,10 @@ function createHistoryStore() {
 		endHistoryOperation,
 		isInHistoryOperation,
 
+		// Change reporting
+		onChanges,
+		isRecordingChanges,
+
 		// Management
 		clear,
 		clearRedo,
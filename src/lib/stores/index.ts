@@ -15,6 +15,7 @@ export {
 export { grid, GRID_SPACING_PRESETS, type GridUnit, type GridState } from './grid.svelte';
 export { selection, type SelectionType, type SelectableItem } from './selection.svelte';
 export { tool, TOOL_NAMES, type ToolType } from './tool.svelte';
+export { fixtures } from './fixtures.svelte';
 export {
 	project,
 	type HangingPositionType,
@@ -24,7 +25,9 @@ export {
 	type InstrumentObject,
 	type SetPieceObject,
 	type AnnotationObject,
-	type CanvasObject
+	type CanvasObject,
+	type ProjectChange,
+	type ProjectChangeListener
 } from './project.svelte';
 
 // History store (for undo/redo)
@@ -36,6 +39,7 @@ export {
 	type HistoryActionType,
 	type HistoryEntry,
 	type HistoryConfig,
+	type HistoryChangeListener,
 	type UndoableCommand
 } from './history.svelte';
 
@@ -11,9 +11,17 @@
  */
 
 import { SvelteMap } from 'svelte/reactivity';
-import type { Geometry, LineGeometry, RectGeometry, CircleGeometry } from '$lib/types';
-import { getGeometryBounds, translateGeometry } from '$lib/types';
+import type {
+	Geometry,
+	LineGeometry,
+	RectGeometry,
+	CircleGeometry,
+	InstrumentProperties
+} from '$lib/types';
+import { getGeometryBounds, translateGeometry, pickInstrumentProperties } from '$lib/types';
 import type { SelectionType } from './selection.svelte';
+import { planUnitNumbers, type UnitNumberingSettings } from '$lib/numbering';
+import type { PowerSystem } from '$lib/power';
 
 // ============================================================================
 // Types
@@ -40,6 +48,10 @@ export interface Venue {
 	centerLine: number;
 	/** Whether to show the stage bounds rectangle */
 	showStageBounds: boolean;
+	/** Dimmer racks and distros the rig is fed from (absent until one is set up) */
+	power?: PowerSystem;
+	/** Height in feet that beam pools are drawn at (see $lib/focus for the default) */
+	focusHeight?: number;
 }
 
 /** Default venue configuration */
@@ -102,10 +114,19 @@ export interface HangingPositionObject extends BaseCanvasObject {
 	/** Label position offset (additional adjustment) */
 	labelOffsetX?: number;
 	labelOffsetY?: number;
+	/** How instruments on the position are unit-numbered (see $lib/numbering) */
+	unitNumbering?: UnitNumberingSettings;
+	/** Weight of the pipe or truss in kg per meter (defaults by type, see $lib/rigging) */
+	selfWeight?: number;
+	/** Rated load in kg that the position's total weight is checked against (defaults by type) */
+	loadLimit?: number;
 }
 
-/** An instrument on a hanging position or free-floating on canvas */
-export interface InstrumentObject extends BaseCanvasObject {
+/**
+ * An instrument on a hanging position or free-floating on canvas.
+ * Plot data (channel, dimmer, circuit, color, purpose, ...) comes from InstrumentProperties.
+ */
+export interface InstrumentObject extends BaseCanvasObject, InstrumentProperties {
 	objectType: 'instrument';
 	/** ID of the hanging position this instrument is on (null if free-floating) */
 	hangingPositionId: string | null;
@@ -117,16 +138,12 @@ export interface InstrumentObject extends BaseCanvasObject {
 	y?: number;
 	/** Instrument type/symbol ID */
 	instrumentType: string;
-	/** Channel number */
-	channel?: number;
-	/** Dimmer number */
-	dimmer?: number;
-	/** Color/gel information */
-	color?: string;
-	/** Focus notes */
-	focus?: string;
+	/** Fixture profile ID (see $lib/fixtures) */
+	profileId: string;
 	/** Rotation in degrees */
 	rotation: number;
+	/** Where the instrument is focused on the plot, in world coordinates (unset until focused) */
+	focusPoint?: { x: number; y: number };
 }
 
 /** A set piece (scenic element) */
@@ -164,6 +181,18 @@ export type CanvasObject =
 	| SetPieceObject
 	| AnnotationObject;
 
+/**
+ * A change made through the project store's add/update/delete functions.
+ * Used to mirror edits into other sessions editing the same project.
+ */
+export type ProjectChange =
+	| { type: 'put'; object: CanvasObject }
+	| { type: 'delete'; id: string }
+	| { type: 'venue'; venue: Venue };
+
+/** Callback for project changes */
+export type ProjectChangeListener = (change: ProjectChange) => void;
+
 /** Map object type to selection type */
 const OBJECT_TYPE_TO_SELECTION_TYPE: Record<
 	CanvasObject['objectType'],
@@ -201,6 +230,12 @@ function createProjectStore() {
 	// Venue configuration
 	let venue = $state<Venue>({ ...DEFAULT_VENUE });
 
+	// Change listeners - not reactive state, just callbacks
+	let changeListeners: ProjectChangeListener[] = [];
+
+	// Whether changes are currently being applied without notifying listeners
+	let suppressChanges = false;
+
 	// ========================================================================
 	// ID Generation
 	// ========================================================================
@@ -213,6 +248,65 @@ function createProjectStore() {
 		return `${prefix}-${idCounter}-${Date.now().toString(36)}`;
 	}
 
+	// ========================================================================
+	// Change Notifications
+	// ========================================================================
+
+	/**
+	 * Notify listeners of a change
+	 */
+	function emitChange(change: ProjectChange): void {
+		if (suppressChanges) return;
+		for (const listener of changeListeners) {
+			listener(change);
+		}
+	}
+
+	/**
+	 * Subscribe to changes made through the store
+	 *
+	 * @returns Unsubscribe function
+	 */
+	function onChange(listener: ProjectChangeListener): () => void {
+		changeListeners = [...changeListeners, listener];
+		return () => {
+			changeListeners = changeListeners.filter((l) => l !== listener);
+		};
+	}
+
+	/**
+	 * Run updates without notifying change listeners
+	 * (e.g. loading a saved project or applying a collaborator's edit)
+	 */
+	function withoutChangeEvents(fn: () => void): void {
+		const previous = suppressChanges;
+		suppressChanges = true;
+		try {
+			fn();
+		} finally {
+			suppressChanges = previous;
+		}
+	}
+
+	/**
+	 * Apply a change received from another session
+	 */
+	function applyRemoteChange(change: ProjectChange): void {
+		withoutChangeEvents(() => {
+			switch (change.type) {
+				case 'put':
+					restoreObject(change.object);
+					break;
+				case 'delete':
+					deleteObject(change.id);
+					break;
+				case 'venue':
+					venue = { ...change.venue };
+					break;
+			}
+		});
+	}
+
 	// ========================================================================
 	// Shape Operations
 	// ========================================================================
@@ -236,6 +330,7 @@ function createProjectStore() {
 			strokeWidth: options.strokeWidth ?? 2
 		};
 		shapes.set(shape.id, shape);
+		emitChange({ type: 'put', object: shape });
 		console.log('[ProjectStore] addShape called', {
 			shapeId: shape.id,
 			projectId,
@@ -292,7 +387,9 @@ function createProjectStore() {
 	function updateShape(id: string, updates: Partial<Omit<ShapeObject, 'id' | 'objectType'>>): void {
 		const shape = shapes.get(id);
 		if (shape) {
-			shapes.set(id, { ...shape, ...updates });
+			const updated = { ...shape, ...updates };
+			shapes.set(id, updated);
+			emitChange({ type: 'put', object: updated });
 		}
 	}
 
@@ -300,7 +397,9 @@ function createProjectStore() {
 	 * Delete a shape
 	 */
 	function deleteShape(id: string): void {
-		shapes.delete(id);
+		if (shapes.delete(id)) {
+			emitChange({ type: 'delete', id });
+		}
 	}
 
 	// ========================================================================
@@ -337,6 +436,7 @@ function createProjectStore() {
 			labelOffsetY: options.labelOffsetY ?? -20
 		};
 		hangingPositions.set(position.id, position);
+		emitChange({ type: 'put', object: position });
 		return position;
 	}
 
@@ -396,7 +496,10 @@ function createProjectStore() {
 	): void {
 		const position = hangingPositions.get(id);
 		if (position) {
-			hangingPositions.set(id, { ...position, ...updates });
+			const updated = { ...position, ...updates };
+			hangingPositions.set(id, updated);
+			emitChange({ type: 'put', object: updated });
+			autoRenumber(id);
 		}
 	}
 
@@ -407,10 +510,14 @@ function createProjectStore() {
 		// Also delete any instruments on this position
 		for (const [instrumentId, instrument] of instruments) {
 			if (instrument.hangingPositionId === id) {
-				instruments.delete(instrumentId);
+				if (instruments.delete(instrumentId)) {
+					emitChange({ type: 'delete', id: instrumentId });
+				}
 			}
 		}
-		hangingPositions.delete(id);
+		if (hangingPositions.delete(id)) {
+			emitChange({ type: 'delete', id });
+		}
 	}
 
 	/**
@@ -424,19 +531,13 @@ function createProjectStore() {
 	): void {
 		const position = hangingPositions.get(id);
 		if (position) {
-			if (end === 'start') {
-				hangingPositions.set(id, {
-					...position,
-					x1: position.x1 + deltaX,
-					y1: position.y1 + deltaY
-				});
-			} else {
-				hangingPositions.set(id, {
-					...position,
-					x2: position.x2 + deltaX,
-					y2: position.y2 + deltaY
-				});
-			}
+			const resized =
+				end === 'start'
+					? { ...position, x1: position.x1 + deltaX, y1: position.y1 + deltaY }
+					: { ...position, x2: position.x2 + deltaX, y2: position.y2 + deltaY };
+			hangingPositions.set(id, resized);
+			emitChange({ type: 'put', object: resized });
+			autoRenumber(id);
 		}
 	}
 
@@ -445,7 +546,8 @@ function createProjectStore() {
 	// ========================================================================
 
 	/**
-	 * Add a new instrument on a hanging position
+	 * Add a new instrument on a hanging position.
+	 * Uses the generic profile for the symbol unless options.profileId is given.
 	 */
 	function addInstrument(
 		hangingPositionId: string,
@@ -473,18 +575,19 @@ function createProjectStore() {
 			hangingPositionId,
 			positionOnBar,
 			instrumentType,
-			channel: options.channel,
-			dimmer: options.dimmer,
-			color: options.color,
-			focus: options.focus,
+			profileId: options.profileId ?? instrumentType,
+			...pickInstrumentProperties(options),
 			rotation: options.rotation ?? 0
 		};
 		instruments.set(instrument.id, instrument);
+		emitChange({ type: 'put', object: instrument });
+		autoRenumber(hangingPositionId);
 		return instrument;
 	}
 
 	/**
-	 * Add a free-floating instrument at a specific position on the canvas
+	 * Add a free-floating instrument at a specific position on the canvas.
+	 * Uses the generic profile for the symbol unless options.profileId is given.
 	 */
 	function addFreeInstrument(
 		x: number,
@@ -508,13 +611,12 @@ function createProjectStore() {
 			x,
 			y,
 			instrumentType,
-			channel: options.channel,
-			dimmer: options.dimmer,
-			color: options.color,
-			focus: options.focus,
+			profileId: options.profileId ?? instrumentType,
+			...pickInstrumentProperties(options),
 			rotation: options.rotation ?? 0
 		};
 		instruments.set(instrument.id, instrument);
+		emitChange({ type: 'put', object: instrument });
 		return instrument;
 	}
 
@@ -527,7 +629,16 @@ function createProjectStore() {
 	): void {
 		const instrument = instruments.get(id);
 		if (instrument) {
-			instruments.set(id, { ...instrument, ...updates });
+			const updated = { ...instrument, ...updates };
+			instruments.set(id, updated);
+			emitChange({ type: 'put', object: updated });
+
+			if ('positionOnBar' in updates || 'hangingPositionId' in updates || 'profileId' in updates) {
+				autoRenumber(updated.hangingPositionId);
+				if (instrument.hangingPositionId !== updated.hangingPositionId) {
+					autoRenumber(instrument.hangingPositionId);
+				}
+			}
 		}
 	}
 
@@ -535,7 +646,45 @@ function createProjectStore() {
 	 * Delete an instrument
 	 */
 	function deleteInstrument(id: string): void {
-		instruments.delete(id);
+		const instrument = instruments.get(id);
+		if (instruments.delete(id)) {
+			emitChange({ type: 'delete', id });
+			autoRenumber(instrument?.hangingPositionId);
+		}
+	}
+
+	// ========================================================================
+	// Unit Numbering
+	// ========================================================================
+
+	/**
+	 * Renumber the instruments on a position whose numbering is automatic.
+	 * Skipped while loading or applying a collaborator's edit, which already
+	 * carries the numbers.
+	 */
+	function autoRenumber(positionId: string | null | undefined): void {
+		if (!positionId || suppressChanges) return;
+		const position = hangingPositions.get(positionId);
+		if (!position?.unitNumbering?.auto) return;
+
+		const onPosition = [...instruments.values()].filter(
+			(instrument) => instrument.hangingPositionId === positionId
+		);
+		for (const assignment of planUnitNumbers(position, onPosition)) {
+			const instrument = instruments.get(assignment.instrumentId)!;
+			if (
+				instrument.unitNumber !== assignment.unitNumber ||
+				instrument.unitSuffix !== assignment.unitSuffix
+			) {
+				const updated = {
+					...instrument,
+					unitNumber: assignment.unitNumber,
+					unitSuffix: assignment.unitSuffix
+				};
+				instruments.set(updated.id, updated);
+				emitChange({ type: 'put', object: updated });
+			}
+		}
 	}
 
 	// ========================================================================
@@ -562,6 +711,7 @@ function createProjectStore() {
 			layer: options.layer
 		};
 		setPieces.set(setPiece.id, setPiece);
+		emitChange({ type: 'put', object: setPiece });
 		console.log('[ProjectStore] addSetPiece called', {
 			setPieceId: setPiece.id,
 			projectId,
@@ -621,7 +771,9 @@ function createProjectStore() {
 	): void {
 		const setPiece = setPieces.get(id);
 		if (setPiece) {
-			setPieces.set(id, { ...setPiece, ...updates });
+			const updated = { ...setPiece, ...updates };
+			setPieces.set(id, updated);
+			emitChange({ type: 'put', object: updated });
 		}
 	}
 
@@ -629,7 +781,9 @@ function createProjectStore() {
 	 * Delete a set piece
 	 */
 	function deleteSetPiece(id: string): void {
-		setPieces.delete(id);
+		if (setPieces.delete(id)) {
+			emitChange({ type: 'delete', id });
+		}
 	}
 
 	// ========================================================================
@@ -665,6 +819,7 @@ function createProjectStore() {
 			endY: options.endY
 		};
 		annotations.set(annotation.id, annotation);
+		emitChange({ type: 'put', object: annotation });
 		return annotation;
 	}
 
@@ -677,7 +832,9 @@ function createProjectStore() {
 	): void {
 		const annotation = annotations.get(id);
 		if (annotation) {
-			annotations.set(id, { ...annotation, ...updates });
+			const updated = { ...annotation, ...updates };
+			annotations.set(id, updated);
+			emitChange({ type: 'put', object: updated });
 		}
 	}
 
@@ -685,7 +842,9 @@ function createProjectStore() {
 	 * Delete an annotation
 	 */
 	function deleteAnnotation(id: string): void {
-		annotations.delete(id);
+		if (annotations.delete(id)) {
+			emitChange({ type: 'delete', id });
+		}
 	}
 
 	// ========================================================================
@@ -706,6 +865,36 @@ function createProjectStore() {
 		);
 	}
 
+	/**
+	 * Insert an object exactly as given, keeping its ID.
+	 * Used when loading saved projects and undoing deletes so references
+	 * between objects (e.g. instrument -> hanging position) stay intact.
+	 */
+	function restoreObject(obj: CanvasObject): void {
+		switch (obj.objectType) {
+			case 'shape':
+				shapes.set(obj.id, obj);
+				break;
+			case 'hanging-position':
+				hangingPositions.set(obj.id, obj);
+				break;
+			case 'instrument':
+				instruments.set(obj.id, obj);
+				break;
+			case 'set-piece':
+				setPieces.set(obj.id, obj);
+				break;
+			case 'annotation':
+				annotations.set(obj.id, obj);
+				break;
+		}
+		emitChange({ type: 'put', object: obj });
+
+		if (obj.objectType === 'instrument') {
+			autoRenumber(obj.hangingPositionId);
+		}
+	}
+
 	/**
 	 * Delete any object by ID
 	 */
@@ -840,6 +1029,7 @@ function createProjectStore() {
 	 */
 	function updateVenue(updates: Partial<Venue>): void {
 		venue = { ...venue, ...updates };
+		emitChange({ type: 'venue', venue: $state.snapshot(venue) });
 	}
 
 	/**
@@ -849,6 +1039,7 @@ function createProjectStore() {
 		bounds: { x: number; y: number; width: number; height: number } | null
 	): void {
 		venue = { ...venue, stageBounds: bounds };
+		emitChange({ type: 'venue', venue: $state.snapshot(venue) });
 	}
 
 	/**
@@ -856,6 +1047,7 @@ function createProjectStore() {
 	 */
 	function setProscenium(width: number | null, height: number | null): void {
 		venue = { ...venue, prosceniumWidth: width, prosceniumHeight: height };
+		emitChange({ type: 'venue', venue: $state.snapshot(venue) });
 	}
 
 	/**
@@ -863,6 +1055,7 @@ function createProjectStore() {
 	 */
 	function toggleStageBounds(): void {
 		venue = { ...venue, showStageBounds: !venue.showStageBounds };
+		emitChange({ type: 'venue', venue: $state.snapshot(venue) });
 	}
 
 	// ========================================================================
@@ -979,6 +1172,7 @@ function createProjectStore() {
 
 		// Generic operations
 		getObject,
+		restoreObject,
 		deleteObject,
 		deleteObjects,
 		getObjectSelectionType,
@@ -990,6 +1184,11 @@ function createProjectStore() {
 		clearProject,
 		setProjectInfo,
 
+		// Change notifications
+		onChange,
+		withoutChangeEvents,
+		applyRemoteChange,
+
 		// ID generation (for external use if needed)
 		generateId
 	};
@@ -20,6 +20,9 @@ export type ToolType =
 // Default tool
 const DEFAULT_TOOL: ToolType = 'select';
 
+// Fixture profile placed by the add-instrument tool until another is chosen
+export const DEFAULT_INSTRUMENT_PROFILE_ID = 'ers-26';
+
 /**
  * Cursor styles for each tool
  */
@@ -58,6 +61,9 @@ function createToolStore() {
 	// Track whether we're in a temporary tool state (e.g., spacebar pan)
 	let previousTool = $state<ToolType | null>(null);
 
+	// Fixture profile the add-instrument tool places
+	let instrumentProfileId = $state(DEFAULT_INSTRUMENT_PROFILE_ID);
+
 	// Derived cursor style based on active tool
 	const cursor = $derived(TOOL_CURSORS[activeTool]);
 
@@ -121,6 +127,14 @@ function createToolStore() {
 		}
 	}
 
+	/**
+	 * Choose the fixture profile the add-instrument tool places
+	 * @param profileId - Id of a fixture profile (see $lib/fixtures)
+	 */
+	function setInstrumentProfile(profileId: string) {
+		instrumentProfileId = profileId;
+	}
+
 	/**
 	 * Check if we're in a temporary tool state
 	 */
@@ -151,12 +165,16 @@ function createToolStore() {
 		get isPanTool() {
 			return isPanTool;
 		},
+		get instrumentProfileId() {
+			return instrumentProfileId;
+		},
 
 		// Actions
 		setTool,
 		resetToSelect,
 		setTemporaryTool,
 		restorePreviousTool,
+		setInstrumentProfile,
 		isTemporaryState,
 
 		// Constants for external use
@@ -0,0 +1,91 @@
+/**
+ * Accessory Adornments
+ *
+ * Small shapes drawn on the front of an instrument symbol for each fitted
+ * accessory. Each path starts at the front of the fixture (y = 0) and extends
+ * in the beam direction (-y), so adornments stack outward from the lens.
+ */
+
+import type { AccessoryType } from '$lib/types/instrument';
+import type { SymbolDefinition } from './types';
+
+/**
+ * Shape drawn for one kind of accessory
+ */
+export interface AdornmentDefinition {
+	/** SVG path d attribute, with the fixture's front edge at y = 0 */
+	path: string;
+	/** Extra detail lines drawn over the shape */
+	detailPaths?: string[];
+	/** How far the shape extends in front of the fixture */
+	depth: number;
+	/** Whether the shape is filled (outlines such as barn door leaves are not) */
+	filled: boolean;
+}
+
+/** Gap left between stacked adornments */
+export const ADORNMENT_GAP = 1;
+
+export const ADORNMENTS: Record<AccessoryType, AdornmentDefinition> = {
+	// Scroller: a box across the front with the gel string drawn diagonally
+	scroller: {
+		path: 'M -10 0 L -10 -6 L 10 -6 L 10 0 Z',
+		detailPaths: ['M -10 0 L 10 -6'],
+		depth: 6,
+		filled: true
+	},
+	// Gobo rotator: a thin box with a rotation arc
+	'gobo-rotator': {
+		path: 'M -8 0 L -8 -5 L 8 -5 L 8 0 Z',
+		detailPaths: ['M -2 -1 A 2 2 0 1 1 2 -1'],
+		depth: 5,
+		filled: true
+	},
+	// Iris: a slot with a small aperture
+	iris: {
+		path: 'M -8 0 L -8 -3 L 8 -3 L 8 0 Z',
+		detailPaths: ['M -1.5 -1.5 A 1.5 1.5 0 1 0 1.5 -1.5 A 1.5 1.5 0 1 0 -1.5 -1.5'],
+		depth: 3,
+		filled: true
+	},
+	// Top hat: a tube extending the barrel
+	'top-hat': {
+		path: 'M -6 0 L -6 -10 L 6 -10 L 6 0 Z',
+		depth: 10,
+		filled: true
+	},
+	// Half hat: a tube cut away on one side
+	'half-hat': {
+		path: 'M -6 0 L -6 -10 L 6 -4 L 6 0 Z',
+		depth: 10,
+		filled: true
+	},
+	// Barn doors: leaves flaring out from the front
+	'barn-doors': {
+		path: 'M -12 0 L 12 0 M -12 0 L -16 -8 M 12 0 L 16 -8',
+		depth: 8,
+		filled: false
+	},
+	// Anything else: a small marker box
+	other: {
+		path: 'M -5 0 L -5 -4 L 5 -4 L 5 0 Z',
+		depth: 4,
+		filled: true
+	}
+};
+
+/**
+ * Offsets along the symbol's axis at which to draw each accessory's adornment,
+ * stacked outward from the front of the fixture
+ */
+export function getAdornmentOffsets(
+	symbol: SymbolDefinition,
+	types: readonly AccessoryType[]
+): number[] {
+	let offset = symbol.frontIndicator?.y ?? -symbol.height / 2;
+	return types.map((type) => {
+		const start = offset;
+		offset -= ADORNMENTS[type].depth + ADORNMENT_GAP;
+		return start;
+	});
+}
@@ -7,3 +7,4 @@
 export type { SymbolDefinition, SymbolRegistry, SymbolRenderContext } from './types';
 export { getSymbolBounds, getFrontIndicatorPosition } from './types';
 export { SYMBOLS, getSymbol, getAvailableInstrumentTypes } from './paths';
+export { ADORNMENTS, getAdornmentOffsets, type AdornmentDefinition } from './adornments';
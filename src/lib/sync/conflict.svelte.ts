@@ -7,12 +7,19 @@
  * Resolution Strategies:
  * - accept-server (default): Server version wins, local changes discarded
  * - keep-local: Local version wins, will overwrite server on next sync
- * - merge: Attempt to merge changes (basic implementation)
+ * - merge: Three-way merge against the last-synced base, field by field
+ *
+ * Merging works object by object (matched by ID) and then field by field.
+ * A field only conflicts when both sides changed it to different values since
+ * the base, so one user's channel edit and another's color edit on the same
+ * instrument merge cleanly. True conflicts are listed for the user, who picks
+ * a side for each one.
  */
 
 // Using standard Map - these are plain data objects, not reactive state
 
-import type { Project } from './indexeddb';
+import type { Project, ProjectContent } from './indexeddb';
+import { valuesEqual } from './operations';
 import type {
 	ShapeObject,
 	HangingPositionObject,
@@ -39,6 +46,8 @@ export interface ConflictInfo {
 	localState: Project;
 	/** Server project state */
 	serverState: Project;
+	/** Content both sides started from (null if never synced) */
+	baseState: ProjectContent | null;
 	/** When the conflict was detected */
 	detectedAt: number;
 }
@@ -48,6 +57,55 @@ export interface ConflictInfo {
  */
 export type ConflictResolution = 'keep-local' | 'accept-server' | 'merge';
 
+/**
+ * Collections of canvas objects that are merged object by object
+ */
+export type MergeCollection =
+	'shapes' | 'hangingPositions' | 'instruments' | 'setPieces' | 'annotations';
+
+/**
+ * Which side of a conflict to keep
+ */
+export type ConflictSide = 'local' | 'server';
+
+/**
+ * User choices for field conflicts, keyed by FieldConflict.key.
+ * Conflicts without a choice keep the server value.
+ */
+export type ConflictChoices = Record<string, ConflictSide>;
+
+/**
+ * A single field (or object) that both sides changed differently
+ */
+export interface FieldConflict {
+	/** Stable key for recording the user's choice */
+	key: string;
+	/** Collection the object belongs to ('project' for name and venue) */
+	collection: MergeCollection | 'project';
+	/** ID of the conflicting object */
+	objectId: string;
+	/** Display label for the object */
+	label: string;
+	/** Conflicting field, or null when one side deleted an object the other edited */
+	field: string | null;
+	/** Value in the last-synced base (undefined if unknown) */
+	base: unknown;
+	/** Local value (null if deleted locally) */
+	local: unknown;
+	/** Server value (null if deleted on the server) */
+	server: unknown;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+	/** Merged project, based on the server project */
+	project: Project;
+	/** Conflicts that were resolved using the given choices (server by default) */
+	conflicts: FieldConflict[];
+}
+
 /**
  * Difference between two project states
  */
@@ -111,6 +169,8 @@ export interface ConflictManager {
 	readonly hasConflict: boolean;
 	/** Current conflict information, if any */
 	readonly conflictInfo: ConflictInfo | null;
+	/** Per-field conflicts for the current conflict */
+	readonly fieldConflicts: FieldConflict[];
 
 	/** Detect if there's a conflict between local and server states */
 	detectConflict(
@@ -124,13 +184,68 @@ export interface ConflictManager {
 	setConflict(info: ConflictInfo): void;
 
 	/** Resolve the current conflict with the specified strategy */
-	resolve(resolution: ConflictResolution): Promise<Project>;
+	resolve(resolution: ConflictResolution, choices?: ConflictChoices): Promise<Project>;
 
 	/** Clear the current conflict state */
 	clearConflict(): void;
 
 	/** Get a diff between local and server states */
 	getDiff(local: Project, server: Project): ProjectDiff;
+
+	/** Three-way merge local and server states against the last-synced base */
+	merge(
+		base: ProjectContent | null,
+		local: Project,
+		server: Project,
+		choices?: ConflictChoices
+	): MergeResult;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Fallback labels for unnamed objects */
+const COLLECTION_LABELS: Record<MergeCollection | 'project', string> = {
+	project: 'Project',
+	shapes: 'Shape',
+	hangingPositions: 'Hanging position',
+	instruments: 'Instrument',
+	setPieces: 'Set piece',
+	annotations: 'Annotation'
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Extract the mergeable content of a project
+ */
+export function getProjectContent(project: ProjectContent): ProjectContent {
+	return {
+		name: project.name,
+		venue: project.venue,
+		shapes: project.shapes,
+		hangingPositions: project.hangingPositions,
+		instruments: project.instruments,
+		setPieces: project.setPieces,
+		annotations: project.annotations
+	};
+}
+
+/**
+ * Build the choice key for a conflict
+ */
+function conflictKey(collection: string, objectId: string, field: string | null): string {
+	return `${collection}:${objectId}:${field ?? '*'}`;
+}
+
+/**
+ * Check whether two project states have the same content
+ */
+export function contentEquals(a: ProjectContent, b: ProjectContent): boolean {
+	return valuesEqual(getProjectContent(a), getProjectContent(b));
 }
 
 // ============================================================================
@@ -151,6 +266,12 @@ class ConflictManagerImpl implements ConflictManager {
 	/** Current conflict information */
 	private _conflictInfo = $state<ConflictInfo | null>(null);
 
+	/** Per-field conflicts, recomputed when the conflict changes */
+	private _fieldConflicts = $derived.by(() => {
+		const info = this._conflictInfo;
+		return info ? this.merge(info.baseState, info.localState, info.serverState).conflicts : [];
+	});
+
 	// ========================================================================
 	// Getters
 	// ========================================================================
@@ -163,6 +284,10 @@ class ConflictManagerImpl implements ConflictManager {
 		return this._conflictInfo;
 	}
 
+	get fieldConflicts(): FieldConflict[] {
+		return this._fieldConflicts;
+	}
+
 	// ========================================================================
 	// Conflict Detection
 	// ========================================================================
@@ -192,11 +317,7 @@ class ConflictManagerImpl implements ConflictManager {
 
 		// Server is ahead - check if local has meaningful changes
 		// by comparing the actual content, not just versions
-		const localContent = this.getContentHash(localState);
-		const serverContent = this.getContentHash(serverState);
-
-		// If content is the same, no conflict (versions may differ due to metadata)
-		if (localContent === serverContent) {
+		if (contentEquals(localState, serverState)) {
 			return false;
 		}
 
@@ -227,13 +348,15 @@ class ConflictManagerImpl implements ConflictManager {
 
 	/**
 	 * Resolve the current conflict with the specified strategy
+	 *
+	 * @param choices - For 'merge', which side to keep for each field conflict
 	 */
-	async resolve(resolution: ConflictResolution): Promise<Project> {
+	async resolve(resolution: ConflictResolution, choices: ConflictChoices = {}): Promise<Project> {
 		if (!this._conflictInfo) {
 			throw new Error('No conflict to resolve');
 		}
 
-		const { localState, serverState, serverVersion } = this._conflictInfo;
+		const { localState, serverState, baseState, serverVersion } = this._conflictInfo;
 		let resolvedProject: Project;
 
 		switch (resolution) {
@@ -251,8 +374,8 @@ class ConflictManagerImpl implements ConflictManager {
 				break;
 
 			case 'merge':
-				// Attempt to merge changes
-				resolvedProject = this.mergeProjects(localState, serverState);
+				// Merge non-conflicting changes, then apply the user's choices
+				resolvedProject = this.merge(baseState, localState, serverState, choices).project;
 				resolvedProject.version = serverVersion + 1;
 				break;
 
@@ -323,29 +446,6 @@ class ConflictManagerImpl implements ConflictManager {
 	// Private Helpers
 	// ========================================================================
 
-	/**
-	 * Generate a simple content hash for comparison
-	 * This is used to detect if actual content has changed vs just metadata
-	 */
-	private getContentHash(project: Project): string {
-		// Create a simplified representation of the project content
-		const content = {
-			name: project.name,
-			shapesCount: project.shapes.length,
-			hangingPositionsCount: project.hangingPositions.length,
-			instrumentsCount: project.instruments.length,
-			setPiecesCount: project.setPieces.length,
-			annotationsCount: project.annotations.length,
-			// Include IDs to detect additions/removals
-			shapeIds: project.shapes.map((s) => s.id).sort(),
-			hpIds: project.hangingPositions.map((hp) => hp.id).sort(),
-			instIds: project.instruments.map((i) => i.id).sort(),
-			spIds: project.setPieces.map((sp) => sp.id).sort(),
-			annIds: project.annotations.map((a) => a.id).sort()
-		};
-		return JSON.stringify(content);
-	}
-
 	/**
 	 * Diff two arrays of objects by ID
 	 */
@@ -382,7 +482,7 @@ class ConflictManagerImpl implements ConflictManager {
 		for (const [id, localItem] of localMap) {
 			const serverItem = serverMap.get(id);
 			if (serverItem) {
-				if (JSON.stringify(localItem) !== JSON.stringify(serverItem)) {
+				if (!valuesEqual(localItem, serverItem)) {
 					modified.push({ id, local: localItem, server: serverItem });
 				}
 			}
@@ -391,58 +491,197 @@ class ConflictManagerImpl implements ConflictManager {
 		return { added, removed, modified };
 	}
 
+	// ========================================================================
+	// Three-Way Merge
+	// ========================================================================
+
 	/**
-	 * Merge two projects using a simple strategy:
-	 * - For modified items, use the one with more recent changes (or server by default)
-	 * - Keep all additions from both sides
-	 * - Only remove if both agree on removal
+	 * Three-way merge local and server states against the last-synced base
+	 *
+	 * Objects are matched by ID:
+	 * - Added on one side: kept
+	 * - Deleted on one side and untouched on the other: deleted
+	 * - Deleted on one side and edited on the other: object conflict
+	 * - Present on both sides: merged field by field
+	 *
+	 * Without a base (never synced) any field that differs is a conflict and
+	 * objects missing from one side are kept.
 	 */
-	private mergeProjects(local: Project, server: Project): Project {
-		const diff = this.getDiff(local, server);
+	merge(
+		base: ProjectContent | null,
+		local: Project,
+		server: Project,
+		choices: ConflictChoices = {}
+	): MergeResult {
+		const conflicts: FieldConflict[] = [];
+
+		const projectFields = this.mergeFields(
+			base ? { name: base.name, venue: base.venue } : null,
+			{ name: local.name, venue: local.venue },
+			{ name: server.name, venue: server.venue },
+			{ collection: 'project', objectId: server.id, label: COLLECTION_LABELS.project },
+			choices,
+			conflicts
+		);
+
+		const mergeCollection = <T extends { id: string; name: string }>(
+			collection: MergeCollection,
+			select: (content: ProjectContent) => T[]
+		): T[] =>
+			this.mergeCollection(
+				collection,
+				base ? select(base) : null,
+				select(local),
+				select(server),
+				choices,
+				conflicts
+			);
 
-		// Start with server state as base (server-authoritative)
 		const merged: Project = {
 			...server,
-			shapes: this.mergeArray(local.shapes, server.shapes, diff.shapes),
-			hangingPositions: this.mergeArray(
-				local.hangingPositions,
-				server.hangingPositions,
-				diff.hangingPositions
-			),
-			instruments: this.mergeArray(local.instruments, server.instruments, diff.instruments),
-			setPieces: this.mergeArray(local.setPieces, server.setPieces, diff.setPieces),
-			annotations: this.mergeArray(local.annotations, server.annotations, diff.annotations)
+			...projectFields,
+			shapes: mergeCollection('shapes', (content) => content.shapes),
+			hangingPositions: mergeCollection('hangingPositions', (content) => content.hangingPositions),
+			instruments: mergeCollection('instruments', (content) => content.instruments),
+			setPieces: mergeCollection('setPieces', (content) => content.setPieces),
+			annotations: mergeCollection('annotations', (content) => content.annotations)
 		};
 
-		return merged;
+		return { project: merged, conflicts };
 	}
 
 	/**
-	 * Merge two arrays, keeping additions from both sides
+	 * Merge one collection of objects by ID
 	 */
-	private mergeArray<T extends { id: string }>(
+	private mergeCollection<T extends { id: string; name: string }>(
+		collection: MergeCollection,
+		base: T[] | null,
 		local: T[],
 		server: T[],
-		diff: {
-			added: T[];
-			removed: T[];
-			modified: Array<{ id: string; local: T; server: T }>;
-		}
+		choices: ConflictChoices,
+		conflicts: FieldConflict[]
 	): T[] {
-		// Start with server items (server-authoritative for conflicts)
-		/* eslint-disable svelte/prefer-svelte-reactivity */
-		const merged = new Map(server.map((item) => [item.id, item]));
-		/* eslint-enable svelte/prefer-svelte-reactivity */
-
-		// Add items that were added locally (not in server)
-		for (const item of diff.added) {
-			merged.set(item.id, item);
+		const baseMap = base ? new Map(base.map((item) => [item.id, item])) : null;
+		const localMap = new Map(local.map((item) => [item.id, item]));
+		const serverMap = new Map(server.map((item) => [item.id, item]));
+
+		// Server order first, then objects added locally
+		const ids = [
+			...server.map((item) => item.id),
+			...local.filter((item) => !serverMap.has(item.id)).map((item) => item.id)
+		];
+
+		const merged: T[] = [];
+		for (const id of ids) {
+			const baseItem = baseMap?.get(id);
+			const localItem = localMap.get(id);
+			const serverItem = serverMap.get(id);
+			const label = (localItem ?? serverItem)?.name || COLLECTION_LABELS[collection];
+
+			if (localItem && serverItem) {
+				merged.push(
+					this.mergeFields(
+						baseItem ?? null,
+						localItem,
+						serverItem,
+						{ collection, objectId: id, label },
+						choices,
+						conflicts
+					)
+				);
+				continue;
+			}
+
+			const remaining = (localItem ?? serverItem)!;
+
+			// Added on one side (or no base to tell a deletion from an addition)
+			if (!baseItem) {
+				merged.push(remaining);
+				continue;
+			}
+
+			// Deleted on one side, untouched on the other
+			if (valuesEqual(remaining, baseItem)) {
+				continue;
+			}
+
+			// Deleted on one side, edited on the other
+			const conflict: FieldConflict = {
+				key: conflictKey(collection, id, null),
+				collection,
+				objectId: id,
+				label,
+				field: null,
+				base: baseItem,
+				local: localItem ?? null,
+				server: serverItem ?? null
+			};
+			conflicts.push(conflict);
+
+			const kept = (choices[conflict.key] ?? 'server') === 'local' ? localItem : serverItem;
+			if (kept) {
+				merged.push(kept);
+			}
 		}
 
-		// For modified items, keep server version (server-authoritative)
-		// This is already the case since we started with server
+		return merged;
+	}
+
+	/**
+	 * Merge one object field by field
+	 */
+	private mergeFields<T extends object>(
+		base: T | null,
+		local: T,
+		server: T,
+		target: Pick<FieldConflict, 'collection' | 'objectId' | 'label'>,
+		choices: ConflictChoices,
+		conflicts: FieldConflict[]
+	): T {
+		const baseRecord = base as Record<string, unknown> | null;
+		const localRecord = local as Record<string, unknown>;
+		const serverRecord = server as Record<string, unknown>;
+		const merged: Record<string, unknown> = {};
+
+		const fields = new Set([
+			...Object.keys(serverRecord),
+			...Object.keys(localRecord),
+			...Object.keys(baseRecord ?? {})
+		]);
+
+		for (const field of fields) {
+			const baseValue = baseRecord?.[field];
+			const localValue = localRecord[field];
+			const serverValue = serverRecord[field];
+			let value: unknown;
+
+			if (valuesEqual(localValue, serverValue)) {
+				value = serverValue;
+			} else if (baseRecord && valuesEqual(localValue, baseValue)) {
+				// Only the server changed it
+				value = serverValue;
+			} else if (baseRecord && valuesEqual(serverValue, baseValue)) {
+				// Only we changed it
+				value = localValue;
+			} else {
+				const conflict: FieldConflict = {
+					...target,
+					key: conflictKey(target.collection, target.objectId, field),
+					field,
+					base: baseValue,
+					local: localValue,
+					server: serverValue
+				};
+				conflicts.push(conflict);
+				value = (choices[conflict.key] ?? 'server') === 'local' ? localValue : serverValue;
+			}
+
+			if (value !== undefined) {
+				merged[field] = value;
+			}
+		}
 
-		return Array.from(merged.values());
+		return merged as T;
 	}
 }
 
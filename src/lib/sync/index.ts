@@ -5,6 +5,8 @@
  * - IndexedDB persistence layer for local storage
  * - SyncManager for orchestrating server sync
  * - ConflictManager for version conflict handling
+ * - TabCoordinator for cross-tab editing
+ * - Migrations for upgrading data saved by older versions
  */
 
 // IndexedDB persistence layer
@@ -13,6 +15,7 @@ export {
 	type Project,
 	type ProjectMeta,
 	type ProjectMetadata,
+	type ProjectContent,
 	type RecoverySnapshot,
 	type CrashedSession,
 	type AppMetadata,
@@ -33,12 +36,15 @@ export {
 	getRecoverySnapshots,
 	detectCrashedSession,
 	clearRecoveryData,
+	clearCrashedSessionMarkers,
 	markSessionActive,
 	markSessionClean,
 	recoverFromSnapshot,
 	getProjectRecoveryInfo,
 	clearProjectCache,
 	getLatestRecoverySnapshot,
+	getSessionId,
+	getSessionLockName,
 	// Synchronous session tracking (for beforeunload)
 	markSessionUnloadSync,
 	markSessionCleanSync,
@@ -58,6 +64,7 @@ export {
 	// Types
 	type SyncStatus,
 	type SyncResult,
+	type OperationsSavedListener,
 	// Class
 	SyncManager,
 	// Factory function
@@ -73,10 +80,68 @@ export {
 	type ConflictInfo,
 	type ConflictResolution,
 	type ProjectDiff,
+	type MergeCollection,
+	type ConflictSide,
+	type ConflictChoices,
+	type FieldConflict,
+	type MergeResult,
 	type ConflictManager,
+	// Helpers
+	contentEquals,
+	getProjectContent,
 	// Factory function
 	createConflictManager,
 	// Singleton helpers
 	getConflictManager,
 	clearConflictManager
 } from './conflict.svelte';
+
+// TabCoordinator for keeping tabs on the same project in step
+export {
+	// Types
+	type TabRole,
+	type TabCoordinatorCallbacks,
+	// Class
+	TabCoordinator,
+	// Factory function
+	createTabCoordinator,
+	// Helpers
+	isProjectOpenInAnotherTab
+} from './tabs.svelte';
+
+// Migrations for data saved by older versions
+export {
+	// Types
+	type ProjectDocument,
+	// Constants
+	LEGACY_SCHEMA_VERSION,
+	CURRENT_SCHEMA_VERSION,
+	// Registry
+	getSchemaVersion,
+	isSupportedSchemaVersion,
+	migrateProjectDocument,
+	stampSchemaVersion,
+	// Individual migrations
+	migrateLegacyInstrument,
+	migrateLegacyInstruments,
+	migrateInstrumentProfiles,
+	migrateLegacyAccessories,
+	migrateTemplateToGobo
+} from './migrations';
+
+// Operation batches for delta sync
+export {
+	// Types
+	type SyncOperation,
+	type OperationBatch,
+	type ApplyOperationsResult,
+	// Constants
+	DOCUMENT_COLLECTIONS,
+	MAX_OPERATIONS_PER_BATCH,
+	// Functions
+	valuesEqual,
+	buildOperations,
+	buildChangedOperations,
+	parseOperationBatch,
+	applyOperations
+} from './operations';
@@ -4,8 +4,10 @@
  * Provides local persistence for LightsLite using IndexedDB.
  * Features:
  * - Auto-save with debounce (~500ms)
- * - Crash recovery (last 50 state snapshots)
+ * - Crash recovery (last 50 state snapshots, with a marker per open tab)
  * - Full project export as JSON
+ * - Schema versioning: documents (and their sync bases) are migrated on load
+ *   and stamped on save
  *
  * Uses the `idb` library for a promise-based IndexedDB API.
  */
@@ -19,6 +21,9 @@ import type {
 	AnnotationObject,
 	Venue
 } from '$lib/stores/project.svelte';
+import { CURRENT_SCHEMA_VERSION, migrateProjectDocument, stampSchemaVersion } from './migrations';
+import { getProjectContent } from './conflict.svelte';
+import { formatFieldErrors, validateProjectFields, type FieldError } from '$lib/schemas';
 
 // ============================================================================
 // Types
@@ -34,6 +39,10 @@ export interface Project {
 	name: string;
 	/** Version for sync (incremented on each save) */
 	version: number;
+	/** Server version this copy was last synced with (base for the next write) */
+	serverVersion?: number;
+	/** Document schema version (see migrations.ts) */
+	schemaVersion: number;
 	/** Canvas shapes */
 	shapes: ShapeObject[];
 	/** Hanging positions (electrics, trusses, etc.) */
@@ -52,8 +61,18 @@ export interface Project {
 	updatedAt: number;
 	/** Created timestamp */
 	createdAt: number;
+	/** Document content as of the last sync with the server (base for three-way merges) */
+	syncBase?: ProjectContent;
 }
 
+/**
+ * The mergeable content of a project document
+ */
+export type ProjectContent = Pick<
+	Project,
+	'name' | 'venue' | 'shapes' | 'hangingPositions' | 'instruments' | 'setPieces' | 'annotations'
+>;
+
 /**
  * Project metadata
  */
@@ -161,15 +180,20 @@ interface LightsLiteDB {
 // ============================================================================
 
 const DB_NAME = 'lightslite';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const MAX_RECOVERY_SNAPSHOTS = 50;
 const AUTO_SAVE_DEBOUNCE_MS = 500;
 const SESSION_STATE_KEY = 'lightslite_session_state';
+const SESSION_MARKER_PREFIX = 'session-';
+const SESSION_LOCK_PREFIX = 'lightslite-session-';
 
 // Generate a unique session ID for this browser session
 let currentSessionId: string | null = null;
 
-function getSessionId(): string {
+/**
+ * Get this tab's session ID
+ */
+export function getSessionId(): string {
 	if (!currentSessionId) {
 		currentSessionId = `session-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 	}
@@ -180,6 +204,22 @@ function getSessionId(): string {
 // Database Initialization
 // ============================================================================
 
+/**
+ * Migrate a cached project to the current schema, together with its sync base.
+ * The base is stored alongside the project, so it has the project's schema
+ * version; left behind, merges would see every migrated field as a change.
+ */
+function migrateCachedProject(project: Project): Project {
+	const migrated = migrateProjectDocument(project);
+	if (!project.syncBase) return migrated;
+
+	const syncBase = migrateProjectDocument({
+		...project.syncBase,
+		schemaVersion: project.schemaVersion
+	});
+	return { ...migrated, syncBase: getProjectContent(syncBase) };
+}
+
 let dbInstance: IDBPDatabase<LightsLiteDB> | null = null;
 
 /**
@@ -191,7 +231,7 @@ export async function initDB(): Promise<IDBPDatabase<LightsLiteDB>> {
 	}
 
 	dbInstance = await openDB<LightsLiteDB>(DB_NAME, DB_VERSION, {
-		upgrade(db, oldVersion) {
+		async upgrade(db, oldVersion, _newVersion, transaction) {
 			// Projects store
 			if (!db.objectStoreNames.contains('projects')) {
 				const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
@@ -215,6 +255,25 @@ export async function initDB(): Promise<IDBPDatabase<LightsLiteDB>> {
 			if (oldVersion < 1) {
 				// Initial schema - nothing additional needed
 			}
+
+			// v2: upgrade cached documents through the migration registry
+			if (oldVersion >= 1 && oldVersion < 2) {
+				let projectCursor = await transaction.objectStore('projects').openCursor();
+				while (projectCursor) {
+					await projectCursor.update(migrateCachedProject(projectCursor.value));
+					projectCursor = await projectCursor.continue();
+				}
+
+				let recoveryCursor = await transaction.objectStore('recovery').openCursor();
+				while (recoveryCursor) {
+					const snapshot = recoveryCursor.value;
+					await recoveryCursor.update({
+						...snapshot,
+						state: migrateCachedProject(snapshot.state)
+					});
+					recoveryCursor = await recoveryCursor.continue();
+				}
+			}
 		},
 		blocked() {
 			console.warn('IndexedDB upgrade blocked - close other tabs');
@@ -247,18 +306,18 @@ export async function closeDB(): Promise<void> {
 export async function saveProject(project: Project): Promise<void> {
 	const db = await initDB();
 	await db.put('projects', {
-		...project,
+		...stampSchemaVersion(project),
 		updatedAt: Date.now()
 	});
 }
 
 /**
- * Load a project from IndexedDB by ID
+ * Load a project from IndexedDB by ID, migrating it to the current schema
  */
 export async function loadProject(id: string): Promise<Project | null> {
 	const db = await initDB();
 	const project = await db.get('projects', id);
-	return project ?? null;
+	return project ? migrateCachedProject(project) : null;
 }
 
 /**
@@ -299,6 +358,7 @@ export function createEmptyProject(id: string, name: string): Project {
 		id,
 		name,
 		version: 1,
+		schemaVersion: CURRENT_SCHEMA_VERSION,
 		shapes: [],
 		hangingPositions: [],
 		instruments: [],
@@ -389,7 +449,7 @@ export async function saveRecoverySnapshot(state: Project): Promise<void> {
 	const snapshot: RecoverySnapshot = {
 		id: `recovery-${state.id}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
 		projectId: state.id,
-		state: structuredClone(state),
+		state: structuredClone(stampSchemaVersion(state)),
 		timestamp: Date.now(),
 		sessionId
 	};
@@ -428,28 +488,39 @@ export async function getRecoverySnapshots(projectId: string): Promise<RecoveryS
 	const db = await initDB();
 	const snapshots = await db.getAllFromIndex('recovery', 'by-project', projectId);
 
-	// Return sorted by timestamp (most recent first)
-	return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+	// Return sorted by timestamp (most recent first), migrated to the current schema
+	return snapshots
+		.sort((a, b) => b.timestamp - a.timestamp)
+		.map((snapshot) => ({ ...snapshot, state: migrateCachedProject(snapshot.state) }));
 }
 
 /**
  * Detect if there was a crashed session
+ *
+ * Each open tab keeps its own session marker (see markSessionActive), so a
+ * marker left behind only counts as a crash once no tab holds its session
+ * lock - another tab that is still open is not a crash.
  */
 export async function detectCrashedSession(): Promise<CrashedSession | null> {
 	const db = await initDB();
+	const markers = await db.getAll(
+		'metadata',
+		IDBKeyRange.bound(SESSION_MARKER_PREFIX, `${SESSION_MARKER_PREFIX}\uffff`)
+	);
+	const liveSessions = await getLiveSessionIds();
 
-	// Get the app metadata
-	const metadata = await db.get('metadata', 'app');
+	for (const marker of markers) {
+		const sessionId = marker.currentSessionId;
+		if (!sessionId || !marker.lastProjectId || marker.cleanShutdown !== false) continue;
+		if (sessionId === getSessionId() || liveSessions?.has(sessionId)) continue;
 
-	// Check if the last session ended cleanly
-	if (metadata && metadata.cleanShutdown === false && metadata.lastProjectId) {
-		const snapshots = await getRecoverySnapshots(metadata.lastProjectId);
+		const snapshots = await getRecoverySnapshots(marker.lastProjectId);
 
 		if (snapshots.length > 0 && snapshots[0].sessionId !== getSessionId()) {
 			const latestSnapshot = snapshots[0];
 
 			return {
-				projectId: metadata.lastProjectId,
+				projectId: marker.lastProjectId,
 				projectName: latestSnapshot.state.name,
 				sessionId: latestSnapshot.sessionId,
 				detectedAt: Date.now(),
@@ -463,7 +534,7 @@ export async function detectCrashedSession(): Promise<CrashedSession | null> {
 }
 
 /**
- * Clear recovery data for a project
+ * Clear recovery data for a project, with the markers of the sessions that crashed on it
  */
 export async function clearRecoveryData(projectId: string): Promise<void> {
 	const db = await initDB();
@@ -474,22 +545,52 @@ export async function clearRecoveryData(projectId: string): Promise<void> {
 		await tx.store.delete(snapshot.id);
 	}
 	await tx.done;
+
+	await clearCrashedSessionMarkers(projectId);
+}
+
+/**
+ * Remove the markers left by crashed sessions on a project
+ * Call once their recovery has been restored or discarded, so the same crash
+ * isn't reported again. This tab's marker and those of open tabs are kept.
+ */
+export async function clearCrashedSessionMarkers(projectId: string): Promise<void> {
+	const db = await initDB();
+	const markers = await db.getAll(
+		'metadata',
+		IDBKeyRange.bound(SESSION_MARKER_PREFIX, `${SESSION_MARKER_PREFIX}\uffff`)
+	);
+	const liveSessions = await getLiveSessionIds();
+
+	const tx = db.transaction('metadata', 'readwrite');
+	for (const marker of markers) {
+		const sessionId = marker.currentSessionId;
+		if (marker.lastProjectId !== projectId) continue;
+		if (sessionId === getSessionId() || (sessionId && liveSessions?.has(sessionId))) continue;
+		await tx.store.delete(marker.key);
+	}
+	await tx.done;
 }
 
 /**
- * Mark the current session as active (call on app start)
+ * Mark the current session as active (call when this tab starts editing)
+ * Each tab writes its own marker so tabs don't overwrite each other's state.
  */
 export async function markSessionActive(projectId?: string): Promise<void> {
 	const db = await initDB();
 	const sessionId = getSessionId();
 
 	await db.put('metadata', {
-		key: 'app',
+		key: `${SESSION_MARKER_PREFIX}${sessionId}`,
 		lastProjectId: projectId,
 		currentSessionId: sessionId,
 		sessionStartedAt: Date.now(),
 		cleanShutdown: false
 	});
+
+	if (projectId) {
+		await setLastProjectId(projectId);
+	}
 }
 
 /**
@@ -497,14 +598,30 @@ export async function markSessionActive(projectId?: string): Promise<void> {
  */
 export async function markSessionClean(): Promise<void> {
 	const db = await initDB();
-	const metadata = await db.get('metadata', 'app');
+	await db.delete('metadata', `${SESSION_MARKER_PREFIX}${getSessionId()}`);
+}
 
-	if (metadata) {
-		await db.put('metadata', {
-			...metadata,
-			cleanShutdown: true
-		});
-	}
+/**
+ * Get the Web Lock name a tab holds for as long as its session is alive
+ */
+export function getSessionLockName(sessionId: string = getSessionId()): string {
+	return `${SESSION_LOCK_PREFIX}${sessionId}`;
+}
+
+/**
+ * Get the IDs of sessions whose tab is still open
+ * Returns null if the browser doesn't support Web Locks
+ */
+async function getLiveSessionIds(): Promise<Set<string> | null> {
+	if (typeof navigator === 'undefined' || !navigator.locks) return null;
+
+	const { held = [] } = await navigator.locks.query();
+	return new Set(
+		held
+			.map((lock) => lock.name ?? '')
+			.filter((name) => name.startsWith(SESSION_LOCK_PREFIX))
+			.map((name) => name.slice(SESSION_LOCK_PREFIX.length))
+	);
 }
 
 /**
@@ -516,8 +633,10 @@ export async function recoverFromSnapshot(snapshotId: string): Promise<Project |
 
 	if (snapshot) {
 		// Save the recovered state as the current project
-		await saveProject(snapshot.state);
-		return snapshot.state;
+		const state = migrateCachedProject(snapshot.state);
+		await saveProject(state);
+		await clearCrashedSessionMarkers(snapshot.projectId);
+		return state;
 	}
 
 	return null;
@@ -537,6 +656,7 @@ export function exportProjectAsJSON(project: Project): string {
 		application: 'LightsLite',
 		project: {
 			...project,
+			schemaVersion: CURRENT_SCHEMA_VERSION,
 			// Remove internal fields that shouldn't be in export
 			id: undefined,
 			version: undefined
@@ -552,7 +672,7 @@ export function exportProjectAsJSON(project: Project): string {
 export function importProjectFromJSON(
 	json: string,
 	newId: string
-): { project: Project; success: boolean; error?: string } {
+): { project: Project; success: boolean; error?: string; fieldErrors?: FieldError[] } {
 	try {
 		const data = JSON.parse(json);
 
@@ -565,18 +685,42 @@ export function importProjectFromJSON(
 			};
 		}
 
+		// Upgrade files exported by older versions (throws for newer ones)
+		const imported = migrateProjectDocument(data.project);
+
+		// Reject files with malformed objects before they reach the canvas
+		const fieldErrors = validateProjectFields({
+			venue: imported.venue ?? null,
+			layers: {
+				shapes: imported.shapes,
+				hangingPositions: imported.hangingPositions,
+				instruments: imported.instruments,
+				setPieces: imported.setPieces,
+				annotations: imported.annotations
+			}
+		});
+		if (fieldErrors.length > 0) {
+			return {
+				project: createEmptyProject(newId, 'Imported Project'),
+				success: false,
+				error: `Invalid project data: ${formatFieldErrors(fieldErrors)}`,
+				fieldErrors
+			};
+		}
+
 		const now = Date.now();
 		const project: Project = {
 			id: newId,
-			name: data.project.name || 'Imported Project',
+			name: imported.name || 'Imported Project',
 			version: 1,
-			shapes: data.project.shapes || [],
-			hangingPositions: data.project.hangingPositions || [],
-			instruments: data.project.instruments || [],
-			setPieces: data.project.setPieces || [],
-			annotations: data.project.annotations || [],
-			venue: data.project.venue || null,
-			metadata: data.project.metadata,
+			schemaVersion: imported.schemaVersion,
+			shapes: imported.shapes || [],
+			hangingPositions: imported.hangingPositions || [],
+			instruments: imported.instruments || [],
+			setPieces: imported.setPieces || [],
+			annotations: imported.annotations || [],
+			venue: imported.venue || null,
+			metadata: imported.metadata,
 			updatedAt: now,
 			createdAt: now
 		};
@@ -3,11 +3,13 @@
  *
  * Responsibilities:
  * - Immediate local persistence to IndexedDB on store changes
- * - Debounced server sync (500ms) for remote persistence
+ * - Debounced server sync (500ms) for remote persistence, sent as operation batches
+ *   built from the objects history commands changed
  * - Version tracking for conflict detection
  * - Online/offline handling with change queuing
  * - Dirty state tracking for UI indicators
  * - Conflict detection and resolution with ConflictManager
+ * - Cross-tab coordination with TabCoordinator (one editing tab per project)
  */
 
 // Using standard Date - these are plain data objects, not reactive state
@@ -18,30 +20,52 @@ import {
 	loadProject,
 	createEmptyProject,
 	type Project,
+	type ProjectContent,
 	type ProjectMetadata,
 	type RecoveryInfo,
 	markSessionActive,
 	markSessionClean,
 	getProjectRecoveryInfo,
 	clearProjectCache,
+	clearCrashedSessionMarkers,
 	markSessionUnloadSync,
 	markSessionCleanSync,
 	updateSessionActivitySync
 } from './indexeddb';
 import {
 	createConflictManager,
+	contentEquals,
+	getProjectContent,
 	type ConflictManager,
 	type ConflictInfo,
-	type ConflictResolution
+	type ConflictResolution,
+	type ConflictChoices
 } from './conflict.svelte';
-import { project } from '$lib/stores/project.svelte';
+import { CURRENT_SCHEMA_VERSION, migrateProjectDocument } from './migrations';
+import {
+	applyOperations,
+	buildChangedOperations,
+	buildOperations,
+	parseOperationBatch,
+	type OperationBatch,
+	type SyncOperation
+} from './operations';
+import {
+	createTabCoordinator,
+	isProjectOpenInAnotherTab,
+	type TabCoordinator,
+	type TabRole
+} from './tabs.svelte';
+import { project, type ProjectChange } from '$lib/stores/project.svelte';
+import { history } from '$lib/stores/history.svelte';
 import { connection } from '$lib/stores/connection.svelte';
 import type {
 	ShapeObject,
 	HangingPositionObject,
 	InstrumentObject,
 	SetPieceObject,
-	AnnotationObject
+	AnnotationObject,
+	CanvasObject
 } from '$lib/stores/project.svelte';
 
 // eslint-enable svelte/no-atomic-date
@@ -62,6 +86,14 @@ export interface SyncResult {
 	conflictDetected?: boolean;
 }
 
+/**
+ * Listener for batches this session wrote to the server
+ *
+ * @param version - Server version the batch produced
+ * @param batch - The batch, including the version it was based on
+ */
+export type OperationsSavedListener = (version: number, batch: OperationBatch) => void;
+
 /** Server project response structure */
 interface ServerProjectResponse {
 	project: {
@@ -77,11 +109,24 @@ interface ServerProjectResponse {
 	};
 }
 
+/** Server response to a successful write (only the new version is needed) */
+interface ServerWriteResponse {
+	project: Pick<ServerProjectResponse['project'], 'id' | 'version' | 'updatedAt'>;
+}
+
 /** Server error response structure */
 interface ServerErrorResponse {
 	error: string;
 }
 
+/** Server response when a write was based on a stale version (HTTP 409) */
+interface ServerConflictResponse extends ServerErrorResponse {
+	/** The version the rejected write was based on */
+	baseVersion: number;
+	/** The current server document */
+	project: ServerProjectResponse['project'];
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -90,6 +135,22 @@ const SERVER_SYNC_DEBOUNCE_MS = 500;
 const RETRY_DELAY_MS = 5000;
 const MAX_RETRY_ATTEMPTS = 3;
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** ID of the object a project change touched (null for venue changes) */
+function getChangedObjectId(change: ProjectChange): string | null {
+	switch (change.type) {
+		case 'put':
+			return change.object.id;
+		case 'delete':
+			return change.id;
+		case 'venue':
+			return null;
+	}
+}
+
 // ============================================================================
 // SyncManager Implementation
 // ============================================================================
@@ -117,6 +178,22 @@ export class SyncManager {
 	/** Server version number (from last fetch) */
 	private _serverVersion = $state(0);
 
+	/** Document content at _serverVersion, used as the base for three-way merges */
+	private _syncBase: ProjectContent | null = null;
+
+	/** Objects history commands created, changed or deleted since _syncBase */
+	private changedObjectIds = new Set<string>();
+
+	/**
+	 * Whether changedObjectIds covers every edit since _syncBase. Edits made
+	 * outside history commands, and state loaded from elsewhere, are only
+	 * found by comparing the whole document.
+	 */
+	private editsTracked = false;
+
+	/** Stop listening for edits */
+	private unwatchEdits: (() => void) | null = null;
+
 	/** Last sync error message */
 	private _lastError = $state<string | null>(null);
 
@@ -135,6 +212,9 @@ export class SyncManager {
 	/** Pending server sync flag */
 	private pendingServerSync = false;
 
+	/** Whether a server write is currently in flight */
+	private isSyncingToServer = false;
+
 	/** Retry attempt counter */
 	private retryAttempts = 0;
 
@@ -147,6 +227,15 @@ export class SyncManager {
 	/** Conflict manager for handling version conflicts */
 	private _conflictManager: ConflictManager = createConflictManager();
 
+	/** Decides whether this tab edits the project or follows another tab */
+	private _tabs: TabCoordinator = createTabCoordinator();
+
+	/** Whether the user's role on the project allows editing it */
+	private _canEdit = $state(true);
+
+	/** Notified after each operation batch the server accepts */
+	private savedListeners: OperationsSavedListener[] = [];
+
 	// ========================================================================
 	// Connection Store Integration
 	// ========================================================================
@@ -216,6 +305,19 @@ export class SyncManager {
 		return this._conflictManager;
 	}
 
+	/**
+	 * Whether this tab must not change the project: the user's role does not
+	 * allow editing, or another tab is editing it (this tab only follows its saves)
+	 */
+	get isReadOnly(): boolean {
+		return !this._canEdit || this._tabs.role === 'viewer';
+	}
+
+	/** Whether this tab is taking over editing from another tab */
+	get isTakingOver(): boolean {
+		return this._tabs.isTakingOver;
+	}
+
 	// ========================================================================
 	// Initialization
 	// ========================================================================
@@ -223,17 +325,37 @@ export class SyncManager {
 	/**
 	 * Initialize the SyncManager for a specific project
 	 * Loads from IndexedDB first, then attempts server sync
+	 *
+	 * If another tab is already editing the project this tab starts read-only
+	 * and follows that tab's saves instead (see TabCoordinator).
+	 *
+	 * Pass `canEdit: false` for users whose role only lets them view the
+	 * project; the project is loaded but never written.
 	 */
-	async initialize(projectId: string): Promise<void> {
+	async initialize(projectId: string, options: { canEdit?: boolean } = {}): Promise<void> {
 		this._projectId = projectId;
+		this._canEdit = options.canEdit ?? true;
 		this._isDirty = false;
 		this._lastError = null;
 		this.retryAttempts = 0;
 
+		const role = await this._tabs.join(projectId, {
+			onRemoteSave: () => this.reloadFromIndexedDB(),
+			onRoleChange: (newRole) => this.handleRoleChange(newRole),
+			beforeRelease: () => this.flushBeforeRelease()
+		});
+
+		if (role === 'viewer') {
+			await this.reloadFromIndexedDB();
+			return;
+		}
+
 		// Mark session as active for crash recovery (both sync and async)
 		updateSessionActivitySync(projectId);
 		await markSessionActive(projectId);
 
+		this.watchEdits();
+
 		// Try to load from IndexedDB first (faster, works offline)
 		const localProject = await loadProject(projectId);
 
@@ -241,14 +363,17 @@ export class SyncManager {
 			// Load local data into store
 			this.loadProjectIntoStore(localProject);
 			this._localVersion = localProject.version;
-			this._serverVersion = localProject.version;
+			this._serverVersion = localProject.serverVersion ?? 0;
+			this._syncBase = localProject.syncBase ?? null;
 		} else {
 			// Create new empty project locally
 			const emptyProject = createEmptyProject(projectId, project.projectName || 'Untitled Project');
 			await saveProject(emptyProject);
 			this._localVersion = 1;
 			this._serverVersion = 0;
+			this._syncBase = null;
 		}
+		this.untrackEdits();
 
 		// Try to sync from server if online
 		if (this._isOnline) {
@@ -265,12 +390,43 @@ export class SyncManager {
 	/**
 	 * Sync current state to server
 	 * Called on a debounced schedule after changes
+	 *
+	 * Once the project has been synced, only the operations since the last
+	 * sync are sent; the first write sends the full document. The operations
+	 * cover the objects history commands changed, or the whole document when
+	 * there were edits outside them (see watchEdits).
+	 *
+	 * The write is based on the last known server version; if another session
+	 * saved in the meantime the server rejects it with a 409 and both versions
+	 * are merged (see reconcileWithServer).
 	 */
 	async syncToServer(): Promise<SyncResult> {
 		if (!this._projectId) {
 			return { success: false, localVersion: this._localVersion, error: 'No project initialized' };
 		}
 
+		if (!this._canEdit) {
+			return { success: false, localVersion: this._localVersion, error: 'Project is read-only' };
+		}
+
+		if (this._conflictManager.hasConflict) {
+			return {
+				success: false,
+				localVersion: this._localVersion,
+				error: 'Conflict pending resolution'
+			};
+		}
+
+		// Only one write at a time - a second write would be based on the same version
+		if (this.isSyncingToServer) {
+			this.pendingServerSync = true;
+			return {
+				success: false,
+				localVersion: this._localVersion,
+				error: 'Sync already in progress - queued'
+			};
+		}
+
 		if (!this._isOnline) {
 			this.pendingServerSync = true;
 			return {
@@ -282,45 +438,66 @@ export class SyncManager {
 
 		this._syncStatus = 'syncing';
 		this._lastError = null;
+		this.isSyncingToServer = true;
+		this.pendingServerSync = false;
 		this.notifyConnectionStore();
 
+		// Objects changed since the last sync (null if not known), taken for this write
+		let changedIds: Set<string> | null | undefined;
+
 		try {
 			const projectState = this.getProjectState();
+			const syncedLocalVersion = this._localVersion;
+			const baseVersion = this._serverVersion;
+
+			// Only send what changed since the server copy we know about
+			changedIds = this.takeChangedObjectIds();
+			const operations = !this._syncBase
+				? null
+				: changedIds
+					? buildChangedOperations(this._syncBase, projectState, changedIds)
+					: buildOperations(this._syncBase, projectState);
+			if (operations && operations.length === 0) {
+				this._syncStatus = 'idle';
+				this._isDirty = false;
+				this.notifyConnectionStore();
+				return {
+					success: true,
+					localVersion: this._localVersion,
+					serverVersion: this._serverVersion
+				};
+			}
 
-			const response = await fetch(`/api/projects/${this._projectId}`, {
-				method: 'PUT',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({
-					name: projectState.name,
-					venue: projectState.venue,
-					layers: {
-						shapes: projectState.shapes,
-						hangingPositions: projectState.hangingPositions,
-						instruments: projectState.instruments,
-						setPieces: projectState.setPieces,
-						annotations: projectState.annotations
-					},
-					metadata: {
-						...projectState.metadata,
-						localVersion: this._localVersion,
-						// Using plain Date here as svelte-date is not installed
-						// Using Date for sync timestamp - no SvelteDate needed for plain timestamps
-						// Using standard Date for timestamps - these are plain data, not reactive state
-						lastSyncedAt: new Date().toISOString()
-					}
-				})
-			});
+			const response = operations
+				? await this.sendOperations(operations)
+				: await this.sendDocument(projectState);
+
+			if (response.status === 409) {
+				const conflictData = (await response.json()) as ServerConflictResponse;
+				return await this.reconcileWithServer(conflictData.project);
+			}
 
 			if (!response.ok) {
 				const errorData = (await response.json()) as ServerErrorResponse;
 				throw new Error(errorData.error || `Server error: ${response.status}`);
 			}
 
-			const data = (await response.json()) as ServerProjectResponse;
+			const data = (await response.json()) as ServerWriteResponse;
 			this._serverVersion = data.project.version;
+			this._syncBase = operations
+				? this.applyToSyncBase(operations)
+				: getProjectContent(projectState);
+			if (operations) {
+				this.notifyOperationsSaved(data.project.version, {
+					baseVersion,
+					schemaVersion: CURRENT_SCHEMA_VERSION,
+					operations
+				});
+			}
 			this._lastSyncTime = new Date();
 			this._syncStatus = 'idle';
-			this._isDirty = false;
+			// Edits made while the request was in flight still need to be sent
+			this._isDirty = this._localVersion !== syncedLocalVersion;
 			this.retryAttempts = 0;
 
 			// Also save to IndexedDB with updated version
@@ -339,6 +516,11 @@ export class SyncManager {
 			this._lastError = errorMessage;
 			this._syncStatus = 'error';
 
+			// The retry still has to send these
+			if (changedIds !== undefined) {
+				this.restoreChangedObjectIds(changedIds);
+			}
+
 			// Notify connection store of error
 			this.notifyConnectionStore();
 
@@ -352,6 +534,12 @@ export class SyncManager {
 				localVersion: this._localVersion,
 				error: errorMessage
 			};
+		} finally {
+			this.isSyncingToServer = false;
+			const canSync = !this._conflictManager.hasConflict && this._syncStatus === 'idle';
+			if (canSync && (this.pendingServerSync || this._isDirty)) {
+				this.scheduleServerSync();
+			}
 		}
 	}
 
@@ -397,46 +585,27 @@ export class SyncManager {
 
 			// Check for version conflict
 			if (serverProject.version > this._serverVersion) {
-				const localState = this.getProjectState();
-				const serverState = this.serverProjectToLocal(serverProject);
-
-				// Server has newer data - check if we have conflicting local changes
+				// Server has newer data - merge it with our unsynced local changes
 				if (this._isDirty) {
-					// Use ConflictManager to detect if there's a real conflict
-					const hasConflict = this._conflictManager.detectConflict(
-						localState,
-						serverState,
-						this._localVersion,
-						serverProject.version
-					);
-
-					if (hasConflict) {
-						// Set conflict state for UI to handle
-						this._conflictManager.setConflict({
-							projectId: this._projectId!,
-							localVersion: this._localVersion,
-							serverVersion: serverProject.version,
-							localState,
-							serverState,
-							detectedAt: new Date()
-						});
-
-						this._syncStatus = 'idle';
-						return {
-							success: true,
-							localVersion: this._localVersion,
-							serverVersion: serverProject.version,
-							conflictDetected: true
-						};
-					}
+					return await this.reconcileWithServer(serverProject);
 				}
 
 				// Safe to update local with server data
-				const projectForStore = serverState;
-				this.loadProjectIntoStore(projectForStore);
-				await saveProject(projectForStore);
+				const serverState = this.serverProjectToLocal(serverProject);
+				this.loadProjectIntoStore(serverState);
 				this._localVersion = serverProject.version;
 				this._serverVersion = serverProject.version;
+				this._syncBase = getProjectContent(serverState);
+				this.trackEditsFromSyncBase();
+				await saveProject({
+					...serverState,
+					serverVersion: this._serverVersion,
+					syncBase: this._syncBase
+				});
+				this._tabs.notifySaved();
+			} else if (!this._syncBase && serverProject.version === this._serverVersion) {
+				// Cached before merge bases were stored - the server copy is the base
+				this._syncBase = getProjectContent(this.serverProjectToLocal(serverProject));
 			}
 
 			this._lastSyncTime = new Date();
@@ -461,11 +630,66 @@ export class SyncManager {
 		}
 	}
 
+	/**
+	 * Listen for operation batches this session writes to the server
+	 * (e.g. to tell collaborators, see applyPeerSave)
+	 *
+	 * @returns A function that stops listening
+	 */
+	onOperationsSaved(listener: OperationsSavedListener): () => void {
+		this.savedListeners = [...this.savedListeners, listener];
+		return () => {
+			this.savedListeners = this.savedListeners.filter((l) => l !== listener);
+		};
+	}
+
+	/**
+	 * Follow a save made by a collaborator. Their edits already reached the
+	 * store through the collaboration channel, so only the sync base and server
+	 * version move forward; the next write is then based on their version
+	 * instead of being rejected as stale and merged.
+	 *
+	 * Batches not based on the server version this session knows (or arriving
+	 * while a write is in flight) are ignored; the next write finds out about
+	 * them from the server and merges as before.
+	 *
+	 * @param version - Server version the batch produced
+	 * @param batch - The collaborator's batch (untrusted)
+	 */
+	applyPeerSave(version: number, batch: unknown): void {
+		if (this.isReadOnly || this.isSyncingToServer || !this._syncBase) return;
+		if (this._conflictManager.hasConflict) return;
+
+		const parsed = parseOperationBatch(batch);
+		if (typeof parsed === 'string') {
+			console.warn('[SyncManager] Ignoring invalid save from a collaborator:', parsed);
+			return;
+		}
+		if (
+			parsed.baseVersion !== this._serverVersion ||
+			parsed.schemaVersion !== CURRENT_SCHEMA_VERSION ||
+			!Number.isInteger(version) ||
+			version <= this._serverVersion
+		) {
+			return;
+		}
+
+		const result = applyOperations(this._syncBase, parsed.operations);
+		if (!result.success) return;
+
+		this._syncBase = result.content;
+		this._serverVersion = version;
+		this.saveToIndexedDBDebounced();
+	}
+
 	/**
 	 * Mark the current state as dirty (has unsaved changes)
 	 * Triggers debounced save to IndexedDB and server
 	 */
 	markDirty(): void {
+		// Store changes in a read-only tab come from the editing tab's saves
+		if (this.isReadOnly) return;
+
 		this._isDirty = true;
 		this._localVersion++;
 
@@ -510,10 +734,14 @@ export class SyncManager {
 	 * @param resolution - How to resolve the conflict:
 	 *   - 'accept-server': Use server version (default, server-authoritative)
 	 *   - 'keep-local': Keep local changes, will overwrite server
-	 *   - 'merge': Attempt to merge changes (basic implementation)
+	 *   - 'merge': Three-way merge, using `choices` for fields changed on both sides
+	 * @param choices - Which side to keep for each field conflict (server by default)
 	 * @returns The resolved project state
 	 */
-	async resolveConflict(resolution: ConflictResolution): Promise<SyncResult> {
+	async resolveConflict(
+		resolution: ConflictResolution,
+		choices?: ConflictChoices
+	): Promise<SyncResult> {
 		if (!this._conflictManager.hasConflict) {
 			return {
 				success: false,
@@ -523,14 +751,21 @@ export class SyncManager {
 		}
 
 		try {
+			// The server version the resolved state will be written on top of
+			const { serverVersion: conflictServerVersion, serverState } =
+				this._conflictManager.conflictInfo!;
+
 			// Resolve the conflict using the ConflictManager
-			const resolvedProject = await this._conflictManager.resolve(resolution);
+			const resolvedProject = await this._conflictManager.resolve(resolution, choices);
 
 			// Load the resolved state into the store
 			this.loadProjectIntoStore(resolvedProject);
 
 			// Update version tracking
 			this._localVersion = resolvedProject.version;
+			this._serverVersion = conflictServerVersion;
+			this._syncBase = getProjectContent(serverState);
+			this.untrackEdits();
 
 			// If we kept local or merged, we need to sync to server
 			if (resolution !== 'accept-server') {
@@ -541,7 +776,6 @@ export class SyncManager {
 				this.scheduleServerSync();
 			} else {
 				// Accepting server - save to IndexedDB and update server version
-				this._serverVersion = resolvedProject.version;
 				this._isDirty = false;
 				await this.saveToIndexedDB();
 			}
@@ -589,6 +823,11 @@ export class SyncManager {
 		serverVersion: number,
 		serverUpdatedAt: number
 	): Promise<RecoveryInfo | null> {
+		// Unsynced local data belongs to the tab that is still editing, not a crash
+		if (await isProjectOpenInAnotherTab(projectId)) {
+			return null;
+		}
+
 		return await getProjectRecoveryInfo(projectId, serverVersion, serverUpdatedAt);
 	}
 
@@ -609,7 +848,10 @@ export class SyncManager {
 			// Load the cached project into the store
 			this.loadProjectIntoStore(localProject);
 			this._localVersion = localProject.version;
+			this._serverVersion = localProject.serverVersion ?? 0;
+			this._syncBase = localProject.syncBase ?? null;
 			this._projectId = projectId;
+			this.untrackEdits();
 
 			// Mark as dirty so it syncs to server
 			this._isDirty = true;
@@ -617,6 +859,9 @@ export class SyncManager {
 			// Save to IndexedDB to ensure consistency
 			await this.saveToIndexedDB();
 
+			// The crash is dealt with, so its marker mustn't prompt again
+			await clearCrashedSessionMarkers(projectId);
+
 			// Schedule server sync
 			this.scheduleServerSync();
 
@@ -680,6 +925,13 @@ export class SyncManager {
 		}
 	}
 
+	/**
+	 * Take over editing from the tab that currently has the project open
+	 */
+	async takeOver(): Promise<void> {
+		await this._tabs.takeOver();
+	}
+
 	/**
 	 * Full cleanup - stop and release resources
 	 */
@@ -691,6 +943,9 @@ export class SyncManager {
 			await this.saveToIndexedDB();
 		}
 
+		// Let a waiting tab take over editing
+		this._tabs.leave();
+
 		// Mark session as clean (both sync and async)
 		markSessionCleanSync();
 		await markSessionClean();
@@ -701,6 +956,11 @@ export class SyncManager {
 		this._syncStatus = 'idle';
 		this._lastError = null;
 
+		this.unwatchEdits?.();
+		this.unwatchEdits = null;
+		this.untrackEdits();
+		this.savedListeners = [];
+
 		// Run any cleanup functions
 		for (const cleanup of this.cleanupFunctions) {
 			cleanup();
@@ -708,6 +968,266 @@ export class SyncManager {
 		this.cleanupFunctions = [];
 	}
 
+	// ========================================================================
+	// Private Methods - Edit Tracking
+	// ========================================================================
+
+	/** Record the objects history commands change, and notice edits made outside them */
+	private watchEdits(): void {
+		this.unwatchEdits?.();
+
+		const unwatchHistory = history.onChanges((changes) => {
+			for (const change of changes) {
+				const id = getChangedObjectId(change);
+				if (id) this.changedObjectIds.add(id);
+			}
+		});
+		const unwatchProject = project.onChange(() => {
+			if (!history.isRecordingChanges()) this.editsTracked = false;
+		});
+
+		this.unwatchEdits = () => {
+			unwatchHistory();
+			unwatchProject();
+		};
+	}
+
+	/** Track edits from here on, when the store matches _syncBase */
+	private trackEditsFromSyncBase(): void {
+		this.changedObjectIds = new Set();
+		this.editsTracked = true;
+	}
+
+	/** Compare the whole document on the next write */
+	private untrackEdits(): void {
+		this.changedObjectIds = new Set();
+		this.editsTracked = false;
+	}
+
+	/**
+	 * Take the objects changed since the last sync for a write, or null if they
+	 * are not known. Edits made while the write is in flight are tracked afresh.
+	 */
+	private takeChangedObjectIds(): Set<string> | null {
+		const changedIds = this.editsTracked ? this.changedObjectIds : null;
+		this.trackEditsFromSyncBase();
+		return changedIds;
+	}
+
+	/** Put back the objects taken for a write that failed */
+	private restoreChangedObjectIds(changedIds: Set<string> | null): void {
+		if (!changedIds) {
+			this.untrackEdits();
+			return;
+		}
+		for (const id of changedIds) {
+			this.changedObjectIds.add(id);
+		}
+	}
+
+	// ========================================================================
+	// Private Methods - Server Writes
+	// ========================================================================
+
+	/** Send operations since the last sync (see operations.ts) */
+	private sendOperations(operations: SyncOperation[]): Promise<Response> {
+		const batch: OperationBatch = {
+			baseVersion: this._serverVersion,
+			schemaVersion: CURRENT_SCHEMA_VERSION,
+			operations
+		};
+
+		return fetch(`/api/projects/${this._projectId}/operations`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(batch)
+		});
+	}
+
+	/**
+	 * The server copy after a batch it accepted: the base it was written on plus
+	 * the operations. Local state can hold more than was sent (e.g. edits applied
+	 * from collaborators), so it is not copied. Returns null (so the next write
+	 * sends the full document) if the batch does not apply locally.
+	 */
+	private applyToSyncBase(operations: SyncOperation[]): ProjectContent | null {
+		const result = applyOperations(this._syncBase!, operations);
+		if (!result.success) {
+			console.error('[SyncManager] Sent operations do not apply to the sync base:', result.error);
+			return null;
+		}
+		return result.content;
+	}
+
+	/** Tell listeners about a batch the server accepted */
+	private notifyOperationsSaved(version: number, batch: OperationBatch): void {
+		for (const listener of this.savedListeners) {
+			try {
+				listener(version, batch);
+			} catch (error) {
+				console.error('[SyncManager] Saved listener failed:', error);
+			}
+		}
+	}
+
+	/** Send the full project document (used until the first successful sync) */
+	private sendDocument(projectState: Project): Promise<Response> {
+		return fetch(`/api/projects/${this._projectId}`, {
+			method: 'PUT',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				baseVersion: this._serverVersion,
+				name: projectState.name,
+				venue: projectState.venue,
+				layers: {
+					schemaVersion: projectState.schemaVersion,
+					shapes: projectState.shapes,
+					hangingPositions: projectState.hangingPositions,
+					instruments: projectState.instruments,
+					setPieces: projectState.setPieces,
+					annotations: projectState.annotations
+				},
+				metadata: {
+					...projectState.metadata,
+					localVersion: this._localVersion,
+					// Using plain Date here as svelte-date is not installed
+					// Using Date for sync timestamp - no SvelteDate needed for plain timestamps
+					// Using standard Date for timestamps - these are plain data, not reactive state
+					lastSyncedAt: new Date().toISOString()
+				}
+			})
+		});
+	}
+
+	// ========================================================================
+	// Private Methods - Conflict Handling
+	// ========================================================================
+
+	/**
+	 * Bring unsynced local changes on top of a newer server version.
+	 *
+	 * Local, server and the last-synced base are merged three ways. If every
+	 * change merges cleanly the result is adopted (and written back if it differs
+	 * from the server); otherwise the conflict is raised for the user to resolve
+	 * field by field.
+	 */
+	private async reconcileWithServer(
+		serverProject: ServerProjectResponse['project']
+	): Promise<SyncResult> {
+		// The merged document is compared in full when it is next sent
+		this.untrackEdits();
+
+		const localState = this.getProjectState();
+		const serverState = this.serverProjectToLocal(serverProject);
+		const { project: merged, conflicts } = this._conflictManager.merge(
+			this._syncBase,
+			localState,
+			serverState
+		);
+
+		if (conflicts.length > 0) {
+			this._conflictManager.setConflict({
+				projectId: this._projectId!,
+				localVersion: this._localVersion,
+				serverVersion: serverProject.version,
+				localState,
+				serverState,
+				baseState: this._syncBase,
+				detectedAt: Date.now()
+			});
+
+			this._syncStatus = 'idle';
+			this.notifyConnectionStore();
+			return {
+				success: false,
+				localVersion: this._localVersion,
+				serverVersion: serverProject.version,
+				error: 'Version conflict',
+				conflictDetected: true
+			};
+		}
+
+		if (!contentEquals(merged, localState)) {
+			this.loadProjectIntoStore(merged);
+		}
+		this._serverVersion = serverProject.version;
+		this._syncBase = getProjectContent(serverState);
+		this._isDirty = !contentEquals(merged, serverState);
+		this._lastSyncTime = new Date();
+		this._syncStatus = 'idle';
+		await this.saveToIndexedDB();
+		this.notifyConnectionStore();
+
+		// Send the merged result so the server has both sets of changes
+		if (this._isDirty) {
+			this.scheduleServerSync();
+		}
+
+		return {
+			success: true,
+			localVersion: this._localVersion,
+			serverVersion: this._serverVersion
+		};
+	}
+
+	// ========================================================================
+	// Private Methods - Tab Coordination
+	// ========================================================================
+
+	/** Load the copy of the project last saved to IndexedDB (by this or the editing tab) */
+	private async reloadFromIndexedDB(): Promise<void> {
+		if (!this._projectId) return;
+
+		const localProject = await loadProject(this._projectId);
+		if (!localProject) return;
+
+		this.loadProjectIntoStore(localProject);
+		this._localVersion = localProject.version;
+		this._serverVersion = localProject.serverVersion ?? 0;
+		this._syncBase = localProject.syncBase ?? null;
+		this.untrackEdits();
+	}
+
+	/** Start or stop writing when this tab gains or loses the project */
+	private async handleRoleChange(role: TabRole): Promise<void> {
+		if (role === 'viewer') {
+			// Another tab took over - it owns any pending changes now
+			this.cancelServerSync();
+			this.cancelRetry();
+			this.cancelIndexedDBSave();
+			this.pendingServerSync = false;
+			this._isDirty = false;
+			this._syncStatus = 'idle';
+			this.notifyConnectionStore();
+			await markSessionClean();
+			return;
+		}
+
+		// Continue from the last saved state, including changes the previous
+		// editor had not sent to the server yet
+		await this.reloadFromIndexedDB();
+		this._isDirty =
+			this._syncBase !== null && !contentEquals(this.getProjectState(), this._syncBase);
+
+		updateSessionActivitySync(this._projectId);
+		await markSessionActive(this._projectId ?? undefined);
+
+		if (this._isOnline) {
+			await this.syncFromServer();
+		}
+		this.notifyConnectionStore();
+
+		if (this._isDirty) {
+			this.scheduleServerSync();
+		}
+	}
+
+	/** Save everything to IndexedDB before another tab takes over */
+	private async flushBeforeRelease(): Promise<void> {
+		this.cancelIndexedDBSave();
+		await this.saveToIndexedDB();
+	}
+
 	// ========================================================================
 	// Private Methods - Event Handlers
 	// ========================================================================
@@ -748,7 +1268,7 @@ export class SyncManager {
 
 	/** Schedule a debounced server sync */
 	private scheduleServerSync(): void {
-		if (!this.isRunning || !this._isOnline) return;
+		if (!this.isRunning || !this._isOnline || this.isReadOnly) return;
 
 		this.cancelServerSync();
 		this.serverSyncTimer = setTimeout(() => {
@@ -806,12 +1326,21 @@ export class SyncManager {
 		}, 50);
 	}
 
-	/** Save current project state to IndexedDB */
+	/** Cancel a pending debounced IndexedDB save */
+	private cancelIndexedDBSave(): void {
+		if (this.indexedDBTimer) {
+			clearTimeout(this.indexedDBTimer);
+			this.indexedDBTimer = null;
+		}
+	}
+
+	/** Save current project state to IndexedDB and let read-only tabs know */
 	private async saveToIndexedDB(): Promise<void> {
-		if (!this._projectId) return;
+		if (!this._projectId || this.isReadOnly) return;
 
 		const projectState = this.getProjectState();
 		await saveProject(projectState);
+		this._tabs.notifySaved();
 	}
 
 	// ========================================================================
@@ -829,6 +1358,9 @@ export class SyncManager {
 				id: this._projectId!,
 				name: project.projectName,
 				version: this._localVersion,
+				serverVersion: this._serverVersion,
+				syncBase: this._syncBase ?? undefined,
+				schemaVersion: CURRENT_SCHEMA_VERSION,
 				shapes: project.shapes,
 				hangingPositions: project.hangingPositions,
 				instruments: project.instruments,
@@ -842,25 +1374,32 @@ export class SyncManager {
 		);
 	}
 
-	/** Convert server project format to local Project format */
+	/**
+	 * Convert server project format to local Project format,
+	 * migrating the layers document to the current schema
+	 */
 	private serverProjectToLocal(serverProject: ServerProjectResponse['project']): Project {
-		const layers = serverProject.layers as {
-			shapes?: ShapeObject[];
-			hangingPositions?: HangingPositionObject[];
-			instruments?: InstrumentObject[];
-			setPieces?: SetPieceObject[];
-			annotations?: AnnotationObject[];
-		} | null;
+		const layers = migrateProjectDocument(
+			(serverProject.layers ?? {}) as {
+				schemaVersion?: number;
+				shapes?: ShapeObject[];
+				hangingPositions?: HangingPositionObject[];
+				instruments?: InstrumentObject[];
+				setPieces?: SetPieceObject[];
+				annotations?: AnnotationObject[];
+			}
+		);
 
 		return {
 			id: serverProject.id,
 			name: serverProject.name,
 			version: serverProject.version,
-			shapes: layers?.shapes ?? [],
-			hangingPositions: layers?.hangingPositions ?? [],
-			instruments: layers?.instruments ?? [],
-			setPieces: layers?.setPieces ?? [],
-			annotations: layers?.annotations ?? [],
+			schemaVersion: layers.schemaVersion,
+			shapes: layers.shapes ?? [],
+			hangingPositions: layers.hangingPositions ?? [],
+			instruments: layers.instruments ?? [],
+			setPieces: layers.setPieces ?? [],
+			annotations: layers.annotations ?? [],
 			venue: (serverProject.venue as import('$lib/stores/project.svelte').Venue) ?? null,
 			metadata: serverProject.metadata as ProjectMetadata | undefined,
 			updatedAt: new Date(serverProject.updatedAt).getTime(),
@@ -868,8 +1407,13 @@ export class SyncManager {
 		};
 	}
 
-	/** Load a Project into the Svelte store */
+	/** Load a Project into the Svelte store (not broadcast to collaborators) */
 	private loadProjectIntoStore(projectData: Project): void {
+		project.withoutChangeEvents(() => this.replaceStoreContents(projectData));
+	}
+
+	/** Replace everything in the Svelte store with a Project */
+	private replaceStoreContents(projectData: Project): void {
 		// Clear existing data
 		project.clearProject();
 
@@ -881,69 +1425,17 @@ export class SyncManager {
 			project.updateVenue(projectData.venue);
 		}
 
-		// Load shapes
-		for (const shape of projectData.shapes) {
-			project.addShape(shape.geometry, {
-				...shape
-				// Don't pass id - let store generate new IDs
-			});
-		}
-
-		// Load hanging positions
-		for (const hp of projectData.hangingPositions) {
-			project.addHangingPosition(hp.positionType, hp.x1, hp.y1, hp.x2, hp.y2, {
-				name: hp.name,
-				locked: hp.locked,
-				visible: hp.visible,
-				trimHeight: hp.trimHeight,
-				height: hp.height,
-				labelOffsetX: hp.labelOffsetX,
-				labelOffsetY: hp.labelOffsetY
-			});
-		}
-
-		// Load instruments (need to map to new hanging position IDs)
-		// For now, load as free-floating instruments
-		for (const inst of projectData.instruments) {
-			if (inst.hangingPositionId === null && inst.x !== undefined && inst.y !== undefined) {
-				project.addFreeInstrument(inst.x, inst.y, inst.instrumentType, {
-					name: inst.name,
-					locked: inst.locked,
-					visible: inst.visible,
-					channel: inst.channel,
-					dimmer: inst.dimmer,
-					color: inst.color,
-					focus: inst.focus,
-					rotation: inst.rotation
-				});
-			}
-		}
-
-		// Load set pieces
-		for (const sp of projectData.setPieces) {
-			project.addSetPiece(sp.geometry, {
-				name: sp.name,
-				locked: sp.locked,
-				visible: sp.visible,
-				fill: sp.fill,
-				stroke: sp.stroke,
-				strokeWidth: sp.strokeWidth,
-				layer: sp.layer
-			});
-		}
-
-		// Load annotations
-		for (const ann of projectData.annotations) {
-			project.addAnnotation(ann.annotationType, ann.x, ann.y, ann.text, {
-				name: ann.name,
-				locked: ann.locked,
-				visible: ann.visible,
-				fontSize: ann.fontSize,
-				fontFamily: ann.fontFamily,
-				color: ann.color,
-				endX: ann.endX,
-				endY: ann.endY
-			});
+		// Restore every object with its saved ID so references between objects
+		// (instruments on hanging positions) survive the round trip
+		const objects: CanvasObject[] = [
+			...projectData.shapes,
+			...projectData.hangingPositions,
+			...projectData.instruments,
+			...projectData.setPieces,
+			...projectData.annotations
+		];
+		for (const obj of objects) {
+			project.restoreObject(obj);
 		}
 	}
 }
@@ -0,0 +1,304 @@
+/**
+ * Project Document Migrations
+ *
+ * Every saved, cached and exported project document carries a `schemaVersion`.
+ * When a document is loaded (from the server, IndexedDB or an import file) it
+ * is upgraded step by step through the migration registry below until it
+ * matches CURRENT_SCHEMA_VERSION.
+ *
+ * To change the document model:
+ * 1. Bump CURRENT_SCHEMA_VERSION
+ * 2. Append a migration to MIGRATIONS that upgrades the previous version
+ *
+ * Migrations are pure functions over plain JSON so the same registry runs in
+ * the browser and on the server. Never edit a migration once it has shipped.
+ */
+
+import type { InstrumentObject } from '$lib/stores/project.svelte';
+import type { AccessoryType, InstrumentAccessory } from '$lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The parts of a project document that migrations read and write.
+ * Server layers, IndexedDB projects and export payloads all share this shape.
+ */
+export interface ProjectDocument {
+	/** Schema version the document was written with (missing means 1) */
+	schemaVersion?: number;
+	shapes?: unknown[];
+	hangingPositions?: unknown[];
+	instruments?: InstrumentObject[];
+	setPieces?: unknown[];
+	annotations?: unknown[];
+}
+
+/**
+ * A single step in the migration registry
+ */
+interface DocumentMigration {
+	/** Schema version this migration produces (upgrades from version - 1) */
+	version: number;
+	/** What changed in this version */
+	description: string;
+	/** Upgrade a document from the previous version */
+	migrate: (document: ProjectDocument) => ProjectDocument;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Schema version for documents written before versioning existed */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+/** Schema version written by this build */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+// ============================================================================
+// Instrument Migrations
+// ============================================================================
+
+/**
+ * Upgrade an instrument saved before it carried the full InstrumentProperties model.
+ *
+ * Older plots only stored channel/dimmer/color/focus, and every report and
+ * label showed `focus` as the instrument's purpose. That text is copied into
+ * `purpose` (keeping `focus` untouched) so nothing the user entered changes meaning.
+ */
+export function migrateLegacyInstrument(instrument: InstrumentObject): InstrumentObject {
+	if (instrument.purpose !== undefined || !instrument.focus) {
+		return instrument;
+	}
+	return { ...instrument, purpose: instrument.focus };
+}
+
+/**
+ * Upgrade every instrument in a project-shaped record
+ */
+export function migrateLegacyInstruments<T extends { instruments?: InstrumentObject[] }>(
+	data: T
+): T {
+	if (!Array.isArray(data.instruments)) {
+		return data;
+	}
+	return { ...data, instruments: data.instruments.map(migrateLegacyInstrument) };
+}
+
+/**
+ * Give every instrument a fixture profile.
+ *
+ * Generic profiles share their ids with the plot symbols, so an instrument's
+ * symbol is also the id of the profile it was drawn as.
+ */
+export function migrateInstrumentProfiles(document: ProjectDocument): ProjectDocument {
+	if (!Array.isArray(document.instruments)) {
+		return document;
+	}
+	return {
+		...document,
+		instruments: document.instruments.map((instrument) =>
+			typeof instrument === 'object' && instrument !== null && instrument.profileId === undefined
+				? { ...instrument, profileId: instrument.instrumentType }
+				: instrument
+		)
+	};
+}
+
+/**
+ * Legacy accessory text recognized as a typed accessory, keyed by the
+ * lowercased words of the name. Kept here rather than read from the catalog so
+ * the migration never changes after it has shipped.
+ */
+const LEGACY_ACCESSORY_NAMES: Record<string, AccessoryType> = {
+	scroller: 'scroller',
+	'color scroller': 'scroller',
+	'colour scroller': 'scroller',
+	'gobo rotator': 'gobo-rotator',
+	rotator: 'gobo-rotator',
+	iris: 'iris',
+	'top hat': 'top-hat',
+	tophat: 'top-hat',
+	'half hat': 'half-hat',
+	halfhat: 'half-hat',
+	'barn doors': 'barn-doors',
+	'barn door': 'barn-doors',
+	barndoors: 'barn-doors'
+};
+
+/**
+ * Read one item of legacy accessory text (e.g. "2x Top hat") as a typed accessory
+ */
+function parseLegacyAccessory(item: string): InstrumentAccessory | null {
+	const match = /^(\d+)\s*[x×]?\s+(.+)$/i.exec(item);
+	const quantity = match ? Number(match[1]) : 1;
+	const words = (match ? match[2] : item)
+		.toLowerCase()
+		.replace(/[^a-z]+/g, ' ')
+		.trim();
+	const type = LEGACY_ACCESSORY_NAMES[words];
+	if (!type || quantity < 1) return null;
+	return quantity > 1 ? { type, quantity } : { type };
+}
+
+/**
+ * Turn the recognized parts of an instrument's free-text accessory into typed
+ * accessories.
+ *
+ * Accessories used to be a single text field ("Top hat, Barn doors"). Each
+ * comma-separated item naming a known accessory is added to `accessories`;
+ * anything else stays in `accessory` as notes, so no text the user entered is
+ * lost. Text naming an accessory that is already fitted is dropped.
+ */
+export function migrateLegacyAccessories(document: ProjectDocument): ProjectDocument {
+	if (!Array.isArray(document.instruments)) {
+		return document;
+	}
+	return {
+		...document,
+		instruments: document.instruments.map((instrument) => {
+			if (typeof instrument !== 'object' || instrument === null) return instrument;
+			if (typeof instrument.accessory !== 'string' || !instrument.accessory.trim()) {
+				return instrument;
+			}
+
+			const items = instrument.accessory
+				.split(/[,;+&]|\band\b/i)
+				.map((item) => item.trim())
+				.filter(Boolean);
+			const fitted = new Set((instrument.accessories ?? []).map((accessory) => accessory.type));
+			const accessories: InstrumentAccessory[] = [];
+			const notes: string[] = [];
+			for (const item of items) {
+				const accessory = parseLegacyAccessory(item);
+				if (!accessory) notes.push(item);
+				else if (!fitted.has(accessory.type)) accessories.push(accessory);
+			}
+			if (notes.length === items.length) return instrument;
+
+			const migrated: InstrumentObject = {
+				...instrument,
+				accessories: [...(instrument.accessories ?? []), ...accessories],
+				accessory: notes.join(', ')
+			};
+			if (notes.length === 0) delete migrated.accessory;
+			return migrated;
+		})
+	};
+}
+
+/**
+ * Move the free-text ERS template into the gobo field.
+ * The template was a second field for the same pattern; only `gobo` feeds
+ * labels and the gobo pull list. A template that disagrees with an existing
+ * gobo is kept in the notes rather than dropped.
+ */
+export function migrateTemplateToGobo(document: ProjectDocument): ProjectDocument {
+	if (!Array.isArray(document.instruments)) {
+		return document;
+	}
+	return {
+		...document,
+		instruments: document.instruments.map((instrument) => {
+			if (typeof instrument !== 'object' || instrument === null) return instrument;
+			if (!('template' in instrument)) return instrument;
+
+			const { template, ...migrated }: InstrumentObject & { template?: unknown } = instrument;
+			const pattern = typeof template === 'string' ? template.trim() : '';
+			const gobo = instrument.gobo?.trim();
+			if (pattern && !gobo) {
+				migrated.gobo = pattern;
+			} else if (pattern && pattern !== gobo) {
+				const note = `Template: ${pattern}`;
+				migrated.notes = instrument.notes?.trim() ? `${instrument.notes}\n${note}` : note;
+			}
+			return migrated;
+		})
+	};
+}
+
+// ============================================================================
+// Migration Registry
+// ============================================================================
+
+/**
+ * Ordered list of migrations. Each entry upgrades `version - 1` to `version`.
+ */
+const MIGRATIONS: DocumentMigration[] = [
+	{
+		version: 2,
+		description: 'Instruments carry the full InstrumentProperties model',
+		migrate: migrateLegacyInstruments
+	},
+	{
+		version: 3,
+		description: 'Instruments reference a fixture profile',
+		migrate: migrateInstrumentProfiles
+	},
+	{
+		version: 4,
+		description: 'Recognized accessory text becomes typed accessories',
+		migrate: migrateLegacyAccessories
+	},
+	{
+		version: 5,
+		description: 'ERS template text moves into the gobo field',
+		migrate: migrateTemplateToGobo
+	}
+];
+
+/**
+ * Get the schema version of a document, treating unversioned documents as legacy
+ */
+export function getSchemaVersion(document: ProjectDocument | null | undefined): number {
+	const version = document?.schemaVersion;
+	return typeof version === 'number' && Number.isInteger(version) && version > 0
+		? version
+		: LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Check whether this build can read a document.
+ * Documents written by a newer build must not be loaded or overwritten.
+ */
+export function isSupportedSchemaVersion(document: ProjectDocument | null | undefined): boolean {
+	return getSchemaVersion(document) <= CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a project document to CURRENT_SCHEMA_VERSION.
+ *
+ * Migrations run in order from the document's version. The result is always
+ * stamped with the current version; the input is never mutated.
+ *
+ * @throws Error if the document was written by a newer version of LightsLite
+ */
+export function migrateProjectDocument<T extends ProjectDocument>(
+	document: T
+): T & { schemaVersion: number } {
+	const fromVersion = getSchemaVersion(document);
+
+	if (fromVersion > CURRENT_SCHEMA_VERSION) {
+		throw new Error(
+			`Project was saved by a newer version of LightsLite (schema v${fromVersion}, supported v${CURRENT_SCHEMA_VERSION})`
+		);
+	}
+
+	let migrated: ProjectDocument = document;
+	for (const migration of MIGRATIONS) {
+		if (migration.version > fromVersion) {
+			migrated = migration.migrate(migrated);
+		}
+	}
+
+	return { ...(migrated as T), schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+/**
+ * Stamp a document written by this build with the current schema version
+ */
+export function stampSchemaVersion<T extends object>(document: T): T & { schemaVersion: number } {
+	return { ...document, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
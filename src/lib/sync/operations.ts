@@ -0,0 +1,437 @@
+/**
+ * Sync Operations
+ *
+ * Instead of sending the whole project document on every save, the client
+ * sends a compact batch of operations: create, update and delete per object
+ * ID, plus project-level changes (name, venue). The batch is computed against
+ * the content last synced with the server, comparing only the objects history
+ * commands changed when those are known, so it only contains what changed.
+ *
+ * The same module validates and applies batches on the server, which keeps
+ * the operation format defined in one place.
+ */
+
+import type { ProjectContent } from './indexeddb';
+import type { MergeCollection } from './conflict.svelte';
+import type { Venue } from '$lib/stores/project.svelte';
+import { collectionSchemas, validateProjectFields, validate, type FieldError } from '$lib/schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An object in one of the document collections */
+interface DocumentObject {
+	id: string;
+	[field: string]: unknown;
+}
+
+/**
+ * A single change to the project document
+ */
+export type SyncOperation =
+	| { op: 'create'; collection: MergeCollection; object: DocumentObject }
+	| {
+			op: 'update';
+			collection: MergeCollection;
+			id: string;
+			/** Fields with new values */
+			set: Record<string, unknown>;
+			/** Fields that were removed */
+			unset?: string[];
+	  }
+	| { op: 'delete'; collection: MergeCollection; id: string }
+	| { op: 'project'; set: { name?: string; venue?: Venue | null } };
+
+/**
+ * A batch of operations sent to POST /api/projects/[id]/operations
+ */
+export interface OperationBatch {
+	/** Server version the operations were computed against */
+	baseVersion: number;
+	/** Schema version of the objects in the batch */
+	schemaVersion: number;
+	/** Operations, applied in order */
+	operations: SyncOperation[];
+}
+
+/**
+ * Result of applying a batch to a document
+ */
+export type ApplyOperationsResult =
+	{ success: true; content: ProjectContent } | { success: false; error: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Collections that hold canvas objects, in document order */
+export const DOCUMENT_COLLECTIONS: readonly MergeCollection[] = [
+	'shapes',
+	'hangingPositions',
+	'instruments',
+	'setPieces',
+	'annotations'
+];
+
+/** Upper bound on operations per batch */
+export const MAX_OPERATIONS_PER_BATCH = 5000;
+
+// ============================================================================
+// Building Batches
+// ============================================================================
+
+/**
+ * Get a collection as generic document objects
+ */
+function getObjects(content: ProjectContent, collection: MergeCollection): DocumentObject[] {
+	return content[collection] as unknown as DocumentObject[];
+}
+
+/**
+ * Structural equality for plain JSON values.
+ * Key order is ignored because the server stores layers as JSONB, which
+ * does not preserve it.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+		return false;
+	}
+	if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, index) => valuesEqual(item, b[index]));
+	}
+
+	const aRecord = a as Record<string, unknown>;
+	const bRecord = b as Record<string, unknown>;
+	// Missing and undefined keys are equivalent (JSON drops undefined)
+	const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+	for (const key of keys) {
+		if (!valuesEqual(aRecord[key], bRecord[key])) return false;
+	}
+	return true;
+}
+
+/**
+ * Compute the operations that turn `base` into `current` for the objects that
+ * pass `includes` (project-level changes are always compared)
+ */
+function diffContent(
+	base: ProjectContent,
+	current: ProjectContent,
+	includes: (id: string) => boolean
+): SyncOperation[] {
+	const operations: SyncOperation[] = [];
+
+	const projectChanges: { name?: string; venue?: Venue | null } = {};
+	if (base.name !== current.name) {
+		projectChanges.name = current.name;
+	}
+	if (!valuesEqual(base.venue, current.venue)) {
+		projectChanges.venue = current.venue;
+	}
+	if (Object.keys(projectChanges).length > 0) {
+		operations.push({ op: 'project', set: projectChanges });
+	}
+
+	for (const collection of DOCUMENT_COLLECTIONS) {
+		const baseObjects = getObjects(base, collection).filter((object) => includes(object.id));
+		const currentObjects = getObjects(current, collection).filter((object) => includes(object.id));
+		const baseMap = new Map(baseObjects.map((object) => [object.id, object]));
+		const currentIds = new Set(currentObjects.map((object) => object.id));
+
+		for (const object of currentObjects) {
+			const previous = baseMap.get(object.id);
+			if (!previous) {
+				operations.push({ op: 'create', collection, object });
+				continue;
+			}
+
+			const set: Record<string, unknown> = {};
+			const unset: string[] = [];
+			for (const field of new Set([...Object.keys(previous), ...Object.keys(object)])) {
+				if (valuesEqual(previous[field], object[field])) continue;
+				if (object[field] === undefined) {
+					unset.push(field);
+				} else {
+					set[field] = object[field];
+				}
+			}
+
+			if (Object.keys(set).length > 0 || unset.length > 0) {
+				operations.push({
+					op: 'update',
+					collection,
+					id: object.id,
+					set,
+					...(unset.length > 0 ? { unset } : {})
+				});
+			}
+		}
+
+		for (const object of baseObjects) {
+			if (!currentIds.has(object.id)) {
+				operations.push({ op: 'delete', collection, id: object.id });
+			}
+		}
+	}
+
+	return operations;
+}
+
+/**
+ * Compute the operations that turn `base` into `current`
+ *
+ * Compares every object, so it is used when the edits since the last sync
+ * are not known (see buildChangedOperations).
+ *
+ * @param base - Content last synced with the server
+ * @param current - Current local content
+ * @returns Operations in document order (empty if nothing changed)
+ */
+export function buildOperations(base: ProjectContent, current: ProjectContent): SyncOperation[] {
+	return diffContent(base, current, () => true);
+}
+
+/**
+ * Compute the operations for the objects that edits since the last sync touched
+ *
+ * History commands report the objects they change as they execute, undo and
+ * redo; only those objects are compared with their synced copies, plus the
+ * project name and venue.
+ *
+ * @param base - Content last synced with the server
+ * @param current - Current local content
+ * @param changedIds - IDs of the objects created, changed or deleted since the last sync
+ * @returns Operations in document order (empty if nothing changed)
+ */
+export function buildChangedOperations(
+	base: ProjectContent,
+	current: ProjectContent,
+	changedIds: ReadonlySet<string>
+): SyncOperation[] {
+	return diffContent(base, current, (id) => changedIds.has(id));
+}
+
+// ============================================================================
+// Validating Batches
+// ============================================================================
+
+/**
+ * Check that a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a single operation from an untrusted request body
+ *
+ * @returns An error message, or null if the operation is well formed
+ */
+function validateOperation(operation: unknown): string | null {
+	if (!isRecord(operation)) {
+		return 'must be an object';
+	}
+
+	if (operation.op === 'project') {
+		if (!isRecord(operation.set)) return 'set must be an object';
+		const { name } = operation.set;
+		if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+			return 'name must be a non-empty string';
+		}
+		return null;
+	}
+
+	if (!DOCUMENT_COLLECTIONS.includes(operation.collection as MergeCollection)) {
+		return `unknown collection "${String(operation.collection)}"`;
+	}
+
+	switch (operation.op) {
+		case 'create':
+			if (!isRecord(operation.object) || typeof operation.object.id !== 'string') {
+				return 'object must have a string id';
+			}
+			return null;
+		case 'update':
+			if (typeof operation.id !== 'string') return 'id must be a string';
+			if (!isRecord(operation.set)) return 'set must be an object';
+			if ('id' in operation.set) return 'id cannot be changed';
+			if (
+				operation.unset !== undefined &&
+				(!Array.isArray(operation.unset) ||
+					operation.unset.some((field) => typeof field !== 'string' || field === 'id'))
+			) {
+				return 'unset must be a list of field names';
+			}
+			return null;
+		case 'delete':
+			return typeof operation.id === 'string' ? null : 'id must be a string';
+		default:
+			return `unknown op "${String(operation.op)}"`;
+	}
+}
+
+/**
+ * Validate an operation batch from an untrusted request body
+ *
+ * @returns The batch, or an error message describing the first problem
+ */
+export function parseOperationBatch(body: unknown): OperationBatch | string {
+	if (!isRecord(body)) {
+		return 'Request body must be an object';
+	}
+	if (!Number.isInteger(body.baseVersion)) {
+		return 'baseVersion must be an integer';
+	}
+	if (!Number.isInteger(body.schemaVersion)) {
+		return 'schemaVersion must be an integer';
+	}
+	if (!Array.isArray(body.operations)) {
+		return 'operations must be an array';
+	}
+	if (body.operations.length > MAX_OPERATIONS_PER_BATCH) {
+		return `A batch can contain at most ${MAX_OPERATIONS_PER_BATCH} operations`;
+	}
+
+	for (const [index, operation] of body.operations.entries()) {
+		const error = validateOperation(operation);
+		if (error) {
+			return `Operation ${index}: ${error}`;
+		}
+	}
+
+	return body as unknown as OperationBatch;
+}
+
+/**
+ * Validate what a batch wrote against the project schemas
+ *
+ * Only the project fields and objects the operations touched are checked, so
+ * an object stored before writes were validated does not block unrelated
+ * edits. Error paths point into the resulting document, like the errors from
+ * PUT /api/projects/[id] (e.g. `layers.instruments[3].channel`).
+ *
+ * @param content - Document returned by applyOperations
+ * @returns Every problem found (empty if the written data is valid)
+ */
+export function validateAppliedOperations(
+	content: ProjectContent,
+	operations: SyncOperation[]
+): FieldError[] {
+	const errors: FieldError[] = [];
+	const checked = new Set<string>();
+
+	for (const operation of operations) {
+		if (operation.op === 'project') {
+			errors.push(
+				...validateProjectFields({ name: operation.set.name, venue: operation.set.venue })
+			);
+			continue;
+		}
+		if (operation.op === 'delete') continue;
+
+		const id = operation.op === 'create' ? operation.object.id : operation.id;
+		const key = `${operation.collection}:${id}`;
+		if (checked.has(key)) continue;
+		checked.add(key);
+
+		const objects = getObjects(content, operation.collection);
+		const index = objects.findIndex((object) => object.id === id);
+		if (index === -1) continue;
+
+		const result = validate(
+			collectionSchemas[operation.collection],
+			objects[index],
+			`layers.${operation.collection}[${index}]`
+		);
+		if (!result.success) errors.push(...result.errors);
+	}
+
+	return errors;
+}
+
+// ============================================================================
+// Applying Batches
+// ============================================================================
+
+/**
+ * Apply a batch of operations to a document.
+ *
+ * All-or-nothing: the input is never mutated, and if any operation does not
+ * apply (e.g. it updates an object that does not exist) no result is returned.
+ */
+export function applyOperations(
+	content: ProjectContent,
+	operations: SyncOperation[]
+): ApplyOperationsResult {
+	let name = content.name;
+	let venue = content.venue;
+	const collections = new Map(
+		DOCUMENT_COLLECTIONS.map((collection) => [
+			collection,
+			new Map(getObjects(content, collection).map((object) => [object.id, object]))
+		])
+	);
+
+	for (const [index, operation] of operations.entries()) {
+		if (operation.op === 'project') {
+			if (operation.set.name !== undefined) name = operation.set.name.trim();
+			if (operation.set.venue !== undefined) venue = operation.set.venue;
+			continue;
+		}
+
+		const objects = collections.get(operation.collection)!;
+
+		switch (operation.op) {
+			case 'create':
+				if (objects.has(operation.object.id)) {
+					return {
+						success: false,
+						error: `Operation ${index}: ${operation.object.id} already exists`
+					};
+				}
+				objects.set(operation.object.id, operation.object);
+				break;
+
+			case 'update': {
+				const existing = objects.get(operation.id);
+				if (!existing) {
+					return { success: false, error: `Operation ${index}: ${operation.id} not found` };
+				}
+				const updated: DocumentObject = { ...existing, ...operation.set };
+				for (const field of operation.unset ?? []) {
+					delete updated[field];
+				}
+				objects.set(operation.id, updated);
+				break;
+			}
+
+			case 'delete':
+				if (!objects.delete(operation.id)) {
+					return { success: false, error: `Operation ${index}: ${operation.id} not found` };
+				}
+				break;
+		}
+	}
+
+	const collectionArray = (collection: MergeCollection) =>
+		Array.from(collections.get(collection)!.values());
+
+	return {
+		success: true,
+		content: {
+			name,
+			venue,
+			shapes: collectionArray('shapes') as unknown as ProjectContent['shapes'],
+			hangingPositions: collectionArray(
+				'hangingPositions'
+			) as unknown as ProjectContent['hangingPositions'],
+			instruments: collectionArray('instruments') as unknown as ProjectContent['instruments'],
+			setPieces: collectionArray('setPieces') as unknown as ProjectContent['setPieces'],
+			annotations: collectionArray('annotations') as unknown as ProjectContent['annotations']
+		}
+	};
+}
@@ -0,0 +1,353 @@
+/**
+ * TabCoordinator - Keeps browser tabs on the same project from clobbering each other
+ *
+ * Only one tab at a time edits a project. The editing tab holds a Web Lock
+ * named after the project; any other tab that opens the project becomes a
+ * read-only viewer. Tabs talk over a BroadcastChannel:
+ * - The editor announces every IndexedDB save so viewers reload and stay live
+ * - A viewer can ask to take over; the editor saves, steps down and hands over
+ *
+ * When the editing tab closes (or crashes) the browser releases its lock and
+ * the next waiting viewer becomes the editor.
+ *
+ * Browsers without Web Locks fall back to every tab editing independently,
+ * which is how things worked before tabs were coordinated.
+ */
+
+import { getSessionId, getSessionLockName } from './indexeddb';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What this tab may do with the project */
+export type TabRole = 'editor' | 'viewer';
+
+/**
+ * Hooks the coordinator calls into the SyncManager
+ */
+export interface TabCoordinatorCallbacks {
+	/** The editing tab saved the project to IndexedDB */
+	onRemoteSave: () => void | Promise<void>;
+	/** This tab became the editor or a viewer */
+	onRoleChange: (role: TabRole) => void | Promise<void>;
+	/** Save pending changes before handing the project to another tab */
+	beforeRelease: () => Promise<void>;
+}
+
+/**
+ * Messages sent between tabs on a project's channel
+ */
+type TabMessage =
+	| { type: 'saved'; sessionId: string }
+	| { type: 'takeover'; sessionId: string }
+	| { type: 'released'; sessionId: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Prefix for the per-project lock and channel names */
+const PROJECT_LOCK_PREFIX = 'lightslite-project-';
+
+/** How long a takeover waits for the editing tab to save before taking over anyway */
+const TAKEOVER_TIMEOUT_MS = 2000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Whether this browser supports coordinating tabs */
+function supportsTabLocks(): boolean {
+	return (
+		typeof navigator !== 'undefined' && !!navigator.locks && typeof BroadcastChannel !== 'undefined'
+	);
+}
+
+/** Lock (and channel) name for a project */
+function getProjectLockName(projectId: string): string {
+	return `${PROJECT_LOCK_PREFIX}${projectId}`;
+}
+
+/**
+ * Whether another tab is currently editing a project.
+ * Only meaningful before this tab has joined the project itself.
+ */
+export async function isProjectOpenInAnotherTab(projectId: string): Promise<boolean> {
+	if (!supportsTabLocks()) return false;
+
+	const { held = [] } = await navigator.locks.query();
+	return held.some((lock) => lock.name === getProjectLockName(projectId));
+}
+
+// ============================================================================
+// TabCoordinator Implementation
+// ============================================================================
+
+/**
+ * TabCoordinator class - decides which tab edits a project
+ */
+export class TabCoordinator {
+	// ========================================================================
+	// State
+	// ========================================================================
+
+	/** Whether this tab edits the project or only views it */
+	private _role = $state<TabRole>('editor');
+
+	/** Whether a takeover is in progress */
+	private _isTakingOver = $state(false);
+
+	/** Project this tab has joined */
+	private projectId: string | null = null;
+
+	/** Hooks into the SyncManager */
+	private callbacks: TabCoordinatorCallbacks | null = null;
+
+	/** Channel shared by every tab on the project */
+	private channel: BroadcastChannel | null = null;
+
+	/** Releases the project lock while this tab is the editor */
+	private releaseProjectLock: (() => void) | null = null;
+
+	/** Cancels this tab's place in the queue for the project lock */
+	private waitController: AbortController | null = null;
+
+	/** Releases the session lock that marks this tab as alive */
+	private releaseSessionLock: (() => void) | null = null;
+
+	/** Resolves a takeover once the editing tab confirms it has stepped down */
+	private onReleased: (() => void) | null = null;
+
+	// ========================================================================
+	// Reactive Getters
+	// ========================================================================
+
+	/** Whether this tab edits the project or only views it */
+	get role(): TabRole {
+		return this._role;
+	}
+
+	/** Whether a takeover is in progress */
+	get isTakingOver(): boolean {
+		return this._isTakingOver;
+	}
+
+	// ========================================================================
+	// Lifecycle
+	// ========================================================================
+
+	/**
+	 * Join a project. Resolves with 'editor' if no other tab is editing it,
+	 * otherwise 'viewer' (and this tab waits to become the editor).
+	 */
+	async join(projectId: string, callbacks: TabCoordinatorCallbacks): Promise<TabRole> {
+		this.leave();
+		this.projectId = projectId;
+		this.callbacks = callbacks;
+
+		if (!supportsTabLocks()) {
+			this._role = 'editor';
+			return this._role;
+		}
+
+		this.holdSessionLock();
+
+		this.channel = new BroadcastChannel(getProjectLockName(projectId));
+		this.channel.addEventListener('message', this.handleMessage);
+
+		const acquired = await this.requestProjectLock({ ifAvailable: true });
+		this._role = acquired ? 'editor' : 'viewer';
+		if (!acquired) {
+			this.waitForProjectLock();
+		}
+
+		return this._role;
+	}
+
+	/**
+	 * Leave the project, releasing the lock so another tab can edit it
+	 */
+	leave(): void {
+		this.waitController?.abort();
+		this.waitController = null;
+		this.releaseProjectLock?.();
+		this.releaseProjectLock = null;
+		this.releaseSessionLock?.();
+		this.releaseSessionLock = null;
+
+		this.channel?.removeEventListener('message', this.handleMessage);
+		this.channel?.close();
+		this.channel = null;
+
+		this.onReleased = null;
+		this.projectId = null;
+		this.callbacks = null;
+		this._isTakingOver = false;
+		this._role = 'editor';
+	}
+
+	// ========================================================================
+	// Coordination
+	// ========================================================================
+
+	/**
+	 * Tell viewers the project was saved to IndexedDB
+	 */
+	notifySaved(): void {
+		if (this._role === 'editor') {
+			this.post({ type: 'saved', sessionId: getSessionId() });
+		}
+	}
+
+	/**
+	 * Take over editing from the tab that currently holds the project.
+	 * The editing tab saves and becomes a viewer; if it does not answer in
+	 * time (e.g. it is frozen) the lock is taken anyway.
+	 */
+	async takeOver(): Promise<void> {
+		if (this._role === 'editor' || !this.projectId || this._isTakingOver) return;
+
+		this._isTakingOver = true;
+		try {
+			// Leave the queue - the lock is taken directly below
+			this.waitController?.abort();
+			this.waitController = null;
+
+			const released = new Promise<void>((resolve) => {
+				this.onReleased = resolve;
+				setTimeout(resolve, TAKEOVER_TIMEOUT_MS);
+			});
+			this.post({ type: 'takeover', sessionId: getSessionId() });
+			await released;
+			this.onReleased = null;
+
+			if (!this.projectId) return;
+			await this.requestProjectLock({ steal: true });
+			await this.setRole('editor');
+		} finally {
+			this._isTakingOver = false;
+		}
+	}
+
+	// ========================================================================
+	// Private Methods - Locks
+	// ========================================================================
+
+	/**
+	 * Request the project lock, holding it until released or stolen.
+	 * Resolves true once held, false if it was not granted.
+	 */
+	private requestProjectLock(options: LockOptions): Promise<boolean> {
+		const name = getProjectLockName(this.projectId!);
+
+		return new Promise((resolve) => {
+			navigator.locks
+				.request(name, options, (lock) => {
+					if (!lock) {
+						resolve(false);
+						return;
+					}
+					resolve(true);
+					return new Promise<void>((release) => {
+						this.releaseProjectLock = release;
+					});
+				})
+				.catch((error: unknown) => {
+					resolve(false);
+					// Another tab took over: our held lock was stolen
+					if (error instanceof DOMException && error.name === 'AbortError') {
+						this.handleLockLost();
+					}
+				});
+		});
+	}
+
+	/** Queue for the project lock and become the editor when it is granted */
+	private waitForProjectLock(): void {
+		const controller = new AbortController();
+		this.waitController = controller;
+
+		this.requestProjectLock({ signal: controller.signal }).then(async (acquired) => {
+			if (!acquired || this.waitController !== controller) return;
+			this.waitController = null;
+			await this.setRole('editor');
+		});
+	}
+
+	/** Hold a lock for as long as this tab is open (see detectCrashedSession) */
+	private holdSessionLock(): void {
+		navigator.locks
+			.request(getSessionLockName(), () => {
+				return new Promise<void>((release) => {
+					this.releaseSessionLock = release;
+				});
+			})
+			.catch(() => {
+				// Released on leave
+			});
+	}
+
+	/** The project lock was taken by another tab */
+	private handleLockLost(): void {
+		if (!this.releaseProjectLock) return;
+
+		this.releaseProjectLock = null;
+		void this.setRole('viewer');
+		this.waitForProjectLock();
+	}
+
+	// ========================================================================
+	// Private Methods - Messaging
+	// ========================================================================
+
+	/** Post a message to the other tabs on this project */
+	private post(message: TabMessage): void {
+		this.channel?.postMessage(message);
+	}
+
+	/** Handle a message from another tab */
+	private handleMessage = async (event: MessageEvent<TabMessage>): Promise<void> => {
+		const message = event.data;
+
+		switch (message.type) {
+			case 'saved':
+				if (this._role === 'viewer') {
+					await this.callbacks?.onRemoteSave();
+				}
+				break;
+
+			case 'takeover':
+				if (this._role === 'editor' && this.releaseProjectLock) {
+					// Save first, then step down; the other tab steals the lock
+					await this.callbacks?.beforeRelease();
+					await this.setRole('viewer');
+					this.post({ type: 'released', sessionId: getSessionId() });
+				}
+				break;
+
+			case 'released':
+				this.onReleased?.();
+				break;
+		}
+	};
+
+	/** Switch role and let the SyncManager react */
+	private async setRole(role: TabRole): Promise<void> {
+		if (this._role === role) return;
+
+		this._role = role;
+		await this.callbacks?.onRoleChange(role);
+	}
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new TabCoordinator instance
+ */
+export function createTabCoordinator(): TabCoordinator {
+	return new TabCoordinator();
+}
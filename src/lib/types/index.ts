@@ -20,11 +20,21 @@ export {
 	translateGeometry
 } from './geometry';
 
-export type { InstrumentType, InstrumentCategory, LabelConfig, Instrument } from './instrument';
+export type {
+	InstrumentType,
+	InstrumentCategory,
+	LabelConfig,
+	InstrumentProperties,
+	InstrumentPart,
+	AccessoryType,
+	InstrumentAccessory
+} from './instrument';
 
 export {
 	DEFAULT_LABEL_CONFIG,
-	createInstrument,
+	INSTRUMENT_PROPERTY_KEYS,
+	pickInstrumentProperties,
+	resolveLabelConfig,
 	getInstrumentCategory,
 	INSTRUMENT_TYPE_NAMES,
 	INSTRUMENT_CATEGORY_NAMES
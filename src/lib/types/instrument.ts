@@ -91,117 +91,190 @@ export const DEFAULT_LABEL_CONFIG: LabelConfig = {
 };
 
 /**
- * Full instrument definition
- * Represents a lighting instrument placed on the plot
+ * Kinds of accessory that can be fitted to an instrument
  */
-export interface Instrument {
-	/** Unique identifier */
-	id: string;
-	/** Instrument fixture type */
-	type: InstrumentType;
-	/** Position in world coordinates */
-	position: { x: number; y: number };
-	/** Rotation in degrees (0-360), where 0 points "up" (towards upstage) */
-	rotation: number;
-	/** ID of the hanging position this instrument is attached to */
-	hangingPositionId: string | null;
-	/** Position along the hanging position (0-1 normalized) */
-	positionOnBar: number;
+export type AccessoryType =
+	| 'scroller'
+	| 'gobo-rotator'
+	| 'iris'
+	| 'top-hat'
+	| 'half-hat'
+	| 'barn-doors'
+	| 'other';
+
+/**
+ * A device fitted to an instrument. Wattage and weight left unset come from
+ * the accessory catalog.
+ */
+export interface InstrumentAccessory {
+	type: AccessoryType;
+	/** Model or description (required to say what an "other" accessory is) */
+	name?: string;
+	/** Number fitted (defaults to 1) */
+	quantity?: number;
+	/** Console channel, for accessories run from the console */
+	channel?: number;
+	/** DMX universe */
+	universe?: number;
+	/** DMX start address */
+	address?: number;
+	/** Power draw of one accessory in watts */
+	wattage?: number;
+	/** Weight of one accessory in kilograms */
+	weight?: number;
+}
 
+/**
+ * One controllable part of a multi-part instrument: a cell of a cyc light, a
+ * pixel segment of an LED strip, or the scroller on an ERS. Fields left unset
+ * fall back to the instrument's own.
+ */
+export interface InstrumentPart {
+	/** Label shown on the plot and appended to the unit number (defaults to A, B, C, ...) */
+	label?: string;
+	/** Lighting console channel number */
+	channel?: number;
+	/** Dimmer number */
+	dimmer?: number;
+	/** Circuit label/number */
+	circuit?: string;
+	/** DMX universe */
+	universe?: number;
+	/** DMX start address */
+	address?: number;
+	/** Color/gel name or number */
+	color?: string;
+	/** Wattage of the part (defaults to an even share of the instrument's) */
+	wattage?: number;
+}
+
+/**
+ * Instrument properties
+ *
+ * The single authoritative set of plot data carried by every instrument. The
+ * canvas store's InstrumentObject extends this with placement (hanging position,
+ * position on bar, free x/y, rotation), and the properties panel, commands,
+ * sync payloads and reports all read and write these same fields.
+ */
+export interface InstrumentProperties {
 	// ========================================================================
 	// Electrical / Control Properties
 	// ========================================================================
 
 	/** Lighting console channel number */
-	channel: number | null;
-	/** Dimmer number or address */
-	dimmer: number | string | null;
+	channel?: number;
+	/** Dimmer number */
+	dimmer?: number;
 	/** Circuit label/number */
-	circuit: string | null;
-	/** DMX universe (for moving lights) */
-	universe: number | null;
-	/** DMX start address (for moving lights) */
-	address: number | null;
+	circuit?: string;
+	/** DMX universe */
+	universe?: number;
+	/** DMX start address */
+	address?: number;
+	/** DMX mode name from the fixture profile (defaults to the profile's first mode) */
+	dmxMode?: string;
 
 	// ========================================================================
 	// Physical Properties
 	// ========================================================================
 
 	/** Color/gel name or number (e.g., "R33", "L201", "No Color") */
-	color: string | null;
+	color?: string;
 	/** Gobo name or pattern number */
-	gobo: string | null;
-	/** Template/pattern for ERS */
-	template: string | null;
-	/** Accessory (barn doors, top hat, etc.) */
-	accessory: string | null;
-	/** Wattage of lamp */
-	wattage: number | null;
+	gobo?: string;
+	/** Free-text accessory notes (fitted devices are listed in accessories) */
+	accessory?: string;
+	/** Devices fitted to the instrument: scrollers, top hats, barn doors, ... */
+	accessories?: InstrumentAccessory[];
+	/** Wattage of lamp (overrides the type default) */
+	wattage?: number;
 
 	// ========================================================================
 	// Identification
 	// ========================================================================
 
 	/** Unit/instrument number on the position */
-	unitNumber: number | null;
+	unitNumber?: number;
+	/** Cell letter when cells of a multi-cell unit share its number (e.g. "B" for unit 3B) */
+	unitSuffix?: string;
 	/** Purpose/focus area (e.g., "DSC warm", "balcony rail") */
-	purpose: string | null;
+	purpose?: string;
+	/** Focus notes */
+	focus?: string;
 	/** Additional notes */
-	notes: string | null;
-	/** Custom display name */
-	name: string | null;
+	notes?: string;
 
 	// ========================================================================
 	// Visual Display
 	// ========================================================================
 
-	/** Label display configuration */
-	labelDisplay: LabelConfig;
-	/** Custom fill color override (otherwise uses default for type) */
-	customFill: string | null;
-	/** Custom stroke color override */
-	customStroke: string | null;
+	/** Label display configuration (falls back to DEFAULT_LABEL_CONFIG) */
+	labelDisplay?: LabelConfig;
+
+	// ========================================================================
+	// Parts
+	// ========================================================================
+
+	/** Separately controlled parts, for instruments drawn as one symbol but run on several channels */
+	parts?: InstrumentPart[];
 }
 
 /**
- * Create a new instrument with default values
+ * Keys of InstrumentProperties, used to copy plot data between objects
  */
-export function createInstrument(
-	type: InstrumentType,
-	position: { x: number; y: number },
-	options: Partial<Omit<Instrument, 'id' | 'type' | 'position'>> = {}
-): Omit<Instrument, 'id'> {
-	return {
-		type,
-		position,
-		rotation: options.rotation ?? 0,
-		hangingPositionId: options.hangingPositionId ?? null,
-		positionOnBar: options.positionOnBar ?? 0.5,
+export const INSTRUMENT_PROPERTY_KEYS = [
+	'channel',
+	'dimmer',
+	'circuit',
+	'universe',
+	'address',
+	'dmxMode',
+	'color',
+	'gobo',
+	'accessory',
+	'accessories',
+	'wattage',
+	'unitNumber',
+	'unitSuffix',
+	'purpose',
+	'focus',
+	'notes',
+	'labelDisplay',
+	'parts'
+] as const satisfies readonly (keyof InstrumentProperties)[];
 
-		// Electrical
-		channel: options.channel ?? null,
-		dimmer: options.dimmer ?? null,
-		circuit: options.circuit ?? null,
-		universe: options.universe ?? null,
-		address: options.address ?? null,
-
-		// Physical
-		color: options.color ?? null,
-		gobo: options.gobo ?? null,
-		template: options.template ?? null,
-		accessory: options.accessory ?? null,
-		wattage: options.wattage ?? null,
-
-		// Identification
-		unitNumber: options.unitNumber ?? null,
-		purpose: options.purpose ?? null,
-		notes: options.notes ?? null,
-		name: options.name ?? null,
+/**
+ * Copy the instrument properties that are set on a source object
+ */
+export function pickInstrumentProperties(source: InstrumentProperties): InstrumentProperties {
+	const properties: Record<string, unknown> = {};
+	for (const key of INSTRUMENT_PROPERTY_KEYS) {
+		if (source[key] !== undefined) {
+			properties[key] =
+				key === 'labelDisplay'
+					? { ...source.labelDisplay }
+					: key === 'parts' || key === 'accessories'
+						? source[key]!.map((item) => ({ ...item }))
+						: source[key];
+		}
+	}
+	return properties as InstrumentProperties;
+}
 
-		// Visual
-		labelDisplay: options.labelDisplay ?? { ...DEFAULT_LABEL_CONFIG },
-		customFill: options.customFill ?? null,
-		customStroke: options.customStroke ?? null
+/**
+ * Resolve the label configuration for an instrument.
+ * Instruments without an explicit labelDisplay show the channel plus whichever
+ * of color, purpose and dimmer have been filled in (on the instrument or any part).
+ */
+export function resolveLabelConfig(instrument: InstrumentProperties): LabelConfig {
+	if (instrument.labelDisplay) {
+		return instrument.labelDisplay;
+	}
+	return {
+		...DEFAULT_LABEL_CONFIG,
+		showColor: !!instrument.color || !!instrument.parts?.some((part) => part.color),
+		showPurpose: !!instrument.purpose,
+		showDimmer: !!instrument.dimmer || !!instrument.parts?.some((part) => part.dimmer)
 	};
 }
 
@@ -16,6 +16,26 @@ export {
 	calculateInstrumentRotation
 } from './snap';
 
+export {
+	PIXELS_PER_FOOT,
+	PIXELS_PER_METER,
+	METERS_PER_FOOT,
+	pixelsToMeters,
+	feetToMeters,
+	metersToFeet
+} from './scale';
+
+export {
+	type StageVector,
+	type StageOffset,
+	STAGE_LEFT,
+	STAGE_RIGHT,
+	DOWNSTAGE,
+	UPSTAGE,
+	getStageOffset,
+	getDownstageLeftCorner
+} from './stage';
+
 export {
 	// Types
 	type ShortcutConfig,
@@ -3,8 +3,111 @@
  *
  * Pre-defined layout templates for new projects.
  * These provide useful default stage/venue configurations.
+ *
+ * Templates produce the same objects as the editor (see $lib/stores/project),
+ * so they pass the project schemas in $lib/schemas when saved.
  */
 
+import type {
+	ShapeObject,
+	HangingPositionObject,
+	InstrumentObject,
+	AnnotationObject,
+	HangingPositionType
+} from '$lib/stores/project.svelte';
+import type { Geometry } from '$lib/types';
+
+// ============================================================================
+// Object Builders
+// ============================================================================
+
+/** A reference line or outline shape */
+function shape(
+	id: string,
+	name: string,
+	geometry: Geometry,
+	stroke: string,
+	strokeWidth: number
+): ShapeObject {
+	return {
+		id,
+		objectType: 'shape',
+		name,
+		locked: false,
+		visible: true,
+		geometry,
+		fill: 'transparent',
+		stroke,
+		strokeWidth
+	};
+}
+
+/** A hanging position between two points */
+function position(
+	id: string,
+	name: string,
+	positionType: HangingPositionType,
+	[x1, y1, x2, y2]: [number, number, number, number]
+): HangingPositionObject {
+	return {
+		id,
+		objectType: 'hanging-position',
+		name,
+		locked: false,
+		visible: true,
+		positionType,
+		x1,
+		y1,
+		x2,
+		y2
+	};
+}
+
+/** An instrument hung on a position */
+function instrument(
+	id: string,
+	instrumentType: string,
+	hangingPositionId: string,
+	positionOnBar: number,
+	channel: number,
+	purpose: string
+): InstrumentObject {
+	return {
+		id,
+		objectType: 'instrument',
+		name: 'Instrument',
+		locked: false,
+		visible: true,
+		hangingPositionId,
+		positionOnBar,
+		instrumentType,
+		profileId: instrumentType,
+		rotation: 0,
+		channel,
+		unitNumber: channel,
+		purpose
+	};
+}
+
+/** A text label */
+function label(id: string, text: string, x: number, y: number): AnnotationObject {
+	return {
+		id,
+		objectType: 'annotation',
+		name: text,
+		locked: false,
+		visible: true,
+		annotationType: 'text',
+		x,
+		y,
+		text
+	};
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
 /**
  * Generic stage layout with basic shapes
  */
@@ -12,73 +115,37 @@ export function createGenericStageLayout() {
 	return {
 		shapes: [
 			// Plaster line (reference line at y=0)
-			{
-				id: 'plaster-line',
-				type: 'shape',
-				geometry: {
-					type: 'line',
-					x1: -400,
-					y1: 0,
-					x2: 400,
-					y2: 0
-				},
-				style: {
-					stroke: '#f5c2e7',
-					strokeWidth: 2,
-					dashArray: '10,5'
-				}
-			},
+			shape(
+				'plaster-line',
+				'Plaster Line',
+				{ type: 'line', x1: -400, y1: 0, x2: 400, y2: 0 },
+				'#f5c2e7',
+				2
+			),
 			// Center line
-			{
-				id: 'center-line',
-				type: 'shape',
-				geometry: {
-					type: 'line',
-					x1: 0,
-					y1: -300,
-					x2: 0,
-					y2: 600
-				},
-				style: {
-					stroke: '#a6e3a1',
-					strokeWidth: 2,
-					dashArray: '10,5'
-				}
-			},
+			shape(
+				'center-line',
+				'Center Line',
+				{ type: 'line', x1: 0, y1: -300, x2: 0, y2: 600 },
+				'#a6e3a1',
+				2
+			),
 			// Stage edge rectangle
-			{
-				id: 'stage-edge',
-				type: 'shape',
-				geometry: {
-					type: 'rect',
-					x: -400,
-					y: 0,
-					width: 800,
-					height: 100
-				},
-				style: {
-					stroke: '#45475a',
-					strokeWidth: 2,
-					fill: 'transparent'
-				}
-			},
+			shape(
+				'stage-edge',
+				'Stage Edge',
+				{ type: 'rect', x: -400, y: 0, width: 800, height: 100 },
+				'#45475a',
+				2
+			),
 			// Apron line
-			{
-				id: 'apron-line',
-				type: 'shape',
-				geometry: {
-					type: 'line',
-					x1: -400,
-					y1: 100,
-					x2: 400,
-					y2: 100
-				},
-				style: {
-					stroke: '#6c7086',
-					strokeWidth: 1,
-					dashArray: '5,5'
-				}
-			}
+			shape(
+				'apron-line',
+				'Apron Line',
+				{ type: 'line', x1: -400, y1: 100, x2: 400, y2: 100 },
+				'#6c7086',
+				1
+			)
 		],
 		hangingPositions: [],
 		instruments: [],
@@ -95,106 +162,24 @@ export function createTheaterBoomLayout() {
 		shapes: [],
 		hangingPositions: [
 			// Left box boom
-			{
-				id: 'boom-left',
-				type: 'hanging-position',
-				name: 'Left Box Boom',
-				x1: -500,
-				y1: 100,
-				x2: -350,
-				y2: 400,
-				barLength: 150,
-				unit: 'feet'
-			},
+			position('boom-left', 'Left Box Boom', 'box-boom', [-500, 100, -350, 400]),
 			// Right box boom
-			{
-				id: 'boom-right',
-				type: 'hanging-position',
-				name: 'Right Box Boom',
-				x1: 350,
-				y1: 100,
-				x2: 500,
-				y2: 400,
-				barLength: 150,
-				unit: 'feet'
-			}
+			position('boom-right', 'Right Box Boom', 'box-boom', [350, 100, 500, 400])
 		],
 		instruments: [
 			// Left boom instruments
-			{
-				id: 'inst-boom-l-1',
-				type: 'instrument',
-				channel: 1,
-				unit: 1,
-				focus: 'Booth',
-				hangingPositionId: 'boom-left',
-				positionOnBar: 0.15
-			},
-			{
-				id: 'inst-boom-l-2',
-				type: 'instrument',
-				channel: 2,
-				unit: 2,
-				focus: 'Booth',
-				hangingPositionId: 'boom-left',
-				positionOnBar: 0.45
-			},
-			{
-				id: 'inst-boom-l-3',
-				type: 'instrument',
-				channel: 3,
-				unit: 3,
-				focus: 'Booth',
-				hangingPositionId: 'boom-left',
-				positionOnBar: 0.75
-			},
+			instrument('inst-boom-l-1', 'ers-26', 'boom-left', 0.15, 1, 'Booth'),
+			instrument('inst-boom-l-2', 'ers-26', 'boom-left', 0.45, 2, 'Booth'),
+			instrument('inst-boom-l-3', 'ers-26', 'boom-left', 0.75, 3, 'Booth'),
 			// Right boom instruments
-			{
-				id: 'inst-boom-r-1',
-				type: 'instrument',
-				channel: 4,
-				unit: 4,
-				focus: 'Booth',
-				hangingPositionId: 'boom-right',
-				positionOnBar: 0.15
-			},
-			{
-				id: 'inst-boom-r-2',
-				type: 'instrument',
-				channel: 5,
-				unit: 5,
-				focus: 'Booth',
-				hangingPositionId: 'boom-right',
-				positionOnBar: 0.45
-			},
-			{
-				id: 'inst-boom-r-3',
-				type: 'instrument',
-				channel: 6,
-				unit: 6,
-				focus: 'Booth',
-				hangingPositionId: 'boom-right',
-				positionOnBar: 0.75
-			}
+			instrument('inst-boom-r-1', 'ers-26', 'boom-right', 0.15, 4, 'Booth'),
+			instrument('inst-boom-r-2', 'ers-26', 'boom-right', 0.45, 5, 'Booth'),
+			instrument('inst-boom-r-3', 'ers-26', 'boom-right', 0.75, 6, 'Booth')
 		],
 		setPieces: [],
 		annotations: [
-			{
-				id: 'ann-boom-l',
-				type: 'annotation',
-				text: 'LX Booms',
-				x: -425,
-				y: 250,
-				rotation: 90
-			},
-			{
-				id: 'ann-boom-r',
-				type: 'annotation',
-				text: 'LX Booms',
-				x: 425,
-				y: 250,
-				rotation: -90
-			}
+			label('ann-boom-l', 'LX Booms', -425, 250),
+			label('ann-boom-r', 'LX Booms', 425, 250)
 		]
 	};
 }
@@ -207,130 +192,45 @@ export function createConcertLayout() {
 		shapes: [],
 		hangingPositions: [
 			// Stage right electric
-			{
-				id: 'elec-sr',
-				type: 'hanging-position',
-				name: 'SR Electric',
-				x1: 300,
-				y1: 0,
-				x2: 500,
-				y2: 0,
-				barLength: 200,
-				unit: 'feet'
-			},
+			position('elec-sr', 'SR Electric', 'electric', [300, 0, 500, 0]),
 			// Stage left electric
-			{
-				id: 'elec-sl',
-				type: 'hanging-position',
-				name: 'SL Electric',
-				x1: -500,
-				y1: 0,
-				x2: -300,
-				y2: 0,
-				barLength: 200,
-				unit: 'feet'
-			},
+			position('elec-sl', 'SL Electric', 'electric', [-500, 0, -300, 0]),
 			// Center electric
-			{
-				id: 'elec-center',
-				type: 'hanging-position',
-				name: 'Center Electric',
-				x1: -100,
-				y1: -50,
-				x2: 100,
-				y2: -50,
-				barLength: 200,
-				unit: 'feet'
-			},
+			position('elec-center', 'Center Electric', 'electric', [-100, -50, 100, -50]),
 			// Back electric
-			{
-				id: 'elec-back',
-				type: 'hanging-position',
-				name: 'Back Electric',
-				x1: -400,
-				y1: 300,
-				x2: 400,
-				y2: 300,
-				barLength: 800,
-				unit: 'feet'
-			}
+			position('elec-back', 'Back Electric', 'electric', [-400, 300, 400, 300])
 		],
 		instruments: [
 			// SR Electric (8 instruments)
-			...Array.from({ length: 8 }, (_, i) => ({
-				id: `inst-sr-${i + 1}`,
-				type: 'instrument' as const,
-				channel: i + 1,
-				unit: i + 1,
-				focus: 'Side Wash',
-				hangingPositionId: 'elec-sr',
-				positionOnBar: (i + 1) / 9
-			})),
+			...Array.from({ length: 8 }, (_, i) =>
+				instrument(`inst-sr-${i + 1}`, 'par-64', 'elec-sr', (i + 1) / 9, i + 1, 'Side Wash')
+			),
 			// SL Electric (8 instruments)
-			...Array.from({ length: 8 }, (_, i) => ({
-				id: `inst-sl-${i + 1}`,
-				type: 'instrument' as const,
-				channel: i + 9,
-				unit: i + 9,
-				focus: 'Side Wash',
-				hangingPositionId: 'elec-sl',
-				positionOnBar: (i + 1) / 9
-			})),
+			...Array.from({ length: 8 }, (_, i) =>
+				instrument(`inst-sl-${i + 1}`, 'par-64', 'elec-sl', (i + 1) / 9, i + 9, 'Side Wash')
+			),
 			// Center Electric (6 instruments)
-			...Array.from({ length: 6 }, (_, i) => ({
-				id: `inst-center-${i + 1}`,
-				type: 'instrument' as const,
-				channel: i + 17,
-				unit: i + 17,
-				focus: 'Center Wash',
-				hangingPositionId: 'elec-center',
-				positionOnBar: (i + 1) / 7
-			})),
+			...Array.from({ length: 6 }, (_, i) =>
+				instrument(
+					`inst-center-${i + 1}`,
+					'par-64',
+					'elec-center',
+					(i + 1) / 7,
+					i + 17,
+					'Center Wash'
+				)
+			),
 			// Back Electric (12 instruments)
-			...Array.from({ length: 12 }, (_, i) => ({
-				id: `inst-back-${i + 1}`,
-				type: 'instrument' as const,
-				channel: i + 23,
-				unit: i + 23,
-				focus: 'Back Wash',
-				hangingPositionId: 'elec-back',
-				positionOnBar: (i + 1) / 13
-			}))
+			...Array.from({ length: 12 }, (_, i) =>
+				instrument(`inst-back-${i + 1}`, 'par-64', 'elec-back', (i + 1) / 13, i + 23, 'Back Wash')
+			)
 		],
 		setPieces: [],
 		annotations: [
-			{
-				id: 'ann-sr',
-				type: 'annotation',
-				text: 'SR Electric',
-				x: 400,
-				y: -30,
-				rotation: 0
-			},
-			{
-				id: 'ann-sl',
-				type: 'annotation',
-				text: 'SL Electric',
-				x: -400,
-				y: -30,
-				rotation: 0
-			},
-			{
-				id: 'ann-center',
-				type: 'annotation',
-				text: 'Center Electric',
-				x: 0,
-				y: -80,
-				rotation: 0
-			},
-			{
-				id: 'ann-back',
-				type: 'annotation',
-				text: 'Back Electric',
-				x: 0,
-				y: 270,
-				rotation: 0
-			}
+			label('ann-sr', 'SR Electric', 400, -30),
+			label('ann-sl', 'SL Electric', -400, -30),
+			label('ann-center', 'Center Electric', 0, -80),
+			label('ann-back', 'Back Electric', 0, 270)
 		]
 	};
 }
@@ -387,7 +287,7 @@ export function createLayoutFromTemplate(
 ): Record<string, unknown[]> {
 	const template = getLayoutTemplate(type);
 	if (!template) {
-		return createGenericStageLayout(scale);
+		return createGenericStageLayout();
 	}
 	return template.fn(scale);
 }
@@ -0,0 +1,37 @@
+/**
+ * Plot Scale
+ *
+ * The scale between canvas (world) coordinates and real-world lengths. World
+ * coordinates are in pixels at zoom 1x; reports use these to turn plot
+ * geometry into feet and meters.
+ */
+
+/** World pixels per foot */
+export const PIXELS_PER_FOOT = 48;
+
+/** Meters in a foot */
+export const METERS_PER_FOOT = 0.3048;
+
+/** World pixels per meter (~157.5) */
+export const PIXELS_PER_METER = PIXELS_PER_FOOT / METERS_PER_FOOT;
+
+/**
+ * Convert a world-space length to meters
+ */
+export function pixelsToMeters(pixels: number): number {
+	return pixels / PIXELS_PER_METER;
+}
+
+/**
+ * Convert a length in feet to meters
+ */
+export function feetToMeters(feet: number): number {
+	return feet * METERS_PER_FOOT;
+}
+
+/**
+ * Convert a length in meters to feet
+ */
+export function metersToFeet(meters: number): number {
+	return meters / METERS_PER_FOOT;
+}
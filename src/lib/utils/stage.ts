@@ -0,0 +1,73 @@
+/**
+ * Stage Orientation
+ *
+ * Which way the stage directions run on the plot. Stage left is house right,
+ * the -x side of the plot, and downstage faces the house, toward +y (the way
+ * calculateInstrumentRotation points instruments). The layout templates follow
+ * the same convention: the concert layout's SL Electric hangs at x -500 to -300
+ * and the generic stage's apron is downstage of the plaster line at y 100.
+ *
+ * Unit numbering, channel assignment, auto-patch and the focus chart all read
+ * stage directions through these helpers.
+ */
+
+/** A direction on the plot */
+export interface StageVector {
+	readonly x: number;
+	readonly y: number;
+}
+
+/** Unit vector toward stage left */
+export const STAGE_LEFT: StageVector = { x: -1, y: 0 };
+
+/** Unit vector toward stage right */
+export const STAGE_RIGHT: StageVector = { x: 1, y: 0 };
+
+/** Unit vector toward downstage (the house) */
+export const DOWNSTAGE: StageVector = { x: 0, y: 1 };
+
+/** Unit vector toward upstage */
+export const UPSTAGE: StageVector = { x: 0, y: -1 };
+
+/**
+ * Where a point is in stage terms, in world units from an origin
+ */
+export interface StageOffset {
+	/** Distance toward stage left (negative for stage right) */
+	left: number;
+	/** Distance toward downstage (negative for upstage) */
+	downstage: number;
+}
+
+/**
+ * Offset of a point from an origin in stage terms
+ *
+ * @param point - Point on the plot
+ * @param origin - Where to measure from (the plot origin by default)
+ */
+export function getStageOffset(
+	point: { x: number; y: number },
+	origin: { x: number; y: number } = { x: 0, y: 0 }
+): StageOffset {
+	const dx = point.x - origin.x;
+	const dy = point.y - origin.y;
+	return {
+		left: dx * STAGE_LEFT.x + dy * STAGE_LEFT.y,
+		downstage: dx * DOWNSTAGE.x + dy * DOWNSTAGE.y
+	};
+}
+
+/**
+ * The downstage-left corner of an area on the plot
+ */
+export function getDownstageLeftCorner(bounds: {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}): { x: number; y: number } {
+	return {
+		x: STAGE_LEFT.x < 0 ? bounds.x : bounds.x + bounds.width,
+		y: DOWNSTAGE.y > 0 ? bounds.y + bounds.height : bounds.y
+	};
+}
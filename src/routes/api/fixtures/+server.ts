@@ -0,0 +1,84 @@
+/**
+ * Fixture Profiles API - custom fixture profiles saved to the user's account
+ *
+ * GET /api/fixtures - List the user's custom profiles
+ * GET /api/fixtures?projectId=... - Also include the profiles of everyone on the project
+ * POST /api/fixtures - Create a custom profile
+ *
+ * Built-in profiles ship with the app ($lib/fixtures) and are not listed here.
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { fixtureProfiles } from '$lib/db/schema';
+import { getProjectAccess, getProjectMemberIds } from '$lib/collaborators/server';
+import { fixtureProfileInputSchema, validate } from '$lib/schemas';
+import {
+	loadCustomProfiles,
+	toFixtureProfile,
+	toFixtureProfileColumns
+} from '$lib/fixtures/server';
+
+/**
+ * GET - List custom profiles
+ * With a projectId, the profiles of the project's owner and collaborators are
+ * included so everyone can see the fixtures the project uses.
+ */
+export const GET: RequestHandler = async ({ url, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const userIds = [locals.user.id];
+
+		const projectId = url.searchParams.get('projectId');
+		if (projectId) {
+			const access = await getProjectAccess(projectId, locals.user.id);
+			if (!access) {
+				return json({ error: 'Project not found' }, { status: 404 });
+			}
+			userIds.push(...(await getProjectMemberIds(access.project)));
+		}
+
+		const profiles = await loadCustomProfiles(userIds);
+
+		return json({ profiles });
+	} catch (error) {
+		console.error('[API] Failed to list fixture profiles:', error);
+		return json({ error: 'Failed to load fixture profiles' }, { status: 500 });
+	}
+};
+
+/**
+ * POST - Create a custom profile
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+
+		const result = validate(fixtureProfileInputSchema, body);
+		if (!result.success) {
+			return json(
+				{ error: 'Invalid fixture profile', fieldErrors: result.errors },
+				{ status: 400 }
+			);
+		}
+
+		const [row] = await db
+			.insert(fixtureProfiles)
+			.values({ userId: locals.user.id, ...toFixtureProfileColumns(result.value) })
+			.returning();
+
+		return json({ profile: toFixtureProfile(row) }, { status: 201 });
+	} catch (error) {
+		console.error('[API] Failed to create fixture profile:', error);
+		return json({ error: 'Failed to create fixture profile' }, { status: 500 });
+	}
+};
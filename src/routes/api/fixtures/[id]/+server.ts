@@ -0,0 +1,80 @@
+/**
+ * Single Fixture Profile API
+ *
+ * PUT /api/fixtures/[id] - Replace a custom profile
+ * DELETE /api/fixtures/[id] - Delete a custom profile
+ *
+ * Only the account that created a profile can change it. Instruments that
+ * still reference a deleted profile fall back to the generic profile for
+ * their symbol.
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { fixtureProfiles } from '$lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { fixtureProfileInputSchema, validate } from '$lib/schemas';
+import { toFixtureProfile, toFixtureProfileColumns } from '$lib/fixtures/server';
+
+/**
+ * PUT - Replace a custom profile
+ */
+export const PUT: RequestHandler = async ({ params, request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+
+		const result = validate(fixtureProfileInputSchema, body);
+		if (!result.success) {
+			return json(
+				{ error: 'Invalid fixture profile', fieldErrors: result.errors },
+				{ status: 400 }
+			);
+		}
+
+		const [row] = await db
+			.update(fixtureProfiles)
+			.set(toFixtureProfileColumns(result.value))
+			.where(and(eq(fixtureProfiles.id, params.id), eq(fixtureProfiles.userId, locals.user.id)))
+			.returning();
+
+		if (!row) {
+			return json({ error: 'Fixture profile not found' }, { status: 404 });
+		}
+
+		return json({ profile: toFixtureProfile(row) });
+	} catch (error) {
+		console.error('[API] Failed to update fixture profile:', error);
+		return json({ error: 'Failed to update fixture profile' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE - Remove a custom profile
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const [deleted] = await db
+			.delete(fixtureProfiles)
+			.where(and(eq(fixtureProfiles.id, params.id), eq(fixtureProfiles.userId, locals.user.id)))
+			.returning({ id: fixtureProfiles.id });
+
+		if (!deleted) {
+			return json({ error: 'Fixture profile not found' }, { status: 404 });
+		}
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('[API] Failed to delete fixture profile:', error);
+		return json({ error: 'Failed to delete fixture profile' }, { status: 500 });
+	}
+};
@@ -0,0 +1,88 @@
+/**
+ * Project Invitation API
+ *
+ * POST /api/invitations/[id] - Accept an invitation
+ * DELETE /api/invitations/[id] - Decline an invitation
+ *
+ * Invitations are addressed to an email address, so only a user signed in
+ * with that address can answer them.
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { projectCollaborators } from '$lib/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { normalizeEmail } from '$lib/collaborators';
+
+/**
+ * Condition matching a pending invitation addressed to the user
+ */
+function pendingInvitation(id: string, email: string) {
+	return and(
+		eq(projectCollaborators.id, id),
+		eq(projectCollaborators.email, normalizeEmail(email)),
+		isNull(projectCollaborators.userId)
+	);
+}
+
+/**
+ * POST - Accept an invitation
+ */
+export const POST: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const [accepted] = await db
+			.update(projectCollaborators)
+			.set({ userId: locals.user.id, acceptedAt: new Date() })
+			.where(pendingInvitation(params.id, locals.user.email))
+			.returning({
+				id: projectCollaborators.id,
+				projectId: projectCollaborators.projectId,
+				role: projectCollaborators.role
+			});
+
+		if (!accepted) {
+			return json({ error: 'Invitation not found' }, { status: 404 });
+		}
+
+		console.log('[API] Invitation accepted', {
+			invitationId: accepted.id,
+			projectId: accepted.projectId
+		});
+
+		return json({ projectId: accepted.projectId, role: accepted.role });
+	} catch (error) {
+		console.error('[API] Failed to accept invitation:', error);
+		return json({ error: 'Failed to accept invitation' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE - Decline an invitation
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const [declined] = await db
+			.delete(projectCollaborators)
+			.where(pendingInvitation(params.id, locals.user.email))
+			.returning({ id: projectCollaborators.id });
+
+		if (!declined) {
+			return json({ error: 'Invitation not found' }, { status: 404 });
+		}
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('[API] Failed to decline invitation:', error);
+		return json({ error: 'Failed to decline invitation' }, { status: 500 });
+	}
+};
@@ -1,18 +1,24 @@
 /**
  * Projects API - List and Create
  *
- * GET /api/projects - List all projects for the authenticated user
+ * GET /api/projects - List projects the authenticated user owns or collaborates on
  * POST /api/projects - Create a new project
  */
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { db } from '$lib/db';
-import { projects } from '$lib/db/schema';
-import { eq, desc } from 'drizzle-orm';
+import { projects, projectCollaborators } from '$lib/db/schema';
+import { desc } from 'drizzle-orm';
 import { createLayoutFromTemplate } from '$lib/utils/layouts';
+import { stampSchemaVersion } from '$lib/sync/migrations';
+import { validateProjectFields } from '$lib/schemas';
+import { accessibleBy, collaboratorJoin, resolveProjectRole } from '$lib/collaborators/server';
 
 /**
  * GET - List all projects for the current user
+ *
+ * Includes projects shared with the user (accepted invitations); each project
+ * carries the user's `role` on it.
  */
 export const GET: RequestHandler = async ({ locals }) => {
 	// Require authentication
@@ -21,18 +27,27 @@ export const GET: RequestHandler = async ({ locals }) => {
 	}
 
 	try {
-		const userProjects = await db
+		const userId = locals.user.id;
+		const rows = await db
 			.select({
 				id: projects.id,
 				name: projects.name,
 				updatedAt: projects.updatedAt,
 				createdAt: projects.createdAt,
-				version: projects.version
+				version: projects.version,
+				ownerId: projects.userId,
+				collaboratorRole: projectCollaborators.role
 			})
 			.from(projects)
-			.where(eq(projects.userId, locals.user.id))
+			.leftJoin(projectCollaborators, collaboratorJoin(userId))
+			.where(accessibleBy(userId))
 			.orderBy(desc(projects.updatedAt));
 
+		const userProjects = rows.map(({ ownerId, collaboratorRole, ...project }) => ({
+			...project,
+			role: resolveProjectRole(ownerId, collaboratorRole, userId)
+		}));
+
 		return json({ projects: userProjects });
 	} catch (error) {
 		console.error('[API] Failed to list projects:', error);
@@ -62,6 +77,11 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Project name must be between 1 and 255 characters' }, { status: 400 });
 		}
 
+		const fieldErrors = validateProjectFields({ venue: body.venue, scale: body.scale });
+		if (fieldErrors.length > 0) {
+			return json({ error: 'Invalid project data', fieldErrors }, { status: 400 });
+		}
+
 		// Extract optional fields
 		const venue = body.venue ?? null;
 		const scale = body.scale ?? { unit: 'feet', pixelsPerUnit: 10 };
@@ -99,7 +119,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				name,
 				venue,
 				scale,
-				layers,
+				layers: stampSchemaVersion(layers),
 				metadata: { createdWith: 'LightsLite', layoutTemplate: body.layoutTemplate || null }
 			})
 			.returning({
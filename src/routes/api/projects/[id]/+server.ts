@@ -2,14 +2,31 @@
  * Single Project API - CRUD operations
  *
  * GET /api/projects/[id] - Get a single project
- * PUT /api/projects/[id] - Update a project
+ * PUT /api/projects/[id] - Update a project (optimistic concurrency, see below)
  * DELETE /api/projects/[id] - Delete a project
+ *
+ * Viewers and commenters can read the project, editors can change it and
+ * only owners can delete it (see $lib/collaborators).
  */
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { db } from '$lib/db';
 import { projects } from '$lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, sql } from 'drizzle-orm';
+import {
+	isSupportedSchemaVersion,
+	migrateProjectDocument,
+	type ProjectDocument
+} from '$lib/sync/migrations';
+import { hasProjectRole } from '$lib/collaborators';
+import { validateProjectFields } from '$lib/schemas';
+import { getProjectAccess } from '$lib/collaborators/server';
+
+/** Returned when a document is from a newer build than this one */
+const NEWER_SCHEMA_ERROR = 'Project was saved by a newer version of LightsLite';
+
+/** Fields that make up the versioned project document */
+const DOCUMENT_FIELDS = ['name', 'venue', 'scale', 'layers'] as const;
 
 /**
  * GET - Retrieve a single project
@@ -21,16 +38,14 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 	}
 
 	try {
-		const [project] = await db
-			.select()
-			.from(projects)
-			.where(and(eq(projects.id, params.id), eq(projects.userId, locals.user.id)))
-			.limit(1);
+		const access = await getProjectAccess(params.id, locals.user.id);
 
-		if (!project) {
+		if (!access) {
 			return json({ error: 'Project not found' }, { status: 404 });
 		}
 
+		const { project, role } = access;
+
 		console.log('[API] GET project', {
 			projectId: project.id,
 			projectName: project.name,
@@ -39,7 +54,7 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 			version: project.version
 		});
 
-		return json({ project });
+		return json({ project, role });
 	} catch (error) {
 		console.error('[API] Failed to get project:', error);
 		return json({ error: 'Failed to load project' }, { status: 500 });
@@ -48,6 +63,18 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 
 /**
  * PUT - Update a project
+ *
+ * Writes to the project document (name, venue, scale, layers) must include
+ * `baseVersion`: the server version the edit was based on. The write only
+ * succeeds if that is still the current version, and the version is
+ * incremented in the same statement. Stale writes get a 409 with the current
+ * server document, migrated to the current schema, so the client can resolve
+ * the conflict.
+ *
+ * Metadata-only writes (e.g. saved viewport) are not versioned.
+ *
+ * Every field is validated against the project schemas ($lib/schemas);
+ * invalid writes get a 400 with `fieldErrors` listing each problem.
  */
 export const PUT: RequestHandler = async ({ params, request, locals }) => {
 	// Require authentication
@@ -66,14 +93,30 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
 			shapesCount: body.layers?.shapes?.length ?? 0
 		});
 
+		// Never let a document from a newer build be overwritten by an older schema
+		if (body.layers !== undefined && !isSupportedSchemaVersion(body.layers)) {
+			return json({ error: NEWER_SCHEMA_ERROR }, { status: 400 });
+		}
+
+		// Upgrade documents from older builds before checking them against the current schemas
+		const layers =
+			typeof body.layers === 'object' && body.layers !== null && !Array.isArray(body.layers)
+				? migrateProjectDocument(body.layers)
+				: body.layers;
+
+		// Names are stored trimmed, so the trimmed name is the one validated
+		const name = typeof body.name === 'string' ? body.name.trim() : body.name;
+
+		const fieldErrors = validateProjectFields({ ...body, name, layers });
+		if (fieldErrors.length > 0) {
+			return json({ error: 'Invalid project data', fieldErrors }, { status: 400 });
+		}
+
 		// Build update object with only provided fields
 		const updates: Record<string, unknown> = {};
 
-		if (body.name !== undefined) {
-			if (typeof body.name !== 'string' || body.name.trim().length === 0) {
-				return json({ error: 'Invalid project name' }, { status: 400 });
-			}
-			updates.name = body.name.trim();
+		if (name !== undefined) {
+			updates.name = name;
 		}
 
 		if (body.venue !== undefined) {
@@ -85,31 +128,71 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
 		}
 
 		if (body.layers !== undefined) {
-			updates.layers = body.layers;
+			updates.layers = layers;
 		}
 
 		if (body.metadata !== undefined) {
 			updates.metadata = body.metadata;
 		}
 
-		// Check that project exists and belongs to user
-		const [existing] = await db
-			.select({ id: projects.id })
-			.from(projects)
-			.where(and(eq(projects.id, params.id), eq(projects.userId, locals.user.id)))
-			.limit(1);
+		const isDocumentWrite = DOCUMENT_FIELDS.some((field) => body[field] !== undefined);
+		if (isDocumentWrite && !Number.isInteger(body.baseVersion)) {
+			return json({ error: 'baseVersion is required when updating the project' }, { status: 400 });
+		}
+
+		// Check that project exists and the user may edit it
+		const access = await getProjectAccess(params.id, locals.user.id);
 
-		if (!existing) {
+		if (!access) {
 			return json({ error: 'Project not found' }, { status: 404 });
 		}
 
-		// Perform update
+		if (!hasProjectRole(access.role, 'editor')) {
+			return json({ error: 'You do not have permission to edit this project' }, { status: 403 });
+		}
+
+		// A document stored by a newer build cannot be merged against or overwritten
+		if (isDocumentWrite && !isSupportedSchemaVersion(access.project.layers as ProjectDocument)) {
+			return json({ error: NEWER_SCHEMA_ERROR }, { status: 400 });
+		}
+
+		if (!isDocumentWrite) {
+			const [updated] = await db
+				.update(projects)
+				.set(updates)
+				.where(eq(projects.id, params.id))
+				.returning();
+
+			return json({ project: updated });
+		}
+
+		// Compare-and-swap on the version so concurrent writers cannot overwrite each other
 		const [updated] = await db
 			.update(projects)
-			.set(updates)
-			.where(eq(projects.id, params.id))
+			.set({ ...updates, version: sql`${projects.version} + 1` })
+			.where(and(eq(projects.id, params.id), eq(projects.version, body.baseVersion)))
 			.returning();
 
+		if (!updated) {
+			const [current] = await db.select().from(projects).where(eq(projects.id, params.id)).limit(1);
+
+			// The client merges against this copy, so it must use the current schema
+			if (current && !isSupportedSchemaVersion(current.layers as ProjectDocument)) {
+				return json({ error: NEWER_SCHEMA_ERROR }, { status: 400 });
+			}
+			return json(
+				{
+					error: 'Project was changed by another session',
+					baseVersion: body.baseVersion,
+					project: current && {
+						...current,
+						layers: migrateProjectDocument((current.layers ?? {}) as ProjectDocument)
+					}
+				},
+				{ status: 409 }
+			);
+		}
+
 		return json({ project: updated });
 	} catch (error) {
 		console.error('[API] Failed to update project:', error);
@@ -127,17 +210,17 @@ export const DELETE: RequestHandler = async ({ params, locals }) => {
 	}
 
 	try {
-		// Check that project exists and belongs to user
-		const [existing] = await db
-			.select({ id: projects.id })
-			.from(projects)
-			.where(and(eq(projects.id, params.id), eq(projects.userId, locals.user.id)))
-			.limit(1);
-
-		if (!existing) {
+		// Check that project exists and the user owns it
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
 			return json({ error: 'Project not found' }, { status: 404 });
 		}
 
+		if (!hasProjectRole(access.role, 'owner')) {
+			return json({ error: 'Only owners can delete this project' }, { status: 403 });
+		}
+
 		// Delete the project (cascades to related tables)
 		await db.delete(projects).where(eq(projects.id, params.id));
 
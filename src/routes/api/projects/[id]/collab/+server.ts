@@ -0,0 +1,40 @@
+/**
+ * Collaboration Access API - who may join a project's live session
+ *
+ * GET /api/projects/[id]/collab - The signed-in user and their role on the project
+ *
+ * The collaboration relay ($lib/collab/server) calls this with the cookies of
+ * each WebSocket upgrade, so sessions are authenticated and given a role the
+ * same way as every other project route.
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectAccess } from '$lib/collaborators/server';
+import type { CollabAccess } from '$lib/collab';
+
+/**
+ * GET - The user's identity and role for the project's live session
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const result: CollabAccess = {
+			user: { id: locals.user.id, name: locals.user.name || locals.user.email },
+			role: access.role
+		};
+		return json(result);
+	} catch (error) {
+		console.error('[API] Failed to check collaboration access:', error);
+		return json({ error: 'Failed to check collaboration access' }, { status: 500 });
+	}
+};
@@ -0,0 +1,122 @@
+/**
+ * Project Collaborators API
+ *
+ * GET /api/projects/[id]/collaborators - List the owner, collaborators and pending invitations
+ * POST /api/projects/[id]/collaborators - Invite someone by email address
+ *
+ * Anyone with access can see who else has access; only owners can invite.
+ * Invitations are accepted by the invitee from their dashboard (see
+ * /api/invitations/[id]).
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { projectCollaborators, users } from '$lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { hasProjectRole } from '$lib/collaborators';
+import { getProjectAccess, parseInvitation, toCollaborator } from '$lib/collaborators/server';
+
+/**
+ * GET - List everyone with access to a project
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const [owner] = await db
+			.select({ id: users.id, name: users.name, email: users.email })
+			.from(users)
+			.where(eq(users.id, access.project.userId))
+			.limit(1);
+
+		const rows = await db
+			.select({ collaborator: projectCollaborators, name: users.name })
+			.from(projectCollaborators)
+			.leftJoin(users, eq(users.id, projectCollaborators.userId))
+			.where(eq(projectCollaborators.projectId, params.id))
+			.orderBy(asc(projectCollaborators.createdAt));
+
+		return json({
+			owner,
+			collaborators: rows.map(({ collaborator, name }) => toCollaborator(collaborator, name)),
+			role: access.role
+		});
+	} catch (error) {
+		console.error('[API] Failed to list collaborators:', error);
+		return json({ error: 'Failed to load collaborators' }, { status: 500 });
+	}
+};
+
+/**
+ * POST - Invite a collaborator
+ *
+ * Body: { email, role }
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const invitation = parseInvitation(await request.json());
+		if (typeof invitation === 'string') {
+			return json({ error: invitation }, { status: 400 });
+		}
+
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		if (!hasProjectRole(access.role, 'owner')) {
+			return json({ error: 'Only owners can invite collaborators' }, { status: 403 });
+		}
+
+		const [owner] = await db
+			.select({ email: users.email })
+			.from(users)
+			.where(eq(users.id, access.project.userId))
+			.limit(1);
+
+		if (owner && owner.email.toLowerCase() === invitation.email) {
+			return json({ error: 'The project owner already has access' }, { status: 400 });
+		}
+
+		const [collaborator] = await db
+			.insert(projectCollaborators)
+			.values({
+				projectId: params.id,
+				email: invitation.email,
+				role: invitation.role,
+				invitedBy: locals.user.id
+			})
+			.onConflictDoNothing()
+			.returning();
+
+		if (!collaborator) {
+			return json({ error: 'That person has already been invited' }, { status: 409 });
+		}
+
+		console.log('[API] Collaborator invited', {
+			projectId: params.id,
+			collaboratorId: collaborator.id,
+			role: collaborator.role
+		});
+
+		return json({ collaborator: toCollaborator(collaborator) }, { status: 201 });
+	} catch (error) {
+		console.error('[API] Failed to invite collaborator:', error);
+		return json({ error: 'Failed to invite collaborator' }, { status: 500 });
+	}
+};
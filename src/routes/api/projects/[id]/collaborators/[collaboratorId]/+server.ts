@@ -0,0 +1,116 @@
+/**
+ * Single Collaborator API
+ *
+ * PATCH /api/projects/[id]/collaborators/[collaboratorId] - Change a collaborator's role
+ * DELETE /api/projects/[id]/collaborators/[collaboratorId] - Remove a collaborator or cancel an invitation
+ *
+ * Only owners can change roles. Owners can remove anyone; other collaborators
+ * can only remove themselves (leave the project).
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { projectCollaborators } from '$lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { hasProjectRole, isProjectRole } from '$lib/collaborators';
+import { getProjectAccess, toCollaborator } from '$lib/collaborators/server';
+
+/**
+ * PATCH - Change a collaborator's role
+ *
+ * Body: { role }
+ */
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		if (!isProjectRole(body?.role)) {
+			return json({ error: 'role must be viewer, commenter, editor or owner' }, { status: 400 });
+		}
+
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		if (!hasProjectRole(access.role, 'owner')) {
+			return json({ error: 'Only owners can change roles' }, { status: 403 });
+		}
+
+		const [collaborator] = await db
+			.update(projectCollaborators)
+			.set({ role: body.role })
+			.where(
+				and(
+					eq(projectCollaborators.id, params.collaboratorId),
+					eq(projectCollaborators.projectId, params.id)
+				)
+			)
+			.returning();
+
+		if (!collaborator) {
+			return json({ error: 'Collaborator not found' }, { status: 404 });
+		}
+
+		return json({ collaborator: toCollaborator(collaborator) });
+	} catch (error) {
+		console.error('[API] Failed to update collaborator:', error);
+		return json({ error: 'Failed to update collaborator' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE - Remove a collaborator
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const [existing] = await db
+			.select({ id: projectCollaborators.id, userId: projectCollaborators.userId })
+			.from(projectCollaborators)
+			.where(
+				and(
+					eq(projectCollaborators.id, params.collaboratorId),
+					eq(projectCollaborators.projectId, params.id)
+				)
+			)
+			.limit(1);
+
+		if (!existing) {
+			return json({ error: 'Collaborator not found' }, { status: 404 });
+		}
+
+		const isSelf = existing.userId === locals.user.id;
+		if (!isSelf && !hasProjectRole(access.role, 'owner')) {
+			return json({ error: 'Only owners can remove collaborators' }, { status: 403 });
+		}
+
+		await db.delete(projectCollaborators).where(eq(projectCollaborators.id, existing.id));
+
+		console.log('[API] Collaborator removed', {
+			projectId: params.id,
+			collaboratorId: existing.id,
+			left: isSelf
+		});
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('[API] Failed to remove collaborator:', error);
+		return json({ error: 'Failed to remove collaborator' }, { status: 500 });
+	}
+};
@@ -7,11 +7,14 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { db } from '$lib/db';
 import { projects } from '$lib/db/schema';
-import { eq, and } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
+import { getProjectAccess } from '$lib/collaborators/server';
 
 /**
  * POST - Duplicate a project
+ *
+ * The copy always belongs to the requesting user; collaborators and share
+ * links are not copied.
  */
 export const POST: RequestHandler = async ({ params, locals }) => {
 	// Require authentication
@@ -20,17 +23,15 @@ export const POST: RequestHandler = async ({ params, locals }) => {
 	}
 
 	try {
-		// Check that source project exists and belongs to user
-		const [source] = await db
-			.select()
-			.from(projects)
-			.where(and(eq(projects.id, params.id), eq(projects.userId, locals.user.id)))
-			.limit(1);
-
-		if (!source) {
+		// Check that source project exists - any role may copy it into their own projects
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
 			return json({ error: 'Project not found' }, { status: 404 });
 		}
 
+		const source = access.project;
+
 		// Create duplicate with new ID and modified name
 		const duplicateName = `${source.name} (Copy)`;
 
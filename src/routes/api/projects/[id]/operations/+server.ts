@@ -0,0 +1,155 @@
+/**
+ * Project Operations API - Delta sync
+ *
+ * POST /api/projects/[id]/operations - Apply a batch of operations to a project
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { projects } from '$lib/db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import {
+	CURRENT_SCHEMA_VERSION,
+	isSupportedSchemaVersion,
+	migrateProjectDocument,
+	type ProjectDocument
+} from '$lib/sync/migrations';
+import {
+	applyOperations,
+	parseOperationBatch,
+	validateAppliedOperations
+} from '$lib/sync/operations';
+import { hasProjectRole } from '$lib/collaborators';
+import { getProjectAccess } from '$lib/collaborators/server';
+import type { ProjectContent } from '$lib/sync/indexeddb';
+import type { Venue } from '$lib/stores/project.svelte';
+
+/** Returned when the stored document is from a newer build than this one */
+const NEWER_SCHEMA_ERROR = 'Project was saved by a newer version of LightsLite';
+
+/**
+ * POST - Apply an operation batch
+ *
+ * The batch must be based on the current server version (`baseVersion`).
+ * Every operation is applied to the stored document in memory; if any of them
+ * does not apply nothing is written. The result is saved in a single
+ * compare-and-swap update that also increments the version, so the batch is
+ * applied completely or not at all. Objects the batch creates or changes must
+ * match the project schemas; otherwise the batch is rejected with a 400 and
+ * `fieldErrors`. Stale batches get a 409 with the current
+ * server document, like PUT /api/projects/[id]. Projects stored by a newer
+ * build are rejected with a 400 rather than written over.
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const batch = parseOperationBatch(await request.json());
+		if (typeof batch === 'string') {
+			return json({ error: batch }, { status: 400 });
+		}
+
+		// Objects in the batch cannot be migrated, so they must match the stored schema
+		if (batch.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+			return json(
+				{ error: `Operations must use schema version ${CURRENT_SCHEMA_VERSION}` },
+				{ status: 400 }
+			);
+		}
+
+		// Check that project exists and the user may edit it
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		if (!hasProjectRole(access.role, 'editor')) {
+			return json({ error: 'You do not have permission to edit this project' }, { status: 403 });
+		}
+
+		const existing = access.project;
+
+		// A document stored by a newer build can neither be merged against nor written
+		if (!isSupportedSchemaVersion(existing.layers as ProjectDocument)) {
+			return json({ error: NEWER_SCHEMA_ERROR }, { status: 400 });
+		}
+
+		const layers = migrateProjectDocument((existing.layers ?? {}) as ProjectDocument);
+
+		// Stale batches get the current document (in the current schema) to merge with
+		if (existing.version !== batch.baseVersion) {
+			return json(
+				{
+					error: 'Project was changed by another session',
+					baseVersion: batch.baseVersion,
+					project: { ...existing, layers }
+				},
+				{ status: 409 }
+			);
+		}
+
+		const result = applyOperations(
+			{
+				name: existing.name,
+				venue: (existing.venue as Venue | null) ?? null,
+				shapes: layers.shapes ?? [],
+				hangingPositions: layers.hangingPositions ?? [],
+				instruments: layers.instruments ?? [],
+				setPieces: layers.setPieces ?? [],
+				annotations: layers.annotations ?? []
+			} as ProjectContent,
+			batch.operations
+		);
+
+		if (!result.success) {
+			return json({ error: result.error }, { status: 400 });
+		}
+
+		const fieldErrors = validateAppliedOperations(result.content, batch.operations);
+		if (fieldErrors.length > 0) {
+			return json({ error: 'Invalid project data', fieldErrors }, { status: 400 });
+		}
+
+		const { name, venue, ...collections } = result.content;
+
+		// Compare-and-swap on the version so concurrent writers cannot overwrite each other
+		const [updated] = await db
+			.update(projects)
+			.set({
+				name,
+				venue,
+				layers: { ...layers, ...collections, schemaVersion: CURRENT_SCHEMA_VERSION },
+				version: sql`${projects.version} + 1`
+			})
+			.where(and(eq(projects.id, params.id), eq(projects.version, batch.baseVersion)))
+			.returning({ id: projects.id, version: projects.version, updatedAt: projects.updatedAt });
+
+		if (!updated) {
+			const [current] = await db.select().from(projects).where(eq(projects.id, params.id)).limit(1);
+
+			if (current && !isSupportedSchemaVersion(current.layers as ProjectDocument)) {
+				return json({ error: NEWER_SCHEMA_ERROR }, { status: 400 });
+			}
+			return json(
+				{
+					error: 'Project was changed by another session',
+					baseVersion: batch.baseVersion,
+					project: current && {
+						...current,
+						layers: migrateProjectDocument((current.layers ?? {}) as ProjectDocument)
+					}
+				},
+				{ status: 409 }
+			);
+		}
+
+		return json({ project: updated });
+	} catch (error) {
+		console.error('[API] Failed to apply project operations:', error);
+		return json({ error: 'Failed to update project' }, { status: 500 });
+	}
+};
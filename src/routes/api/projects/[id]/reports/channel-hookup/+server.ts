@@ -5,9 +5,9 @@
  */
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { db } from '$lib/db';
-import { projects } from '$lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { migrateProjectDocument } from '$lib/sync/migrations';
+import { getProjectAccess } from '$lib/collaborators/server';
+import { getProjectFixtureLibrary } from '$lib/fixtures/server';
 import { generateChannelHookup, type ProjectLayers } from '$lib/reports';
 
 /**
@@ -20,19 +20,20 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 	}
 
 	try {
-		// Fetch the project
-		const [project] = await db
-			.select()
-			.from(projects)
-			.where(and(eq(projects.id, params.id), eq(projects.userId, locals.user.id)))
-			.limit(1);
+		// Fetch the project - any role may run reports
+		const access = await getProjectAccess(params.id, locals.user.id);
 
-		if (!project) {
+		if (!access) {
 			return json({ error: 'Project not found' }, { status: 404 });
 		}
 
+		const { project } = access;
+
 		// Generate the channel hookup report
-		const report = generateChannelHookup(project.name, project.layers as ProjectLayers | null);
+		const layers = migrateProjectDocument((project.layers ?? {}) as ProjectLayers);
+		// Resolve fixtures against the custom profiles of everyone on the project
+		const library = await getProjectFixtureLibrary(project);
+		const report = generateChannelHookup(project.name, layers, library);
 
 		return json({ report });
 	} catch (error) {
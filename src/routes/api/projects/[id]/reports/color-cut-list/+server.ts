@@ -0,0 +1,90 @@
+/**
+ * Color Cut List Report API Endpoint
+ *
+ * GET /api/projects/[id]/reports/color-cut-list - Get the color cut list report data
+ *
+ * Query parameters:
+ * - spares: spare cuts as a percentage of the cuts needed (default 10)
+ * - cutsPerSheet: cuts from one sheet (default: as many as fit on a sheet)
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { migrateProjectDocument } from '$lib/sync/migrations';
+import { getProjectAccess } from '$lib/collaborators/server';
+import { getProjectFixtureLibrary } from '$lib/fixtures/server';
+import {
+	generateColorCutList,
+	DEFAULT_CUT_LIST_OPTIONS,
+	type ColorCutListOptions,
+	type ProjectLayers
+} from '$lib/reports';
+
+/** Highest spare percentage accepted */
+const MAX_SPARE_PERCENT = 100;
+
+/** Most cuts per sheet accepted */
+const MAX_CUTS_PER_SHEET = 100;
+
+/**
+ * Read the cut list options from the query string, or null if they are invalid
+ */
+function parseOptions(searchParams: URLSearchParams): ColorCutListOptions | null {
+	const spares = searchParams.get('spares');
+	const cutsPerSheet = searchParams.get('cutsPerSheet');
+
+	const sparePercent = spares === null ? DEFAULT_CUT_LIST_OPTIONS.sparePercent : Number(spares);
+	if (!Number.isFinite(sparePercent) || sparePercent < 0 || sparePercent > MAX_SPARE_PERCENT) {
+		return null;
+	}
+
+	if (cutsPerSheet === null || cutsPerSheet === '') {
+		return { sparePercent, cutsPerSheet: null };
+	}
+	const cuts = Number(cutsPerSheet);
+	if (!Number.isInteger(cuts) || cuts < 1 || cuts > MAX_CUTS_PER_SHEET) {
+		return null;
+	}
+	return { sparePercent, cutsPerSheet: cuts };
+}
+
+/**
+ * GET - Generate and return the color cut list report
+ */
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const options = parseOptions(url.searchParams);
+	if (!options) {
+		return json(
+			{
+				error: `spares must be 0-${MAX_SPARE_PERCENT} and cutsPerSheet a whole number from 1 to ${MAX_CUTS_PER_SHEET}`
+			},
+			{ status: 400 }
+		);
+	}
+
+	try {
+		// Fetch the project - any role may run reports
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const { project } = access;
+
+		// Generate the color cut list report
+		const layers = migrateProjectDocument((project.layers ?? {}) as ProjectLayers);
+		// Resolve fixtures against the custom profiles of everyone on the project
+		const library = await getProjectFixtureLibrary(project);
+		const report = generateColorCutList(project.name, layers, library, options);
+
+		return json({ report });
+	} catch (error) {
+		console.error('[API] Failed to generate color cut list report:', error);
+		return json({ error: 'Failed to generate report' }, { status: 500 });
+	}
+};
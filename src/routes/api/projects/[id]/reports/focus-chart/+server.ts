@@ -0,0 +1,46 @@
+/**
+ * Focus Chart API Endpoint
+ *
+ * GET /api/projects/[id]/reports/focus-chart - Get the focus chart data
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { migrateProjectDocument } from '$lib/sync/migrations';
+import { getProjectAccess } from '$lib/collaborators/server';
+import { getProjectFixtureLibrary } from '$lib/fixtures/server';
+import { generateFocusChart, type ProjectLayers } from '$lib/reports';
+import type { Venue } from '$lib/stores/project.svelte';
+
+/**
+ * GET - Generate and return the focus chart
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		// Fetch the project - any role may run reports
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const { project } = access;
+
+		// Generate the focus chart
+		const layers = migrateProjectDocument((project.layers ?? {}) as ProjectLayers);
+		// Resolve fixtures against the custom profiles of everyone on the project
+		const library = await getProjectFixtureLibrary(project);
+		// Focus points are placed against the venue's center line and plaster line
+		const venue = project.venue as Venue | null;
+		const report = generateFocusChart(project.name, layers, library, venue);
+
+		return json({ report });
+	} catch (error) {
+		console.error('[API] Failed to generate focus chart:', error);
+		return json({ error: 'Failed to generate report' }, { status: 500 });
+	}
+};
@@ -0,0 +1,43 @@
+/**
+ * Gobo Pull List Report API Endpoint
+ *
+ * GET /api/projects/[id]/reports/gobo-pull-list - Get the gobo pull list report data
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { migrateProjectDocument } from '$lib/sync/migrations';
+import { getProjectAccess } from '$lib/collaborators/server';
+import { getProjectFixtureLibrary } from '$lib/fixtures/server';
+import { generateGoboPullList, type ProjectLayers } from '$lib/reports';
+
+/**
+ * GET - Generate and return the gobo pull list report
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		// Fetch the project - any role may run reports
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const { project } = access;
+
+		// Generate the gobo pull list report
+		const layers = migrateProjectDocument((project.layers ?? {}) as ProjectLayers);
+		// Resolve fixtures against the custom profiles of everyone on the project
+		const library = await getProjectFixtureLibrary(project);
+		const report = generateGoboPullList(project.name, layers, library);
+
+		return json({ report });
+	} catch (error) {
+		console.error('[API] Failed to generate gobo pull list report:', error);
+		return json({ error: 'Failed to generate report' }, { status: 500 });
+	}
+};
@@ -0,0 +1,47 @@
+/**
+ * Power Distribution Report API Endpoint
+ *
+ * GET /api/projects/[id]/reports/power-distribution - Get the power distribution report data
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { migrateProjectDocument } from '$lib/sync/migrations';
+import { getProjectAccess } from '$lib/collaborators/server';
+import { getProjectFixtureLibrary } from '$lib/fixtures/server';
+import { DEFAULT_POWER_SYSTEM } from '$lib/power';
+import { generatePowerDistribution, type ProjectLayers } from '$lib/reports';
+import type { Venue } from '$lib/stores/project.svelte';
+
+/**
+ * GET - Generate and return the power distribution report
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		// Fetch the project - any role may run reports
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const { project } = access;
+
+		// Generate the power distribution report
+		const layers = migrateProjectDocument((project.layers ?? {}) as ProjectLayers);
+		// Resolve fixtures against the custom profiles of everyone on the project
+		const library = await getProjectFixtureLibrary(project);
+		// Racks and distros are saved with the venue
+		const power = (project.venue as Venue | null)?.power ?? DEFAULT_POWER_SYSTEM;
+		const report = generatePowerDistribution(project.name, layers, library, power);
+
+		return json({ report });
+	} catch (error) {
+		console.error('[API] Failed to generate power distribution report:', error);
+		return json({ error: 'Failed to generate report' }, { status: 500 });
+	}
+};
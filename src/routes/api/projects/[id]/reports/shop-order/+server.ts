@@ -0,0 +1,72 @@
+/**
+ * Shop Order Report API Endpoint
+ *
+ * GET /api/projects/[id]/reports/shop-order - Get the shop order report data
+ *
+ * Query parameters:
+ * - spares: spares on each line as a percentage of the quantity needed (default 10)
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { migrateProjectDocument } from '$lib/sync/migrations';
+import { getProjectAccess } from '$lib/collaborators/server';
+import { getProjectFixtureLibrary } from '$lib/fixtures/server';
+import {
+	generateShopOrder,
+	DEFAULT_SHOP_ORDER_OPTIONS,
+	type ShopOrderOptions,
+	type ProjectLayers
+} from '$lib/reports';
+
+/** Highest spare percentage accepted */
+const MAX_SPARE_PERCENT = 100;
+
+/**
+ * Read the shop order options from the query string, or null if they are invalid
+ */
+function parseOptions(searchParams: URLSearchParams): ShopOrderOptions | null {
+	const spares = searchParams.get('spares');
+
+	const sparePercent = spares === null ? DEFAULT_SHOP_ORDER_OPTIONS.sparePercent : Number(spares);
+	if (!Number.isFinite(sparePercent) || sparePercent < 0 || sparePercent > MAX_SPARE_PERCENT) {
+		return null;
+	}
+	return { sparePercent };
+}
+
+/**
+ * GET - Generate and return the shop order report
+ */
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const options = parseOptions(url.searchParams);
+	if (!options) {
+		return json({ error: `spares must be 0-${MAX_SPARE_PERCENT}` }, { status: 400 });
+	}
+
+	try {
+		// Fetch the project - any role may run reports
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		const { project } = access;
+
+		// Generate the shop order report
+		const layers = migrateProjectDocument((project.layers ?? {}) as ProjectLayers);
+		// Resolve fixtures against the custom profiles of everyone on the project
+		const library = await getProjectFixtureLibrary(project);
+		const report = generateShopOrder(project.name, layers, library, options);
+
+		return json({ report });
+	} catch (error) {
+		console.error('[API] Failed to generate shop order report:', error);
+		return json({ error: 'Failed to generate report' }, { status: 500 });
+	}
+};
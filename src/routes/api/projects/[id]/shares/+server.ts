@@ -0,0 +1,156 @@
+/**
+ * Project Shares API
+ *
+ * GET /api/projects/[id]/shares - List share links and whether sharing is on
+ * POST /api/projects/[id]/shares - Create a share link
+ * PATCH /api/projects/[id]/shares - Turn sharing on or off for the project
+ *
+ * Sharing is off by default. Turning it off disables every link without
+ * revoking them, so they work again when it is turned back on.
+ * Only owners can manage sharing.
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { projects, projectShares } from '$lib/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import {
+	generateShareToken,
+	hashSharePassword,
+	parseShareSettings,
+	toShareLink
+} from '$lib/sharing/server';
+import { hasProjectRole } from '$lib/collaborators';
+import { getProjectAccess } from '$lib/collaborators/server';
+
+/**
+ * GET - List share links for a project
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		// Check that project exists and the user owns it
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		if (!hasProjectRole(access.role, 'owner')) {
+			return json({ error: 'Only owners can manage sharing' }, { status: 403 });
+		}
+
+		const shares = await db
+			.select()
+			.from(projectShares)
+			.where(eq(projectShares.projectId, params.id))
+			.orderBy(desc(projectShares.createdAt));
+
+		return json({
+			sharingEnabled: access.project.sharingEnabled,
+			shares: shares.map(toShareLink)
+		});
+	} catch (error) {
+		console.error('[API] Failed to list shares:', error);
+		return json({ error: 'Failed to load share links' }, { status: 500 });
+	}
+};
+
+/**
+ * POST - Create a share link
+ *
+ * Body: { label?, password?, expiresAt? } - all optional
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const settings = parseShareSettings(await request.json());
+		if (typeof settings === 'string') {
+			return json({ error: settings }, { status: 400 });
+		}
+
+		// Check that project exists and the user owns it
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		if (!hasProjectRole(access.role, 'owner')) {
+			return json({ error: 'Only owners can manage sharing' }, { status: 403 });
+		}
+
+		const [share] = await db
+			.insert(projectShares)
+			.values({
+				projectId: params.id,
+				token: generateShareToken(),
+				label: settings.label ?? null,
+				passwordHash: settings.password ? await hashSharePassword(settings.password) : null,
+				expiresAt: settings.expiresAt ?? null
+			})
+			.returning();
+
+		console.log('[API] Share link created', {
+			projectId: params.id,
+			shareId: share.id,
+			hasPassword: share.passwordHash !== null,
+			expiresAt: share.expiresAt
+		});
+
+		return json({ share: toShareLink(share) }, { status: 201 });
+	} catch (error) {
+		console.error('[API] Failed to create share:', error);
+		return json({ error: 'Failed to create share link' }, { status: 500 });
+	}
+};
+
+/**
+ * PATCH - Turn sharing on or off
+ *
+ * Body: { sharingEnabled: boolean }
+ */
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const body = await request.json();
+		if (typeof body?.sharingEnabled !== 'boolean') {
+			return json({ error: 'sharingEnabled must be a boolean' }, { status: 400 });
+		}
+
+		// Check that project exists and the user owns it
+		const access = await getProjectAccess(params.id, locals.user.id);
+
+		if (!access) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+
+		if (!hasProjectRole(access.role, 'owner')) {
+			return json({ error: 'Only owners can manage sharing' }, { status: 403 });
+		}
+
+		// Not a document change, so the version is left alone
+		const [updated] = await db
+			.update(projects)
+			.set({ sharingEnabled: body.sharingEnabled })
+			.where(eq(projects.id, params.id))
+			.returning({ id: projects.id, sharingEnabled: projects.sharingEnabled });
+
+		return json({ sharingEnabled: updated.sharingEnabled });
+	} catch (error) {
+		console.error('[API] Failed to update sharing:', error);
+		return json({ error: 'Failed to update sharing' }, { status: 500 });
+	}
+};
@@ -0,0 +1,136 @@
+/**
+ * Single Share Link API
+ *
+ * PATCH /api/projects/[id]/shares/[shareId] - Change a link's label, password or expiry
+ * DELETE /api/projects/[id]/shares/[shareId] - Revoke a link
+ *
+ * Revoked links are kept (so the owner can see what was shared) but never
+ * work again.
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/db';
+import { projectShares, type NewProjectShare } from '$lib/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { hashSharePassword, parseShareSettings, toShareLink } from '$lib/sharing/server';
+import { hasProjectRole } from '$lib/collaborators';
+import { getProjectAccess } from '$lib/collaborators/server';
+
+/**
+ * Check that the project exists and the user owns it.
+ * Returns an error response, or null if the user may manage its links.
+ */
+async function checkProjectOwner(projectId: string, userId: string): Promise<Response | null> {
+	const access = await getProjectAccess(projectId, userId);
+
+	if (!access) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	if (!hasProjectRole(access.role, 'owner')) {
+		return json({ error: 'Only owners can manage sharing' }, { status: 403 });
+	}
+
+	return null;
+}
+
+/**
+ * PATCH - Update a share link
+ *
+ * Body: { label?, password?, expiresAt? } - null removes the password or expiry
+ */
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const settings = parseShareSettings(await request.json());
+		if (typeof settings === 'string') {
+			return json({ error: settings }, { status: 400 });
+		}
+
+		const denied = await checkProjectOwner(params.id, locals.user.id);
+		if (denied) {
+			return denied;
+		}
+
+		const updates: Partial<NewProjectShare> = {};
+		if (settings.label !== undefined) {
+			updates.label = settings.label;
+		}
+		if (settings.password !== undefined) {
+			updates.passwordHash = settings.password ? await hashSharePassword(settings.password) : null;
+		}
+		if (settings.expiresAt !== undefined) {
+			updates.expiresAt = settings.expiresAt;
+		}
+
+		if (Object.keys(updates).length === 0) {
+			return json({ error: 'Nothing to update' }, { status: 400 });
+		}
+
+		// Revoked links stay revoked
+		const [share] = await db
+			.update(projectShares)
+			.set(updates)
+			.where(
+				and(
+					eq(projectShares.id, params.shareId),
+					eq(projectShares.projectId, params.id),
+					isNull(projectShares.revokedAt)
+				)
+			)
+			.returning();
+
+		if (!share) {
+			return json({ error: 'Share link not found' }, { status: 404 });
+		}
+
+		return json({ share: toShareLink(share) });
+	} catch (error) {
+		console.error('[API] Failed to update share:', error);
+		return json({ error: 'Failed to update share link' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE - Revoke a share link
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	// Require authentication
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const denied = await checkProjectOwner(params.id, locals.user.id);
+		if (denied) {
+			return denied;
+		}
+
+		const [share] = await db
+			.update(projectShares)
+			.set({ revokedAt: new Date() })
+			.where(
+				and(
+					eq(projectShares.id, params.shareId),
+					eq(projectShares.projectId, params.id),
+					isNull(projectShares.revokedAt)
+				)
+			)
+			.returning();
+
+		if (!share) {
+			return json({ error: 'Share link not found' }, { status: 404 });
+		}
+
+		console.log('[API] Share link revoked', { projectId: params.id, shareId: share.id });
+
+		return json({ share: toShareLink(share) });
+	} catch (error) {
+		console.error('[API] Failed to revoke share:', error);
+		return json({ error: 'Failed to revoke share link' }, { status: 500 });
+	}
+};
@@ -3,11 +3,16 @@
  *
  * Loads user's projects from database for server-side rendering.
  * Includes project metadata and instrument count for display.
+ *
+ * Projects shared with the user are returned separately (with their role
+ * and owner), along with invitations waiting to be accepted.
  */
 import type { PageServerLoad } from './$types';
 import { db } from '$lib/db';
-import { projects } from '$lib/db/schema';
-import { eq, desc } from 'drizzle-orm';
+import { projects, projectCollaborators, users } from '$lib/db/schema';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { normalizeEmail, type ProjectInvitation, type ProjectRole } from '$lib/collaborators';
+import { accessibleBy, collaboratorJoin, resolveProjectRole } from '$lib/collaborators/server';
 
 /**
  * Layers structure from projects table
@@ -20,7 +25,8 @@ interface ProjectLayers {
 
 export const load: PageServerLoad = async ({ locals }) => {
 	// User is guaranteed to exist by layout auth check
-	const userId = locals.user!.id;
+	const user = locals.user!;
+	const userId = user.id;
 
 	try {
 		const userProjects = await db
@@ -32,12 +38,37 @@ export const load: PageServerLoad = async ({ locals }) => {
 				version: projects.version,
 				layers: projects.layers,
 				scale: projects.scale,
-				venue: projects.venue
+				venue: projects.venue,
+				ownerId: projects.userId,
+				ownerName: users.name,
+				collaboratorRole: projectCollaborators.role
 			})
 			.from(projects)
-			.where(eq(projects.userId, userId))
+			.innerJoin(users, eq(users.id, projects.userId))
+			.leftJoin(projectCollaborators, collaboratorJoin(userId))
+			.where(accessibleBy(userId))
 			.orderBy(desc(projects.updatedAt));
 
+		const invitationRows = await db
+			.select({
+				id: projectCollaborators.id,
+				projectId: projectCollaborators.projectId,
+				projectName: projects.name,
+				role: projectCollaborators.role,
+				invitedBy: users.name,
+				createdAt: projectCollaborators.createdAt
+			})
+			.from(projectCollaborators)
+			.innerJoin(projects, eq(projects.id, projectCollaborators.projectId))
+			.leftJoin(users, eq(users.id, projectCollaborators.invitedBy))
+			.where(
+				and(
+					eq(projectCollaborators.email, normalizeEmail(user.email)),
+					isNull(projectCollaborators.userId)
+				)
+			)
+			.orderBy(desc(projectCollaborators.createdAt));
+
 		// Transform projects to include computed fields
 		const projectsWithStats = userProjects.map((project) => {
 			const layers = project.layers as ProjectLayers | null;
@@ -53,17 +84,30 @@ export const load: PageServerLoad = async ({ locals }) => {
 				instrumentCount,
 				positionCount,
 				scale: project.scale as { unit: string; pixelsPerUnit: number } | null,
-				venue: project.venue as { name?: string } | null
+				venue: project.venue as { name?: string } | null,
+				role: resolveProjectRole(project.ownerId, project.collaboratorRole, userId) as ProjectRole,
+				ownerName: project.ownerName,
+				isShared: project.ownerId !== userId
 			};
 		});
 
+		const invitations: ProjectInvitation[] = invitationRows.map((invitation) => ({
+			...invitation,
+			role: invitation.role as ProjectRole,
+			createdAt: invitation.createdAt.toISOString()
+		}));
+
 		return {
-			projects: projectsWithStats
+			projects: projectsWithStats.filter((project) => !project.isShared),
+			sharedProjects: projectsWithStats.filter((project) => project.isShared),
+			invitations
 		};
 	} catch (error) {
 		console.error('[App] Failed to load projects:', error);
 		return {
-			projects: []
+			projects: [],
+			sharedProjects: [],
+			invitations: []
 		};
 	}
 };
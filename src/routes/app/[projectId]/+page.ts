@@ -1,10 +1,11 @@
 /**
  * Project Editor page load function
  *
- * Loads project data from the API.
+ * Loads project data from the API, along with the user's role on the project.
  */
 import { error } from '@sveltejs/kit';
 import type { PageLoad } from './$types';
+import type { ProjectRole } from '$lib/collaborators';
 
 export const load: PageLoad = async ({ params, fetch }) => {
 	const response = await fetch(`/api/projects/${params.projectId}`);
@@ -18,6 +19,7 @@ export const load: PageLoad = async ({ params, fetch }) => {
 
 	const data = await response.json();
 	return {
-		project: data.project
+		project: data.project,
+		role: data.role as ProjectRole
 	};
 };
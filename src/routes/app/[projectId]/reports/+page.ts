@@ -9,6 +9,12 @@ import type { PageLoad } from './$types';
 import type { ChannelHookupReport } from '$lib/reports/generators/channel-hookup';
 import type { InstrumentScheduleReport } from '$lib/reports/generators/instrument-schedule';
 import type { DimmerScheduleReport } from '$lib/reports/generators/dimmer-schedule';
+import type { ColorCutListReport } from '$lib/reports/generators/color-cut-list';
+import type { GoboPullListReport } from '$lib/reports/generators/gobo-pull-list';
+import type { ShopOrderReport } from '$lib/reports/generators/shop-order';
+import type { PowerDistributionReport } from '$lib/reports/generators/power-distribution';
+import type { RiggingLoadReport } from '$lib/reports/generators/rigging-loads';
+import type { FocusChartReport } from '$lib/reports/generators/focus-chart';
 
 export interface ReportsPageData {
 	projectId: string;
@@ -17,6 +23,12 @@ export interface ReportsPageData {
 		channelHookup: ChannelHookupReport | null;
 		instrumentSchedule: InstrumentScheduleReport | null;
 		dimmerSchedule: DimmerScheduleReport | null;
+		colorCutList: ColorCutListReport | null;
+		goboPullList: GoboPullListReport | null;
+		shopOrder: ShopOrderReport | null;
+		powerDistribution: PowerDistributionReport | null;
+		riggingLoads: RiggingLoadReport | null;
+		focusChart: FocusChartReport | null;
 	};
 }
 
@@ -35,10 +47,26 @@ export const load: PageLoad = async ({ params, fetch }): Promise<ReportsPageData
 	const projectName = data.project?.name || 'Untitled Project';
 
 	// Fetch all reports in parallel for CSV export availability
-	const [channelHookupRes, instrumentScheduleRes, dimmerScheduleRes] = await Promise.all([
+	const [
+		channelHookupRes,
+		instrumentScheduleRes,
+		dimmerScheduleRes,
+		colorCutListRes,
+		goboPullListRes,
+		shopOrderRes,
+		powerDistributionRes,
+		riggingLoadsRes,
+		focusChartRes
+	] = await Promise.all([
 		fetch(`/api/projects/${params.projectId}/reports/channel-hookup`),
 		fetch(`/api/projects/${params.projectId}/reports/instrument-schedule`),
-		fetch(`/api/projects/${params.projectId}/reports/dimmer-schedule`)
+		fetch(`/api/projects/${params.projectId}/reports/dimmer-schedule`),
+		fetch(`/api/projects/${params.projectId}/reports/color-cut-list`),
+		fetch(`/api/projects/${params.projectId}/reports/gobo-pull-list`),
+		fetch(`/api/projects/${params.projectId}/reports/shop-order`),
+		fetch(`/api/projects/${params.projectId}/reports/power-distribution`),
+		fetch(`/api/projects/${params.projectId}/reports/rigging-loads`),
+		fetch(`/api/projects/${params.projectId}/reports/focus-chart`)
 	]);
 
 	// Parse responses (gracefully handle failures)
@@ -51,6 +79,20 @@ export const load: PageLoad = async ({ params, fetch }): Promise<ReportsPageData
 	const dimmerSchedule = dimmerScheduleRes.ok
 		? ((await dimmerScheduleRes.json()) as DimmerScheduleReport)
 		: null;
+	const colorCutList = colorCutListRes.ok
+		? ((await colorCutListRes.json()) as ColorCutListReport)
+		: null;
+	const goboPullList = goboPullListRes.ok
+		? ((await goboPullListRes.json()) as GoboPullListReport)
+		: null;
+	const shopOrder = shopOrderRes.ok ? ((await shopOrderRes.json()) as ShopOrderReport) : null;
+	const powerDistribution = powerDistributionRes.ok
+		? ((await powerDistributionRes.json()) as PowerDistributionReport)
+		: null;
+	const riggingLoads = riggingLoadsRes.ok
+		? ((await riggingLoadsRes.json()) as RiggingLoadReport)
+		: null;
+	const focusChart = focusChartRes.ok ? ((await focusChartRes.json()) as FocusChartReport) : null;
 
 	return {
 		projectId: params.projectId,
@@ -58,7 +100,13 @@ export const load: PageLoad = async ({ params, fetch }): Promise<ReportsPageData
 		reports: {
 			channelHookup,
 			instrumentSchedule,
-			dimmerSchedule
+			dimmerSchedule,
+			colorCutList,
+			goboPullList,
+			shopOrder,
+			powerDistribution,
+			riggingLoads,
+			focusChart
 		}
 	};
 };
@@ -0,0 +1,28 @@
+/**
+ * Color Cut List Report Page Load
+ *
+ * Fetches the color cut list report data from the API, passing on the spares
+ * and cuts-per-sheet options from the page's query string.
+ */
+import { error } from '@sveltejs/kit';
+import type { PageLoad } from './$types';
+import type { ColorCutListReport } from '$lib/reports';
+
+export const load: PageLoad = async ({ params, url, fetch }) => {
+	const response = await fetch(
+		`/api/projects/${params.projectId}/reports/color-cut-list${url.search}`
+	);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw error(404, 'Project not found');
+		}
+		throw error(response.status, 'Failed to load color cut list report');
+	}
+
+	const data = await response.json();
+	return {
+		report: data.report as ColorCutListReport,
+		projectId: params.projectId
+	};
+};
@@ -0,0 +1,25 @@
+/**
+ * Focus Chart Page Load
+ *
+ * Fetches the focus chart data from the API.
+ */
+import { error } from '@sveltejs/kit';
+import type { PageLoad } from './$types';
+import type { FocusChartReport } from '$lib/reports';
+
+export const load: PageLoad = async ({ params, fetch }) => {
+	const response = await fetch(`/api/projects/${params.projectId}/reports/focus-chart`);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw error(404, 'Project not found');
+		}
+		throw error(response.status, 'Failed to load focus chart');
+	}
+
+	const data = await response.json();
+	return {
+		report: data.report as FocusChartReport,
+		projectId: params.projectId
+	};
+};
@@ -0,0 +1,25 @@
+/**
+ * Gobo Pull List Report Page Load
+ *
+ * Fetches the gobo pull list report data from the API.
+ */
+import { error } from '@sveltejs/kit';
+import type { PageLoad } from './$types';
+import type { GoboPullListReport } from '$lib/reports';
+
+export const load: PageLoad = async ({ params, fetch }) => {
+	const response = await fetch(`/api/projects/${params.projectId}/reports/gobo-pull-list`);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw error(404, 'Project not found');
+		}
+		throw error(response.status, 'Failed to load gobo pull list report');
+	}
+
+	const data = await response.json();
+	return {
+		report: data.report as GoboPullListReport,
+		projectId: params.projectId
+	};
+};
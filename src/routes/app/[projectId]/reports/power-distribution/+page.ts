@@ -0,0 +1,25 @@
+/**
+ * Power Distribution Report Page Load
+ *
+ * Fetches the power distribution report data from the API.
+ */
+import { error } from '@sveltejs/kit';
+import type { PageLoad } from './$types';
+import type { PowerDistributionReport } from '$lib/reports';
+
+export const load: PageLoad = async ({ params, fetch }) => {
+	const response = await fetch(`/api/projects/${params.projectId}/reports/power-distribution`);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw error(404, 'Project not found');
+		}
+		throw error(response.status, 'Failed to load power distribution report');
+	}
+
+	const data = await response.json();
+	return {
+		report: data.report as PowerDistributionReport,
+		projectId: params.projectId
+	};
+};
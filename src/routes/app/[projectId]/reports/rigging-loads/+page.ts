@@ -0,0 +1,25 @@
+/**
+ * Rigging Load Report Page Load
+ *
+ * Fetches the rigging load report data from the API.
+ */
+import { error } from '@sveltejs/kit';
+import type { PageLoad } from './$types';
+import type { RiggingLoadReport } from '$lib/reports';
+
+export const load: PageLoad = async ({ params, fetch }) => {
+	const response = await fetch(`/api/projects/${params.projectId}/reports/rigging-loads`);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw error(404, 'Project not found');
+		}
+		throw error(response.status, 'Failed to load rigging load report');
+	}
+
+	const data = await response.json();
+	return {
+		report: data.report as RiggingLoadReport,
+		projectId: params.projectId
+	};
+};
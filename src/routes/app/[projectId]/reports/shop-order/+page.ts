@@ -0,0 +1,26 @@
+/**
+ * Shop Order Report Page Load
+ *
+ * Fetches the shop order report data from the API, passing on the spares
+ * option from the page's query string.
+ */
+import { error } from '@sveltejs/kit';
+import type { PageLoad } from './$types';
+import type { ShopOrderReport } from '$lib/reports';
+
+export const load: PageLoad = async ({ params, url, fetch }) => {
+	const response = await fetch(`/api/projects/${params.projectId}/reports/shop-order${url.search}`);
+
+	if (!response.ok) {
+		if (response.status === 404) {
+			throw error(404, 'Project not found');
+		}
+		throw error(response.status, 'Failed to load shop order report');
+	}
+
+	const data = await response.json();
+	return {
+		report: data.report as ShopOrderReport,
+		projectId: params.projectId
+	};
+};
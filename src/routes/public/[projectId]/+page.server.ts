@@ -1,18 +1,85 @@
 /**
  * Public Project View - Server Load
  *
- * View a project without authentication.
- * This route is publicly accessible and provides read-only access to projects.
+ * View a project without authentication through a share link:
+ * /public/[projectId]?token=<share token>
+ *
+ * The link only works while the owner has sharing enabled, the link has not
+ * been revoked and has not expired. Password-protected links show a password
+ * form first; once unlocked a cookie remembers it for this link. Wrong
+ * passwords are answered slowly and limited per link, so a leaked link's
+ * password cannot be guessed by brute force.
  */
-import { json } from '@sveltejs/kit';
-import type { PageServerLoad } from './$types';
+import { error, fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
 import { db } from '$lib/db';
-import { projects } from '$lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { projects, projectShares } from '$lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getShareStatus } from '$lib/sharing';
+import { migrateProjectDocument, type ProjectDocument } from '$lib/sync/migrations';
+import {
+	clearSharePasswordAttempts,
+	delayWrongSharePassword,
+	getShareAccessCookieName,
+	getShareAccessMaxAge,
+	getShareAccessValue,
+	getSharePasswordRetryAfter,
+	recordSharePasswordAttempt,
+	verifySharePassword
+} from '$lib/sharing/server';
+
+/**
+ * Find a usable share link for a project, or throw the matching error page
+ */
+async function findShare(projectId: string, token: string | null) {
+	// Unknown links look the same as missing projects
+	if (!token) {
+		error(404, 'Project not found');
+	}
+
+	const [row] = await db
+		.select({ share: projectShares, sharingEnabled: projects.sharingEnabled })
+		.from(projectShares)
+		.innerJoin(projects, eq(projects.id, projectShares.projectId))
+		.where(and(eq(projectShares.token, token), eq(projectShares.projectId, projectId)))
+		.limit(1);
+
+	if (!row) {
+		error(404, 'Project not found');
+	}
+
+	const status = getShareStatus(row.share);
+	if (status === 'revoked') {
+		error(410, 'This share link has been revoked');
+	}
+	if (status === 'expired') {
+		error(410, 'This share link has expired');
+	}
+	if (!row.sharingEnabled) {
+		error(403, 'Sharing is turned off for this project');
+	}
+
+	return row.share;
+}
+
+export const load: PageServerLoad = async ({ params, url, cookies }) => {
+	const share = await findShare(params.projectId, url.searchParams.get('token'));
+
+	// Password-protected links stay locked until the password has been entered
+	if (
+		share.passwordHash &&
+		cookies.get(getShareAccessCookieName(share.id)) !== getShareAccessValue(share)
+	) {
+		return {
+			project: null,
+			passwordRequired: true,
+			publicView: true
+		};
+	}
 
-export const load: PageServerLoad = async ({ params }) => {
+	let project;
 	try {
-		const [project] = await db
+		[project] = await db
 			.select({
 				id: projects.id,
 				name: projects.name,
@@ -26,16 +93,70 @@ export const load: PageServerLoad = async ({ params }) => {
 			.where(eq(projects.id, params.projectId))
 			.limit(1);
 
-		if (!project) {
-			return json({ error: 'Project not found' }, { status: 404 });
+		// Upgrade documents from older builds; a newer build's document throws
+		if (project) {
+			project = {
+				...project,
+				layers: migrateProjectDocument((project.layers ?? {}) as ProjectDocument)
+			};
 		}
+	} catch (err) {
+		console.error('[Public] Failed to load project:', err);
+		error(500, 'Failed to load project');
+	}
 
-		return {
-			project,
-			publicView: true
-		};
-	} catch (error) {
-		console.error('[Public] Failed to load project:', error);
-		return json({ error: 'Failed to load project' }, { status: 500 });
+	if (!project) {
+		error(404, 'Project not found');
+	}
+
+	return {
+		project,
+		passwordRequired: false,
+		publicView: true
+	};
+};
+
+export const actions: Actions = {
+	/**
+	 * Unlock a password-protected share link
+	 */
+	unlock: async ({ params, url, request, cookies }) => {
+		const share = await findShare(params.projectId, url.searchParams.get('token'));
+		const shareUrl = `${url.pathname}?token=${encodeURIComponent(share.token)}`;
+		if (!share.passwordHash) {
+			redirect(303, shareUrl);
+		}
+
+		// Too many wrong passwords lock the link for a while, before any hashing
+		const retryAfter = getSharePasswordRetryAfter(share.id);
+		if (retryAfter > 0) {
+			const minutes = Math.ceil(retryAfter / 60);
+			return fail(429, {
+				error: `Too many incorrect passwords. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+			});
+		}
+
+		const data = await request.formData();
+		const password = data.get('password');
+
+		recordSharePasswordAttempt(share.id);
+		if (
+			typeof password !== 'string' ||
+			!(await verifySharePassword(password, share.passwordHash))
+		) {
+			await delayWrongSharePassword();
+			return fail(400, { error: 'Incorrect password' });
+		}
+
+		clearSharePasswordAttempts(share.id);
+
+		cookies.set(getShareAccessCookieName(share.id), getShareAccessValue(share), {
+			path: url.pathname,
+			httpOnly: true,
+			sameSite: 'lax',
+			maxAge: getShareAccessMaxAge(share)
+		});
+
+		redirect(303, shareUrl);
 	}
 };
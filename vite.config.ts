@@ -1,7 +1,26 @@
 import { sveltekit } from '@sveltejs/kit/vite';
 import tailwindcss from '@tailwindcss/vite';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+import type { Server } from 'node:http';
+import { attachCollabServer } from './src/lib/collab/server';
+
+/**
+ * Mount the live collaboration relay on the local dev and preview servers
+ */
+function collab(): Plugin {
+	return {
+		name: 'lightslite-collab',
+		configureServer(server) {
+			if (server.httpServer) {
+				attachCollabServer(server.httpServer as Server);
+			}
+		},
+		configurePreviewServer(server) {
+			attachCollabServer(server.httpServer as Server);
+		}
+	};
+}
 
 export default defineConfig({
-	plugins: [tailwindcss(), sveltekit()]
+	plugins: [tailwindcss(), sveltekit(), collab()]
 });